@@ -22,4 +22,10 @@ module.exports = {
     "@typescript-eslint/explicit-function-return-type": "off",
     "@typescript-eslint/explicit-module-boundary-types": "off",
   },
+  overrides: [
+    {
+      files: ["src/**/__tests__/**/*.ts"],
+      env: { jest: true },
+    },
+  ],
 };
@@ -1,14 +1,14 @@
 module.exports = {
+  preset: "ts-jest",
   testEnvironment: "node",
-  testMatch: ["**/__tests__/**/*.js", "**/?(*.)+(spec|test).js"],
+  testMatch: ["**/__tests__/**/*.test.ts"],
   collectCoverageFrom: [
-    "src/**/*.js",
-    "!src/app.js",
+    "src/**/*.ts",
+    "!src/app.ts",
     "!src/config/**",
-    "!src/utils/**",
+    "!src/types/**",
   ],
   coverageDirectory: "coverage",
   coverageReporters: ["text", "lcov", "html"],
-  setupFilesAfterEnv: ["<rootDir>/src/__tests__/setup.js"],
   testTimeout: 10000,
 };
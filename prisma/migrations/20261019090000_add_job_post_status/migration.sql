@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "JobPostStatus" AS ENUM ('OPEN', 'ASSIGNED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "job_post" ADD COLUMN "status" "JobPostStatus" NOT NULL DEFAULT 'OPEN';
+ALTER TABLE "job_post" ADD COLUMN "assignedUserId" INTEGER;
+ALTER TABLE "job_post" ADD COLUMN "statusChangedAt" TIMESTAMP(3);
+ALTER TABLE "job_post" ADD COLUMN "cancelReason" TEXT;
+
+-- CreateTable
+CREATE TABLE "job_post_status_history" (
+    "id" SERIAL NOT NULL,
+    "jobPostId" INTEGER NOT NULL,
+    "fromStatus" "JobPostStatus",
+    "toStatus" "JobPostStatus" NOT NULL,
+    "changedById" INTEGER NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "job_post_status_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "job_post_status_idx" ON "job_post"("status");
+
+-- CreateIndex
+CREATE INDEX "job_post_status_history_jobPostId_idx" ON "job_post_status_history"("jobPostId");
+
+-- AddForeignKey
+ALTER TABLE "job_post" ADD CONSTRAINT "job_post_assignedUserId_fkey" FOREIGN KEY ("assignedUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "job_post_status_history" ADD CONSTRAINT "job_post_status_history_jobPostId_fkey" FOREIGN KEY ("jobPostId") REFERENCES "job_post"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "job_post_status_history" ADD CONSTRAINT "job_post_status_history_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill the initial OPEN entry for existing posts
+INSERT INTO "job_post_status_history" ("jobPostId", "fromStatus", "toStatus", "changedById", "createdAt")
+SELECT "id", NULL, 'OPEN', "authorId", "createdAt" FROM "job_post";
@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "JobApplicationStatus" AS ENUM ('PENDING', 'ACCEPTED', 'REJECTED', 'WITHDRAWN');
+
+-- CreateTable
+CREATE TABLE "job_application" (
+    "id" SERIAL NOT NULL,
+    "jobPostId" INTEGER NOT NULL,
+    "applicantId" INTEGER NOT NULL,
+    "equipmentId" INTEGER,
+    "proposedPrice" DECIMAL(65,30),
+    "message" TEXT,
+    "status" "JobApplicationStatus" NOT NULL DEFAULT 'PENDING',
+    "decidedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "job_application_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "job_application_jobPostId_applicantId_key" ON "job_application"("jobPostId", "applicantId");
+
+-- CreateIndex
+CREATE INDEX "job_application_applicantId_idx" ON "job_application"("applicantId");
+
+-- AddForeignKey
+ALTER TABLE "job_application" ADD CONSTRAINT "job_application_jobPostId_fkey" FOREIGN KEY ("jobPostId") REFERENCES "job_post"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "job_application" ADD CONSTRAINT "job_application_applicantId_fkey" FOREIGN KEY ("applicantId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "job_application" ADD CONSTRAINT "job_application_equipmentId_fkey" FOREIGN KEY ("equipmentId") REFERENCES "equipment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
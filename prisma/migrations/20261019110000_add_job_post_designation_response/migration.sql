@@ -0,0 +1,18 @@
+-- CreateEnum
+CREATE TYPE "DesignationStatus" AS ENUM ('PENDING', 'ACCEPTED', 'DECLINED', 'EXPIRED');
+
+-- AlterTable
+ALTER TABLE "job_post" ADD COLUMN "designationStatus" "DesignationStatus";
+ALTER TABLE "job_post" ADD COLUMN "designationExpiresAt" TIMESTAMP(3);
+ALTER TABLE "job_post" ADD COLUMN "designationRespondedAt" TIMESTAMP(3);
+ALTER TABLE "job_post" ADD COLUMN "designationDeclineReason" TEXT;
+
+-- Existing open designations get a fresh 24 hour window to be answered
+UPDATE "job_post"
+SET "designationStatus" = 'PENDING',
+    "designationExpiresAt" = CURRENT_TIMESTAMP + INTERVAL '24 hours'
+WHERE "type" = 'DESIGNATED' AND "status" = 'OPEN';
+
+UPDATE "job_post"
+SET "designationStatus" = 'ACCEPTED'
+WHERE "type" = 'DESIGNATED' AND "status" IN ('ASSIGNED', 'IN_PROGRESS', 'COMPLETED');
@@ -0,0 +1,13 @@
+-- Zero-pad arrival times ("6:30" -> "06:30") so they sort correctly as text
+UPDATE "job_post"
+SET "arrivalTime" = '0' || "arrivalTime"
+WHERE "arrivalTime" ~ '^[0-9]:[0-5][0-9]$';
+
+-- CreateIndex
+CREATE INDEX "job_post_status_createdAt_idx" ON "job_post"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "job_post_status_workCost_idx" ON "job_post"("status", "workCost");
+
+-- CreateIndex
+CREATE INDEX "job_post_equipmentLengths_idx" ON "job_post" USING GIN ("equipmentLengths");
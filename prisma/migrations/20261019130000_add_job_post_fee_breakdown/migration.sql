@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "job_post" ADD COLUMN     "feeBreakdown" JSONB,
+ADD COLUMN     "operatorPayout" DECIMAL(65,30),
+ADD COLUMN     "totalWorkCost" DECIMAL(65,30);
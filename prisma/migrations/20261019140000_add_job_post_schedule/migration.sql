@@ -0,0 +1,64 @@
+-- CreateEnum
+CREATE TYPE "WorkShift" AS ENUM ('MORNING', 'AFTERNOON');
+
+-- CreateEnum
+CREATE TYPE "WorkDurationUnit" AS ENUM ('HOUR', 'DAY', 'WEEK', 'MONTH');
+
+-- AlterTable
+ALTER TABLE "job_post" ADD COLUMN     "durationUnit" "WorkDurationUnit",
+ADD COLUMN     "durationValue" INTEGER,
+ADD COLUMN     "scheduledStartAt" TIMESTAMP(3),
+ADD COLUMN     "shift" "WorkShift",
+ADD COLUMN     "workDate" DATE;
+
+-- Legacy half-day and monthly schedules
+UPDATE "job_post" SET "workSchedule" = '4 hours', "shift" = 'MORNING' WHERE "workSchedule" = 'half day morning';
+UPDATE "job_post" SET "workSchedule" = '4 hours', "shift" = 'AFTERNOON' WHERE "workSchedule" = 'half day evening';
+UPDATE "job_post" SET "workSchedule" = '1 month' WHERE "workSchedule" = 'monthly rent';
+
+-- Work day from the relative date type, as of the day the post was created (KST).
+-- CUSTOM_DATE and free-form values carry no date and are left empty.
+UPDATE "job_post"
+SET "workDate" = ("createdAt" AT TIME ZONE 'UTC' AT TIME ZONE 'Asia/Seoul')::date
+  + CASE WHEN "workDateType" = 'TOMORROW' THEN 1 ELSE 0 END
+WHERE "workDateType" IN ('URGENT', 'TODAY', 'TOMORROW');
+
+-- Start time and shift from the (zero-padded) arrival time
+UPDATE "job_post"
+SET "scheduledStartAt" = ("workDate" + "arrivalTime"::time) AT TIME ZONE 'Asia/Seoul' AT TIME ZONE 'UTC'
+WHERE "workDate" IS NOT NULL AND "arrivalTime" ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$';
+
+UPDATE "job_post"
+SET "shift" = CASE WHEN "arrivalTime" < '12:00' THEN 'MORNING'::"WorkShift" ELSE 'AFTERNOON'::"WorkShift" END
+WHERE "shift" IS NULL AND "arrivalTime" ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$';
+
+-- Duration from "N unit(s)" schedules, then ladder durations, then custom hours
+UPDATE "job_post"
+SET "durationValue" = split_part("workSchedule", ' ', 1)::integer,
+    "durationUnit" = CASE rtrim(split_part("workSchedule", ' ', 2), 's')
+      WHEN 'hour' THEN 'HOUR'::"WorkDurationUnit"
+      WHEN 'day' THEN 'DAY'::"WorkDurationUnit"
+      WHEN 'week' THEN 'WEEK'::"WorkDurationUnit"
+      WHEN 'month' THEN 'MONTH'::"WorkDurationUnit"
+    END
+WHERE "workSchedule" ~ '^[1-9][0-9]* (hours?|days?|weeks?|months?)$';
+
+UPDATE "job_post"
+SET "durationValue" = CASE "ladderWorkDuration"
+      WHEN '1시간' THEN 1
+      WHEN '4시간' THEN 4
+      WHEN '8시간' THEN 8
+      WHEN '추가1시간' THEN 8 + COALESCE("ladderWorkHours", 1)
+    END,
+    "durationUnit" = 'HOUR'
+WHERE "durationValue" IS NULL AND "ladderWorkDuration" IN ('1시간', '4시간', '8시간', '추가1시간');
+
+UPDATE "job_post"
+SET "durationValue" = "customHours", "durationUnit" = 'HOUR'
+WHERE "durationValue" IS NULL AND "customHours" > 0;
+
+-- CreateIndex
+CREATE INDEX "job_post_status_scheduledStartAt_idx" ON "job_post"("status", "scheduledStartAt");
+
+-- CreateIndex
+CREATE INDEX "job_post_workDate_shift_idx" ON "job_post"("workDate", "shift");
@@ -0,0 +1,82 @@
+-- CreateTable
+CREATE TABLE "equipment_type" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "equipment_type_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "equipment_type_length" (
+    "id" SERIAL NOT NULL,
+    "equipmentTypeId" INTEGER NOT NULL,
+    "length" INTEGER NOT NULL,
+
+    CONSTRAINT "equipment_type_length_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ladder_machine_type" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ladder_machine_type_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "equipment_type_name_key" ON "equipment_type"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "equipment_type_length_equipmentTypeId_length_key" ON "equipment_type_length"("equipmentTypeId", "length");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ladder_machine_type_name_key" ON "ladder_machine_type"("name");
+
+-- AddForeignKey
+ALTER TABLE "equipment_type_length" ADD CONSTRAINT "equipment_type_length_equipmentTypeId_fkey" FOREIGN KEY ("equipmentTypeId") REFERENCES "equipment_type"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed the SKY catalog that used to be hardcoded in the job post service
+INSERT INTO "equipment_type" ("name", "sortOrder", "updatedAt") VALUES
+    ('1 ton', 1, CURRENT_TIMESTAMP),
+    ('2.5 ton', 2, CURRENT_TIMESTAMP),
+    ('3.5 ton', 3, CURRENT_TIMESTAMP),
+    ('5 ton', 4, CURRENT_TIMESTAMP),
+    ('18 ton', 5, CURRENT_TIMESTAMP),
+    ('19 ton', 6, CURRENT_TIMESTAMP),
+    ('3.5 tons of bending', 7, CURRENT_TIMESTAMP),
+    ('Refraction 5 tons', 8, CURRENT_TIMESTAMP),
+    ('Refraction 60M', 9, CURRENT_TIMESTAMP),
+    ('Refraction 70M', 10, CURRENT_TIMESTAMP);
+
+INSERT INTO "equipment_type_length" ("equipmentTypeId", "length")
+SELECT t."id", l."length"
+FROM "equipment_type" t
+JOIN (VALUES
+    ('1 ton', 16), ('1 ton', 18), ('1 ton', 20), ('1 ton', 21),
+    ('2.5 ton', 22), ('2.5 ton', 24), ('2.5 ton', 25),
+    ('3.5 ton', 28), ('3.5 ton', 30), ('3.5 ton', 32), ('3.5 ton', 35),
+    ('5 ton', 38), ('5 ton', 40), ('5 ton', 45), ('5 ton', 50), ('5 ton', 54),
+    ('18 ton', 58), ('18 ton', 60), ('18 ton', 65), ('18 ton', 70),
+    ('19 ton', 75),
+    ('3.5 tons of bending', 28),
+    ('Refraction 5 tons', 40),
+    ('Refraction 60M', 60),
+    ('Refraction 70M', 70)
+) AS l("name", "length") ON l."name" = t."name";
+
+-- Ladder machine types were free text; start the catalog from the values already in use
+INSERT INTO "ladder_machine_type" ("name", "sortOrder", "updatedAt")
+SELECT m."machineType", ROW_NUMBER() OVER (ORDER BY m."machineType"), CURRENT_TIMESTAMP
+FROM (
+    SELECT DISTINCT "machineType"
+    FROM "job_post"
+    WHERE "category" = 'LADDER' AND "machineType" IS NOT NULL AND "machineType" <> ''
+) m;
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "homeAddress" TEXT,
+ADD COLUMN     "homeDistrictCode" TEXT,
+ADD COLUMN     "homeLatitude" DOUBLE PRECISION,
+ADD COLUMN     "homeLongitude" DOUBLE PRECISION,
+ADD COLUMN     "homeRegionCode" TEXT;
+
+-- AlterTable
+ALTER TABLE "job_post" ADD COLUMN     "siteDistrictCode" TEXT,
+ADD COLUMN     "siteLatitude" DOUBLE PRECISION,
+ADD COLUMN     "siteLongitude" DOUBLE PRECISION,
+ADD COLUMN     "siteRegionCode" TEXT,
+ADD COLUMN     "travelDistance" "TravelDistance";
+
+-- Keep the hand-typed "관내" / "관외" of existing ladder posts.
+-- Site addresses are geocoded by the application, not here.
+UPDATE "job_post" AS jp
+SET "travelDistance" = CASE o."travelDistance"
+    WHEN '관내' THEN 'WITHIN_JURISDICTION'::"TravelDistance"
+    ELSE 'OUTSIDE_JURISDICTION'::"TravelDistance"
+  END
+FROM "job_post_options" AS o
+WHERE o."jobPostId" = jp."id" AND o."travelDistance" IN ('관내', '관외');
+
+-- CreateIndex
+CREATE INDEX "job_post_siteRegionCode_siteDistrictCode_idx" ON "job_post"("siteRegionCode", "siteDistrictCode");
+
+-- CreateIndex
+CREATE INDEX "job_post_siteLatitude_siteLongitude_idx" ON "job_post"("siteLatitude", "siteLongitude");
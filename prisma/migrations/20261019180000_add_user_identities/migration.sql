@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "IdentityProvider" AS ENUM ('KAKAO', 'NAVER', 'APPLE');
+
+-- CreateTable
+CREATE TABLE "user_identity" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "provider" "IdentityProvider" NOT NULL,
+    "providerUserId" TEXT NOT NULL,
+    "email" TEXT,
+    "linkedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastLoginAt" TIMESTAMP(3),
+
+    CONSTRAINT "user_identity_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_identity_provider_providerUserId_key" ON "user_identity"("provider", "providerUserId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_identity_userId_provider_key" ON "user_identity"("userId", "provider");
+
+-- AddForeignKey
+ALTER TABLE "user_identity" ADD CONSTRAINT "user_identity_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Move existing Kakao accounts into identities
+INSERT INTO "user_identity" ("userId", "provider", "providerUserId", "email", "linkedAt")
+SELECT "id", 'KAKAO', "kakaoId"::TEXT, "email", "createdAt"
+FROM "User"
+WHERE "kakaoId" IS NOT NULL;
+
+-- DropIndex
+DROP INDEX IF EXISTS "User_kakaoId_key";
+
+-- AlterTable
+ALTER TABLE "User" DROP COLUMN "kakaoId";
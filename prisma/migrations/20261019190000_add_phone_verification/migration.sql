@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "phoneNumber" TEXT,
+ADD COLUMN "phoneVerifiedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_phoneNumber_key" ON "User"("phoneNumber");
+
+-- CreateTable
+CREATE TABLE "phone_verification" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "phoneNumber" TEXT NOT NULL,
+    "codeHash" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "verifiedAt" TIMESTAMP(3),
+    "lockedUntil" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "phone_verification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "phone_verification_userId_createdAt_idx" ON "phone_verification"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "phone_verification_phoneNumber_createdAt_idx" ON "phone_verification"("phoneNumber", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "phone_verification" ADD CONSTRAINT "phone_verification_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
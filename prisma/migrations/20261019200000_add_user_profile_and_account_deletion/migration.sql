@@ -0,0 +1,25 @@
+-- AlterEnum
+ALTER TYPE "SessionRevokeReason" ADD VALUE 'ROLE_CHANGED';
+ALTER TYPE "SessionRevokeReason" ADD VALUE 'ACCOUNT_DELETED';
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "avatarUrl" TEXT,
+ADD COLUMN "bio" TEXT,
+ADD COLUMN "servedRegionCodes" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "businessRegistrationNumber" TEXT,
+ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- Deleted accounts are anonymized, so history authored by a user must never be cascade-deleted
+-- DropForeignKey
+ALTER TABLE "job_post" DROP CONSTRAINT "job_post_authorId_fkey";
+ALTER TABLE "job_post" DROP CONSTRAINT "job_post_designatedUserId_fkey";
+ALTER TABLE "job_post_status_history" DROP CONSTRAINT "job_post_status_history_changedById_fkey";
+ALTER TABLE "job_application" DROP CONSTRAINT "job_application_applicantId_fkey";
+ALTER TABLE "community_post" DROP CONSTRAINT "community_post_authorId_fkey";
+
+-- AddForeignKey
+ALTER TABLE "job_post" ADD CONSTRAINT "job_post_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "job_post" ADD CONSTRAINT "job_post_designatedUserId_fkey" FOREIGN KEY ("designatedUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "job_post_status_history" ADD CONSTRAINT "job_post_status_history_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "job_application" ADD CONSTRAINT "job_application_applicantId_fkey" FOREIGN KEY ("applicantId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "community_post" ADD CONSTRAINT "community_post_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
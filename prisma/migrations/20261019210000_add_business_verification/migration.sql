@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "BusinessVerificationStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "businessVerifiedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "business_verification" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "businessRegistrationNumber" TEXT NOT NULL,
+    "businessName" TEXT NOT NULL,
+    "representativeName" TEXT NOT NULL,
+    "openingDate" DATE NOT NULL,
+    "status" "BusinessVerificationStatus" NOT NULL DEFAULT 'PENDING',
+    "reviewNote" TEXT,
+    "reviewedById" INTEGER,
+    "reviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "business_verification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "business_verification_userId_createdAt_idx" ON "business_verification"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "business_verification_status_createdAt_idx" ON "business_verification"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "business_verification_businessRegistrationNumber_idx" ON "business_verification"("businessRegistrationNumber");
+
+-- AddForeignKey
+ALTER TABLE "business_verification" ADD CONSTRAINT "business_verification_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "business_verification" ADD CONSTRAINT "business_verification_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
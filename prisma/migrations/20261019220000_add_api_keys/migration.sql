@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "api_key" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "keyPrefix" TEXT NOT NULL,
+    "keyHash" TEXT NOT NULL,
+    "scopes" TEXT[],
+    "userId" INTEGER NOT NULL,
+    "communityId" INTEGER,
+    "expiresAt" TIMESTAMP(3),
+    "lastUsedAt" TIMESTAMP(3),
+    "lastUsedIp" TEXT,
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "api_key_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "api_key_keyPrefix_key" ON "api_key"("keyPrefix");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "api_key_keyHash_key" ON "api_key"("keyHash");
+
+-- CreateIndex
+CREATE INDEX "api_key_userId_idx" ON "api_key"("userId");
+
+-- CreateIndex
+CREATE INDEX "api_key_communityId_idx" ON "api_key"("communityId");
+
+-- AddForeignKey
+ALTER TABLE "api_key" ADD CONSTRAINT "api_key_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "api_key" ADD CONSTRAINT "api_key_communityId_fkey" FOREIGN KEY ("communityId") REFERENCES "community"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "AuditAction" AS ENUM ('USER_UPDATED', 'USER_DELETED', 'COMMUNITY_UPDATED', 'COMMUNITY_DELETED', 'COMMUNITY_MEMBER_ROLE_CHANGED', 'COMMUNITY_MEMBER_REMOVED', 'EQUIPMENT_DELETED', 'API_KEY_CREATED', 'API_KEY_REVOKED', 'BUSINESS_VERIFICATION_APPROVED', 'BUSINESS_VERIFICATION_REJECTED');
+
+-- CreateEnum
+CREATE TYPE "AuditTargetType" AS ENUM ('USER', 'COMMUNITY', 'EQUIPMENT', 'API_KEY', 'BUSINESS_VERIFICATION');
+
+-- CreateTable
+CREATE TABLE "audit_log" (
+    "id" SERIAL NOT NULL,
+    "action" "AuditAction" NOT NULL,
+    "actorId" INTEGER,
+    "apiKeyId" INTEGER,
+    "targetType" "AuditTargetType" NOT NULL,
+    "targetId" INTEGER NOT NULL,
+    "communityId" INTEGER,
+    "changes" JSONB,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_log_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_log_communityId_createdAt_idx" ON "audit_log"("communityId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "audit_log_actorId_createdAt_idx" ON "audit_log"("actorId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "audit_log_targetType_targetId_createdAt_idx" ON "audit_log"("targetType", "targetId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "audit_log_action_createdAt_idx" ON "audit_log"("action", "createdAt");
+
+-- Entries are append-only
+CREATE FUNCTION "audit_log_prevent_change"() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "audit_log_append_only"
+BEFORE UPDATE OR DELETE ON "audit_log"
+FOR EACH ROW EXECUTE FUNCTION "audit_log_prevent_change"();
@@ -0,0 +1,98 @@
+-- CreateEnum
+CREATE TYPE "CommunityInvitationStatus" AS ENUM ('PENDING', 'ACCEPTED', 'DECLINED', 'REVOKED');
+
+-- CreateEnum
+CREATE TYPE "CommunityJoinRequestStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED', 'CANCELED');
+
+-- CreateTable
+CREATE TABLE "community_invitation" (
+    "id" SERIAL NOT NULL,
+    "communityId" INTEGER NOT NULL,
+    "inviteeId" INTEGER NOT NULL,
+    "invitedById" INTEGER NOT NULL,
+    "role" "CommunityRole" NOT NULL DEFAULT 'MEMBER',
+    "status" "CommunityInvitationStatus" NOT NULL DEFAULT 'PENDING',
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "respondedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "community_invitation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "community_invite_link" (
+    "id" SERIAL NOT NULL,
+    "communityId" INTEGER NOT NULL,
+    "code" TEXT NOT NULL,
+    "createdById" INTEGER NOT NULL,
+    "maxUses" INTEGER,
+    "useCount" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "community_invite_link_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "community_join_request" (
+    "id" SERIAL NOT NULL,
+    "communityId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "message" TEXT,
+    "status" "CommunityJoinRequestStatus" NOT NULL DEFAULT 'PENDING',
+    "reviewNote" TEXT,
+    "reviewedById" INTEGER,
+    "reviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "community_join_request_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "community_invitation_inviteeId_status_idx" ON "community_invitation"("inviteeId", "status");
+
+-- CreateIndex
+CREATE INDEX "community_invitation_communityId_status_idx" ON "community_invitation"("communityId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "community_invite_link_code_key" ON "community_invite_link"("code");
+
+-- CreateIndex
+CREATE INDEX "community_invite_link_communityId_idx" ON "community_invite_link"("communityId");
+
+-- CreateIndex
+CREATE INDEX "community_join_request_communityId_status_idx" ON "community_join_request"("communityId", "status");
+
+-- CreateIndex
+CREATE INDEX "community_join_request_userId_status_idx" ON "community_join_request"("userId", "status");
+
+-- At most one open invitation and one open join request per user and community
+CREATE UNIQUE INDEX "community_invitation_pending_key" ON "community_invitation"("communityId", "inviteeId") WHERE "status" = 'PENDING';
+CREATE UNIQUE INDEX "community_join_request_pending_key" ON "community_join_request"("communityId", "userId") WHERE "status" = 'PENDING';
+
+-- AddForeignKey
+ALTER TABLE "community_invitation" ADD CONSTRAINT "community_invitation_communityId_fkey" FOREIGN KEY ("communityId") REFERENCES "community"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "community_invitation" ADD CONSTRAINT "community_invitation_inviteeId_fkey" FOREIGN KEY ("inviteeId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "community_invitation" ADD CONSTRAINT "community_invitation_invitedById_fkey" FOREIGN KEY ("invitedById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "community_invite_link" ADD CONSTRAINT "community_invite_link_communityId_fkey" FOREIGN KEY ("communityId") REFERENCES "community"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "community_invite_link" ADD CONSTRAINT "community_invite_link_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "community_join_request" ADD CONSTRAINT "community_join_request_communityId_fkey" FOREIGN KEY ("communityId") REFERENCES "community"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "community_join_request" ADD CONSTRAINT "community_join_request_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "community_join_request" ADD CONSTRAINT "community_join_request_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,79 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'COMMUNITY_POST_DELETED';
+ALTER TYPE "AuditAction" ADD VALUE 'COMMUNITY_COMMENT_DELETED';
+
+-- AlterEnum
+ALTER TYPE "AuditTargetType" ADD VALUE 'COMMUNITY_POST';
+ALTER TYPE "AuditTargetType" ADD VALUE 'COMMUNITY_COMMENT';
+
+-- CreateEnum
+CREATE TYPE "CommunityReactionType" AS ENUM ('LIKE', 'LOVE', 'LAUGH', 'WOW', 'SAD');
+
+-- CreateTable
+CREATE TABLE "community_comment" (
+    "id" SERIAL NOT NULL,
+    "postId" INTEGER NOT NULL,
+    "authorId" INTEGER NOT NULL,
+    "parentId" INTEGER,
+    "content" TEXT NOT NULL,
+    "deletedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "community_comment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "community_post_reaction" (
+    "id" SERIAL NOT NULL,
+    "postId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "type" "CommunityReactionType" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "community_post_reaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "community_comment_reaction" (
+    "id" SERIAL NOT NULL,
+    "commentId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "type" "CommunityReactionType" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "community_comment_reaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "community_post_communityId_isPinned_id_idx" ON "community_post"("communityId", "isPinned", "id");
+
+-- CreateIndex
+CREATE INDEX "community_comment_postId_parentId_id_idx" ON "community_comment"("postId", "parentId", "id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "community_post_reaction_postId_userId_key" ON "community_post_reaction"("postId", "userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "community_comment_reaction_commentId_userId_key" ON "community_comment_reaction"("commentId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "community_comment" ADD CONSTRAINT "community_comment_postId_fkey" FOREIGN KEY ("postId") REFERENCES "community_post"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "community_comment" ADD CONSTRAINT "community_comment_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "community_comment" ADD CONSTRAINT "community_comment_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "community_comment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "community_post_reaction" ADD CONSTRAINT "community_post_reaction_postId_fkey" FOREIGN KEY ("postId") REFERENCES "community_post"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "community_post_reaction" ADD CONSTRAINT "community_post_reaction_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "community_comment_reaction" ADD CONSTRAINT "community_comment_reaction_commentId_fkey" FOREIGN KEY ("commentId") REFERENCES "community_comment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "community_comment_reaction" ADD CONSTRAINT "community_comment_reaction_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'COMMUNITY_OWNERSHIP_TRANSFERRED';
+ALTER TYPE "AuditAction" ADD VALUE 'COMMUNITY_OWNERSHIP_CLAIMED';
+
+-- CreateEnum
+CREATE TYPE "OwnershipTransferStatus" AS ENUM ('PENDING', 'ACCEPTED', 'DECLINED', 'CANCELED');
+
+-- CreateTable
+CREATE TABLE "community_ownership_transfer" (
+    "id" SERIAL NOT NULL,
+    "communityId" INTEGER NOT NULL,
+    "fromUserId" INTEGER NOT NULL,
+    "toUserId" INTEGER NOT NULL,
+    "status" "OwnershipTransferStatus" NOT NULL DEFAULT 'PENDING',
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "respondedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "community_ownership_transfer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "community_ownership_transfer_communityId_status_idx" ON "community_ownership_transfer"("communityId", "status");
+
+-- CreateIndex
+CREATE INDEX "community_ownership_transfer_toUserId_status_idx" ON "community_ownership_transfer"("toUserId", "status");
+
+-- At most one open transfer per community
+CREATE UNIQUE INDEX "community_ownership_transfer_pending_key" ON "community_ownership_transfer"("communityId") WHERE "status" = 'PENDING';
+
+-- AddForeignKey
+ALTER TABLE "community_ownership_transfer" ADD CONSTRAINT "community_ownership_transfer_communityId_fkey" FOREIGN KEY ("communityId") REFERENCES "community"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "community_ownership_transfer" ADD CONSTRAINT "community_ownership_transfer_fromUserId_fkey" FOREIGN KEY ("fromUserId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "community_ownership_transfer" ADD CONSTRAINT "community_ownership_transfer_toUserId_fkey" FOREIGN KEY ("toUserId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- Visibility moves to "isPrivate"; PRIVATE and PUBLIC become ACTIVE communities
+UPDATE "community" SET "isPrivate" = true, "status" = 'ACTIVE' WHERE "status" = 'PRIVATE';
+UPDATE "community" SET "isPrivate" = false, "status" = 'ACTIVE' WHERE "status" = 'PUBLIC';
+
+-- AlterEnum
+BEGIN;
+CREATE TYPE "CommunityStatus_new" AS ENUM ('ACTIVE', 'INACTIVE', 'ARCHIVED');
+ALTER TABLE "community" ALTER COLUMN "status" DROP DEFAULT;
+ALTER TABLE "community" ALTER COLUMN "status" TYPE "CommunityStatus_new" USING ("status"::text::"CommunityStatus_new");
+ALTER TYPE "CommunityStatus" RENAME TO "CommunityStatus_old";
+ALTER TYPE "CommunityStatus_new" RENAME TO "CommunityStatus";
+DROP TYPE "CommunityStatus_old";
+ALTER TABLE "community" ALTER COLUMN "status" SET DEFAULT 'ACTIVE';
+COMMIT;
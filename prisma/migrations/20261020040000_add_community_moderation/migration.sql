@@ -0,0 +1,43 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'COMMUNITY_MEMBER_BANNED';
+ALTER TYPE "AuditAction" ADD VALUE 'COMMUNITY_MEMBER_UNBANNED';
+ALTER TYPE "AuditAction" ADD VALUE 'COMMUNITY_MEMBER_MUTED';
+ALTER TYPE "AuditAction" ADD VALUE 'COMMUNITY_MEMBER_UNMUTED';
+ALTER TYPE "AuditAction" ADD VALUE 'COMMUNITY_MEMBER_WARNED';
+
+-- CreateEnum
+CREATE TYPE "CommunityModerationType" AS ENUM ('WARNING', 'MUTE', 'BAN', 'REMOVAL');
+
+-- CreateTable
+CREATE TABLE "community_moderation_action" (
+    "id" SERIAL NOT NULL,
+    "communityId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "moderatorId" INTEGER NOT NULL,
+    "type" "CommunityModerationType" NOT NULL,
+    "reason" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "liftedAt" TIMESTAMP(3),
+    "liftedById" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "community_moderation_action_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "community_moderation_action_communityId_userId_type_idx" ON "community_moderation_action"("communityId", "userId", "type");
+
+-- CreateIndex
+CREATE INDEX "community_moderation_action_communityId_type_idx" ON "community_moderation_action"("communityId", "type");
+
+-- AddForeignKey
+ALTER TABLE "community_moderation_action" ADD CONSTRAINT "community_moderation_action_communityId_fkey" FOREIGN KEY ("communityId") REFERENCES "community"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "community_moderation_action" ADD CONSTRAINT "community_moderation_action_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "community_moderation_action" ADD CONSTRAINT "community_moderation_action_moderatorId_fkey" FOREIGN KEY ("moderatorId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "community_moderation_action" ADD CONSTRAINT "community_moderation_action_liftedById_fkey" FOREIGN KEY ("liftedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- Edits validate the whole post and keep the stored work day, so every post needs a
+-- valid workDateType and a workDate.
+
+-- Arrival times saved before they were zero-padded ("6:30" -> "06:30")
+UPDATE "job_post"
+SET "arrivalTime" = lpad("arrivalTime", 5, '0')
+WHERE "arrivalTime" ~ '^[0-9]:[0-5][0-9]$';
+
+-- Free-form work date types that hold a real date become CUSTOM_DATE on that date
+UPDATE "job_post"
+SET "workDate" = "workDateType"::date, "workDateType" = 'CUSTOM_DATE'
+WHERE "workDate" IS NULL
+  AND CASE WHEN "workDateType" ~ '^[0-9]{4}-(0[1-9]|1[0-2])-[0-9]{2}$'
+    THEN split_part("workDateType", '-', 3)::integer BETWEEN 1 AND extract(day FROM (left("workDateType", 7) || '-01')::date + interval '1 month - 1 day')
+    ELSE false
+  END;
+
+-- Anything else without a work day (other free-form or missing types, CUSTOM_DATE without
+-- a date) is pinned to the day the post was created (KST), like the relative types were
+UPDATE "job_post"
+SET "workDate" = ("createdAt" AT TIME ZONE 'UTC' AT TIME ZONE 'Asia/Seoul')::date
+  + CASE WHEN "workDateType" = 'TOMORROW' THEN 1 ELSE 0 END,
+    "workDateType" = CASE WHEN "workDateType" IN ('URGENT', 'TODAY', 'TOMORROW') THEN "workDateType" ELSE 'CUSTOM_DATE' END
+WHERE "workDate" IS NULL;
+
+-- Start time and shift for the posts that just got a work day or a padded arrival time
+UPDATE "job_post"
+SET "scheduledStartAt" = ("workDate" + "arrivalTime"::time) AT TIME ZONE 'Asia/Seoul' AT TIME ZONE 'UTC'
+WHERE "scheduledStartAt" IS NULL AND "arrivalTime" ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$';
+
+UPDATE "job_post"
+SET "shift" = CASE WHEN "arrivalTime" < '12:00' THEN 'MORNING'::"WorkShift" ELSE 'AFTERNOON'::"WorkShift" END
+WHERE "shift" IS NULL AND "arrivalTime" ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$';
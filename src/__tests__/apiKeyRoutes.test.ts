@@ -0,0 +1,136 @@
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import communityRoutes from '../routes/communities';
+import jobPostRoutes from '../routes/jobPosts';
+import { JobPostController } from '../controllers/jobPostController';
+
+const mockAuthenticateApiKey = jest.fn();
+const mockFindActiveMembership = jest.fn();
+const mockGetJobPostCommunityId = jest.fn();
+
+jest.mock('../services/apiKeyService', () => ({
+  ApiKeyService: jest.fn().mockImplementation(() => ({
+    authenticateApiKey: (...args: unknown[]) => mockAuthenticateApiKey(...args),
+  })),
+}));
+jest.mock('../services/communityMembershipService', () => ({
+  CommunityMembershipService: jest.fn().mockImplementation(() => ({
+    findActiveMembership: (...args: unknown[]) => mockFindActiveMembership(...args),
+  })),
+}));
+jest.mock('../services/jobPostService', () => ({
+  JobPostService: jest.fn().mockImplementation(() => ({
+    getJobPostCommunityId: (...args: unknown[]) => mockGetJobPostCommunityId(...args),
+  })),
+}));
+jest.mock('../controllers/jobPostController');
+jest.mock('../utils/logger');
+
+// A key of community 3, created by user 1, with every scope
+const communityKey = {
+  apiKeyId: 7,
+  userId: 1,
+  communityId: 3,
+  scopes: ['jobposts:read', 'jobposts:write', 'communities:read', 'communities:write'],
+};
+
+const COMMUNITY_KEY_REFUSED = 'Community API keys only work on routes of their community';
+
+describe('community API keys on the community and job post routes', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  const request = async (method: string, path: string) => {
+    const response = await fetch(baseUrl + path, { method, headers: { 'X-API-Key': 'jbg_community' } });
+    return { status: response.status, body: await response.json() as { message?: string } };
+  };
+
+  beforeAll(async () => {
+    const app = express();
+    app.use('/communities', communityRoutes);
+    app.use('/job-posts', jobPostRoutes);
+
+    server = await new Promise<Server>((resolve) => {
+      const listening = app.listen(0, () => resolve(listening));
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockAuthenticateApiKey.mockResolvedValue(communityKey);
+  });
+
+  it.each([
+    ['POST', '/communities'],
+    ['POST', '/communities/join'],
+    ['POST', '/communities/3/leave'],
+    ['POST', '/communities/3/join-requests'],
+    ['POST', '/communities/invitations/1/accept'],
+    ['POST', '/communities/invitations/1/decline'],
+    ['POST', '/communities/ownership-transfers/1/accept'],
+    ['POST', '/communities/ownership-transfers/1/decline'],
+    ['POST', '/communities/invite-links/abc/join'],
+    ['GET', '/communities/users/all'],
+    ['GET', '/job-posts/applications/me'],
+    ['POST', '/job-posts/5/applications'],
+    ['POST', '/job-posts/5/applications/1/withdraw'],
+    ['POST', '/job-posts/5/designation/accept'],
+    ['POST', '/job-posts/5/designation/decline'],
+  ])('refuses %s %s, which is not scoped to the community', async (method, path) => {
+    const { status, body } = await request(method, path);
+
+    expect(status).toBe(403);
+    expect(body.message).toBe(COMMUNITY_KEY_REFUSED);
+  });
+
+  it('refuses the routes of another community', async () => {
+    const { status, body } = await request('PUT', '/communities/4');
+
+    expect(status).toBe(403);
+    expect(body.message).toBe('API key is not valid for this community');
+    expect(mockFindActiveMembership).not.toHaveBeenCalled();
+  });
+
+  it('checks the membership of the key creator in its own community', async () => {
+    mockFindActiveMembership.mockResolvedValue(null);
+
+    const { status, body } = await request('GET', '/communities/3/members');
+
+    expect(status).toBe(403);
+    expect(body.message).toBe('User is not a member of this community');
+    expect(mockFindActiveMembership).toHaveBeenCalledWith(3, 1, undefined);
+  });
+
+  it.each([
+    ['PUT', '/job-posts/5'],
+    ['DELETE', '/job-posts/5'],
+    ['POST', '/job-posts/5/cancel'],
+    ['POST', '/job-posts/5/applications/1/accept'],
+  ])('refuses %s %s on a job post of another community', async (method, path) => {
+    mockGetJobPostCommunityId.mockResolvedValue(4);
+
+    const { status, body } = await request(method, path);
+
+    expect(status).toBe(403);
+    expect(body.message).toBe('API key is not valid for this job post');
+    expect(mockGetJobPostCommunityId).toHaveBeenCalledWith(5);
+  });
+
+  it('reaches the controller for a job post of its community', async () => {
+    mockGetJobPostCommunityId.mockResolvedValue(3);
+    jest.mocked(JobPostController.prototype.getJobPostById).mockImplementation(async (_req, res) => {
+      res.status(200).json({ success: true });
+    });
+
+    const { status } = await request('GET', '/job-posts/5');
+
+    expect(status).toBe(200);
+    expect(JobPostController.prototype.getJobPostById).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,129 @@
+import { Request } from 'express';
+import { AuditAction, AuditTargetType, Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { AuditLogService } from '../services/auditLogService';
+import { diffFields, getAuditContext } from '../utils/audit';
+
+jest.mock('../lib/prisma', () => ({
+  __esModule: true,
+  default: {
+    auditLog: { create: jest.fn(), findMany: jest.fn() },
+  },
+}));
+
+const db = prisma as unknown as {
+  auditLog: Record<'create' | 'findMany', jest.Mock>;
+};
+
+const auditLog = (id: number) => ({
+  id,
+  action: AuditAction.COMMUNITY_UPDATED,
+  actorId: 1,
+  apiKeyId: null,
+  targetType: AuditTargetType.COMMUNITY,
+  targetId: 5,
+  communityId: 5,
+  changes: null,
+  ipAddress: null,
+  userAgent: null,
+  createdAt: new Date(),
+});
+
+describe('diffFields', () => {
+  const before = { title: 'Old', description: 'Same', tags: ['a'] };
+
+  it('keeps only the listed fields that changed', () => {
+    expect(diffFields(before, { title: 'New', description: 'Same', tags: ['a', 'b'] }, ['title', 'description'])).toEqual({
+      before: { title: 'Old' },
+      after: { title: 'New' },
+    });
+  });
+
+  it('compares arrays by value', () => {
+    expect(diffFields(before, { tags: ['a', 'b'] }, ['tags'])).toEqual({ before: { tags: ['a'] }, after: { tags: ['a', 'b'] } });
+    expect(diffFields(before, { tags: ['a'] }, ['tags'])).toBeNull();
+  });
+
+  it('treats missing fields as unchanged', () => {
+    expect(diffFields(before, {}, ['title', 'description', 'tags'])).toBeNull();
+  });
+});
+
+describe('getAuditContext', () => {
+  it('takes the actor, API key and client from the request', () => {
+    const req = {
+      user: { userId: 1 },
+      apiKey: { apiKeyId: 2 },
+      ip: '10.0.0.1',
+      get: (header: string) => (header === 'user-agent' ? 'jest' : undefined),
+    } as unknown as Request;
+
+    expect(getAuditContext(req)).toEqual({ actorId: 1, apiKeyId: 2, ipAddress: '10.0.0.1', userAgent: 'jest' });
+  });
+});
+
+describe('AuditLogService', () => {
+  const auditLogService = new AuditLogService();
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  describe('record', () => {
+    const entry = { action: AuditAction.COMMUNITY_UPDATED, targetType: AuditTargetType.COMMUNITY, targetId: 5 };
+
+    it('writes through the given transaction', async () => {
+      const tx = { auditLog: { create: jest.fn() } };
+      const changes = { before: { title: 'Old' }, after: { title: 'New' } };
+
+      await auditLogService.record({ actorId: 1 }, { ...entry, communityId: 5, changes }, tx as unknown as Prisma.TransactionClient);
+
+      expect(tx.auditLog.create).toHaveBeenCalledWith({
+        data: {
+          ...entry,
+          actorId: 1,
+          apiKeyId: null,
+          communityId: 5,
+          changes,
+          ipAddress: null,
+          userAgent: null,
+        },
+      });
+      expect(db.auditLog.create).not.toHaveBeenCalled();
+    });
+
+    it('stores a database NULL when nothing was diffed', async () => {
+      await auditLogService.record({ apiKeyId: 2 }, entry);
+
+      expect(db.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ actorId: null, apiKeyId: 2, changes: Prisma.DbNull }),
+      });
+    });
+  });
+
+  describe('getAuditLogs', () => {
+    it('filters and pages newest first by id', async () => {
+      const from = new Date('2026-10-01T00:00:00.000Z');
+      db.auditLog.findMany.mockResolvedValue([auditLog(9), auditLog(8), auditLog(7)]);
+
+      const result = await auditLogService.getAuditLogs({ communityId: 5, from }, { limit: 2, cursor: 10 });
+
+      expect(db.auditLog.findMany).toHaveBeenCalledWith({
+        where: { communityId: 5, createdAt: { gte: from }, id: { lt: 10 } },
+        orderBy: { id: 'desc' },
+        take: 3,
+      });
+      expect(result.data.map(entry => entry.id)).toEqual([9, 8]);
+      expect(result.pagination).toEqual({ limit: 2, hasMore: true, nextCursor: 8 });
+    });
+
+    it('ends on the last page', async () => {
+      db.auditLog.findMany.mockResolvedValue([auditLog(3)]);
+
+      const result = await auditLogService.getAuditLogs();
+
+      expect(result.pagination).toEqual({ limit: 50, hasMore: false, nextCursor: undefined });
+      expect(result.data[0]).toEqual(expect.objectContaining({ apiKeyId: undefined, changes: undefined }));
+    });
+  });
+});
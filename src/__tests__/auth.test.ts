@@ -0,0 +1,159 @@
+import { NextFunction, Response } from 'express';
+import { UserRole } from '@prisma/client';
+import { AuthenticatedRequest, requireAdmin, requireRole, requireUserOrApiKey } from '../middleware/auth';
+import { generateToken } from '../utils/jwt';
+
+const mockIsSessionActive = jest.fn();
+const mockAuthenticateApiKey = jest.fn();
+
+jest.mock('../services/authSessionService', () => ({
+  AuthSessionService: jest.fn().mockImplementation(() => ({
+    isSessionActive: (...args: unknown[]) => mockIsSessionActive(...args),
+  })),
+}));
+jest.mock('../services/apiKeyService', () => ({
+  ApiKeyService: jest.fn().mockImplementation(() => ({
+    authenticateApiKey: (...args: unknown[]) => mockAuthenticateApiKey(...args),
+  })),
+}));
+jest.mock('../utils/logger');
+
+const createRequest = (options: { method?: string; token?: string; apiKey?: string } = {}) => ({
+  method: options.method ?? 'GET',
+  ip: '127.0.0.1',
+  params: {},
+  headers: {
+    ...(options.token && { authorization: `Bearer ${options.token}` }),
+    ...(options.apiKey && { 'x-api-key': options.apiKey }),
+  },
+}) as unknown as AuthenticatedRequest;
+
+const createResponse = () => {
+  const res = { status: jest.fn(), json: jest.fn() };
+  res.status.mockReturnValue(res);
+  return res;
+};
+
+const run = async (
+  middleware: (req: AuthenticatedRequest, res: Response, next: NextFunction) => Promise<void>,
+  req: AuthenticatedRequest
+) => {
+  const res = createResponse();
+  const next = jest.fn();
+  await middleware(req, res as unknown as Response, next);
+  return { res, next };
+};
+
+const tokenFor = (role: UserRole) => generateToken({ userId: 1, role, sessionId: 5 });
+
+describe('requireRole', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockIsSessionActive.mockResolvedValue(true);
+  });
+
+  it('lets a user with the role through', async () => {
+    const req = createRequest({ token: tokenFor(UserRole.ADMIN) });
+
+    const { next } = await run(requireAdmin, req);
+
+    expect(next).toHaveBeenCalled();
+    expect(req.user).toMatchObject({ userId: 1, role: UserRole.ADMIN, sessionId: 5 });
+  });
+
+  it('refuses a user without the role', async () => {
+    const { res, next } = await run(requireRole(UserRole.ADMIN), createRequest({ token: tokenFor(UserRole.USER) }));
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith({ message: 'Admin access required', status: 403 });
+  });
+
+  it('refuses a token whose session has ended', async () => {
+    mockIsSessionActive.mockResolvedValue(false);
+
+    const { res, next } = await run(requireAdmin, createRequest({ token: tokenFor(UserRole.ADMIN) }));
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+
+  it('does not accept an API key', async () => {
+    const { res, next } = await run(requireAdmin, createRequest({ apiKey: 'jbg_key' }));
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(mockAuthenticateApiKey).not.toHaveBeenCalled();
+  });
+});
+
+describe('requireUserOrApiKey', () => {
+  const requireJobPostAccess = requireUserOrApiKey({ read: 'jobposts:read', write: 'jobposts:write' });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockIsSessionActive.mockResolvedValue(true);
+  });
+
+  it('falls back to the user login without an API key', async () => {
+    const req = createRequest({ token: tokenFor(UserRole.USER) });
+
+    const { next } = await run(requireJobPostAccess, req);
+
+    expect(next).toHaveBeenCalled();
+    expect(req.apiKey).toBeUndefined();
+  });
+
+  it('acts as the key user with the USER role', async () => {
+    mockAuthenticateApiKey.mockResolvedValue({ apiKeyId: 7, userId: 3, scopes: ['jobposts:read'] });
+    const req = createRequest({ apiKey: 'jbg_key' });
+
+    const { next } = await run(requireJobPostAccess, req);
+
+    expect(next).toHaveBeenCalled();
+    expect(mockAuthenticateApiKey).toHaveBeenCalledWith('jbg_key', '127.0.0.1');
+    expect(req.user).toEqual({ userId: 3, role: UserRole.USER });
+    expect(req.apiKey).toMatchObject({ apiKeyId: 7 });
+  });
+
+  it('needs the write scope for anything but reads', async () => {
+    mockAuthenticateApiKey.mockResolvedValue({ apiKeyId: 7, userId: 3, scopes: ['jobposts:read'] });
+
+    const { res, next } = await run(requireJobPostAccess, createRequest({ method: 'POST', apiKey: 'jbg_key' }));
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith({ message: 'API key is missing the jobposts:write scope', status: 403 });
+  });
+
+  it('refuses a community key by default', async () => {
+    mockAuthenticateApiKey.mockResolvedValue({ apiKeyId: 7, userId: 3, communityId: 4, scopes: ['jobposts:read'] });
+    const req = createRequest({ apiKey: 'jbg_key' });
+
+    const { res, next } = await run(requireJobPostAccess, req);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith({ message: 'Community API keys only work on routes of their community', status: 403 });
+    expect(req.user).toBeUndefined();
+  });
+
+  it('lets a community key through on routes that hold it to its community', async () => {
+    mockAuthenticateApiKey.mockResolvedValue({ apiKeyId: 7, userId: 3, communityId: 4, scopes: ['jobposts:read'] });
+    const req = createRequest({ apiKey: 'jbg_key' });
+
+    const { next } = await run(requireUserOrApiKey({ read: 'jobposts:read', write: 'jobposts:write' }, { communityKeys: true }), req);
+
+    expect(next).toHaveBeenCalled();
+    expect(req.apiKey).toMatchObject({ communityId: 4 });
+  });
+
+  it('refuses an unknown key', async () => {
+    mockAuthenticateApiKey.mockResolvedValue(null);
+
+    const { res, next } = await run(requireJobPostAccess, createRequest({ apiKey: 'jbg_unknown' }));
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+});
@@ -0,0 +1,160 @@
+import { createHash } from 'crypto';
+import { SessionRevokeReason, UserRole } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { AuthSessionService } from '../services/authSessionService';
+import { verifyToken } from '../utils/jwt';
+
+jest.mock('../lib/prisma', () => ({
+  __esModule: true,
+  default: {
+    $transaction: jest.fn(),
+    authSession: { create: jest.fn(), update: jest.fn(), updateMany: jest.fn(), findUnique: jest.fn() },
+    refreshToken: { create: jest.fn(), findUnique: jest.fn(), updateMany: jest.fn() },
+  },
+}));
+jest.mock('../utils/logger');
+
+const db = prisma as unknown as {
+  $transaction: jest.Mock;
+  authSession: Record<'create' | 'update' | 'updateMany' | 'findUnique', jest.Mock>;
+  refreshToken: Record<'create' | 'findUnique' | 'updateMany', jest.Mock>;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+const session = (overrides: { revokedAt?: Date; expiresAt?: Date } = {}) => ({
+  id: 5,
+  userId: 1,
+  userAgent: null,
+  ipAddress: null,
+  expiresAt: new Date(Date.now() + DAY_MS),
+  lastUsedAt: new Date(),
+  revokedAt: null,
+  revokedReason: null,
+  createdAt: new Date(),
+  user: { id: 1, role: UserRole.USER },
+  ...overrides,
+});
+
+const storedToken = (overrides: { usedAt?: Date; expiresAt?: Date; session?: ReturnType<typeof session> } = {}) => ({
+  id: 10,
+  sessionId: 5,
+  tokenHash: hashToken('old-token'),
+  expiresAt: new Date(Date.now() + DAY_MS),
+  usedAt: null,
+  createdAt: new Date(),
+  session: session(),
+  ...overrides,
+});
+
+describe('AuthSessionService', () => {
+  const authSessionService = new AuthSessionService();
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    db.$transaction.mockImplementation((callback: (tx: typeof db) => unknown) => callback(db));
+  });
+
+  describe('createSession', () => {
+    it('stores only the hash of the refresh token', async () => {
+      db.authSession.create.mockResolvedValue(session());
+
+      const tokens = await authSessionService.createSession({ id: 1, role: UserRole.USER }, { userAgent: 'jest' });
+
+      expect(db.refreshToken.create).toHaveBeenCalledWith({
+        data: { sessionId: 5, tokenHash: hashToken(tokens.refreshToken), expiresAt: tokens.refreshTokenExpiresAt },
+      });
+      expect(verifyToken(tokens.token)).toMatchObject({ userId: 1, role: UserRole.USER, sessionId: 5 });
+    });
+  });
+
+  describe('refreshSession', () => {
+    it('returns null for an unknown token', async () => {
+      db.refreshToken.findUnique.mockResolvedValue(null);
+
+      await expect(authSessionService.refreshSession('unknown')).resolves.toBeNull();
+      expect(db.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('rotates the refresh token and marks the old one used', async () => {
+      db.refreshToken.findUnique.mockResolvedValue(storedToken());
+      db.refreshToken.updateMany.mockResolvedValue({ count: 1 });
+      db.authSession.update.mockResolvedValue(session());
+
+      const tokens = await authSessionService.refreshSession('old-token', { ipAddress: '10.0.0.1' });
+
+      expect(db.refreshToken.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+        where: { tokenHash: hashToken('old-token') },
+      }));
+      expect(db.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { id: 10, usedAt: null },
+        data: { usedAt: expect.any(Date) },
+      });
+      expect(db.authSession.update).toHaveBeenCalledWith({
+        where: { id: 5 },
+        data: { lastUsedAt: expect.any(Date), ipAddress: '10.0.0.1' },
+      });
+      expect(tokens).not.toBeNull();
+      expect(tokens!.refreshToken).not.toBe('old-token');
+      expect(db.refreshToken.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ sessionId: 5, tokenHash: hashToken(tokens!.refreshToken) }),
+      });
+      expect(db.authSession.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('revokes the session when an exchanged token is used again', async () => {
+      db.refreshToken.findUnique.mockResolvedValue(storedToken({ usedAt: new Date() }));
+
+      await expect(authSessionService.refreshSession('old-token')).resolves.toBeNull();
+
+      expect(db.authSession.updateMany).toHaveBeenCalledWith({
+        where: { id: 5, revokedAt: null },
+        data: { revokedAt: expect.any(Date), revokedReason: SessionRevokeReason.TOKEN_REUSE },
+      });
+      expect(db.$transaction).not.toHaveBeenCalled();
+      expect(db.refreshToken.create).not.toHaveBeenCalled();
+    });
+
+    it('revokes the session when a concurrent refresh used the token first', async () => {
+      db.refreshToken.findUnique.mockResolvedValue(storedToken());
+      db.refreshToken.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(authSessionService.refreshSession('old-token')).resolves.toBeNull();
+
+      expect(db.authSession.updateMany).toHaveBeenCalledWith({
+        where: { id: 5, revokedAt: null },
+        data: { revokedAt: expect.any(Date), revokedReason: SessionRevokeReason.TOKEN_REUSE },
+      });
+      expect(db.refreshToken.create).not.toHaveBeenCalled();
+    });
+
+    it('returns null without revoking when the session has ended', async () => {
+      db.refreshToken.findUnique.mockResolvedValue(storedToken({ session: session({ revokedAt: new Date() }) }));
+
+      await expect(authSessionService.refreshSession('old-token')).resolves.toBeNull();
+
+      expect(db.$transaction).not.toHaveBeenCalled();
+      expect(db.authSession.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('returns null for an expired token', async () => {
+      db.refreshToken.findUnique.mockResolvedValue(storedToken({ expiresAt: new Date(Date.now() - 1000) }));
+
+      await expect(authSessionService.refreshSession('old-token')).resolves.toBeNull();
+
+      expect(db.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('isSessionActive', () => {
+    it('accepts only an unrevoked, unexpired session of the same user', async () => {
+      db.authSession.findUnique.mockResolvedValue(session());
+      await expect(authSessionService.isSessionActive(5, 1)).resolves.toBe(true);
+      await expect(authSessionService.isSessionActive(5, 2)).resolves.toBe(false);
+
+      db.authSession.findUnique.mockResolvedValue(session({ expiresAt: new Date(Date.now() - 1000) }));
+      await expect(authSessionService.isSessionActive(5, 1)).resolves.toBe(false);
+    });
+  });
+});
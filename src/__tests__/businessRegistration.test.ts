@@ -0,0 +1,44 @@
+import {
+  formatBusinessRegistrationNumber,
+  isValidBusinessRegistrationNumber,
+  normalizeBusinessRegistrationNumber,
+} from '../utils/businessRegistration';
+
+describe('normalizeBusinessRegistrationNumber', () => {
+  it('removes dashes and spaces', () => {
+    expect(normalizeBusinessRegistrationNumber('123-45-67891')).toBe('1234567891');
+    expect(normalizeBusinessRegistrationNumber(' 123 45 67891 ')).toBe('1234567891');
+  });
+});
+
+describe('isValidBusinessRegistrationNumber', () => {
+  it('accepts numbers with a valid check digit', () => {
+    expect(isValidBusinessRegistrationNumber('1234567891')).toBe(true);
+    expect(isValidBusinessRegistrationNumber('2208111115')).toBe(true);
+    expect(isValidBusinessRegistrationNumber('1018100001')).toBe(true);
+  });
+
+  it('rejects a wrong check digit', () => {
+    expect(isValidBusinessRegistrationNumber('1234567890')).toBe(false);
+    expect(isValidBusinessRegistrationNumber('2208111116')).toBe(false);
+  });
+
+  it('adds the tens digit of the weighted ninth digit', () => {
+    // The ninth digit 9 is weighted to 45, so 4 is added once more
+    expect(isValidBusinessRegistrationNumber('1234567891')).toBe(true);
+    expect(isValidBusinessRegistrationNumber('1234567895')).toBe(false);
+  });
+
+  it('rejects anything but ten digits', () => {
+    expect(isValidBusinessRegistrationNumber('123456789')).toBe(false);
+    expect(isValidBusinessRegistrationNumber('12345678911')).toBe(false);
+    expect(isValidBusinessRegistrationNumber('123-45-67891')).toBe(false);
+    expect(isValidBusinessRegistrationNumber('12345678a1')).toBe(false);
+  });
+});
+
+describe('formatBusinessRegistrationNumber', () => {
+  it('formats the digits as 000-00-00000', () => {
+    expect(formatBusinessRegistrationNumber('1234567891')).toBe('123-45-67891');
+  });
+});
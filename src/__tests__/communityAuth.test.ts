@@ -0,0 +1,150 @@
+import { NextFunction, Response } from 'express';
+import { CommunityRole } from '@prisma/client';
+import { CommunityRequest, requireCommunityKeyJobPost, requireCommunityMember, requireCommunityRole } from '../middleware/communityAuth';
+import { ApiKeyPrincipal } from '../types/apiKey';
+
+const mockFindActiveMembership = jest.fn();
+const mockGetJobPostCommunityId = jest.fn();
+
+jest.mock('../services/communityMembershipService', () => ({
+  CommunityMembershipService: jest.fn().mockImplementation(() => ({
+    findActiveMembership: (...args: unknown[]) => mockFindActiveMembership(...args),
+  })),
+}));
+jest.mock('../services/jobPostService', () => ({
+  JobPostService: jest.fn().mockImplementation(() => ({
+    getJobPostCommunityId: (...args: unknown[]) => mockGetJobPostCommunityId(...args),
+  })),
+}));
+jest.mock('../utils/logger');
+
+const membership = { id: 1, communityId: 3, userId: 1, role: CommunityRole.ADMIN, isActive: true };
+
+const createRequest = (options: { id?: string; apiKey?: ApiKeyPrincipal; authenticated?: boolean } = {}) => ({
+  params: { id: options.id ?? '3' },
+  ...(options.authenticated !== false && { user: { userId: 1, role: 'USER' } }),
+  ...(options.apiKey && { apiKey: options.apiKey }),
+}) as unknown as CommunityRequest;
+
+const createResponse = () => {
+  const res = { status: jest.fn(), json: jest.fn() };
+  res.status.mockReturnValue(res);
+  return res;
+};
+
+const run = async (
+  middleware: (req: CommunityRequest, res: Response, next: NextFunction) => Promise<void>,
+  req: CommunityRequest
+) => {
+  const res = createResponse();
+  const next = jest.fn();
+  await middleware(req, res as unknown as Response, next);
+  return { res, next };
+};
+
+describe('requireCommunityRole', () => {
+  const requireManager = requireCommunityRole(CommunityRole.OWNER, CommunityRole.ADMIN);
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockFindActiveMembership.mockResolvedValue(membership);
+  });
+
+  it('attaches the membership of a member holding the role', async () => {
+    const req = createRequest();
+
+    const { next } = await run(requireManager, req);
+
+    expect(next).toHaveBeenCalled();
+    expect(mockFindActiveMembership).toHaveBeenCalledWith(3, 1, [CommunityRole.OWNER, CommunityRole.ADMIN]);
+    expect(req.communityMembership).toBe(membership);
+  });
+
+  it('refuses a member without the role', async () => {
+    mockFindActiveMembership.mockResolvedValue(null);
+
+    const { res, next } = await run(requireManager, createRequest());
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ message: 'Insufficient community permissions' }));
+  });
+
+  it('accepts any role for requireCommunityMember', async () => {
+    await run(requireCommunityMember, createRequest());
+
+    expect(mockFindActiveMembership).toHaveBeenCalledWith(3, 1, undefined);
+  });
+
+  it('refuses unauthenticated requests and invalid community IDs', async () => {
+    expect((await run(requireManager, createRequest({ authenticated: false }))).res.status).toHaveBeenCalledWith(401);
+    expect((await run(requireManager, createRequest({ id: 'abc' }))).res.status).toHaveBeenCalledWith(400);
+    expect(mockFindActiveMembership).not.toHaveBeenCalled();
+  });
+
+  it('lets a community API key act in its own community', async () => {
+    const apiKey = { apiKeyId: 7, userId: 1, communityId: 3, scopes: [] };
+
+    const { next } = await run(requireManager, createRequest({ apiKey }));
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('refuses a community API key in another community', async () => {
+    const apiKey = { apiKeyId: 7, userId: 1, communityId: 4, scopes: [] };
+
+    const { res, next } = await run(requireManager, createRequest({ apiKey }));
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ message: 'API key is not valid for this community' }));
+    expect(mockFindActiveMembership).not.toHaveBeenCalled();
+  });
+
+  it('checks the membership of a personal API key like a user login', async () => {
+    const apiKey = { apiKeyId: 7, userId: 1, scopes: [] };
+
+    const { next } = await run(requireManager, createRequest({ id: '4', apiKey }));
+
+    expect(next).toHaveBeenCalled();
+    expect(mockFindActiveMembership).toHaveBeenCalledWith(4, 1, [CommunityRole.OWNER, CommunityRole.ADMIN]);
+  });
+});
+
+describe('requireCommunityKeyJobPost', () => {
+  const communityKey = { apiKeyId: 7, userId: 1, communityId: 3, scopes: [] };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('lets user logins and personal keys through without a lookup', async () => {
+    expect((await run(requireCommunityKeyJobPost, createRequest({ id: '10' }))).next).toHaveBeenCalled();
+
+    const personalKey = { apiKeyId: 7, userId: 1, scopes: [] };
+    expect((await run(requireCommunityKeyJobPost, createRequest({ id: '10', apiKey: personalKey }))).next).toHaveBeenCalled();
+    expect(mockGetJobPostCommunityId).not.toHaveBeenCalled();
+  });
+
+  it('lets a community key reach the job posts of its community', async () => {
+    mockGetJobPostCommunityId.mockResolvedValue(3);
+
+    const { next } = await run(requireCommunityKeyJobPost, createRequest({ id: '10', apiKey: communityKey }));
+
+    expect(next).toHaveBeenCalled();
+    expect(mockGetJobPostCommunityId).toHaveBeenCalledWith(10);
+  });
+
+  it.each([
+    ['another community', 4],
+    ['no community', null],
+  ])('refuses a community key on a job post of %s', async (_, communityId) => {
+    mockGetJobPostCommunityId.mockResolvedValue(communityId);
+
+    const { res, next } = await run(requireCommunityKeyJobPost, createRequest({ id: '10', apiKey: communityKey }));
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ message: 'API key is not valid for this job post' }));
+  });
+});
@@ -0,0 +1,213 @@
+import { CommunityRole, CommunityStatus } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { CommunityCommentService } from '../services/communityCommentService';
+import { CommunityPostService } from '../services/communityPostService';
+
+const mockAssertActiveMembership = jest.fn();
+const mockAssertNotMuted = jest.fn();
+const mockAssertNotArchived = jest.fn();
+const mockRecord = jest.fn();
+
+jest.mock('../lib/prisma', () => ({
+  __esModule: true,
+  default: {
+    $transaction: jest.fn(),
+    community: { findUniqueOrThrow: jest.fn() },
+    communityPost: { findFirst: jest.fn(), create: jest.fn(), update: jest.fn(), delete: jest.fn() },
+    communityPostReaction: { groupBy: jest.fn() },
+    communityComment: { findFirst: jest.fn(), create: jest.fn(), update: jest.fn() },
+  },
+}));
+jest.mock('../services/communityMembershipService', () => ({
+  CommunityMembershipService: jest.fn().mockImplementation(() => ({
+    assertActiveMembership: (...args: unknown[]) => mockAssertActiveMembership(...args),
+    assertNotMuted: (...args: unknown[]) => mockAssertNotMuted(...args),
+    assertNotArchived: (...args: unknown[]) => mockAssertNotArchived(...args),
+  })),
+}));
+jest.mock('../services/auditLogService', () => ({
+  AuditLogService: jest.fn().mockImplementation(() => ({
+    record: (...args: unknown[]) => mockRecord(...args),
+  })),
+}));
+
+const db = prisma as unknown as {
+  $transaction: jest.Mock;
+  community: Record<'findUniqueOrThrow', jest.Mock>;
+  communityPost: Record<'findFirst' | 'create' | 'update' | 'delete', jest.Mock>;
+  communityPostReaction: Record<'groupBy', jest.Mock>;
+  communityComment: Record<'findFirst' | 'create' | 'update', jest.Mock>;
+};
+
+const COMMUNITY_ID = 5;
+const AUTHOR_ID = 1;
+const MEMBER_ID = 2;
+
+const post = (overrides: Record<string, unknown> = {}) => ({
+  id: 7,
+  communityId: COMMUNITY_ID,
+  authorId: AUTHOR_ID,
+  title: 'Crane for hire',
+  content: 'Free on Friday',
+  isPinned: false,
+  isLocked: false,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+const comment = (overrides: Record<string, unknown> = {}) => ({
+  id: 11,
+  postId: 7,
+  authorId: MEMBER_ID,
+  parentId: null,
+  content: 'Interested',
+  deletedAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  author: { id: MEMBER_ID, name: 'Lee', nickname: null },
+  reactions: [],
+  ...overrides,
+});
+
+const membership = (role: CommunityRole) => ({ id: 3, communityId: COMMUNITY_ID, userId: MEMBER_ID, role, isActive: true });
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  db.$transaction.mockImplementation((cb: (tx: typeof db) => unknown) => cb(db));
+  db.community.findUniqueOrThrow.mockResolvedValue({ status: CommunityStatus.ACTIVE });
+  db.communityPostReaction.groupBy.mockResolvedValue([]);
+  mockAssertActiveMembership.mockResolvedValue(membership(CommunityRole.MEMBER));
+});
+
+describe('CommunityCommentService.createComment', () => {
+  const service = new CommunityCommentService();
+
+  it('refuses new comments on locked posts', async () => {
+    db.communityPost.findFirst.mockResolvedValue(post({ isLocked: true }));
+
+    await expect(service.createComment(COMMUNITY_ID, 7, MEMBER_ID, { content: 'Hi' }))
+      .rejects.toThrow('This post is locked and does not accept new comments');
+    expect(db.communityComment.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses replies on locked posts', async () => {
+    db.communityPost.findFirst.mockResolvedValue(post({ isLocked: true }));
+
+    await expect(service.createComment(COMMUNITY_ID, 7, MEMBER_ID, { content: 'Hi', parentId: 11 }))
+      .rejects.toThrow('This post is locked and does not accept new comments');
+    expect(db.communityComment.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses non-members', async () => {
+    mockAssertActiveMembership.mockRejectedValue(new Error('User is not a member of this community'));
+
+    await expect(service.createComment(COMMUNITY_ID, 7, MEMBER_ID, { content: 'Hi' }))
+      .rejects.toThrow('User is not a member of this community');
+    expect(db.communityComment.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses muted members', async () => {
+    mockAssertNotMuted.mockRejectedValue(new Error('User is muted in this community'));
+
+    await expect(service.createComment(COMMUNITY_ID, 7, MEMBER_ID, { content: 'Hi' }))
+      .rejects.toThrow('User is muted in this community');
+    expect(db.communityComment.create).not.toHaveBeenCalled();
+  });
+
+  it('attaches a reply to a reply to the same top-level comment', async () => {
+    db.communityPost.findFirst.mockResolvedValue(post());
+    db.communityComment.findFirst.mockResolvedValue({ id: 12, parentId: 11, deletedAt: null });
+    db.communityComment.create.mockResolvedValue(comment({ id: 13, parentId: 11 }));
+
+    await service.createComment(COMMUNITY_ID, 7, MEMBER_ID, { content: 'Hi', parentId: 12 });
+
+    expect(db.communityComment.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ parentId: 11 }),
+    }));
+  });
+});
+
+describe('CommunityPostService', () => {
+  const service = new CommunityPostService();
+
+  describe('moderatePost', () => {
+    it('requires a moderator', async () => {
+      mockAssertActiveMembership.mockRejectedValue(new Error('Insufficient permissions to moderate posts'));
+
+      await expect(service.moderatePost(COMMUNITY_ID, 7, MEMBER_ID, { isLocked: true }))
+        .rejects.toThrow('Insufficient permissions to moderate posts');
+      expect(db.communityPost.update).not.toHaveBeenCalled();
+    });
+
+    it('locks the post', async () => {
+      db.communityPost.findFirst.mockResolvedValueOnce(post()).mockResolvedValueOnce(null);
+
+      await service.moderatePost(COMMUNITY_ID, 7, MEMBER_ID, { isLocked: true });
+
+      expect(db.communityPost.update).toHaveBeenCalledWith({ where: { id: 7 }, data: { isLocked: true } });
+    });
+  });
+
+  it('lets only the author edit a post', async () => {
+    db.communityPost.findFirst.mockResolvedValue(post());
+
+    await expect(service.updatePost(COMMUNITY_ID, 7, MEMBER_ID, { title: 'Mine now' }))
+      .rejects.toThrow('Only the author can edit this post');
+    expect(db.communityPost.update).not.toHaveBeenCalled();
+  });
+
+  describe('deletePost', () => {
+    beforeEach(() => {
+      db.communityPost.findFirst.mockResolvedValue(post());
+    });
+
+    it('refuses members who are not the author', async () => {
+      await expect(service.deletePost(COMMUNITY_ID, 7, MEMBER_ID))
+        .rejects.toThrow('Only the author or a moderator can delete this post');
+      expect(db.communityPost.delete).not.toHaveBeenCalled();
+    });
+
+    it('audits deletions by moderators', async () => {
+      mockAssertActiveMembership.mockResolvedValue(membership(CommunityRole.MODERATOR));
+
+      await expect(service.deletePost(COMMUNITY_ID, 7, MEMBER_ID)).resolves.toBe(true);
+      expect(mockRecord).toHaveBeenCalledWith({}, expect.objectContaining({ targetId: 7, communityId: COMMUNITY_ID }), db);
+    });
+
+    it('does not audit authors deleting their own posts', async () => {
+      mockAssertActiveMembership.mockResolvedValue(membership(CommunityRole.MEMBER));
+
+      await expect(service.deletePost(COMMUNITY_ID, 7, AUTHOR_ID)).resolves.toBe(true);
+      expect(mockRecord).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('archived communities', () => {
+  const postService = new CommunityPostService();
+  const commentService = new CommunityCommentService();
+
+  beforeEach(() => {
+    db.community.findUniqueOrThrow.mockResolvedValue({ status: CommunityStatus.ARCHIVED });
+    db.communityPost.findFirst.mockResolvedValue(post({ authorId: MEMBER_ID }));
+    db.communityComment.findFirst.mockResolvedValue(comment());
+    mockAssertNotArchived.mockImplementation(() => {
+      throw new Error('This community is archived');
+    });
+  });
+
+  it.each([
+    ['creating a post', () => postService.createPost(COMMUNITY_ID, MEMBER_ID, { title: 'Crane', content: 'Free' })],
+    ['editing a post', () => postService.updatePost(COMMUNITY_ID, 7, MEMBER_ID, { title: 'Crane' })],
+    ['creating a comment', () => commentService.createComment(COMMUNITY_ID, 7, MEMBER_ID, { content: 'Hi' })],
+    ['editing a comment', () => commentService.updateComment(COMMUNITY_ID, 7, 11, MEMBER_ID, { content: 'Hi' })],
+  ])('refuses %s', async (_case, write) => {
+    await expect(write()).rejects.toThrow('This community is archived');
+    expect(mockAssertNotArchived).toHaveBeenCalledWith(CommunityStatus.ARCHIVED);
+    expect(db.communityPost.create).not.toHaveBeenCalled();
+    expect(db.communityPost.update).not.toHaveBeenCalled();
+    expect(db.communityComment.create).not.toHaveBeenCalled();
+    expect(db.communityComment.update).not.toHaveBeenCalled();
+  });
+});
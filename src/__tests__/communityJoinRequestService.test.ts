@@ -0,0 +1,218 @@
+import { CommunityJoinRequestStatus, CommunityStatus, Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { CommunityJoinRequestService } from '../services/communityJoinRequestService';
+
+const mockAssertNotArchived = jest.fn();
+const mockAssertNotBanned = jest.fn();
+const mockAssertActiveMembership = jest.fn();
+const mockAddMember = jest.fn();
+
+jest.mock('../lib/prisma', () => ({
+  __esModule: true,
+  default: {
+    $transaction: jest.fn(),
+    community: { findUnique: jest.fn() },
+    communityMember: { findFirst: jest.fn() },
+    communityJoinRequest: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      updateMany: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+    },
+  },
+}));
+jest.mock('../services/communityMembershipService', () => ({
+  CommunityMembershipService: jest.fn().mockImplementation(() => ({
+    assertNotArchived: (...args: unknown[]) => mockAssertNotArchived(...args),
+    assertNotBanned: (...args: unknown[]) => mockAssertNotBanned(...args),
+    assertActiveMembership: (...args: unknown[]) => mockAssertActiveMembership(...args),
+    addMember: (...args: unknown[]) => mockAddMember(...args),
+  })),
+}));
+
+const db = prisma as unknown as {
+  $transaction: jest.Mock;
+  community: Record<'findUnique', jest.Mock>;
+  communityMember: Record<'findFirst', jest.Mock>;
+  communityJoinRequest: Record<'findFirst' | 'create' | 'updateMany' | 'findUniqueOrThrow', jest.Mock>;
+};
+
+const COMMUNITY_ID = 5;
+const USER_ID = 2;
+const MODERATOR_ID = 1;
+
+const joinRequest = (status: CommunityJoinRequestStatus = CommunityJoinRequestStatus.PENDING) => ({
+  id: 9,
+  communityId: COMMUNITY_ID,
+  userId: USER_ID,
+  status,
+  message: null,
+  reviewNote: null,
+  reviewedById: null,
+  reviewedAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  community: { id: COMMUNITY_ID, title: 'Crane Crew', slug: 'crane-crew', isPrivate: true },
+  user: { id: USER_ID, name: 'Kim', nickname: null },
+});
+
+describe('CommunityJoinRequestService', () => {
+  const service = new CommunityJoinRequestService();
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    db.$transaction.mockImplementation((cb: (tx: typeof db) => unknown) => cb(db));
+    db.communityJoinRequest.findUniqueOrThrow.mockResolvedValue(joinRequest());
+  });
+
+  describe('createJoinRequest', () => {
+    beforeEach(() => {
+      db.community.findUnique.mockResolvedValue({ isPrivate: true, status: CommunityStatus.ACTIVE });
+    });
+
+    it('creates a request for a private community', async () => {
+      db.communityJoinRequest.create.mockResolvedValue(joinRequest());
+
+      const result = await service.createJoinRequest(COMMUNITY_ID, USER_ID, { message: 'Hello' });
+
+      expect(result.status).toBe(CommunityJoinRequestStatus.PENDING);
+      expect(db.communityJoinRequest.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: { communityId: COMMUNITY_ID, userId: USER_ID, message: 'Hello' },
+      }));
+      expect(db.$transaction).toHaveBeenCalledWith(expect.any(Function), {
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+      });
+    });
+
+    it('refuses public communities', async () => {
+      db.community.findUnique.mockResolvedValue({ isPrivate: false, status: CommunityStatus.ACTIVE });
+
+      await expect(service.createJoinRequest(COMMUNITY_ID, USER_ID, {}))
+        .rejects.toThrow('This community is public. Join it directly instead.');
+      expect(db.communityJoinRequest.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses archived communities', async () => {
+      db.community.findUnique.mockResolvedValue({ isPrivate: true, status: CommunityStatus.ARCHIVED });
+      mockAssertNotArchived.mockImplementation(() => {
+        throw new Error('Community is archived');
+      });
+
+      await expect(service.createJoinRequest(COMMUNITY_ID, USER_ID, {})).rejects.toThrow('Community is archived');
+      expect(mockAssertNotArchived).toHaveBeenCalledWith(CommunityStatus.ARCHIVED);
+      expect(db.communityJoinRequest.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses banned users', async () => {
+      mockAssertNotBanned.mockRejectedValue(new Error('User is banned from this community'));
+
+      await expect(service.createJoinRequest(COMMUNITY_ID, USER_ID, {})).rejects.toThrow('User is banned from this community');
+      expect(db.communityJoinRequest.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses active members', async () => {
+      db.communityMember.findFirst.mockResolvedValue({ id: 3 });
+
+      await expect(service.createJoinRequest(COMMUNITY_ID, USER_ID, {}))
+        .rejects.toThrow('User is already a member of this community');
+      expect(db.communityJoinRequest.create).not.toHaveBeenCalled();
+    });
+
+    it('allows one waiting request per community', async () => {
+      db.communityJoinRequest.findFirst.mockResolvedValue({ id: 8 });
+
+      await expect(service.createJoinRequest(COMMUNITY_ID, USER_ID, {}))
+        .rejects.toThrow('A join request is already waiting for review');
+      expect(db.communityJoinRequest.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelJoinRequest', () => {
+    it('returns null for requests of other users', async () => {
+      db.communityJoinRequest.findFirst.mockResolvedValue(null);
+
+      await expect(service.cancelJoinRequest(9, 3)).resolves.toBeNull();
+      expect(db.communityJoinRequest.findFirst).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 9, userId: 3 } }));
+      expect(db.communityJoinRequest.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('cancels only waiting requests', async () => {
+      db.communityJoinRequest.findFirst.mockResolvedValue({ id: 9 });
+      db.communityJoinRequest.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.cancelJoinRequest(9, USER_ID)).rejects.toThrow('Only pending join requests can be canceled');
+      expect(db.communityJoinRequest.updateMany).toHaveBeenCalledWith({
+        where: { id: 9, status: CommunityJoinRequestStatus.PENDING },
+        data: { status: CommunityJoinRequestStatus.CANCELED },
+      });
+    });
+  });
+
+  describe('approveJoinRequest', () => {
+    beforeEach(() => {
+      db.communityJoinRequest.findFirst.mockResolvedValue({ ...joinRequest(), user: { deletedAt: null } });
+    });
+
+    it('requires a moderator', async () => {
+      mockAssertActiveMembership.mockRejectedValue(new Error('Insufficient permissions to review join requests'));
+
+      await expect(service.approveJoinRequest(COMMUNITY_ID, 9, USER_ID))
+        .rejects.toThrow('Insufficient permissions to review join requests');
+      expect(db.communityJoinRequest.updateMany).not.toHaveBeenCalled();
+      expect(mockAddMember).not.toHaveBeenCalled();
+    });
+
+    it('returns null when the community has no such request', async () => {
+      db.communityJoinRequest.findFirst.mockResolvedValue(null);
+
+      await expect(service.approveJoinRequest(COMMUNITY_ID, 9, MODERATOR_ID)).resolves.toBeNull();
+      expect(mockAddMember).not.toHaveBeenCalled();
+    });
+
+    it('marks the request approved and adds the member in one transaction', async () => {
+      db.communityJoinRequest.updateMany.mockResolvedValue({ count: 1 });
+
+      await service.approveJoinRequest(COMMUNITY_ID, 9, MODERATOR_ID, { note: 'Welcome' });
+
+      expect(db.communityJoinRequest.updateMany).toHaveBeenCalledWith({
+        where: { id: 9, status: CommunityJoinRequestStatus.PENDING },
+        data: expect.objectContaining({
+          status: CommunityJoinRequestStatus.APPROVED,
+          reviewNote: 'Welcome',
+          reviewedById: MODERATOR_ID,
+        }),
+      });
+      expect(mockAddMember).toHaveBeenCalledWith(db, COMMUNITY_ID, USER_ID);
+    });
+
+    it('decides a request only once', async () => {
+      db.communityJoinRequest.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.approveJoinRequest(COMMUNITY_ID, 9, MODERATOR_ID))
+        .rejects.toThrow('Only pending join requests can be reviewed');
+      expect(mockAddMember).not.toHaveBeenCalled();
+    });
+
+    it('refuses requests of deleted accounts', async () => {
+      db.communityJoinRequest.findFirst.mockResolvedValue({ ...joinRequest(), user: { deletedAt: new Date() } });
+
+      await expect(service.approveJoinRequest(COMMUNITY_ID, 9, MODERATOR_ID))
+        .rejects.toThrow('The account of this request has been deleted');
+      expect(db.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rejectJoinRequest', () => {
+    it('marks the request rejected without adding the member', async () => {
+      db.communityJoinRequest.findFirst.mockResolvedValue({ id: 9 });
+      db.communityJoinRequest.updateMany.mockResolvedValue({ count: 1 });
+
+      await service.rejectJoinRequest(COMMUNITY_ID, 9, MODERATOR_ID);
+
+      expect(db.communityJoinRequest.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: CommunityJoinRequestStatus.REJECTED }),
+      }));
+      expect(mockAddMember).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,207 @@
+import { AuditAction, CommunityRole, OwnershipTransferStatus } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { CommunityOwnershipService } from '../services/communityOwnershipService';
+
+const mockAssertActiveMembership = jest.fn();
+const mockLockCommunity = jest.fn();
+const mockRecord = jest.fn();
+
+jest.mock('../lib/prisma', () => ({
+  __esModule: true,
+  default: {
+    $transaction: jest.fn(),
+    communityMember: { findFirst: jest.fn(), update: jest.fn() },
+    communityOwnershipTransfer: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+    },
+  },
+}));
+jest.mock('../services/communityMembershipService', () => ({
+  CommunityMembershipService: jest.fn().mockImplementation(() => ({
+    assertActiveMembership: (...args: unknown[]) => mockAssertActiveMembership(...args),
+    lockCommunity: (...args: unknown[]) => mockLockCommunity(...args),
+  })),
+}));
+jest.mock('../services/auditLogService', () => ({
+  AuditLogService: jest.fn().mockImplementation(() => ({
+    record: (...args: unknown[]) => mockRecord(...args),
+  })),
+}));
+
+const db = prisma as unknown as {
+  $transaction: jest.Mock;
+  communityMember: Record<'findFirst' | 'update', jest.Mock>;
+  communityOwnershipTransfer: Record<'findFirst' | 'create' | 'update' | 'updateMany' | 'findUniqueOrThrow', jest.Mock>;
+};
+
+const COMMUNITY_ID = 5;
+const OWNER_ID = 1;
+const ADMIN_ID = 2;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const transfer = (overrides: Record<string, unknown> = {}) => ({
+  id: 9,
+  communityId: COMMUNITY_ID,
+  fromUserId: OWNER_ID,
+  toUserId: ADMIN_ID,
+  status: OwnershipTransferStatus.PENDING,
+  expiresAt: new Date(Date.now() + DAY_MS),
+  respondedAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  community: { id: COMMUNITY_ID, title: 'Crane Crew', slug: 'crane-crew', isPrivate: false },
+  fromUser: { id: OWNER_ID, name: 'Kim', nickname: null },
+  toUser: { id: ADMIN_ID, name: 'Lee', nickname: null },
+  ...overrides,
+});
+
+// Membership rows by role, as communityMember.findFirst would find them
+const mockMemberships = (memberships: { owner?: object | null; admin?: object | null; formerOwner?: object | null }) => {
+  db.communityMember.findFirst.mockImplementation(({ where }: { where: { role: CommunityRole; isActive?: boolean } }) => {
+    if (where.role === CommunityRole.ADMIN) {
+      return Promise.resolve(memberships.admin ?? null);
+    }
+
+    return Promise.resolve((where.isActive ? memberships.owner : memberships.formerOwner) ?? null);
+  });
+};
+
+describe('CommunityOwnershipService', () => {
+  const service = new CommunityOwnershipService();
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    db.$transaction.mockImplementation((cb: (tx: typeof db) => unknown) => cb(db));
+    db.communityOwnershipTransfer.findUniqueOrThrow.mockResolvedValue(transfer());
+    db.communityOwnershipTransfer.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  describe('requestTransfer', () => {
+    it('requires the nominee to be an active admin', async () => {
+      mockAssertActiveMembership
+        .mockResolvedValueOnce({ id: 3 })
+        .mockRejectedValueOnce(new Error('Ownership can only be transferred to an active admin of the community'));
+
+      await expect(service.requestTransfer(COMMUNITY_ID, OWNER_ID, { userId: 4 }))
+        .rejects.toThrow('Ownership can only be transferred to an active admin of the community');
+      expect(mockAssertActiveMembership).toHaveBeenLastCalledWith(COMMUNITY_ID, 4, expect.any(String), [CommunityRole.ADMIN]);
+      expect(db.communityOwnershipTransfer.create).not.toHaveBeenCalled();
+    });
+
+    it('allows one open transfer per community', async () => {
+      db.communityOwnershipTransfer.findFirst.mockResolvedValue({ id: 8, expiresAt: new Date(Date.now() + DAY_MS) });
+
+      await expect(service.requestTransfer(COMMUNITY_ID, OWNER_ID, { userId: ADMIN_ID }))
+        .rejects.toThrow('An ownership transfer is already pending. Cancel it first.');
+      expect(db.communityOwnershipTransfer.create).not.toHaveBeenCalled();
+    });
+
+    it('replaces an expired transfer', async () => {
+      db.communityOwnershipTransfer.findFirst.mockResolvedValue({ id: 8, expiresAt: new Date(Date.now() - DAY_MS) });
+      db.communityOwnershipTransfer.create.mockResolvedValue(transfer());
+
+      await service.requestTransfer(COMMUNITY_ID, OWNER_ID, { userId: ADMIN_ID });
+
+      expect(db.communityOwnershipTransfer.update).toHaveBeenCalledWith({
+        where: { id: 8 },
+        data: { status: OwnershipTransferStatus.CANCELED },
+      });
+      expect(db.communityOwnershipTransfer.create).toHaveBeenCalled();
+    });
+  });
+
+  describe('acceptTransfer', () => {
+    it('swaps the roles of owner and nominee', async () => {
+      db.communityOwnershipTransfer.findFirst.mockResolvedValue(transfer());
+      mockMemberships({ owner: { id: 31 }, admin: { id: 32 } });
+
+      await service.acceptTransfer(9, ADMIN_ID);
+
+      expect(mockLockCommunity).toHaveBeenCalledWith(db, COMMUNITY_ID);
+      expect(db.communityMember.update).toHaveBeenCalledWith({ where: { id: 31 }, data: { role: CommunityRole.ADMIN } });
+      expect(db.communityMember.update).toHaveBeenCalledWith({ where: { id: 32 }, data: { role: CommunityRole.OWNER } });
+      expect(mockRecord).toHaveBeenCalledWith({}, expect.objectContaining({
+        action: AuditAction.COMMUNITY_OWNERSHIP_TRANSFERRED,
+        changes: { before: { ownerId: OWNER_ID }, after: { ownerId: ADMIN_ID } },
+      }), db);
+    });
+
+    it('returns null for transfers to other users', async () => {
+      db.communityOwnershipTransfer.findFirst.mockResolvedValue(null);
+
+      await expect(service.acceptTransfer(9, 4)).resolves.toBeNull();
+      expect(db.$transaction).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['answered', { status: OwnershipTransferStatus.DECLINED }, 'Ownership transfer is no longer pending'],
+      ['expired', { expiresAt: new Date(Date.now() - DAY_MS) }, 'Ownership transfer has expired'],
+    ])('refuses %s transfers', async (_case, overrides, message) => {
+      db.communityOwnershipTransfer.findFirst.mockResolvedValue(transfer(overrides));
+
+      await expect(service.acceptTransfer(9, ADMIN_ID)).rejects.toThrow(message);
+      expect(db.communityMember.update).not.toHaveBeenCalled();
+    });
+
+    it('refuses when the nominator is no longer the owner', async () => {
+      db.communityOwnershipTransfer.findFirst.mockResolvedValue(transfer());
+      mockMemberships({ owner: null, admin: { id: 32 } });
+
+      await expect(service.acceptTransfer(9, ADMIN_ID)).rejects.toThrow('This ownership transfer is no longer valid');
+      expect(db.communityMember.update).not.toHaveBeenCalled();
+    });
+
+    it('refuses when the nominee is no longer an admin', async () => {
+      db.communityOwnershipTransfer.findFirst.mockResolvedValue(transfer());
+      mockMemberships({ owner: { id: 31 }, admin: null });
+
+      await expect(service.acceptTransfer(9, ADMIN_ID))
+        .rejects.toThrow('Only an active admin of the community can accept ownership');
+      expect(db.communityMember.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('claimOwnership', () => {
+    beforeEach(() => {
+      mockLockCommunity.mockResolvedValue({ id: COMMUNITY_ID });
+    });
+
+    it('makes the admin owner and demotes the deleted owner', async () => {
+      mockMemberships({ admin: { id: 32 }, owner: null, formerOwner: { id: 31, userId: OWNER_ID } });
+
+      await service.claimOwnership(COMMUNITY_ID, ADMIN_ID);
+
+      expect(db.communityMember.update).toHaveBeenCalledWith({ where: { id: 31 }, data: { role: CommunityRole.MEMBER } });
+      expect(db.communityMember.update).toHaveBeenCalledWith({ where: { id: 32 }, data: { role: CommunityRole.OWNER } });
+      expect(mockRecord).toHaveBeenCalledWith({}, expect.objectContaining({
+        action: AuditAction.COMMUNITY_OWNERSHIP_CLAIMED,
+        changes: { before: { ownerId: OWNER_ID }, after: { ownerId: ADMIN_ID } },
+      }), db);
+    });
+
+    it('refuses while the community has an active owner', async () => {
+      mockMemberships({ admin: { id: 32 }, owner: { id: 31 } });
+
+      await expect(service.claimOwnership(COMMUNITY_ID, ADMIN_ID)).rejects.toThrow('This community still has an owner');
+      expect(db.communityMember.update).not.toHaveBeenCalled();
+    });
+
+    it('refuses users who are not active admins', async () => {
+      mockMemberships({ admin: null });
+
+      await expect(service.claimOwnership(COMMUNITY_ID, 4))
+        .rejects.toThrow('Only an active admin of the community can claim ownership');
+      expect(db.communityMember.update).not.toHaveBeenCalled();
+    });
+
+    it('refuses missing communities', async () => {
+      mockLockCommunity.mockResolvedValue(null);
+
+      await expect(service.claimOwnership(COMMUNITY_ID, ADMIN_ID)).rejects.toThrow('Community not found');
+    });
+  });
+});
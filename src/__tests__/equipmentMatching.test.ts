@@ -0,0 +1,159 @@
+import { JobPostCategory, JobPostStatus, JobPostType } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { JobMatchingService } from '../services/jobMatchingService';
+import { EquipmentTypeResponse } from '../types/equipmentCatalog';
+import { normalizeEquipment, parseLengthMeters, parseTonnage } from '../utils/equipmentNormalizer';
+
+const mockFindJobPosts = jest.fn();
+const mockGetCatalog = jest.fn();
+
+jest.mock('../lib/prisma', () => ({
+  __esModule: true,
+  default: {
+    jobPost: { findUnique: jest.fn() },
+    equipment: { findMany: jest.fn() },
+  },
+}));
+jest.mock('../services/jobPostService', () => ({
+  JobPostService: jest.fn().mockImplementation(() => ({
+    findJobPosts: (...args: unknown[]) => mockFindJobPosts(...args),
+  })),
+}));
+jest.mock('../services/equipmentCatalogService', () => ({
+  EquipmentCatalogService: jest.fn().mockImplementation(() => ({
+    getCatalog: (...args: unknown[]) => mockGetCatalog(...args),
+  })),
+}));
+
+const db = prisma as unknown as {
+  jobPost: Record<'findUnique', jest.Mock>;
+  equipment: Record<'findMany', jest.Mock>;
+};
+
+const catalogType = (id: number, name: string, lengths: number[]): EquipmentTypeResponse => ({
+  id, name, lengths, sortOrder: id, isActive: true,
+});
+
+const catalog = [
+  catalogType(1, '1톤', [18]),
+  catalogType(2, '5톤', [28, 36, 45]),
+  catalogType(3, 'Refraction 60M', [60]),
+];
+
+const truck = (tonnage: string, length: string | null, type = '스카이') => ({ type, tonnage, length });
+
+describe('equipmentNormalizer', () => {
+  it.each([
+    ['3.5톤', 3.5],
+    ['2.5t', 2.5],
+    ['5 tons', 5],
+    ['5', 5],
+    ['large', null],
+  ])('reads the tonnage of %s', (value, expected) => {
+    expect(parseTonnage(value)).toBe(expected);
+  });
+
+  it.each([
+    ['28m', 28],
+    ['6.5 meters', 6.5],
+    ['45미터', 45],
+    [null, null],
+  ])('reads the length of %s', (value, expected) => {
+    expect(parseLengthMeters(value)).toBe(expected);
+  });
+
+  it('snaps the measured boom to the longest catalog length it reaches', () => {
+    expect(normalizeEquipment(truck('5톤', '36.3m'), catalog)).toEqual({ equipmentType: '5톤', equipmentLength: 36 });
+    expect(normalizeEquipment(truck('5톤', '44m'), catalog)).toEqual({ equipmentType: '5톤', equipmentLength: 36 });
+  });
+
+  it('does not need the length of a type with a single length', () => {
+    expect(normalizeEquipment(truck('1t', null), catalog)).toEqual({ equipmentType: '1톤', equipmentLength: 18 });
+    expect(normalizeEquipment(truck('5톤', null), catalog)).toBeNull();
+  });
+
+  it('refuses a boom shorter than every catalog length', () => {
+    expect(normalizeEquipment(truck('5톤', '20m'), catalog)).toBeNull();
+  });
+
+  it('only matches bending trucks with bending types', () => {
+    expect(normalizeEquipment(truck('', '60m', '굴절 스카이'), catalog)).toEqual({ equipmentType: 'Refraction 60M', equipmentLength: 60 });
+    expect(normalizeEquipment(truck('7톤', '60m'), catalog)).toBeNull();
+  });
+});
+
+describe('JobMatchingService', () => {
+  const jobMatchingService = new JobMatchingService();
+
+  const equipment = (id: number, userId: number, tonnage: string, length: string | null) => ({
+    id,
+    userId,
+    ...truck(tonnage, length),
+    user: { id: userId, name: `User ${userId}`, nickname: null, businessVerifiedAt: null },
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockGetCatalog.mockResolvedValue({ equipmentTypes: catalog, ladderMachineTypes: [] });
+  });
+
+  describe('getJobPostsForUserEquipment', () => {
+    it('asks for one type/length pair per distinct truck and tags the matching ones', async () => {
+      db.equipment.findMany.mockResolvedValue([
+        equipment(1, 4, '5톤', '36m'),
+        equipment(2, 4, '5톤', '37m'),
+        equipment(3, 4, '1톤', null),
+        equipment(4, 4, 'unknown', null),
+      ]);
+      mockFindJobPosts.mockResolvedValue({
+        data: [{ id: 9, equipmentType: '5톤', equipmentLengths: [36, 45] }],
+        pagination: {},
+      });
+
+      const result = await jobMatchingService.getJobPostsForUserEquipment(4);
+
+      expect(mockFindJobPosts).toHaveBeenCalledWith({
+        category: JobPostCategory.SKY,
+        status: JobPostStatus.OPEN,
+        authorId: { not: 4 },
+        OR: [
+          { equipmentType: '5톤', equipmentLengths: { has: 36 } },
+          { equipmentType: '1톤', equipmentLengths: { has: 18 } },
+        ],
+      }, 4, {});
+      expect(result.data[0]?.matchedEquipmentIds).toEqual([1, 2]);
+    });
+  });
+
+  describe('getSuitableOperators', () => {
+    const skyPost = { id: 9, authorId: 1, type: JobPostType.GLOBAL, category: JobPostCategory.SKY, communityId: null, equipmentType: '5톤', equipmentLengths: [45] };
+
+    it('groups the trucks that can serve the post by operator', async () => {
+      db.jobPost.findUnique.mockResolvedValue(skyPost);
+      db.equipment.findMany.mockResolvedValue([
+        equipment(1, 4, '5톤', '45m'),
+        equipment(2, 4, '5톤', '46m'),
+        equipment(3, 5, '5톤', '28m'),
+      ]);
+
+      const operators = await jobMatchingService.getSuitableOperators(9, 1);
+
+      expect(operators).toHaveLength(1);
+      expect(operators?.[0]).toEqual(expect.objectContaining({ id: 4, isBusinessVerified: false }));
+      expect(operators?.[0]?.equipment.map(item => item.id)).toEqual([1, 2]);
+    });
+
+    it('only answers the author', async () => {
+      db.jobPost.findUnique.mockResolvedValue(skyPost);
+
+      await expect(jobMatchingService.getSuitableOperators(9, 4)).resolves.toBeNull();
+      expect(db.equipment.findMany).not.toHaveBeenCalled();
+    });
+
+    it('refuses ladder posts', async () => {
+      db.jobPost.findUnique.mockResolvedValue({ ...skyPost, category: JobPostCategory.LADDER, equipmentType: null });
+
+      await expect(jobMatchingService.getSuitableOperators(9, 1)).rejects.toThrow('Equipment matching is only available for SKY job posts');
+    });
+  });
+});
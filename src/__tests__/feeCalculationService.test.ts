@@ -0,0 +1,148 @@
+import { JobPostCategory, JobPostType, LadderType } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { FeeCalculationService } from '../services/feeCalculationService';
+import { FeeCalculationInput } from '../types/fee';
+
+jest.mock('../lib/prisma', () => ({
+  __esModule: true,
+  default: {
+    community: { findUnique: jest.fn() },
+  },
+}));
+
+const db = prisma as unknown as {
+  community: Record<'findUnique', jest.Mock>;
+};
+
+const input = (overrides: Partial<FeeCalculationInput> = {}): FeeCalculationInput => ({
+  type: JobPostType.GLOBAL,
+  category: JobPostCategory.SKY,
+  workCost: 150000,
+  withFee: true,
+  ...overrides,
+});
+
+describe('FeeCalculationService', () => {
+  const feeCalculationService = new FeeCalculationService();
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  describe('calculate', () => {
+    it('charges the platform rate on global posts', () => {
+      expect(feeCalculationService.calculate(input())).toEqual(expect.objectContaining({
+        totalWorkCost: 150000,
+        workFeeRate: 10,
+        totalWorkFee: 15000,
+        unitPriceFee: 15000,
+        totalFees: 15000,
+        operatorPayout: 135000,
+      }));
+    });
+
+    it('charges nothing without fees', () => {
+      const fees = feeCalculationService.calculate(input({ withFee: false, isNightWork: true }));
+
+      expect(fees).toEqual(expect.objectContaining({ totalWorkCost: 225000, workFeeRate: 0, totalFees: 0, operatorPayout: 225000 }));
+    });
+
+    it('applies the price adjustment before the night surcharge', () => {
+      const fees = feeCalculationService.calculate(input({ workCost: 100000, priceAdjustment: -5000, isNightWork: true }));
+
+      expect(fees).toEqual(expect.objectContaining({
+        adjustedWorkCost: 95000,
+        nightWorkSurcharge: 47500,
+        totalWorkCost: 142500,
+        totalWorkFee: 14250,
+        unitPriceFee: 10000,
+        operatorPayout: 128250,
+      }));
+    });
+
+    it('never lets the adjustment push the work cost below zero', () => {
+      const fees = feeCalculationService.calculate(input({ workCost: 1000, priceAdjustment: -5000 }));
+
+      expect(fees).toEqual(expect.objectContaining({ adjustedWorkCost: 0, totalWorkCost: 0, totalFees: 0, operatorPayout: 0 }));
+    });
+
+    it('rounds every fee to whole won', () => {
+      const fees = feeCalculationService.calculate(input({ workCost: 12345, isNightWork: true }));
+
+      expect(fees).toEqual(expect.objectContaining({
+        nightWorkSurcharge: 6173,
+        totalWorkCost: 18518,
+        totalWorkFee: 1852,
+        unitPriceFee: 1235,
+      }));
+    });
+
+    it('adds the moving fee to ladder moving posts', () => {
+      const fees = feeCalculationService.calculate(input({ category: JobPostCategory.LADDER, ladderType: LadderType.MOVING_GOODS }));
+
+      expect(fees).toEqual(expect.objectContaining({ movingFee: 3000, onSiteFee: 0, ladderFee: 3000, totalFees: 18000 }));
+    });
+
+    it('pays ladder overtime pro rata and charges the community rates on it', () => {
+      const fees = feeCalculationService.calculate(input({
+        type: JobPostType.COMMUNITY,
+        category: JobPostCategory.LADDER,
+        ladderType: LadderType.ON_SITE,
+        workCost: 80000,
+        ladderWorkDuration: '추가1시간',
+        ladderWorkHours: 2,
+        communityWorkFee: 5,
+        communitySupportFee: 2,
+      }));
+
+      expect(fees).toEqual(expect.objectContaining({
+        extraHours: 2,
+        extraHoursCost: 20000,
+        totalWorkCost: 100000,
+        totalWorkFee: 5000,
+        unitPriceFee: 4000,
+        supportFee: 2000,
+        onSiteFee: 7000,
+        totalFees: 14000,
+        operatorPayout: 86000,
+      }));
+    });
+
+    it('ignores ladderWorkHours unless overtime is booked', () => {
+      const fees = feeCalculationService.calculate(input({
+        category: JobPostCategory.LADDER,
+        ladderType: LadderType.ON_SITE,
+        ladderWorkDuration: '4시간',
+        ladderWorkHours: 3,
+      }));
+
+      expect(fees).toEqual(expect.objectContaining({ extraHours: 0, extraHoursCost: 0, onSiteFee: 5000 }));
+    });
+  });
+
+  describe('resolveFeeRates', () => {
+    const communityInput = { ...input({ type: JobPostType.COMMUNITY }), communityId: 3 };
+
+    it('fills in the community defaults', async () => {
+      db.community.findUnique.mockResolvedValue({ defaultWorkFee: 7, defaultSupportFee: null });
+
+      await expect(feeCalculationService.resolveFeeRates(communityInput)).resolves.toEqual(expect.objectContaining({
+        communityWorkFee: 7,
+        communitySupportFee: 2,
+      }));
+    });
+
+    it('keeps the rates the post sets itself', async () => {
+      const data = { ...communityInput, communityWorkFee: 1, communitySupportFee: 0 };
+
+      await expect(feeCalculationService.resolveFeeRates(data)).resolves.toBe(data);
+      expect(db.community.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('fails for an unknown community', async () => {
+      db.community.findUnique.mockResolvedValue(null);
+
+      await expect(feeCalculationService.resolveFeeRates(communityInput)).rejects.toThrow('Community not found');
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { generateKeyPairSync, KeyObject } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { IdTokenVerifier } from '../services/idTokenVerifier';
+import { StaticJwksProvider } from '../services/jwksProvider';
+import { IdentityVerificationError } from '../services/identityProviders/identityVerificationError';
+import { Jwk } from '../types/auth';
+
+const ISSUER = 'https://kauth.kakao.com';
+const CLIENT_ID = 'client-id';
+const NONCE = 'nonce-1';
+
+const createKey = (kid: string): { privateKey: KeyObject; jwk: Jwk } => {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const { kty, n, e } = publicKey.export({ format: 'jwk' });
+  return { privateKey, jwk: { kid, kty: kty!, n, e, alg: 'RS256', use: 'sig' } };
+};
+
+const base64Url = (value: object): string => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+describe('IdTokenVerifier', () => {
+  const signingKey = createKey('key-1');
+  const jwksProvider = new StaticJwksProvider([signingKey.jwk]);
+  const verifier = new IdTokenVerifier({ jwksProvider, issuer: ISSUER, audiences: [CLIENT_ID], subjectPattern: /^\d+$/ });
+
+  const now = () => Math.floor(Date.now() / 1000);
+  const claims = { sub: '12345', nonce: NONCE, email: 'a@b.com', email_verified: true };
+
+  const signClaims = (payload: object, options: jwt.SignOptions = {}, key: KeyObject = signingKey.privateKey): string =>
+    jwt.sign(payload, key, { algorithm: 'RS256', keyid: 'key-1', issuer: ISSUER, audience: CLIENT_ID, ...options });
+
+  const sign = (payload: object = {}, options: jwt.SignOptions = {}, key: KeyObject = signingKey.privateKey): string =>
+    signClaims({ ...claims, exp: now() + 300, ...payload }, options, key);
+
+  const expectRejected = (idToken: string, message: string | RegExp) =>
+    expect(verifier.verifyIdToken(idToken, NONCE)).rejects.toThrow(expect.objectContaining({
+      name: IdentityVerificationError.name,
+      message: expect.stringMatching(message),
+    }));
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('returns the claims of a valid token', async () => {
+    await expect(verifier.verifyIdToken(sign(), NONCE)).resolves.toEqual(expect.objectContaining({
+      iss: ISSUER,
+      aud: CLIENT_ID,
+      sub: '12345',
+      nonce: NONCE,
+      email: 'a@b.com',
+      emailVerified: true,
+    }));
+  });
+
+  it('refuses a token from another issuer', async () => {
+    await expectRejected(sign({}, { issuer: 'https://evil.example.com' }), 'jwt issuer invalid');
+  });
+
+  it('refuses a token for another client', async () => {
+    await expectRejected(sign({}, { audience: 'other-client' }), 'jwt audience invalid');
+  });
+
+  it('refuses an expired token', async () => {
+    await expectRejected(sign({ exp: now() - 120 }), 'jwt expired');
+  });
+
+  it('refuses a token without an expiry', async () => {
+    await expectRejected(signClaims(claims), 'ID token has no expiry');
+  });
+
+  it('refuses tokens that are not RS256', async () => {
+    const hs256 = jwt.sign({ sub: '12345', nonce: NONCE }, 'secret', { algorithm: 'HS256', keyid: 'key-1', issuer: ISSUER, audience: CLIENT_ID, expiresIn: 300 });
+    const unsigned = `${base64Url({ alg: 'none', kid: 'key-1' })}.${base64Url({ sub: '12345', nonce: NONCE, iss: ISSUER, aud: CLIENT_ID })}.`;
+
+    await expectRejected(hs256, 'Unsupported ID token algorithm HS256');
+    await expectRejected(unsigned, 'Unsupported ID token algorithm none');
+  });
+
+  it('refuses a token signed with an unknown key after refetching the key set once', async () => {
+    const getKeys = jest.spyOn(jwksProvider, 'getKeys');
+    const otherKey = createKey('key-2');
+
+    await expectRejected(sign({}, { keyid: 'key-2' }, otherKey.privateKey), 'Unknown ID token signing key key-2');
+    expect(getKeys).toHaveBeenCalledTimes(2);
+    expect(getKeys).toHaveBeenLastCalledWith({ forceRefresh: true });
+  });
+
+  it('refuses a token signed by another key under a known key id', async () => {
+    await expectRejected(sign({}, {}, createKey('key-1').privateKey), 'invalid signature');
+  });
+
+  it('refuses a token issued for another login attempt', async () => {
+    await expectRejected(sign({ nonce: 'nonce-2' }), 'ID token nonce does not match');
+  });
+
+  it('refuses a subject in an unexpected format', async () => {
+    await expectRejected(sign({ sub: 'abc' }), 'ID token has an invalid subject');
+  });
+
+  it('refuses malformed tokens', async () => {
+    await expectRejected('not-a-token', 'Malformed ID token');
+  });
+});
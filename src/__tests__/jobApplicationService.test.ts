@@ -0,0 +1,178 @@
+import { JobApplicationStatus, JobPostStatus, JobPostType } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { JobApplicationService } from '../services/jobApplicationService';
+
+const mockCanAccessJobPost = jest.fn();
+const mockApplyTransition = jest.fn();
+
+jest.mock('../lib/prisma', () => ({
+  __esModule: true,
+  default: {
+    $transaction: jest.fn(),
+    jobPost: { findUnique: jest.fn() },
+    equipment: { findUnique: jest.fn() },
+    jobApplication: { create: jest.fn(), update: jest.fn(), updateMany: jest.fn(), findUnique: jest.fn(), findFirst: jest.fn() },
+  },
+}));
+jest.mock('../services/jobPostService', () => ({
+  JobPostService: jest.fn().mockImplementation(() => ({
+    canAccessJobPost: (...args: unknown[]) => mockCanAccessJobPost(...args),
+  })),
+}));
+jest.mock('../services/jobPostStatusService', () => ({
+  JobPostStatusService: jest.fn().mockImplementation(() => ({
+    applyTransition: (...args: unknown[]) => mockApplyTransition(...args),
+  })),
+}));
+
+const db = prisma as unknown as {
+  $transaction: jest.Mock;
+  jobPost: Record<'findUnique', jest.Mock>;
+  equipment: Record<'findUnique', jest.Mock>;
+  jobApplication: Record<'create' | 'update' | 'updateMany' | 'findUnique' | 'findFirst', jest.Mock>;
+};
+
+const AUTHOR_ID = 1;
+const APPLICANT_ID = 2;
+
+const jobPost = (overrides: { type?: JobPostType; status?: JobPostStatus } = {}) => ({
+  id: 7,
+  authorId: AUTHOR_ID,
+  type: JobPostType.GLOBAL,
+  status: JobPostStatus.OPEN,
+  ...overrides,
+});
+
+const application = (overrides: { status?: JobApplicationStatus } = {}) => ({
+  id: 30,
+  jobPostId: 7,
+  applicantId: APPLICANT_ID,
+  equipmentId: null,
+  proposedPrice: null,
+  message: null,
+  status: JobApplicationStatus.PENDING,
+  decidedAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe('JobApplicationService', () => {
+  const jobApplicationService = new JobApplicationService();
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    db.$transaction.mockImplementation((callback: (tx: typeof db) => unknown) => callback(db));
+    mockCanAccessJobPost.mockResolvedValue(true);
+  });
+
+  describe('applyToJobPost', () => {
+    it('reports posts the user cannot see as not found', async () => {
+      db.jobPost.findUnique.mockResolvedValue(jobPost());
+      mockCanAccessJobPost.mockResolvedValue(false);
+
+      await expect(jobApplicationService.applyToJobPost(7, APPLICANT_ID, {})).resolves.toBeNull();
+      expect(db.jobApplication.create).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['a designated post', jobPost({ type: JobPostType.DESIGNATED }), APPLICANT_ID, 'Designated job posts do not accept applications'],
+      ['their own post', jobPost(), AUTHOR_ID, 'Cannot apply to your own job post'],
+      ['a post that is no longer open', jobPost({ status: JobPostStatus.ASSIGNED }), APPLICANT_ID, 'Job post is no longer accepting applications'],
+    ])('refuses an application to %s', async (_case, post, userId, message) => {
+      db.jobPost.findUnique.mockResolvedValue(post);
+
+      await expect(jobApplicationService.applyToJobPost(7, userId, {})).rejects.toThrow(message);
+      expect(db.jobApplication.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses equipment that belongs to someone else', async () => {
+      db.jobPost.findUnique.mockResolvedValue(jobPost());
+      db.equipment.findUnique.mockResolvedValue({ id: 3, userId: 99 });
+
+      await expect(jobApplicationService.applyToJobPost(7, APPLICANT_ID, { equipmentId: 3 })).rejects.toThrow('Equipment not found');
+    });
+
+    it('refuses a second application while the first is still active', async () => {
+      db.jobPost.findUnique.mockResolvedValue(jobPost());
+      db.jobApplication.findUnique.mockResolvedValue(application({ status: JobApplicationStatus.REJECTED }));
+
+      await expect(jobApplicationService.applyToJobPost(7, APPLICANT_ID, {})).rejects.toThrow('You have already applied to this job post');
+      expect(db.jobApplication.update).not.toHaveBeenCalled();
+    });
+
+    it('re-submits a withdrawn application as pending', async () => {
+      db.jobPost.findUnique.mockResolvedValue(jobPost());
+      db.jobApplication.findUnique.mockResolvedValue(application({ status: JobApplicationStatus.WITHDRAWN }));
+      db.jobApplication.update.mockResolvedValue(application());
+
+      await jobApplicationService.applyToJobPost(7, APPLICANT_ID, { message: 'Again' });
+
+      expect(db.jobApplication.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 30 },
+        data: expect.objectContaining({ status: JobApplicationStatus.PENDING, message: 'Again', decidedAt: null }),
+      }));
+    });
+  });
+
+  describe('acceptApplication', () => {
+    it('accepts the application, rejects the other pending ones and assigns the applicant', async () => {
+      const post = jobPost();
+      db.jobPost.findUnique.mockResolvedValue(post);
+      db.jobApplication.findFirst.mockResolvedValue(application());
+      db.jobApplication.updateMany.mockResolvedValue({ count: 1 });
+      db.jobApplication.findUnique.mockResolvedValue(application({ status: JobApplicationStatus.ACCEPTED }));
+
+      const result = await jobApplicationService.acceptApplication(7, 30, AUTHOR_ID);
+
+      expect(result?.status).toBe(JobApplicationStatus.ACCEPTED);
+      expect(db.jobApplication.updateMany).toHaveBeenNthCalledWith(1, {
+        where: { id: 30, status: JobApplicationStatus.PENDING },
+        data: { status: JobApplicationStatus.ACCEPTED, decidedAt: expect.any(Date) },
+      });
+      expect(db.jobApplication.updateMany).toHaveBeenNthCalledWith(2, {
+        where: { jobPostId: 7, id: { not: 30 }, status: JobApplicationStatus.PENDING },
+        data: { status: JobApplicationStatus.REJECTED, decidedAt: expect.any(Date) },
+      });
+      expect(mockApplyTransition).toHaveBeenCalledWith(db, post, JobPostStatus.ASSIGNED, AUTHOR_ID, { assignedUserId: APPLICANT_ID });
+    });
+
+    it('only lets the author decide', async () => {
+      db.jobPost.findUnique.mockResolvedValue(jobPost());
+
+      await expect(jobApplicationService.acceptApplication(7, 30, APPLICANT_ID)).resolves.toBeNull();
+      expect(db.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('refuses applications that were already decided', async () => {
+      db.jobPost.findUnique.mockResolvedValue(jobPost());
+      db.jobApplication.findFirst.mockResolvedValue(application({ status: JobApplicationStatus.WITHDRAWN }));
+
+      await expect(jobApplicationService.acceptApplication(7, 30, AUTHOR_ID)).rejects.toThrow('Cannot accept an application that is WITHDRAWN');
+    });
+
+    it('fails without assigning when another request decided the application first', async () => {
+      db.jobPost.findUnique.mockResolvedValue(jobPost());
+      db.jobApplication.findFirst.mockResolvedValue(application());
+      db.jobApplication.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(jobApplicationService.acceptApplication(7, 30, AUTHOR_ID)).rejects.toThrow('Application was changed by another request');
+      expect(mockApplyTransition).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('withdrawApplication', () => {
+    it('only lets the applicant withdraw', async () => {
+      db.jobApplication.findFirst.mockResolvedValue(application());
+
+      await expect(jobApplicationService.withdrawApplication(7, 30, AUTHOR_ID)).resolves.toBeNull();
+      expect(db.jobApplication.update).not.toHaveBeenCalled();
+    });
+
+    it('refuses to withdraw an accepted application', async () => {
+      db.jobApplication.findFirst.mockResolvedValue(application({ status: JobApplicationStatus.ACCEPTED }));
+
+      await expect(jobApplicationService.withdrawApplication(7, 30, APPLICANT_ID)).rejects.toThrow('Only pending applications can be withdrawn');
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { DesignationStatus, JobPostStatus, JobPostType } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { JobPostDesignationService } from '../services/jobPostDesignationService';
+
+const mockGetJobPostById = jest.fn();
+const mockValidateDesignatedUserAccess = jest.fn();
+const mockApplyTransition = jest.fn();
+
+jest.mock('../lib/prisma', () => ({
+  __esModule: true,
+  default: {
+    $transaction: jest.fn(),
+    jobPost: { findUnique: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+  },
+}));
+jest.mock('../services/jobPostService', () => ({
+  JobPostService: jest.fn().mockImplementation(() => ({
+    getJobPostById: (...args: unknown[]) => mockGetJobPostById(...args),
+    validateDesignatedUserAccess: (...args: unknown[]) => mockValidateDesignatedUserAccess(...args),
+  })),
+}));
+jest.mock('../services/jobPostStatusService', () => ({
+  JobPostStatusService: jest.fn().mockImplementation(() => ({
+    applyTransition: (...args: unknown[]) => mockApplyTransition(...args),
+  })),
+}));
+
+const db = prisma as unknown as {
+  $transaction: jest.Mock;
+  jobPost: Record<'findUnique' | 'update' | 'updateMany', jest.Mock>;
+};
+
+const AUTHOR_ID = 1;
+const DESIGNATED_ID = 2;
+
+const designatedPost = (overrides: { status?: JobPostStatus; designationStatus?: DesignationStatus; designatedUserId?: number } = {}) => ({
+  id: 7,
+  authorId: AUTHOR_ID,
+  type: JobPostType.DESIGNATED,
+  status: JobPostStatus.OPEN,
+  designatedUserId: DESIGNATED_ID,
+  designationStatus: DesignationStatus.PENDING,
+  ...overrides,
+});
+
+describe('JobPostDesignationService', () => {
+  const jobPostDesignationService = new JobPostDesignationService();
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    db.$transaction.mockImplementation((callback: (tx: typeof db) => unknown) => callback(db));
+    db.jobPost.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('expires unanswered designations past their deadline before answering', async () => {
+    db.jobPost.findUnique.mockResolvedValue(designatedPost());
+
+    await jobPostDesignationService.declineDesignation(7, DESIGNATED_ID);
+
+    expect(db.jobPost.updateMany).toHaveBeenNthCalledWith(1, {
+      where: {
+        type: JobPostType.DESIGNATED,
+        designationStatus: DesignationStatus.PENDING,
+        designationExpiresAt: { lte: expect.any(Date) },
+      },
+      data: { designationStatus: DesignationStatus.EXPIRED },
+    });
+  });
+
+  describe('acceptDesignation', () => {
+    it('accepts and assigns the post to the designated user', async () => {
+      const post = designatedPost();
+      db.jobPost.findUnique.mockResolvedValue(post);
+
+      await jobPostDesignationService.acceptDesignation(7, DESIGNATED_ID);
+
+      expect(db.jobPost.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 7, designationStatus: DesignationStatus.PENDING },
+        data: { designationStatus: DesignationStatus.ACCEPTED, designationRespondedAt: expect.any(Date) },
+      });
+      expect(mockApplyTransition).toHaveBeenCalledWith(db, post, JobPostStatus.ASSIGNED, DESIGNATED_ID, { assignedUserId: DESIGNATED_ID });
+    });
+
+    it('reports designations addressed to someone else as not found', async () => {
+      db.jobPost.findUnique.mockResolvedValue(designatedPost({ designatedUserId: 99 }));
+
+      await expect(jobPostDesignationService.acceptDesignation(7, DESIGNATED_ID)).resolves.toBeNull();
+      expect(db.$transaction).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      [DesignationStatus.EXPIRED, 'This designation has expired'],
+      [DesignationStatus.DECLINED, 'This designation has already been answered'],
+    ])('refuses to answer a designation that is %s', async (designationStatus, message) => {
+      db.jobPost.findUnique.mockResolvedValue(designatedPost({ designationStatus }));
+
+      await expect(jobPostDesignationService.acceptDesignation(7, DESIGNATED_ID)).rejects.toThrow(message);
+      expect(mockApplyTransition).not.toHaveBeenCalled();
+    });
+
+    it('fails when the designation was answered by another request', async () => {
+      db.jobPost.findUnique.mockResolvedValue(designatedPost());
+      db.jobPost.updateMany.mockResolvedValueOnce({ count: 0 }).mockResolvedValueOnce({ count: 0 });
+
+      await expect(jobPostDesignationService.acceptDesignation(7, DESIGNATED_ID)).rejects.toThrow('Designation was changed by another request');
+      expect(mockApplyTransition).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('declineDesignation', () => {
+    it('keeps the post open and records the reason', async () => {
+      db.jobPost.findUnique.mockResolvedValue(designatedPost());
+
+      await jobPostDesignationService.declineDesignation(7, DESIGNATED_ID, 'Booked that day');
+
+      expect(db.jobPost.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 7, designationStatus: DesignationStatus.PENDING },
+        data: {
+          designationStatus: DesignationStatus.DECLINED,
+          designationRespondedAt: expect.any(Date),
+          designationDeclineReason: 'Booked that day',
+        },
+      });
+      expect(mockApplyTransition).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('redesignateJobPost', () => {
+    it('hands a declined post to a new user with a fresh deadline', async () => {
+      db.jobPost.findUnique.mockResolvedValue(designatedPost({ designationStatus: DesignationStatus.DECLINED }));
+
+      await jobPostDesignationService.redesignateJobPost(7, AUTHOR_ID, 3);
+
+      expect(mockValidateDesignatedUserAccess).toHaveBeenCalledWith(AUTHOR_ID, 3);
+      expect(db.jobPost.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: {
+          designatedUserId: 3,
+          designationStatus: DesignationStatus.PENDING,
+          designationExpiresAt: expect.any(Date),
+          designationRespondedAt: null,
+          designationDeclineReason: null,
+        },
+      });
+    });
+
+    it('refuses while the current designation is still pending', async () => {
+      db.jobPost.findUnique.mockResolvedValue(designatedPost());
+
+      await expect(jobPostDesignationService.redesignateJobPost(7, AUTHOR_ID, 3)).rejects.toThrow('The current designation has not been declined or expired yet');
+      expect(db.jobPost.update).not.toHaveBeenCalled();
+    });
+
+    it('refuses to designate the author', async () => {
+      db.jobPost.findUnique.mockResolvedValue(designatedPost({ designationStatus: DesignationStatus.EXPIRED }));
+
+      await expect(jobPostDesignationService.redesignateJobPost(7, AUTHOR_ID, AUTHOR_ID)).rejects.toThrow('Cannot designate a job post to its author');
+    });
+
+    it('only lets the author re-designate', async () => {
+      db.jobPost.findUnique.mockResolvedValue(designatedPost({ designationStatus: DesignationStatus.DECLINED }));
+
+      await expect(jobPostDesignationService.redesignateJobPost(7, DESIGNATED_ID, 3)).resolves.toBeNull();
+      expect(db.jobPost.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,204 @@
+import { JobPostCategory, JobPostStatus, JobPostType, LadderType, PaymentMethod, WorkShift } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { JobPostService } from '../services/jobPostService';
+import { addDays, getKstToday } from '../utils/workSchedule';
+
+const mockValidateEquipmentSelection = jest.fn();
+const mockValidateLadderMachineType = jest.fn();
+
+jest.mock('../lib/prisma', () => ({
+  __esModule: true,
+  default: {
+    jobPost: { findUnique: jest.fn(), update: jest.fn() },
+  },
+}));
+jest.mock('../services/feeCalculationService', () => ({
+  FeeCalculationService: jest.fn().mockImplementation(() => ({
+    resolveFeeRates: async (data: unknown) => data,
+    calculate: () => ({ totalWorkFee: 0, unitPriceFee: 0, totalWorkCost: 150000, operatorPayout: 150000 }),
+  })),
+}));
+jest.mock('../services/equipmentCatalogService', () => ({
+  EquipmentCatalogService: jest.fn().mockImplementation(() => ({
+    validateEquipmentSelection: (...args: unknown[]) => mockValidateEquipmentSelection(...args),
+    validateLadderMachineType: (...args: unknown[]) => mockValidateLadderMachineType(...args),
+  })),
+}));
+jest.mock('../services/locationService', () => ({
+  LocationService: jest.fn().mockImplementation(() => ({
+    resolveSiteLocation: async () => ({}),
+  })),
+}));
+jest.mock('../services/communityMembershipService', () => ({ CommunityMembershipService: jest.fn() }));
+
+const db = prisma as unknown as {
+  jobPost: Record<'findUnique' | 'update', jest.Mock>;
+};
+
+const AUTHOR_ID = 1;
+
+const storedJobPost = (overrides: Record<string, unknown> = {}) => ({
+  id: 7,
+  type: JobPostType.GLOBAL,
+  category: JobPostCategory.SKY,
+  authorId: AUTHOR_ID,
+  communityId: null,
+  designatedUserId: null,
+  status: JobPostStatus.OPEN,
+  equipmentType: 'CRANE',
+  equipmentLengths: [18],
+  ladderType: null,
+  machineType: null,
+  luggageVolume: null,
+  workFloor: null,
+  overallHeight: null,
+  ladderWorkDuration: null,
+  ladderWorkHours: null,
+  options: null,
+  movingFee: null,
+  onSiteFee: null,
+  workDateType: 'TODAY',
+  workDate: new Date('2026-10-10T00:00:00.000Z'),
+  scheduledStartAt: new Date('2026-10-10T00:00:00.000Z'),
+  arrivalTime: '09:00',
+  workSchedule: '4 hours',
+  customHours: null,
+  shift: WorkShift.MORNING,
+  workCost: 150000,
+  isNightWork: false,
+  priceAdjustment: null,
+  paymentMethod: PaymentMethod.CASH,
+  expectedPaymentDate: 'Same Day',
+  withFee: false,
+  communityWorkFee: null,
+  communitySupportFee: null,
+  siteAddress: '서울 강남구 테헤란로 1',
+  contactNumber: '010-1234-5678',
+  workContents: 'Window install',
+  deliveryInfo: 'Front gate',
+  createdAt: new Date('2026-10-10T00:00:00.000Z'),
+  updatedAt: new Date('2026-10-10T00:00:00.000Z'),
+  ...overrides,
+});
+
+const storedLadderJobPost = (overrides: Record<string, unknown> = {}) => storedJobPost({
+  category: JobPostCategory.LADDER,
+  equipmentType: null,
+  equipmentLengths: [],
+  ladderType: LadderType.MOVING_GOODS,
+  machineType: '1톤',
+  luggageVolume: '1톤',
+  workFloor: '5',
+  overallHeight: '15m',
+  options: { loadingUnloadingService: null, travelDistance: null, dumpService: false },
+  workSchedule: '',
+  ...overrides,
+});
+
+describe('JobPostService.updateJobPost', () => {
+  const jobPostService = new JobPostService();
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    db.jobPost.update.mockImplementation(async () => storedJobPost());
+  });
+
+  const updateData = () => db.jobPost.update.mock.calls[0]?.[0].data;
+
+  it('keeps the stored work day on an edit that does not touch the date', async () => {
+    db.jobPost.findUnique.mockResolvedValue(storedJobPost());
+
+    await jobPostService.updateJobPost(7, AUTHOR_ID, { workCost: 200000 });
+
+    expect(updateData()).toEqual(expect.objectContaining({
+      workCost: 200000,
+      workDateType: 'TODAY',
+      workDate: new Date('2026-10-10T00:00:00.000Z'),
+      scheduledStartAt: new Date('2026-10-10T00:00:00.000Z'),
+    }));
+  });
+
+  it('resolves the work day again when the date type changes', async () => {
+    db.jobPost.findUnique.mockResolvedValue(storedJobPost());
+
+    await jobPostService.updateJobPost(7, AUTHOR_ID, { workDateType: 'TOMORROW' });
+
+    expect(updateData().workDate).toEqual(addDays(getKstToday(), 1));
+  });
+
+  it('runs the equipment checks on every edit', async () => {
+    db.jobPost.findUnique.mockResolvedValue(storedJobPost());
+
+    await jobPostService.updateJobPost(7, AUTHOR_ID, { workCost: 200000 });
+
+    expect(mockValidateEquipmentSelection).toHaveBeenCalledWith('CRANE', [18]);
+  });
+
+  it('refuses an ON_SITE ladder post without a work schedule', async () => {
+    db.jobPost.findUnique.mockResolvedValue(storedLadderJobPost());
+
+    await expect(jobPostService.updateJobPost(7, AUTHOR_ID, { ladderType: LadderType.ON_SITE }))
+      .rejects.toThrow('workSchedule: Work schedule is required for ladder ON_SITE job posts');
+    expect(db.jobPost.update).not.toHaveBeenCalled();
+  });
+
+  it('refuses CUSTOM_DATE when there is no work date', async () => {
+    db.jobPost.findUnique.mockResolvedValue(storedJobPost({ workDate: null }));
+
+    await expect(jobPostService.updateJobPost(7, AUTHOR_ID, { workDateType: 'CUSTOM_DATE' }))
+      .rejects.toThrow('workDate: Work date is required for CUSTOM_DATE');
+  });
+
+  it('refuses to clear the work date of a CUSTOM_DATE post', async () => {
+    db.jobPost.findUnique.mockResolvedValue(storedJobPost({ workDateType: 'CUSTOM_DATE' }));
+
+    await expect(jobPostService.updateJobPost(7, AUTHOR_ID, { workDate: null }))
+      .rejects.toThrow('workDate: Work date is required for CUSTOM_DATE');
+  });
+
+  it('refuses a category switch that leaves the new category empty', async () => {
+    db.jobPost.findUnique.mockResolvedValue(storedJobPost());
+
+    await expect(jobPostService.updateJobPost(7, AUTHOR_ID, { category: JobPostCategory.LADDER }))
+      .rejects.toThrow('Luggage volume is required for ladder job posts');
+    expect(db.jobPost.update).not.toHaveBeenCalled();
+  });
+
+  it('switches category and drops the fields of the previous one', async () => {
+    db.jobPost.findUnique.mockResolvedValue(storedJobPost());
+
+    await jobPostService.updateJobPost(7, AUTHOR_ID, {
+      category: JobPostCategory.LADDER,
+      ladderType: LadderType.MOVING_GOODS,
+      machineType: '1톤',
+      luggageVolume: '1톤',
+      workFloor: '5',
+      overallHeight: '15m',
+      options: { dumpService: true },
+    });
+
+    expect(mockValidateLadderMachineType).toHaveBeenCalledWith('1톤');
+    expect(updateData()).toEqual(expect.objectContaining({
+      category: JobPostCategory.LADDER,
+      equipmentType: null,
+      equipmentLengths: [],
+      ladderType: LadderType.MOVING_GOODS,
+    }));
+  });
+
+  it('validates the stored values too, not only the edited ones', async () => {
+    db.jobPost.findUnique.mockResolvedValue(storedLadderJobPost({ ladderType: LadderType.ON_SITE }));
+
+    await expect(jobPostService.updateJobPost(7, AUTHOR_ID, { workCost: 200000 }))
+      .rejects.toThrow('workSchedule: Work schedule is required for ladder ON_SITE job posts');
+  });
+
+  it('only lets the author edit an open post', async () => {
+    db.jobPost.findUnique.mockResolvedValue(storedJobPost());
+    await expect(jobPostService.updateJobPost(7, 2, { workCost: 200000 })).resolves.toBeNull();
+
+    db.jobPost.findUnique.mockResolvedValue(storedJobPost({ status: JobPostStatus.ASSIGNED }));
+    await expect(jobPostService.updateJobPost(7, AUTHOR_ID, { workCost: 200000 }))
+      .rejects.toThrow('Job post can only be edited while it is open');
+  });
+});
@@ -0,0 +1,109 @@
+import { JobPostStatus } from '@prisma/client';
+import { canTransitionJobPostStatus, JOB_POST_STATUS_TRANSITIONS } from '../constants/jobPostStatus';
+import { JobPostStatusService } from '../services/jobPostStatusService';
+
+const mockDeriveJobPostTravelDistance = jest.fn();
+
+jest.mock('../lib/prisma', () => ({ __esModule: true, default: {} }));
+jest.mock('../services/jobPostService', () => ({ JobPostService: jest.fn() }));
+jest.mock('../services/locationService', () => ({
+  LocationService: jest.fn().mockImplementation(() => ({
+    deriveJobPostTravelDistance: (...args: unknown[]) => mockDeriveJobPostTravelDistance(...args),
+  })),
+}));
+
+const { OPEN, ASSIGNED, IN_PROGRESS, COMPLETED, CANCELLED } = JobPostStatus;
+
+describe('canTransitionJobPostStatus', () => {
+  it.each([
+    [OPEN, ASSIGNED],
+    [OPEN, CANCELLED],
+    [ASSIGNED, OPEN],
+    [ASSIGNED, IN_PROGRESS],
+    [ASSIGNED, CANCELLED],
+    [IN_PROGRESS, COMPLETED],
+    [IN_PROGRESS, CANCELLED],
+  ])('allows %s -> %s', (from, to) => {
+    expect(canTransitionJobPostStatus(from, to)).toBe(true);
+  });
+
+  it.each([
+    [OPEN, IN_PROGRESS],
+    [OPEN, COMPLETED],
+    [ASSIGNED, COMPLETED],
+    [IN_PROGRESS, OPEN],
+    [IN_PROGRESS, ASSIGNED],
+    [OPEN, OPEN],
+  ])('refuses %s -> %s', (from, to) => {
+    expect(canTransitionJobPostStatus(from, to)).toBe(false);
+  });
+
+  it('ends the lifecycle at COMPLETED and CANCELLED', () => {
+    expect(JOB_POST_STATUS_TRANSITIONS[COMPLETED]).toEqual([]);
+    expect(JOB_POST_STATUS_TRANSITIONS[CANCELLED]).toEqual([]);
+  });
+});
+
+describe('JobPostStatusService.applyTransition', () => {
+  const jobPostStatusService = new JobPostStatusService();
+  const tx = {
+    jobPost: { updateMany: jest.fn() },
+    jobPostStatusHistory: { create: jest.fn() },
+  };
+  const apply = (...args: Parameters<JobPostStatusService['applyTransition']> extends [unknown, ...infer Rest] ? Rest : never) =>
+    jobPostStatusService.applyTransition(tx as never, ...args);
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    tx.jobPost.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('updates the post guarded on the status it was read with and records the change', async () => {
+    await apply({ id: 1, status: ASSIGNED }, IN_PROGRESS, 9);
+
+    expect(tx.jobPost.updateMany).toHaveBeenCalledWith({
+      where: { id: 1, status: ASSIGNED },
+      data: { status: IN_PROGRESS, statusChangedAt: expect.any(Date) },
+    });
+    expect(tx.jobPostStatusHistory.create).toHaveBeenCalledWith({
+      data: { jobPostId: 1, fromStatus: ASSIGNED, toStatus: IN_PROGRESS, changedById: 9, reason: null },
+    });
+  });
+
+  it('refuses a transition the lifecycle does not allow without writing', async () => {
+    await expect(apply({ id: 1, status: OPEN }, COMPLETED, 9)).rejects.toThrow('Cannot change job post status from OPEN to COMPLETED');
+
+    expect(tx.jobPost.updateMany).not.toHaveBeenCalled();
+    expect(tx.jobPostStatusHistory.create).not.toHaveBeenCalled();
+  });
+
+  it('fails when another request changed the status first', async () => {
+    tx.jobPost.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(apply({ id: 1, status: OPEN }, CANCELLED, 9)).rejects.toThrow('Job post status was changed by another request');
+    expect(tx.jobPostStatusHistory.create).not.toHaveBeenCalled();
+  });
+
+  it('stores the cancel reason', async () => {
+    await apply({ id: 1, status: OPEN }, CANCELLED, 9, { reason: 'Rain' });
+
+    expect(tx.jobPost.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ cancelReason: 'Rain' }),
+    }));
+  });
+
+  it('sets the assignee with its travel distance, and clears both on release', async () => {
+    mockDeriveJobPostTravelDistance.mockResolvedValue('관내');
+
+    await apply({ id: 1, status: OPEN }, ASSIGNED, 9, { assignedUserId: 4 });
+    expect(mockDeriveJobPostTravelDistance).toHaveBeenCalledWith(tx, 1, 4);
+    expect(tx.jobPost.updateMany).toHaveBeenLastCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ assignedUserId: 4, travelDistance: '관내' }),
+    }));
+
+    await apply({ id: 1, status: ASSIGNED }, OPEN, 9, { assignedUserId: null });
+    expect(tx.jobPost.updateMany).toHaveBeenLastCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ assignedUserId: null, travelDistance: null }),
+    }));
+  });
+});
@@ -0,0 +1,17 @@
+import { jobPostFiltersSchema, jobPostPageSchema } from '../validators/jobPostValidator';
+
+describe('jobPostPageSchema', () => {
+  it('sorts by scheduledStartAt when asked for arrivalTime', () => {
+    expect(jobPostPageSchema.parse({ sortBy: 'arrivalTime' }).sortBy).toBe('scheduledStartAt');
+    expect(jobPostFiltersSchema.parse({ sortBy: 'arrivalTime' }).sortBy).toBe('scheduledStartAt');
+  });
+
+  it('keeps the other sort fields and the default', () => {
+    expect(jobPostPageSchema.parse({ sortBy: 'workCost' }).sortBy).toBe('workCost');
+    expect(jobPostPageSchema.parse({}).sortBy).toBe('createdAt');
+  });
+
+  it('refuses unknown sort fields', () => {
+    expect(jobPostPageSchema.safeParse({ sortBy: 'siteAddress' }).success).toBe(false);
+  });
+});
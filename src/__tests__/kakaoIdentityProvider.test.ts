@@ -0,0 +1,80 @@
+import { IdentityProvider } from '@prisma/client';
+import { IdTokenVerifier } from '../services/idTokenVerifier';
+import { KakaoIdentityProvider } from '../services/identityProviders/kakaoIdentityProvider';
+
+const mockVerifyIdToken = jest.fn();
+
+const credential = (accessToken?: string) => ({
+  provider: IdentityProvider.KAKAO,
+  idToken: 'id-token',
+  nonce: 'nonce-1',
+  ...(accessToken && { accessToken }),
+});
+
+const kakaoUser = (account: { email?: string; is_email_valid?: boolean; is_email_verified?: boolean }, id = 12345) =>
+  new Response(JSON.stringify({ id, kakao_account: account }), { status: 200 });
+
+describe('KakaoIdentityProvider', () => {
+  const kakaoIdentityProvider = new KakaoIdentityProvider({ verifyIdToken: mockVerifyIdToken } as unknown as IdTokenVerifier);
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    fetchMock = jest.spyOn(global, 'fetch');
+    // Kakao ID tokens carry the email but never say whether it was verified
+    mockVerifyIdToken.mockResolvedValue({ sub: '12345', email: 'token@kakao.com', emailVerified: false, nickname: 'Kim' });
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it('leaves the email out without an access token to check it', async () => {
+    await expect(kakaoIdentityProvider.verify(credential())).resolves.toEqual({
+      provider: IdentityProvider.KAKAO,
+      providerUserId: '12345',
+      email: undefined,
+      nickname: 'Kim',
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('uses the account email when Kakao verified it', async () => {
+    fetchMock.mockResolvedValue(kakaoUser({ email: 'kim@kakao.com', is_email_valid: true, is_email_verified: true }));
+
+    const identity = await kakaoIdentityProvider.verify(credential('access-token'));
+
+    expect(identity.email).toBe('kim@kakao.com');
+    expect(fetchMock).toHaveBeenCalledWith('https://kapi.kakao.com/v2/user/me', expect.objectContaining({
+      headers: { Authorization: 'Bearer access-token' },
+    }));
+  });
+
+  it.each([
+    ['unverified', { email: 'kim@kakao.com', is_email_valid: true, is_email_verified: false }],
+    ['invalid', { email: 'kim@kakao.com', is_email_valid: false, is_email_verified: true }],
+    ['missing', {}],
+  ])('leaves out an %s account email', async (_case, account) => {
+    fetchMock.mockResolvedValue(kakaoUser(account));
+
+    await expect(kakaoIdentityProvider.verify(credential('access-token'))).resolves.toEqual(expect.objectContaining({ email: undefined }));
+  });
+
+  it('refuses an access token of another Kakao account', async () => {
+    fetchMock.mockResolvedValue(kakaoUser({ email: 'other@kakao.com', is_email_valid: true, is_email_verified: true }, 99999));
+
+    await expect(kakaoIdentityProvider.verify(credential('access-token'))).rejects.toThrow(expect.objectContaining({
+      name: 'IdentityVerificationError',
+      message: 'Kakao access token belongs to another account',
+    }));
+  });
+
+  it('refuses an access token Kakao rejects', async () => {
+    fetchMock.mockResolvedValue(new Response('{}', { status: 401 }));
+
+    await expect(kakaoIdentityProvider.verify(credential('expired'))).rejects.toThrow(expect.objectContaining({
+      name: 'IdentityVerificationError',
+      message: 'Kakao rejected the access token',
+    }));
+  });
+});
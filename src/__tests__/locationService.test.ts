@@ -0,0 +1,113 @@
+import prisma from '../lib/prisma';
+import { MAX_RADIUS_SEARCH_RESULTS } from '../constants/location';
+import { LocationService } from '../services/locationService';
+import { StubGeocoder } from '../services/geocoders/stubGeocoder';
+
+jest.mock('../lib/prisma', () => ({
+  __esModule: true,
+  default: {
+    jobPost: { findMany: jest.fn() },
+  },
+}));
+jest.mock('../utils/logger');
+
+const db = prisma as unknown as {
+  jobPost: Record<'findMany', jest.Mock>;
+};
+
+describe('StubGeocoder', () => {
+  const geocoder = new StubGeocoder();
+
+  it('resolves the region and district an address mentions', async () => {
+    await expect(geocoder.geocode('서울 강남구 테헤란로 1')).resolves.toEqual({
+      regionCode: '11',
+      regionName: '서울특별시',
+      districtCode: '11680',
+      districtName: '강남구',
+      latitude: 37.5172,
+      longitude: 127.0473,
+    });
+  });
+
+  it('understands the English names', async () => {
+    await expect(geocoder.geocode('Gangnam, Seoul')).resolves.toEqual(expect.objectContaining({ regionCode: '11', districtCode: '11680' }));
+  });
+
+  it('takes the area mentioned first', async () => {
+    await expect(geocoder.geocode('경기도 광주시 오포읍')).resolves.toEqual(expect.objectContaining({ regionCode: '41', districtCode: '41610' }));
+  });
+
+  it('only matches names at the start of a word', async () => {
+    await expect(geocoder.geocode('해운대구 우동')).resolves.toEqual(expect.objectContaining({ regionCode: '26', districtCode: '26350' }));
+  });
+
+  it('falls back to the region when no district is mentioned', async () => {
+    await expect(geocoder.geocode('부산 어딘가')).resolves.toEqual(expect.objectContaining({
+      regionCode: '26',
+      districtCode: undefined,
+      latitude: 35.1796,
+      longitude: 129.0756,
+    }));
+  });
+
+  it('cannot resolve a district name shared by several regions on its own', async () => {
+    await expect(geocoder.geocode('중구 을지로')).resolves.toBeNull();
+    await expect(geocoder.geocode('Somewhere else')).resolves.toBeNull();
+  });
+});
+
+describe('LocationService', () => {
+  const cityHall = { latitude: 37.5665, longitude: 126.978 };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  describe('geocodeAddress', () => {
+    it('treats a failing geocoder as an unresolved address', async () => {
+      const locationService = new LocationService({ geocode: jest.fn().mockRejectedValue(new Error('timeout')) });
+
+      await expect(locationService.geocodeAddress('서울 강남구')).resolves.toBeNull();
+    });
+
+    it('does not geocode blank addresses', async () => {
+      const geocode = jest.fn();
+      const locationService = new LocationService({ geocode });
+
+      await expect(locationService.geocodeAddress('  ')).resolves.toBeNull();
+      expect(geocode).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findJobPostIdsWithinRadius', () => {
+    const locationService = new LocationService(new StubGeocoder());
+
+    it('keeps the candidates within the exact distance', async () => {
+      db.jobPost.findMany.mockResolvedValue([
+        { id: 3, siteLatitude: 37.5172, siteLongitude: 127.0473 },
+        { id: 2, siteLatitude: 37.4138, siteLongitude: 127.5183 },
+        { id: 1, siteLatitude: null, siteLongitude: null },
+      ]);
+
+      const result = await locationService.findJobPostIdsWithinRadius(cityHall, 20, { status: { in: ['OPEN'] } });
+
+      expect(result).toEqual({ jobPostIds: [3], truncated: false });
+      expect(db.jobPost.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { AND: [{ status: { in: ['OPEN'] } }, expect.objectContaining({ siteLatitude: expect.any(Object) })] },
+        orderBy: { id: 'desc' },
+        take: MAX_RADIUS_SEARCH_RESULTS + 1,
+      }));
+    });
+
+    it('reports when the cap left posts out', async () => {
+      db.jobPost.findMany.mockResolvedValue(
+        Array.from({ length: MAX_RADIUS_SEARCH_RESULTS + 1 }, (_, index) => ({ id: index + 1, siteLatitude: 37.5665, siteLongitude: 126.978 }))
+      );
+
+      const result = await locationService.findJobPostIdsWithinRadius(cityHall, 5);
+
+      expect(result.truncated).toBe(true);
+      expect(result.jobPostIds).toHaveLength(MAX_RADIUS_SEARCH_RESULTS);
+    });
+  });
+});
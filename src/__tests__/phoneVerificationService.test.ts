@@ -0,0 +1,175 @@
+import { createHash } from 'crypto';
+import prisma from '../lib/prisma';
+import { PhoneVerificationService } from '../services/phoneVerificationService';
+import { MemorySmsGateway } from '../services/smsGateways/memorySmsGateway';
+import { OTP_LOCKOUT_MINUTES, OTP_MAX_ATTEMPTS } from '../constants/phoneVerification';
+
+jest.mock('../lib/prisma', () => ({
+  __esModule: true,
+  default: {
+    $transaction: jest.fn(),
+    user: { findUnique: jest.fn(), update: jest.fn() },
+    phoneVerification: {
+      create: jest.fn(),
+      delete: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}));
+
+const db = prisma as unknown as {
+  $transaction: jest.Mock;
+  user: Record<'findUnique' | 'update', jest.Mock>;
+  phoneVerification: Record<'create' | 'delete' | 'findFirst' | 'findMany' | 'findUniqueOrThrow' | 'update' | 'updateMany', jest.Mock>;
+};
+
+const PHONE = '01012345678';
+const MINUTE_MS = 60 * 1000;
+
+const hashCode = (code: string): string => createHash('sha256').update(`${PHONE}:${code}`).digest('hex');
+
+const verification = (overrides: { expiresAt?: Date; verifiedAt?: Date; phoneNumber?: string } = {}) => ({
+  id: 3,
+  userId: 1,
+  phoneNumber: PHONE,
+  codeHash: hashCode('123456'),
+  attempts: 0,
+  expiresAt: new Date(Date.now() + 5 * MINUTE_MS),
+  verifiedAt: null,
+  lockedUntil: null,
+  createdAt: new Date(),
+  ...overrides,
+});
+
+describe('PhoneVerificationService', () => {
+  const gateway = new MemorySmsGateway();
+  const phoneVerificationService = new PhoneVerificationService(gateway);
+
+  // The lockout lookup and the latest code share findFirst
+  const mockFindFirst = (latest: ReturnType<typeof verification> | null, locked: { lockedUntil: Date } | null = null) => {
+    db.phoneVerification.findFirst.mockImplementation(async ({ where }: { where: { lockedUntil?: unknown } }) =>
+      where.lockedUntil ? locked : latest
+    );
+  };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    gateway.clear();
+    db.$transaction.mockImplementation((callback: (tx: typeof db) => unknown) => callback(db));
+    db.phoneVerification.findMany.mockResolvedValue([]);
+    db.phoneVerification.create.mockResolvedValue({ id: 3 });
+    mockFindFirst(null);
+  });
+
+  describe('sendCode', () => {
+    it('texts the code and stores only its hash', async () => {
+      const result = await phoneVerificationService.sendCode(1, '010-1234-5678');
+
+      const code = /\[(\d{6})\]/.exec(gateway.getLastMessage(PHONE)!.text)?.[1];
+      expect(db.phoneVerification.create).toHaveBeenCalledWith({
+        data: { userId: 1, phoneNumber: PHONE, codeHash: hashCode(code!), expiresAt: result.expiresAt },
+      });
+      expect(result.phoneNumber).toBe('010-1234-5678');
+      expect(result.expiresAt.getTime() - Date.now()).toBeLessThanOrEqual(5 * MINUTE_MS);
+    });
+
+    it('refuses numbers that are not Korean mobile numbers', async () => {
+      await expect(phoneVerificationService.sendCode(1, '02-123-4567')).rejects.toMatchObject({ reason: 'INVALID_PHONE' });
+    });
+
+    it('makes the user wait between codes', async () => {
+      db.phoneVerification.findMany.mockResolvedValue([{ userId: 1, phoneNumber: PHONE, createdAt: new Date(Date.now() - 20 * 1000) }]);
+
+      await expect(phoneVerificationService.sendCode(1, PHONE)).rejects.toMatchObject({ reason: 'RATE_LIMITED', retryAfterSeconds: 40 });
+      expect(gateway.sent).toHaveLength(0);
+    });
+
+    it('sends nothing while the user is locked out', async () => {
+      mockFindFirst(null, { lockedUntil: new Date(Date.now() + 10 * MINUTE_MS) });
+
+      await expect(phoneVerificationService.sendCode(1, PHONE)).rejects.toMatchObject({ reason: 'LOCKED', retryAfterSeconds: 600 });
+      expect(db.phoneVerification.create).not.toHaveBeenCalled();
+    });
+
+    it('drops a code the gateway could not deliver', async () => {
+      jest.spyOn(gateway, 'send').mockRejectedValueOnce(new Error('gateway down'));
+
+      await expect(phoneVerificationService.sendCode(1, PHONE)).rejects.toThrow('gateway down');
+      expect(db.phoneVerification.delete).toHaveBeenCalledWith({ where: { id: 3 } });
+    });
+  });
+
+  describe('verifyCode', () => {
+    beforeEach(() => {
+      db.phoneVerification.updateMany.mockResolvedValue({ count: 1 });
+    });
+
+    it('stores the verified number on the user', async () => {
+      mockFindFirst(verification());
+      db.user.update.mockResolvedValue({ phoneNumber: PHONE, phoneVerifiedAt: new Date() });
+
+      await expect(phoneVerificationService.verifyCode(1, PHONE, '123456')).resolves.toEqual(expect.objectContaining({ phoneNumber: '010-1234-5678' }));
+      expect(db.phoneVerification.update).toHaveBeenCalledWith({ where: { id: 3 }, data: { verifiedAt: expect.any(Date) } });
+      expect(db.user.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: { phoneNumber: PHONE, phoneVerifiedAt: expect.any(Date) },
+      }));
+    });
+
+    it.each([
+      ['an expired code', verification({ expiresAt: new Date(Date.now() - 1000) })],
+      ['a used code', verification({ verifiedAt: new Date() })],
+      ['a code for another number', verification({ phoneNumber: '01099998888' })],
+      ['a missing code', null],
+    ])('refuses %s without using up an attempt', async (_case, latest) => {
+      mockFindFirst(latest);
+
+      await expect(phoneVerificationService.verifyCode(1, PHONE, '123456')).rejects.toMatchObject({ reason: 'NO_ACTIVE_CODE' });
+      expect(db.phoneVerification.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('uses up an attempt before comparing the code', async () => {
+      mockFindFirst(verification());
+      db.phoneVerification.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(phoneVerificationService.verifyCode(1, PHONE, '123456')).rejects.toMatchObject({ reason: 'NO_ACTIVE_CODE' });
+      expect(db.phoneVerification.updateMany).toHaveBeenCalledWith({
+        where: { id: 3, verifiedAt: null, attempts: { lt: OTP_MAX_ATTEMPTS } },
+        data: { attempts: { increment: 1 } },
+      });
+      expect(db.user.update).not.toHaveBeenCalled();
+    });
+
+    it('tells how many attempts are left after a wrong code', async () => {
+      mockFindFirst(verification());
+      db.phoneVerification.findUniqueOrThrow.mockResolvedValue({ attempts: 2 });
+
+      await expect(phoneVerificationService.verifyCode(1, PHONE, '000000')).rejects.toMatchObject({
+        reason: 'INVALID_CODE',
+        message: 'Invalid code, 3 attempt(s) left',
+      });
+      expect(db.user.update).not.toHaveBeenCalled();
+    });
+
+    it('locks the user out after the last wrong code', async () => {
+      mockFindFirst(verification());
+      db.phoneVerification.findUniqueOrThrow.mockResolvedValue({ attempts: OTP_MAX_ATTEMPTS });
+
+      await expect(phoneVerificationService.verifyCode(1, PHONE, '000000')).rejects.toMatchObject({
+        reason: 'LOCKED',
+        retryAfterSeconds: OTP_LOCKOUT_MINUTES * 60,
+      });
+      expect(db.phoneVerification.update).toHaveBeenCalledWith({ where: { id: 3 }, data: { lockedUntil: expect.any(Date) } });
+    });
+
+    it('refuses even the right code while the user is locked out', async () => {
+      mockFindFirst(verification(), { lockedUntil: new Date(Date.now() + MINUTE_MS) });
+
+      await expect(phoneVerificationService.verifyCode(1, PHONE, '123456')).rejects.toMatchObject({ reason: 'LOCKED' });
+      expect(db.user.update).not.toHaveBeenCalled();
+    });
+  });
+});
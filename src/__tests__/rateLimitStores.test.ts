@@ -0,0 +1,109 @@
+import { MemoryRateLimitStore } from '../services/rateLimitStores/memoryRateLimitStore';
+import { RedisRateLimitStore } from '../services/rateLimitStores/redisRateLimitStore';
+import { RedisCommandClient } from '../types/rateLimit';
+
+describe('MemoryRateLimitStore', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('counts hits of a key within one window', async () => {
+    const store = new MemoryRateLimitStore();
+
+    const first = await store.increment('user:1', 60000);
+    const second = await store.increment('user:1', 60000);
+
+    expect(first.count).toBe(1);
+    expect(second.count).toBe(2);
+    expect(second.resetAt).toEqual(first.resetAt);
+  });
+
+  it('counts keys separately', async () => {
+    const store = new MemoryRateLimitStore();
+
+    await store.increment('user:1', 60000);
+    const other = await store.increment('user:2', 60000);
+
+    expect(other.count).toBe(1);
+  });
+
+  it('starts a new window once the previous one has ended', async () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const store = new MemoryRateLimitStore();
+
+    await store.increment('ip:127.0.0.1', 1000);
+    await store.increment('ip:127.0.0.1', 1000);
+    jest.setSystemTime(new Date('2026-01-01T00:00:01Z'));
+    const hit = await store.increment('ip:127.0.0.1', 1000);
+
+    expect(hit.count).toBe(1);
+    expect(hit.resetAt).toEqual(new Date('2026-01-01T00:00:02Z'));
+  });
+
+  it('does not let callers change the stored counter', async () => {
+    const store = new MemoryRateLimitStore();
+
+    const hit = await store.increment('user:1', 60000);
+    hit.count = 100;
+
+    expect((await store.increment('user:1', 60000)).count).toBe(2);
+  });
+
+  it('forgets a key on reset', async () => {
+    const store = new MemoryRateLimitStore();
+
+    await store.increment('user:1', 60000);
+    await store.reset('user:1');
+
+    expect((await store.increment('user:1', 60000)).count).toBe(1);
+  });
+});
+
+describe('RedisRateLimitStore', () => {
+  const createClient = (result: unknown) => {
+    const command = jest.fn<Promise<unknown>, [(string | number)[]]>().mockResolvedValue(result);
+    const client: RedisCommandClient = { command };
+    return { client, command };
+  };
+
+  it('increments the prefixed key and starts the window in one script call', async () => {
+    const { client, command } = createClient([3, 45000]);
+    const store = new RedisRateLimitStore(client);
+
+    const before = Date.now();
+    const hit = await store.increment('user:1', 60000);
+
+    expect(command).toHaveBeenCalledTimes(1);
+    const [name, , keyCount, key, windowMs] = command.mock.calls[0]![0];
+    expect(name).toBe('EVAL');
+    expect(keyCount).toBe(1);
+    expect(key).toBe('ratelimit:user:1');
+    expect(windowMs).toBe(60000);
+    expect(hit.count).toBe(3);
+    expect(hit.resetAt.getTime()).toBeGreaterThanOrEqual(before + 45000);
+    expect(hit.resetAt.getTime()).toBeLessThanOrEqual(Date.now() + 45000);
+  });
+
+  it('reads counts returned as strings', async () => {
+    const { client } = createClient(['2', '1000']);
+    const store = new RedisRateLimitStore(client, 'test:');
+
+    expect((await store.increment('user:1', 1000)).count).toBe(2);
+  });
+
+  it('rejects an unexpected script result', async () => {
+    const { client } = createClient('OK');
+    const store = new RedisRateLimitStore(client);
+
+    await expect(store.increment('user:1', 1000)).rejects.toThrow('Unexpected response from Redis rate limit script');
+  });
+
+  it('deletes the prefixed key on reset', async () => {
+    const { client, command } = createClient(1);
+    const store = new RedisRateLimitStore(client, 'test:');
+
+    await store.reset('user:1');
+
+    expect(command).toHaveBeenCalledWith(['DEL', 'test:user:1']);
+  });
+});
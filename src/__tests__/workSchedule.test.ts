@@ -0,0 +1,89 @@
+import { WorkDurationUnit, WorkShift } from '@prisma/client';
+import { getKstToday, parseDateOnly, resolveWorkDate, resolveWorkSchedule } from '../utils/workSchedule';
+import { WorkScheduleInput } from '../types/jobPost';
+
+// 01:30 on 2026-10-20 in Korea, still the 19th in UTC
+const now = new Date('2026-10-19T16:30:00.000Z');
+
+const schedule = (overrides: Partial<WorkScheduleInput> = {}): WorkScheduleInput => ({
+  workDateType: 'TODAY',
+  arrivalTime: '06:30',
+  ...overrides,
+});
+
+describe('getKstToday', () => {
+  it('uses the Korean calendar day', () => {
+    expect(getKstToday(now)).toEqual(new Date('2026-10-20T00:00:00.000Z'));
+    expect(getKstToday(new Date('2026-10-19T14:59:00.000Z'))).toEqual(new Date('2026-10-19T00:00:00.000Z'));
+  });
+});
+
+describe('parseDateOnly', () => {
+  it('refuses dates that do not exist', () => {
+    expect(parseDateOnly('2026-02-28')).toEqual(new Date('2026-02-28T00:00:00.000Z'));
+    expect(parseDateOnly('2026-02-30')).toBeNull();
+    expect(parseDateOnly('20261020')).toBeNull();
+  });
+});
+
+describe('resolveWorkDate', () => {
+  it('resolves the relative days in KST', () => {
+    expect(resolveWorkDate('TODAY', now)).toEqual(new Date('2026-10-20T00:00:00.000Z'));
+    expect(resolveWorkDate('TOMORROW', now)).toEqual(new Date('2026-10-21T00:00:00.000Z'));
+    expect(resolveWorkDate('2026-11-01', now)).toEqual(new Date('2026-11-01T00:00:00.000Z'));
+    expect(resolveWorkDate('NEXT_WEEK', now)).toBeNull();
+  });
+});
+
+describe('resolveWorkSchedule', () => {
+  it.each(['URGENT', 'TODAY'])('starts %s posts on the KST day at the arrival time', (workDateType) => {
+    expect(resolveWorkSchedule(schedule({ workDateType }), { now })).toEqual(expect.objectContaining({
+      workDate: new Date('2026-10-20T00:00:00.000Z'),
+      scheduledStartAt: new Date('2026-10-19T21:30:00.000Z'),
+      shift: WorkShift.MORNING,
+    }));
+  });
+
+  it('starts TOMORROW posts on the next KST day', () => {
+    expect(resolveWorkSchedule(schedule({ workDateType: 'TOMORROW', arrivalTime: '14:00' }), { now })).toEqual(expect.objectContaining({
+      workDate: new Date('2026-10-21T00:00:00.000Z'),
+      scheduledStartAt: new Date('2026-10-21T05:00:00.000Z'),
+      shift: WorkShift.AFTERNOON,
+    }));
+  });
+
+  it('starts CUSTOM_DATE posts on their work date', () => {
+    const resolved = resolveWorkSchedule(schedule({ workDateType: 'CUSTOM_DATE', workDate: '2026-10-20', arrivalTime: '9:00' }), { now });
+
+    expect(resolved.workDate).toEqual(new Date('2026-10-20T00:00:00.000Z'));
+    expect(resolved.scheduledStartAt).toEqual(new Date('2026-10-20T00:00:00.000Z'));
+  });
+
+  it.each([
+    [undefined, 'A valid work date (YYYY-MM-DD) is required for CUSTOM_DATE'],
+    ['2026-02-30', 'A valid work date (YYYY-MM-DD) is required for CUSTOM_DATE'],
+    ['2026-10-19', 'Work date cannot be in the past'],
+  ])('refuses CUSTOM_DATE with work date %s', (workDate, message) => {
+    expect(() => resolveWorkSchedule(schedule({ workDateType: 'CUSTOM_DATE', workDate }), { now })).toThrow(message);
+  });
+
+  it('keeps an already resolved work day', () => {
+    const workDate = new Date('2026-10-01T00:00:00.000Z');
+
+    expect(resolveWorkSchedule(schedule({ workDateType: 'TOMORROW' }), { workDate, now }).workDate).toBe(workDate);
+  });
+
+  it('prefers an explicit shift over the arrival time', () => {
+    expect(resolveWorkSchedule(schedule({ shift: 'afternoon' }), { now }).shift).toBe(WorkShift.AFTERNOON);
+  });
+
+  it.each([
+    [{ workSchedule: '2 days', customHours: 3 }, 2, WorkDurationUnit.DAY],
+    [{ ladderWorkDuration: '4시간' }, 4, WorkDurationUnit.HOUR],
+    [{ ladderWorkDuration: '추가1시간', ladderWorkHours: 2 }, 10, WorkDurationUnit.HOUR],
+    [{ customHours: 3 }, 3, WorkDurationUnit.HOUR],
+    [{}, null, null],
+  ])('derives the duration from %o', (input, durationValue, durationUnit) => {
+    expect(resolveWorkSchedule(schedule(input), { now })).toEqual(expect.objectContaining({ durationValue, durationUnit }));
+  });
+});
@@ -2,7 +2,6 @@ import express from "express";
 import cors from "cors";
 import helmet from "helmet";
 import morgan from "morgan";
-import rateLimit from "express-rate-limit";
 import swaggerUi from "swagger-ui-express";
 import dotenv from "dotenv";
 
@@ -10,14 +9,20 @@ import { connectDB, disconnectDB } from "./config/database";
 import { specs } from "./config/swagger";
 
 import notFound from "./middleware/notFound";
+import { rateLimit } from "./middleware/rateLimit";
+import { RATE_LIMIT_POLICIES } from "./constants/rateLimits";
 
 // Import routes
 import healthRoutes from "./routes/health";
 import userRoutes from "./routes/users";
 import authRoutes from "./routes/auth";
 import equipmentRoutes from "./routes/equipment";
+import equipmentCatalogRoutes from "./routes/equipmentCatalog";
 import jobPostRoutes from "./routes/jobPosts";
 import communityRoutes from "./routes/communities";
+import businessVerificationRoutes from "./routes/businessVerifications";
+import apiKeyRoutes from "./routes/apiKeys";
+import auditLogRoutes from "./routes/auditLogs";
 
 // Load environment variables
 dotenv.config();
@@ -38,13 +43,14 @@ app.use(
   })
 );
 
-// Rate limiting
-const limiter = rateLimit({
-  windowMs: parseInt(process.env["RATE_LIMIT_WINDOW_MS"] || "900000"), // 15 minutes
-  max: parseInt(process.env["RATE_LIMIT_MAX_REQUESTS"] || "100"), // limit each IP to 100 requests per windowMs
-  message: "Too many requests from this IP, please try again later.",
-});
-app.use(limiter);
+// Behind Vercel or a load balancer req.ip must come from X-Forwarded-For
+const trustProxyHops = parseInt(process.env["TRUST_PROXY_HOPS"] || "0");
+if (trustProxyHops > 0) {
+  app.set("trust proxy", trustProxyHops);
+}
+
+// Rate limiting (per user or API key, per IP for anonymous requests)
+app.use(rateLimit(RATE_LIMIT_POLICIES.global));
 
 // Body parsing middleware
 app.use(express.json({ limit: "10mb" }));
@@ -65,8 +71,12 @@ app.get("/", (_req, res) => {
       users: "/api/v1/users",
       auth: "/api/v1/auth",
       equipment: "/api/v1/equipment",
+      equipmentCatalog: "/api/v1/equipment-catalog",
       jobPosts: "/api/v1/job-posts",
       communities: "/api/v1/communities",
+      businessVerifications: "/api/v1/business-verifications",
+      apiKeys: "/api/v1/api-keys",
+      auditLogs: "/api/v1/audit-logs",
       docs: "/api-docs"
     }
   });
@@ -96,8 +106,12 @@ app.use("/api/v1/health", healthRoutes);
 app.use("/api/v1/users", userRoutes);
 app.use("/api/v1/auth", authRoutes);
 app.use("/api/v1/equipment", equipmentRoutes);
+app.use("/api/v1/equipment-catalog", equipmentCatalogRoutes);
 app.use("/api/v1/job-posts", jobPostRoutes);
 app.use("/api/v1/communities", communityRoutes);
+app.use("/api/v1/business-verifications", businessVerificationRoutes);
+app.use("/api/v1/api-keys", apiKeyRoutes);
+app.use("/api/v1/audit-logs", auditLogRoutes);
 
 // 404 handler
 app.use(notFound);
@@ -30,6 +30,12 @@ const options = {
           scheme: "bearer",
           bearerFormat: "JWT",
         },
+        apiKeyAuth: {
+          type: "apiKey",
+          in: "header",
+          name: "X-API-Key",
+          description: "Partner API key (jbg_...), accepted by the job post and community endpoints",
+        },
       },
       schemas: {
         BaseResponse: {
@@ -0,0 +1,20 @@
+// Permissions an API key can be given. Requests made with a user login are not limited by scopes.
+export const API_KEY_SCOPES = [
+  'jobposts:read',
+  'jobposts:write',
+  'communities:read',
+  'communities:write',
+] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+// Every key starts with this, so leaked keys are easy to recognise and search for
+export const API_KEY_PREFIX = 'jbg_';
+
+// Active (not revoked, not expired) keys per user or community
+export const MAX_ACTIVE_API_KEYS = 20;
+
+export const MAX_API_KEY_EXPIRES_DAYS = 730;
+
+// lastUsedAt is written at most this often per key, not on every request
+export const API_KEY_LAST_USED_INTERVAL_MS = 60 * 1000;
@@ -0,0 +1,11 @@
+// Invitations of a single user expire after this unless the inviter sets a shorter time
+export const COMMUNITY_INVITATION_EXPIRES_DAYS = 7;
+
+export const MAX_COMMUNITY_INVITATION_EXPIRES_DAYS = 30;
+
+export const MAX_INVITE_LINK_EXPIRES_DAYS = 90;
+
+export const MAX_INVITE_LINK_USES = 1000;
+
+// Active (not revoked, not expired, not used up) links per community
+export const MAX_ACTIVE_INVITE_LINKS = 20;
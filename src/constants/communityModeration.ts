@@ -0,0 +1,2 @@
+// Longest timed ban or mute; without a duration they last until lifted
+export const MAX_COMMUNITY_SANCTION_DAYS = 365;
@@ -0,0 +1,2 @@
+// A nominated admin has this long to accept an ownership transfer
+export const OWNERSHIP_TRANSFER_EXPIRES_DAYS = 7;
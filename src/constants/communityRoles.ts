@@ -0,0 +1,19 @@
+import { CommunityRole } from '@prisma/client';
+
+// Roles allowed to change community settings and manage members
+export const COMMUNITY_MANAGER_ROLES: readonly CommunityRole[] = [CommunityRole.OWNER, CommunityRole.ADMIN];
+
+// Roles allowed to moderate (invite users, act on content)
+export const COMMUNITY_MODERATOR_ROLES: readonly CommunityRole[] = [
+  CommunityRole.OWNER,
+  CommunityRole.ADMIN,
+  CommunityRole.MODERATOR,
+];
+
+// A role can only moderate members ranked below it (owners over admins, admins over moderators and members)
+export const COMMUNITY_ROLE_RANK: Readonly<Record<CommunityRole, number>> = {
+  [CommunityRole.OWNER]: 3,
+  [CommunityRole.ADMIN]: 2,
+  [CommunityRole.MODERATOR]: 1,
+  [CommunityRole.MEMBER]: 0,
+};
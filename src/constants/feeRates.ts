@@ -0,0 +1,36 @@
+/**
+ * Rates used by the job post fee engine (see FeeCalculationService).
+ * Percentages are stored as whole numbers, amounts in KRW.
+ */
+
+// Platform commission on GLOBAL / DESIGNATED posts (10% of the total work cost)
+export const PLATFORM_WORK_FEE_RATE = 10;
+
+// Fallbacks when a community has no defaults configured
+export const DEFAULT_COMMUNITY_WORK_FEE_RATE = 5;
+export const DEFAULT_COMMUNITY_SUPPORT_FEE_RATE = 2;
+
+// Night work is paid at 1.5x
+export const NIGHT_WORK_MULTIPLIER = 1.5;
+
+// priceAdjustment is entered in 1,000 KRW steps
+export const PRICE_ADJUSTMENT_STEP = 1000;
+export const PRICE_ADJUSTMENT_MIN = -100000;
+export const PRICE_ADJUSTMENT_MAX = 100000;
+
+// Ladder fees (MOVING_GOODS / ON_SITE)
+export const LADDER_MOVING_FEE = { base: 3000, min: 2000, max: 10000 } as const;
+export const LADDER_ON_SITE_FEE = { base: 5000, min: 3000, max: 15000 } as const;
+
+// Added to the on-site fee for every hour worked beyond the booked duration
+export const LADDER_EXTRA_HOUR_FEE = 1000;
+
+// Booked hours per ladderWorkDuration value. "추가1시간" is overtime after a full day.
+export const LADDER_WORK_DURATION_HOURS: Record<string, number> = {
+  '1시간': 1,
+  '4시간': 4,
+  '8시간': 8,
+  '추가1시간': 8,
+};
+
+export const LADDER_EXTRA_HOUR_DURATION = '추가1시간';
@@ -2,33 +2,8 @@
  * Valid values for GLOBAL + SKY job post flow
  */
 
-// 1. equipmentType (String, Required)
-export const EQUIPMENT_TYPES = [
-  '1 ton',
-  '2.5 ton',
-  '3.5 ton',
-  '5 ton',
-  '18 ton',
-  '19 ton',
-  '3.5 tons of bending',
-  'Refraction 5 tons',
-  'Refraction 60M',
-  'Refraction 70M'
-] as const;
-
-// 2. equipmentLengths (Array of Numbers, Required)
-export const EQUIPMENT_LENGTHS = {
-  '1 ton': [16, 18, 20, 21],
-  '2.5 ton': [22, 24, 25],
-  '3.5 ton': [28, 30, 32, 35],
-  '5 ton': [38, 40, 45, 50, 54],
-  '18 ton': [58, 60, 65, 70],
-  '19 ton': [75],
-  '3.5 tons of bending': [28],
-  'Refraction 5 tons': [40],
-  'Refraction 60M': [60],
-  'Refraction 70M': [70]
-} as const;
+// 1. equipmentType (String, Required) and 2. equipmentLengths (Array of Numbers, Required)
+// are not listed here: both come from the equipment catalog (GET /api/v1/equipment-catalog)
 
 // 3. workDateType (Enum, Required)
 export const WORK_DATE_TYPES = [
@@ -0,0 +1,30 @@
+import { JobPostStatus } from '@prisma/client';
+
+/**
+ * Allowed job post lifecycle transitions.
+ *
+ * OPEN → ASSIGNED → IN_PROGRESS → COMPLETED, with CANCELLED reachable from
+ * every non-terminal state. An assignment can be released (ASSIGNED → OPEN)
+ * before the work has started.
+ */
+export const JOB_POST_STATUS_TRANSITIONS: Record<JobPostStatus, readonly JobPostStatus[]> = {
+  [JobPostStatus.OPEN]: [JobPostStatus.ASSIGNED, JobPostStatus.CANCELLED],
+  [JobPostStatus.ASSIGNED]: [JobPostStatus.OPEN, JobPostStatus.IN_PROGRESS, JobPostStatus.CANCELLED],
+  [JobPostStatus.IN_PROGRESS]: [JobPostStatus.COMPLETED, JobPostStatus.CANCELLED],
+  [JobPostStatus.COMPLETED]: [],
+  [JobPostStatus.CANCELLED]: [],
+};
+
+// Statuses shown in the job post feed when no status filter is given
+export const DEFAULT_FEED_STATUSES: readonly JobPostStatus[] = [JobPostStatus.OPEN];
+
+export const canTransitionJobPostStatus = (from: JobPostStatus, to: JobPostStatus): boolean => {
+  return JOB_POST_STATUS_TRANSITIONS[from].includes(to);
+};
+
+// Hours a designated user has to accept or decline before the post falls back to the author
+export const DESIGNATION_EXPIRY_HOURS = parseInt(process.env['DESIGNATION_EXPIRY_HOURS'] || '24');
+
+export const getDesignationExpiresAt = (from: Date = new Date()): Date => {
+  return new Date(from.getTime() + DESIGNATION_EXPIRY_HOURS * 60 * 60 * 1000);
+};
@@ -0,0 +1,8 @@
+// Mean Earth radius used for distance calculations
+export const EARTH_RADIUS_KM = 6371;
+
+// Largest radius accepted by the job post search (covers the whole country)
+export const MAX_SEARCH_RADIUS_KM = 500;
+
+// Newest job posts a radius search considers, so the feed query gets a bounded id list
+export const MAX_RADIUS_SEARCH_RESULTS = 1000;
@@ -0,0 +1,16 @@
+export const OTP_CODE_LENGTH = 6;
+
+// How long a sent code can be used
+export const OTP_EXPIRES_MINUTES = parseInt(process.env['OTP_EXPIRES_MINUTES'] || '5');
+
+// Wrong guesses allowed per code; running out locks the user for OTP_LOCKOUT_MINUTES
+export const OTP_MAX_ATTEMPTS = 5;
+export const OTP_LOCKOUT_MINUTES = 30;
+
+// Sending limits, so the endpoint cannot be used to spam a number or run up SMS costs
+export const OTP_RESEND_COOLDOWN_SECONDS = 60;
+export const OTP_MAX_SENDS_PER_PHONE_PER_HOUR = 5;
+export const OTP_MAX_SENDS_PER_USER_PER_DAY = 10;
+
+// REQUIRE_VERIFIED_PHONE=true: creating job posts and taking work needs a verified phone
+export const isVerifiedPhoneRequired = (): boolean => process.env['REQUIRE_VERIFIED_PHONE'] === 'true';
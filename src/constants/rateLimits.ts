@@ -0,0 +1,31 @@
+import { RateLimitPolicy } from '../types/rateLimit';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+/**
+ * Default limits. Each can be changed without a deploy through
+ * RATE_LIMIT_<NAME>_MAX and RATE_LIMIT_<NAME>_WINDOW_MS, e.g.
+ * RATE_LIMIT_CREATE_JOB_POST_MAX=50.
+ */
+export const RATE_LIMIT_POLICIES = {
+  // Every API request
+  global: {
+    name: 'global',
+    windowMs: 15 * MINUTE_MS,
+    max: 100,
+    message: 'Too many requests, please try again later.',
+  },
+  createJobPost: {
+    name: 'create_job_post',
+    windowMs: HOUR_MS,
+    max: 25,
+    message: 'Too many job posts created. Please try again later.',
+  },
+  createCommunity: {
+    name: 'create_community',
+    windowMs: HOUR_MS,
+    max: 10,
+    message: 'Too many communities created. Please try again later.',
+  },
+} satisfies Record<string, RateLimitPolicy>;
@@ -0,0 +1,65 @@
+/**
+ * Korean administrative areas used by the offline geocoder.
+ *
+ * Codes are the first 2 (시/도) and 5 (시/군/구) digits of the legal-dong
+ * code (법정동코드), the same values the Kakao geocoder returns. Coordinates
+ * are approximate centres.
+ */
+export interface RegionDefinition {
+  code: string;
+  name: string;
+  aliases: readonly string[];
+  latitude: number;
+  longitude: number;
+}
+
+export interface DistrictDefinition extends RegionDefinition {
+  regionCode: string;
+}
+
+export const REGIONS: readonly RegionDefinition[] = [
+  { code: '11', name: '서울특별시', aliases: ['서울', 'seoul'], latitude: 37.5665, longitude: 126.978 },
+  { code: '26', name: '부산광역시', aliases: ['부산', 'busan'], latitude: 35.1796, longitude: 129.0756 },
+  { code: '27', name: '대구광역시', aliases: ['대구', 'daegu'], latitude: 35.8714, longitude: 128.6014 },
+  { code: '28', name: '인천광역시', aliases: ['인천', 'incheon'], latitude: 37.4563, longitude: 126.7052 },
+  { code: '29', name: '광주광역시', aliases: ['광주광역시', 'gwangju'], latitude: 35.1595, longitude: 126.8526 },
+  { code: '30', name: '대전광역시', aliases: ['대전', 'daejeon'], latitude: 36.3504, longitude: 127.3845 },
+  { code: '31', name: '울산광역시', aliases: ['울산', 'ulsan'], latitude: 35.5384, longitude: 129.3114 },
+  { code: '36', name: '세종특별자치시', aliases: ['세종', 'sejong'], latitude: 36.48, longitude: 127.289 },
+  { code: '41', name: '경기도', aliases: ['경기', 'gyeonggi'], latitude: 37.4138, longitude: 127.5183 },
+  { code: '51', name: '강원특별자치도', aliases: ['강원', 'gangwon'], latitude: 37.8228, longitude: 128.1555 },
+  { code: '43', name: '충청북도', aliases: ['충청북도', '충북', 'chungcheongbuk', 'north chungcheong'], latitude: 36.6357, longitude: 127.4917 },
+  { code: '44', name: '충청남도', aliases: ['충청남도', '충남', 'chungcheongnam', 'south chungcheong'], latitude: 36.5184, longitude: 126.8 },
+  { code: '52', name: '전북특별자치도', aliases: ['전라북도', '전북', 'jeollabuk', 'north jeolla'], latitude: 35.7175, longitude: 127.153 },
+  { code: '46', name: '전라남도', aliases: ['전라남도', '전남', 'jeollanam', 'south jeolla'], latitude: 34.8679, longitude: 126.991 },
+  { code: '47', name: '경상북도', aliases: ['경상북도', '경북', 'gyeongsangbuk', 'north gyeongsang'], latitude: 36.4919, longitude: 128.8889 },
+  { code: '48', name: '경상남도', aliases: ['경상남도', '경남', 'gyeongsangnam', 'south gyeongsang'], latitude: 35.4606, longitude: 128.2132 },
+  { code: '50', name: '제주특별자치도', aliases: ['제주', 'jeju'], latitude: 33.4996, longitude: 126.5312 },
+];
+
+// Not exhaustive - addresses in other districts resolve to their 시/도 only
+export const DISTRICTS: readonly DistrictDefinition[] = [
+  { code: '11110', regionCode: '11', name: '종로구', aliases: ['종로구', 'jongno'], latitude: 37.5735, longitude: 126.979 },
+  { code: '11140', regionCode: '11', name: '중구', aliases: ['중구', 'jung-gu'], latitude: 37.5641, longitude: 126.9979 },
+  { code: '11170', regionCode: '11', name: '용산구', aliases: ['용산구', 'yongsan'], latitude: 37.5326, longitude: 126.9905 },
+  { code: '11440', regionCode: '11', name: '마포구', aliases: ['마포구', 'mapo'], latitude: 37.5663, longitude: 126.9019 },
+  { code: '11500', regionCode: '11', name: '강서구', aliases: ['강서구', 'gangseo'], latitude: 37.5509, longitude: 126.8495 },
+  { code: '11560', regionCode: '11', name: '영등포구', aliases: ['영등포구', 'yeongdeungpo'], latitude: 37.5264, longitude: 126.8962 },
+  { code: '11650', regionCode: '11', name: '서초구', aliases: ['서초구', 'seocho'], latitude: 37.4837, longitude: 127.0324 },
+  { code: '11680', regionCode: '11', name: '강남구', aliases: ['강남구', 'gangnam'], latitude: 37.5172, longitude: 127.0473 },
+  { code: '11710', regionCode: '11', name: '송파구', aliases: ['송파구', 'songpa'], latitude: 37.5145, longitude: 127.1059 },
+  { code: '11740', regionCode: '11', name: '강동구', aliases: ['강동구', 'gangdong'], latitude: 37.5301, longitude: 127.1238 },
+  { code: '26140', regionCode: '26', name: '중구', aliases: ['중구', 'jung-gu'], latitude: 35.1063, longitude: 129.0323 },
+  { code: '26230', regionCode: '26', name: '부산진구', aliases: ['부산진구', 'busanjin'], latitude: 35.1631, longitude: 129.0532 },
+  { code: '26350', regionCode: '26', name: '해운대구', aliases: ['해운대구', 'haeundae'], latitude: 35.1631, longitude: 129.1635 },
+  { code: '26440', regionCode: '26', name: '강서구', aliases: ['강서구', 'gangseo'], latitude: 35.2122, longitude: 128.9806 },
+  { code: '28110', regionCode: '28', name: '중구', aliases: ['중구', 'jung-gu'], latitude: 37.4738, longitude: 126.6216 },
+  { code: '28185', regionCode: '28', name: '연수구', aliases: ['연수구', 'yeonsu'], latitude: 37.4101, longitude: 126.6783 },
+  { code: '28200', regionCode: '28', name: '남동구', aliases: ['남동구', 'namdong'], latitude: 37.4473, longitude: 126.7314 },
+  { code: '28237', regionCode: '28', name: '부평구', aliases: ['부평구', 'bupyeong'], latitude: 37.507, longitude: 126.7218 },
+  { code: '41110', regionCode: '41', name: '수원시', aliases: ['수원시', 'suwon'], latitude: 37.2636, longitude: 127.0286 },
+  { code: '41130', regionCode: '41', name: '성남시', aliases: ['성남시', 'seongnam'], latitude: 37.42, longitude: 127.1267 },
+  { code: '41280', regionCode: '41', name: '고양시', aliases: ['고양시', 'goyang'], latitude: 37.6584, longitude: 126.832 },
+  { code: '41460', regionCode: '41', name: '용인시', aliases: ['용인시', 'yongin'], latitude: 37.2411, longitude: 127.1776 },
+  { code: '41610', regionCode: '41', name: '광주시', aliases: ['광주시'], latitude: 37.4292, longitude: 127.2551 },
+];
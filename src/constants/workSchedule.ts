@@ -0,0 +1,30 @@
+import { WorkDurationUnit } from '@prisma/client';
+import { PERIOD_VALUES, HOURS_VALUES } from './globalSkyFlowValues';
+
+/**
+ * Work schedules are entered in Korean local time (KST, UTC+9, no daylight
+ * saving) and stored as UTC.
+ */
+export const WORK_TIMEZONE = 'Asia/Seoul';
+export const WORK_TIMEZONE_OFFSET_MINUTES = 9 * 60;
+
+// Arrivals from this hour on are in the afternoon shift
+export const AFTERNOON_SHIFT_START_HOUR = 12;
+
+// Accepted workSchedule values
+export const WORK_SCHEDULE_VALUES = [...PERIOD_VALUES, ...HOURS_VALUES] as const;
+
+// Accepted ladderWorkDuration values (hours per value in LADDER_WORK_DURATION_HOURS)
+export const LADDER_WORK_DURATIONS = ['1시간', '4시간', '8시간', '추가1시간'] as const;
+
+// Unit of "1 hour", "2 days", "1 week", "3 months", ...
+export const WORK_DURATION_UNITS: Record<string, WorkDurationUnit> = {
+  hour: WorkDurationUnit.HOUR,
+  hours: WorkDurationUnit.HOUR,
+  day: WorkDurationUnit.DAY,
+  days: WorkDurationUnit.DAY,
+  week: WorkDurationUnit.WEEK,
+  weeks: WorkDurationUnit.WEEK,
+  month: WorkDurationUnit.MONTH,
+  months: WorkDurationUnit.MONTH,
+};
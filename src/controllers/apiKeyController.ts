@@ -0,0 +1,151 @@
+import { Request, Response } from 'express';
+import { ApiKeyService } from '../services/apiKeyService';
+import { ApiKeyFilters, CreateApiKeyRequest } from '../types/apiKey';
+import { apiKeyFiltersSchema, createApiKeySchema } from '../validators/apiKeyValidator';
+import { getAuditContext } from '../utils/audit';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: number;
+    role: string;
+  };
+}
+
+const apiKeyService = new ApiKeyService();
+
+export class ApiKeyController {
+  async createApiKey(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+          status: 401
+        });
+        return;
+      }
+
+      const validationResult = createApiKeySchema.safeParse(req.body);
+      if (!validationResult.success) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          status: 400,
+          errors: validationResult.error.issues.map((issue: any) => ({
+            field: issue.path.join('.'),
+            message: issue.message,
+          })),
+        });
+        return;
+      }
+
+      const data: CreateApiKeyRequest = validationResult.data;
+      const apiKey = await apiKeyService.createApiKey(userId, data, getAuditContext(req));
+
+      res.status(201).json({
+        success: true,
+        message: 'API key created successfully. Store the key now, it cannot be shown again.',
+        status: 201,
+        data: apiKey,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  async getApiKeys(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+          status: 401
+        });
+        return;
+      }
+
+      const validationResult = apiKeyFiltersSchema.safeParse(req.query);
+      if (!validationResult.success) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          status: 400,
+          errors: validationResult.error.issues.map((issue: any) => ({
+            field: issue.path.join('.'),
+            message: issue.message,
+          })),
+        });
+        return;
+      }
+
+      const filters: ApiKeyFilters = validationResult.data;
+      const apiKeys = await apiKeyService.getApiKeys(userId, filters);
+
+      res.status(200).json({
+        success: true,
+        status: 200,
+        data: apiKeys,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  async revokeApiKey(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+          status: 401
+        });
+        return;
+      }
+
+      const apiKeyId = parseInt(req.params['id'] as string);
+      if (isNaN(apiKeyId)) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid API key ID',
+          status: 400,
+        });
+        return;
+      }
+
+      const apiKey = await apiKeyService.revokeApiKey(apiKeyId, userId, getAuditContext(req));
+
+      if (!apiKey) {
+        res.status(404).json({
+          success: false,
+          message: 'API key not found or access denied',
+          status: 404,
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'API key revoked successfully',
+        status: 200,
+        data: apiKey,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+}
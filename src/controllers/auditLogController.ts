@@ -0,0 +1,82 @@
+import { Request, Response } from 'express';
+import { AuditLogService } from '../services/auditLogService';
+import { AuditLogListOptions } from '../types/auditLog';
+import { auditLogFiltersSchema, communityAuditLogFiltersSchema } from '../validators/auditLogValidator';
+
+const auditLogService = new AuditLogService();
+
+export class AuditLogController {
+  // Admins: every entry
+  async getAuditLogs(req: Request, res: Response): Promise<void> {
+    try {
+      const validationResult = auditLogFiltersSchema.safeParse(req.query);
+      if (!validationResult.success) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          status: 400,
+          errors: validationResult.error.issues.map((issue: any) => ({
+            field: issue.path.join('.'),
+            message: issue.message,
+          })),
+        });
+        return;
+      }
+
+      const { limit, cursor, ...filters } = validationResult.data;
+      const options: AuditLogListOptions = { limit, cursor };
+      const result = await auditLogService.getAuditLogs(filters, options);
+
+      res.status(200).json({
+        success: true,
+        status: 200,
+        data: result.data,
+        pagination: result.pagination,
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: error.message,
+        status: 500,
+      });
+    }
+  }
+
+  // Community owners: entries of the community in `:id` only
+  async getCommunityAuditLogs(req: Request, res: Response): Promise<void> {
+    try {
+      const communityId = parseInt(req.params['id'] as string);
+
+      const validationResult = communityAuditLogFiltersSchema.safeParse(req.query);
+      if (!validationResult.success) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          status: 400,
+          errors: validationResult.error.issues.map((issue: any) => ({
+            field: issue.path.join('.'),
+            message: issue.message,
+          })),
+        });
+        return;
+      }
+
+      const { limit, cursor, ...filters } = validationResult.data;
+      const options: AuditLogListOptions = { limit, cursor };
+      const result = await auditLogService.getAuditLogs({ ...filters, communityId }, options);
+
+      res.status(200).json({
+        success: true,
+        status: 200,
+        data: result.data,
+        pagination: result.pagination,
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: error.message,
+        status: 500,
+      });
+    }
+  }
+}
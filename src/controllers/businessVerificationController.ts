@@ -0,0 +1,188 @@
+import { Request, Response } from 'express';
+import { BusinessVerificationService } from '../services/businessVerificationService';
+import { BusinessVerificationFilters, CreateBusinessVerificationRequest, ReviewBusinessVerificationRequest } from '../types/businessVerification';
+import {
+  approveBusinessVerificationSchema,
+  businessVerificationFiltersSchema,
+  createBusinessVerificationSchema,
+  rejectBusinessVerificationSchema,
+} from '../validators/businessVerificationValidator';
+import { getAuditContext } from '../utils/audit';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: number;
+    role: string;
+  };
+}
+
+const businessVerificationService = new BusinessVerificationService();
+
+const sendValidationError = (res: Response, issues: { path: PropertyKey[]; message: string }[]): void => {
+  res.status(400).json({
+    success: false,
+    message: 'Validation error',
+    status: 400,
+    errors: issues.map(issue => ({
+      field: issue.path.join('.'),
+      message: issue.message,
+    })),
+  });
+};
+
+export class BusinessVerificationController {
+  async submitVerification(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+          status: 401
+        });
+        return;
+      }
+
+      const validationResult = createBusinessVerificationSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        sendValidationError(res, validationResult.error.issues);
+        return;
+      }
+
+      const data: CreateBusinessVerificationRequest = validationResult.data;
+      const verification = await businessVerificationService.submitVerification(userId, data);
+
+      res.status(201).json({
+        success: true,
+        message: 'Business verification submitted successfully',
+        status: 201,
+        data: verification,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  async getMyVerifications(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+          status: 401
+        });
+        return;
+      }
+
+      const verifications = await businessVerificationService.getUserVerifications(userId);
+
+      res.status(200).json({
+        success: true,
+        status: 200,
+        data: verifications,
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: error.message,
+        status: 500,
+      });
+    }
+  }
+
+  async getVerifications(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const validationResult = businessVerificationFiltersSchema.safeParse(req.query);
+      if (!validationResult.success) {
+        sendValidationError(res, validationResult.error.issues);
+        return;
+      }
+
+      const filters: BusinessVerificationFilters = validationResult.data;
+      const verifications = await businessVerificationService.getVerifications(filters);
+
+      res.status(200).json({
+        success: true,
+        status: 200,
+        data: verifications,
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: error.message,
+        status: 500,
+      });
+    }
+  }
+
+  async approveVerification(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.reviewVerification(req, res, true);
+  }
+
+  async rejectVerification(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.reviewVerification(req, res, false);
+  }
+
+  private async reviewVerification(req: AuthenticatedRequest, res: Response, approve: boolean): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+          status: 401
+        });
+        return;
+      }
+
+      const verificationId = parseInt(req.params['id'] as string);
+      if (isNaN(verificationId)) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid business verification ID',
+          status: 400,
+        });
+        return;
+      }
+
+      const schema = approve ? approveBusinessVerificationSchema : rejectBusinessVerificationSchema;
+      const validationResult = schema.safeParse(req.body ?? {});
+      if (!validationResult.success) {
+        sendValidationError(res, validationResult.error.issues);
+        return;
+      }
+
+      const data: ReviewBusinessVerificationRequest = validationResult.data;
+      const verification = approve
+        ? await businessVerificationService.approveVerification(verificationId, userId, data, getAuditContext(req))
+        : await businessVerificationService.rejectVerification(verificationId, userId, data, getAuditContext(req));
+
+      if (!verification) {
+        res.status(404).json({
+          success: false,
+          message: 'Business verification not found',
+          status: 404,
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: approve ? 'Business verification approved' : 'Business verification rejected',
+        status: 200,
+        data: verification,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+}
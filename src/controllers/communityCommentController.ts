@@ -0,0 +1,317 @@
+import { Request, Response } from 'express';
+import { CommunityCommentService } from '../services/communityCommentService';
+import { CommunityBoardListOptions, CreateCommunityCommentRequest, UpdateCommunityCommentRequest } from '../types/communityPost';
+import {
+  communityBoardListSchema,
+  createCommunityCommentSchema,
+  setReactionSchema,
+  updateCommunityCommentSchema,
+} from '../validators/communityPostValidator';
+import { getAuditContext } from '../utils/audit';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: number;
+    role: string;
+  };
+}
+
+const communityCommentService = new CommunityCommentService();
+
+const sendValidationError = (res: Response, issues: { path: PropertyKey[]; message: string }[]): void => {
+  res.status(400).json({
+    success: false,
+    message: 'Validation error',
+    status: 400,
+    errors: issues.map(issue => ({
+      field: issue.path.join('.'),
+      message: issue.message,
+    })),
+  });
+};
+
+const sendUnauthorized = (res: Response): void => {
+  res.status(401).json({
+    success: false,
+    message: 'Unauthorized',
+    status: 401
+  });
+};
+
+const sendNotFound = (res: Response, message: string): void => {
+  res.status(404).json({
+    success: false,
+    message,
+    status: 404,
+  });
+};
+
+/**
+ * The numeric IDs of `/:id/posts/:postId[/comments/:commentId]`, answering
+ * 400 when one is not a number.
+ */
+const parseCommentParams = (
+  req: Request,
+  res: Response,
+  withComment: boolean
+): { communityId: number; postId: number; commentId: number } | null => {
+  const communityId = parseInt(req.params['id'] as string);
+  const postId = parseInt(req.params['postId'] as string);
+  const commentId = withComment ? parseInt(req.params['commentId'] as string) : 0;
+
+  const invalid = isNaN(communityId) ? 'community' : isNaN(postId) ? 'post' : isNaN(commentId) ? 'comment' : null;
+  if (invalid) {
+    res.status(400).json({
+      success: false,
+      message: `Invalid ${invalid} ID`,
+      status: 400,
+    });
+    return null;
+  }
+
+  return { communityId, postId, commentId };
+};
+
+export class CommunityCommentController {
+  async getComments(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const params = parseCommentParams(req, res, false);
+      if (!params) {
+        return;
+      }
+
+      const validationResult = communityBoardListSchema.safeParse(req.query);
+      if (!validationResult.success) {
+        sendValidationError(res, validationResult.error.issues);
+        return;
+      }
+
+      const options: CommunityBoardListOptions = validationResult.data;
+      const result = await communityCommentService.getComments(params.communityId, params.postId, userId, options);
+
+      if (!result) {
+        sendNotFound(res, 'Post not found');
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        status: 200,
+        data: result.data,
+        pagination: result.pagination,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  async createComment(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const params = parseCommentParams(req, res, false);
+      if (!params) {
+        return;
+      }
+
+      const validationResult = createCommunityCommentSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        sendValidationError(res, validationResult.error.issues);
+        return;
+      }
+
+      const data: CreateCommunityCommentRequest = validationResult.data;
+      const comment = await communityCommentService.createComment(params.communityId, params.postId, userId, data);
+
+      if (!comment) {
+        sendNotFound(res, 'Post not found');
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        message: 'Comment created successfully',
+        status: 201,
+        data: comment,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  async updateComment(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const params = parseCommentParams(req, res, true);
+      if (!params) {
+        return;
+      }
+
+      const validationResult = updateCommunityCommentSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        sendValidationError(res, validationResult.error.issues);
+        return;
+      }
+
+      const data: UpdateCommunityCommentRequest = validationResult.data;
+      const comment = await communityCommentService.updateComment(
+        params.communityId, params.postId, params.commentId, userId, data
+      );
+
+      if (!comment) {
+        sendNotFound(res, 'Comment not found');
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Comment updated successfully',
+        status: 200,
+        data: comment,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  async deleteComment(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const params = parseCommentParams(req, res, true);
+      if (!params) {
+        return;
+      }
+
+      const deleted = await communityCommentService.deleteComment(
+        params.communityId, params.postId, params.commentId, userId, getAuditContext(req)
+      );
+
+      if (!deleted) {
+        sendNotFound(res, 'Comment not found');
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Comment deleted successfully',
+        status: 200,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  async setReaction(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const params = parseCommentParams(req, res, true);
+      if (!params) {
+        return;
+      }
+
+      const validationResult = setReactionSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        sendValidationError(res, validationResult.error.issues);
+        return;
+      }
+
+      const comment = await communityCommentService.setReaction(
+        params.communityId, params.postId, params.commentId, userId, validationResult.data.type
+      );
+
+      if (!comment) {
+        sendNotFound(res, 'Comment not found');
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        status: 200,
+        data: comment,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  async removeReaction(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const params = parseCommentParams(req, res, true);
+      if (!params) {
+        return;
+      }
+
+      const comment = await communityCommentService.removeReaction(
+        params.communityId, params.postId, params.commentId, userId
+      );
+
+      if (!comment) {
+        sendNotFound(res, 'Comment not found');
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        status: 200,
+        data: comment,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+}
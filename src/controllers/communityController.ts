@@ -1,17 +1,19 @@
 import { Request, Response } from 'express';
 import { CommunityService } from '../services/communityService';
+import { CommunityInvitationService } from '../services/communityInvitationService';
 import { CreateCommunityRequest, UpdateCommunityRequest, JoinCommunityRequest, InviteUserRequest, UpdateMemberRoleRequest, CommunityFilters } from '../types/community';
 import { createCommunitySchema, updateCommunitySchema, joinCommunitySchema, inviteUserSchema, updateMemberRoleSchema } from '../validators/communityValidator';
+import { getAuditContext } from '../utils/audit';
 
 interface AuthenticatedRequest extends Request {
   user?: {
     userId: number;
     role: string;
-    kakaoId: string;
   };
 }
 
 const communityService = new CommunityService();
+const communityInvitationService = new CommunityInvitationService();
 
 export class CommunityController {
   async createCommunity(req: AuthenticatedRequest, res: Response): Promise<void> {
@@ -153,7 +155,7 @@ export class CommunityController {
       }
 
       const data: UpdateCommunityRequest = validationResult.data;
-      const community = await communityService.updateCommunity(id, userId, data);
+      const community = await communityService.updateCommunity(id, userId, data, getAuditContext(req));
       
       if (!community) {
         res.status(404).json({
@@ -201,7 +203,7 @@ export class CommunityController {
         return;
       }
 
-      const success = await communityService.deleteCommunity(id, userId);
+      const success = await communityService.deleteCommunity(id, userId, getAuditContext(req));
       
       if (!success) {
         res.status(404).json({
@@ -336,14 +338,15 @@ export class CommunityController {
         return;
       }
 
-      const data: InviteUserRequest = validationResult.data;
-      const membership = await communityService.inviteUser(userId, data);
+      // The user becomes a member only after accepting the invitation
+      const { communityId, ...data }: InviteUserRequest = validationResult.data;
+      const invitation = await communityInvitationService.createInvitation(communityId, userId, data);
       
       res.status(201).json({
         success: true,
-        message: 'User invited successfully',
+        message: 'Invitation sent successfully',
         status: 201,
-        data: membership,
+        data: invitation,
       });
     } catch (error: any) {
       res.status(400).json({
@@ -429,7 +432,7 @@ export class CommunityController {
       }
 
       const data: UpdateMemberRoleRequest = validationResult.data;
-      const membership = await communityService.updateMemberRole(communityId, userId, data);
+      const membership = await communityService.updateMemberRole(communityId, userId, data, getAuditContext(req));
       
       res.status(200).json({
         success: true,
@@ -470,7 +473,7 @@ export class CommunityController {
         return;
       }
 
-      await communityService.removeMember(communityId, userId, targetUserId);
+      await communityService.removeMember(communityId, userId, targetUserId, getAuditContext(req));
       
       res.status(200).json({
         success: true,
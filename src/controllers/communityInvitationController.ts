@@ -0,0 +1,397 @@
+import { Request, Response } from 'express';
+import { CommunityService } from '../services/communityService';
+import { CommunityInvitationService } from '../services/communityInvitationService';
+import { CreateCommunityInvitationRequest, CreateInviteLinkRequest } from '../types/communityInvitation';
+import { createCommunityInvitationSchema, createInviteLinkSchema } from '../validators/communityInvitationValidator';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: number;
+    role: string;
+  };
+}
+
+const communityService = new CommunityService();
+const communityInvitationService = new CommunityInvitationService();
+
+const sendValidationError = (res: Response, issues: { path: PropertyKey[]; message: string }[]): void => {
+  res.status(400).json({
+    success: false,
+    message: 'Validation error',
+    status: 400,
+    errors: issues.map(issue => ({
+      field: issue.path.join('.'),
+      message: issue.message,
+    })),
+  });
+};
+
+const sendUnauthorized = (res: Response): void => {
+  res.status(401).json({
+    success: false,
+    message: 'Unauthorized',
+    status: 401
+  });
+};
+
+// Parses a numeric path parameter, answering 400 when it is not a number
+const parseIdParam = (req: Request, res: Response, name: string, label: string): number | null => {
+  const id = parseInt(req.params[name] as string);
+  if (isNaN(id)) {
+    res.status(400).json({
+      success: false,
+      message: `Invalid ${label} ID`,
+      status: 400,
+    });
+    return null;
+  }
+
+  return id;
+};
+
+export class CommunityInvitationController {
+  async createInvitation(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const communityId = parseIdParam(req, res, 'id', 'community');
+      if (communityId === null) {
+        return;
+      }
+
+      const validationResult = createCommunityInvitationSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        sendValidationError(res, validationResult.error.issues);
+        return;
+      }
+
+      const data: CreateCommunityInvitationRequest = validationResult.data;
+      const invitation = await communityInvitationService.createInvitation(communityId, userId, data);
+
+      res.status(201).json({
+        success: true,
+        message: 'Invitation sent successfully',
+        status: 201,
+        data: invitation,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  async getCommunityInvitations(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const communityId = parseIdParam(req, res, 'id', 'community');
+      if (communityId === null) {
+        return;
+      }
+
+      const invitations = await communityInvitationService.getCommunityInvitations(communityId, userId);
+
+      res.status(200).json({
+        success: true,
+        status: 200,
+        data: invitations,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  async revokeInvitation(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const communityId = parseIdParam(req, res, 'id', 'community');
+      if (communityId === null) {
+        return;
+      }
+
+      const invitationId = parseIdParam(req, res, 'invitationId', 'invitation');
+      if (invitationId === null) {
+        return;
+      }
+
+      const invitation = await communityInvitationService.revokeInvitation(communityId, invitationId, userId);
+
+      if (!invitation) {
+        res.status(404).json({
+          success: false,
+          message: 'Invitation not found',
+          status: 404,
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Invitation revoked successfully',
+        status: 200,
+        data: invitation,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  async getMyInvitations(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const invitations = await communityInvitationService.getMyInvitations(userId);
+
+      res.status(200).json({
+        success: true,
+        status: 200,
+        data: invitations,
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: error.message,
+        status: 500,
+      });
+    }
+  }
+
+  async acceptInvitation(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.respondToInvitation(req, res, true);
+  }
+
+  async declineInvitation(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.respondToInvitation(req, res, false);
+  }
+
+  async createInviteLink(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const communityId = parseIdParam(req, res, 'id', 'community');
+      if (communityId === null) {
+        return;
+      }
+
+      const validationResult = createInviteLinkSchema.safeParse(req.body ?? {});
+      if (!validationResult.success) {
+        sendValidationError(res, validationResult.error.issues);
+        return;
+      }
+
+      const data: CreateInviteLinkRequest = validationResult.data;
+      const inviteLink = await communityInvitationService.createInviteLink(communityId, userId, data);
+
+      res.status(201).json({
+        success: true,
+        message: 'Invite link created successfully',
+        status: 201,
+        data: inviteLink,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  async getInviteLinks(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const communityId = parseIdParam(req, res, 'id', 'community');
+      if (communityId === null) {
+        return;
+      }
+
+      const inviteLinks = await communityInvitationService.getInviteLinks(communityId, userId);
+
+      res.status(200).json({
+        success: true,
+        status: 200,
+        data: inviteLinks,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  async revokeInviteLink(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const communityId = parseIdParam(req, res, 'id', 'community');
+      if (communityId === null) {
+        return;
+      }
+
+      const inviteLinkId = parseIdParam(req, res, 'linkId', 'invite link');
+      if (inviteLinkId === null) {
+        return;
+      }
+
+      const inviteLink = await communityInvitationService.revokeInviteLink(communityId, inviteLinkId, userId);
+
+      if (!inviteLink) {
+        res.status(404).json({
+          success: false,
+          message: 'Invite link not found',
+          status: 404,
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Invite link revoked successfully',
+        status: 200,
+        data: inviteLink,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  async getInviteLinkPreview(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const preview = await communityService.getInviteLinkPreview(req.params['code'] as string);
+
+      if (!preview) {
+        res.status(404).json({
+          success: false,
+          message: 'Invite link is invalid or has expired',
+          status: 404,
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        status: 200,
+        data: preview,
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: error.message,
+        status: 500,
+      });
+    }
+  }
+
+  async joinWithInviteLink(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const membership = await communityService.joinWithInviteCode(userId, req.params['code'] as string);
+
+      res.status(201).json({
+        success: true,
+        message: 'Successfully joined community',
+        status: 201,
+        data: membership,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  private async respondToInvitation(req: AuthenticatedRequest, res: Response, accept: boolean): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const invitationId = parseIdParam(req, res, 'invitationId', 'invitation');
+      if (invitationId === null) {
+        return;
+      }
+
+      const invitation = accept
+        ? await communityInvitationService.acceptInvitation(invitationId, userId)
+        : await communityInvitationService.declineInvitation(invitationId, userId);
+
+      if (!invitation) {
+        res.status(404).json({
+          success: false,
+          message: 'Invitation not found',
+          status: 404,
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: accept ? 'Invitation accepted' : 'Invitation declined',
+        status: 200,
+        data: invitation,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+}
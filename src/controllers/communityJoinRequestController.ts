@@ -0,0 +1,247 @@
+import { Request, Response } from 'express';
+import { CommunityJoinRequestService } from '../services/communityJoinRequestService';
+import { CreateJoinRequestRequest, JoinRequestFilters, ReviewJoinRequestRequest } from '../types/communityInvitation';
+import { createJoinRequestSchema, joinRequestFiltersSchema, reviewJoinRequestSchema } from '../validators/communityInvitationValidator';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: number;
+    role: string;
+  };
+}
+
+const communityJoinRequestService = new CommunityJoinRequestService();
+
+const sendValidationError = (res: Response, issues: { path: PropertyKey[]; message: string }[]): void => {
+  res.status(400).json({
+    success: false,
+    message: 'Validation error',
+    status: 400,
+    errors: issues.map(issue => ({
+      field: issue.path.join('.'),
+      message: issue.message,
+    })),
+  });
+};
+
+const sendUnauthorized = (res: Response): void => {
+  res.status(401).json({
+    success: false,
+    message: 'Unauthorized',
+    status: 401
+  });
+};
+
+// Parses a numeric path parameter, answering 400 when it is not a number
+const parseIdParam = (req: Request, res: Response, name: string, label: string): number | null => {
+  const id = parseInt(req.params[name] as string);
+  if (isNaN(id)) {
+    res.status(400).json({
+      success: false,
+      message: `Invalid ${label} ID`,
+      status: 400,
+    });
+    return null;
+  }
+
+  return id;
+};
+
+export class CommunityJoinRequestController {
+  async createJoinRequest(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const communityId = parseIdParam(req, res, 'id', 'community');
+      if (communityId === null) {
+        return;
+      }
+
+      const validationResult = createJoinRequestSchema.safeParse(req.body ?? {});
+      if (!validationResult.success) {
+        sendValidationError(res, validationResult.error.issues);
+        return;
+      }
+
+      const data: CreateJoinRequestRequest = validationResult.data;
+      const joinRequest = await communityJoinRequestService.createJoinRequest(communityId, userId, data);
+
+      res.status(201).json({
+        success: true,
+        message: 'Join request sent successfully',
+        status: 201,
+        data: joinRequest,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  async getJoinRequests(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const communityId = parseIdParam(req, res, 'id', 'community');
+      if (communityId === null) {
+        return;
+      }
+
+      const validationResult = joinRequestFiltersSchema.safeParse(req.query);
+      if (!validationResult.success) {
+        sendValidationError(res, validationResult.error.issues);
+        return;
+      }
+
+      const filters: JoinRequestFilters = validationResult.data;
+      const joinRequests = await communityJoinRequestService.getJoinRequests(communityId, userId, filters);
+
+      res.status(200).json({
+        success: true,
+        status: 200,
+        data: joinRequests,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  async getMyJoinRequests(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const joinRequests = await communityJoinRequestService.getMyJoinRequests(userId);
+
+      res.status(200).json({
+        success: true,
+        status: 200,
+        data: joinRequests,
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: error.message,
+        status: 500,
+      });
+    }
+  }
+
+  async cancelJoinRequest(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const joinRequestId = parseIdParam(req, res, 'requestId', 'join request');
+      if (joinRequestId === null) {
+        return;
+      }
+
+      const joinRequest = await communityJoinRequestService.cancelJoinRequest(joinRequestId, userId);
+
+      if (!joinRequest) {
+        res.status(404).json({
+          success: false,
+          message: 'Join request not found',
+          status: 404,
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Join request canceled',
+        status: 200,
+        data: joinRequest,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  async approveJoinRequest(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.reviewJoinRequest(req, res, true);
+  }
+
+  async rejectJoinRequest(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.reviewJoinRequest(req, res, false);
+  }
+
+  private async reviewJoinRequest(req: AuthenticatedRequest, res: Response, approve: boolean): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const communityId = parseIdParam(req, res, 'id', 'community');
+      if (communityId === null) {
+        return;
+      }
+
+      const joinRequestId = parseIdParam(req, res, 'requestId', 'join request');
+      if (joinRequestId === null) {
+        return;
+      }
+
+      const validationResult = reviewJoinRequestSchema.safeParse(req.body ?? {});
+      if (!validationResult.success) {
+        sendValidationError(res, validationResult.error.issues);
+        return;
+      }
+
+      const data: ReviewJoinRequestRequest = validationResult.data;
+      const joinRequest = approve
+        ? await communityJoinRequestService.approveJoinRequest(communityId, joinRequestId, userId, data)
+        : await communityJoinRequestService.rejectJoinRequest(communityId, joinRequestId, userId, data);
+
+      if (!joinRequest) {
+        res.status(404).json({
+          success: false,
+          message: 'Join request not found',
+          status: 404,
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: approve ? 'Join request approved' : 'Join request rejected',
+        status: 200,
+        data: joinRequest,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+}
@@ -0,0 +1,251 @@
+import { Request, Response } from 'express';
+import { CommunityModerationService } from '../services/communityModerationService';
+import { SanctionMemberRequest, WarnMemberRequest } from '../types/communityModeration';
+import { sanctionMemberSchema, warnMemberSchema } from '../validators/communityModerationValidator';
+import { getAuditContext } from '../utils/audit';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: number;
+    role: string;
+  };
+}
+
+const communityModerationService = new CommunityModerationService();
+
+const sendValidationError = (res: Response, issues: { path: PropertyKey[]; message: string }[]): void => {
+  res.status(400).json({
+    success: false,
+    message: 'Validation error',
+    status: 400,
+    errors: issues.map(issue => ({
+      field: issue.path.join('.'),
+      message: issue.message,
+    })),
+  });
+};
+
+const sendUnauthorized = (res: Response): void => {
+  res.status(401).json({
+    success: false,
+    message: 'Unauthorized',
+    status: 401
+  });
+};
+
+// The community and user IDs of `/:id/members/:userId`, answering 400 when one is not a number
+const parseMemberParams = (req: Request, res: Response): { communityId: number; userId: number } | null => {
+  const communityId = parseInt(req.params['id'] as string);
+  const userId = parseInt(req.params['userId'] as string);
+
+  if (isNaN(communityId) || isNaN(userId)) {
+    res.status(400).json({
+      success: false,
+      message: isNaN(communityId) ? 'Invalid community ID' : 'Invalid user ID',
+      status: 400,
+    });
+    return null;
+  }
+
+  return { communityId, userId };
+};
+
+export class CommunityModerationController {
+  async getBans(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const communityId = parseInt(req.params['id'] as string);
+      if (isNaN(communityId)) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid community ID',
+          status: 400,
+        });
+        return;
+      }
+
+      const bans = await communityModerationService.getBans(communityId, userId);
+
+      res.status(200).json({
+        success: true,
+        status: 200,
+        data: bans,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  async banMember(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.sanctionMember(req, res, true);
+  }
+
+  async muteMember(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.sanctionMember(req, res, false);
+  }
+
+  async unbanMember(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.liftSanction(req, res, true);
+  }
+
+  async unmuteMember(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.liftSanction(req, res, false);
+  }
+
+  async warnMember(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const params = parseMemberParams(req, res);
+      if (!params) {
+        return;
+      }
+
+      const validationResult = warnMemberSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        sendValidationError(res, validationResult.error.issues);
+        return;
+      }
+
+      const data: WarnMemberRequest = validationResult.data;
+      const warning = await communityModerationService.warnMember(
+        params.communityId, userId, params.userId, data, getAuditContext(req)
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Member warned',
+        status: 201,
+        data: warning,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  async getMemberHistory(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const params = parseMemberParams(req, res);
+      if (!params) {
+        return;
+      }
+
+      const history = await communityModerationService.getMemberHistory(params.communityId, userId, params.userId);
+
+      res.status(200).json({
+        success: true,
+        status: 200,
+        data: history,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  private async sanctionMember(req: AuthenticatedRequest, res: Response, ban: boolean): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const params = parseMemberParams(req, res);
+      if (!params) {
+        return;
+      }
+
+      const validationResult = sanctionMemberSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        sendValidationError(res, validationResult.error.issues);
+        return;
+      }
+
+      const data: SanctionMemberRequest = validationResult.data;
+      const sanction = ban
+        ? await communityModerationService.banMember(params.communityId, userId, params.userId, data, getAuditContext(req))
+        : await communityModerationService.muteMember(params.communityId, userId, params.userId, data, getAuditContext(req));
+
+      res.status(201).json({
+        success: true,
+        message: ban ? 'Member banned' : 'Member muted',
+        status: 201,
+        data: sanction,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  private async liftSanction(req: AuthenticatedRequest, res: Response, ban: boolean): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const params = parseMemberParams(req, res);
+      if (!params) {
+        return;
+      }
+
+      const sanction = ban
+        ? await communityModerationService.unbanMember(params.communityId, userId, params.userId, getAuditContext(req))
+        : await communityModerationService.unmuteMember(params.communityId, userId, params.userId, getAuditContext(req));
+
+      if (!sanction) {
+        res.status(404).json({
+          success: false,
+          message: ban ? 'User is not banned' : 'User is not muted',
+          status: 404,
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: ban ? 'Ban lifted' : 'Mute lifted',
+        status: 200,
+        data: sanction,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+}
@@ -0,0 +1,263 @@
+import { Request, Response } from 'express';
+import { CommunityOwnershipService } from '../services/communityOwnershipService';
+import { RequestOwnershipTransferRequest } from '../types/communityOwnership';
+import { requestOwnershipTransferSchema } from '../validators/communityOwnershipValidator';
+import { getAuditContext } from '../utils/audit';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: number;
+    role: string;
+  };
+}
+
+const communityOwnershipService = new CommunityOwnershipService();
+
+const sendValidationError = (res: Response, issues: { path: PropertyKey[]; message: string }[]): void => {
+  res.status(400).json({
+    success: false,
+    message: 'Validation error',
+    status: 400,
+    errors: issues.map(issue => ({
+      field: issue.path.join('.'),
+      message: issue.message,
+    })),
+  });
+};
+
+const sendUnauthorized = (res: Response): void => {
+  res.status(401).json({
+    success: false,
+    message: 'Unauthorized',
+    status: 401
+  });
+};
+
+const sendTransferNotFound = (res: Response): void => {
+  res.status(404).json({
+    success: false,
+    message: 'Ownership transfer not found',
+    status: 404,
+  });
+};
+
+// Parses a numeric path parameter, answering 400 when it is not a number
+const parseIdParam = (req: Request, res: Response, name: string, label: string): number | null => {
+  const id = parseInt(req.params[name] as string);
+  if (isNaN(id)) {
+    res.status(400).json({
+      success: false,
+      message: `Invalid ${label} ID`,
+      status: 400,
+    });
+    return null;
+  }
+
+  return id;
+};
+
+export class CommunityOwnershipController {
+  async requestTransfer(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const communityId = parseIdParam(req, res, 'id', 'community');
+      if (communityId === null) {
+        return;
+      }
+
+      const validationResult = requestOwnershipTransferSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        sendValidationError(res, validationResult.error.issues);
+        return;
+      }
+
+      const data: RequestOwnershipTransferRequest = validationResult.data;
+      const transfer = await communityOwnershipService.requestTransfer(communityId, userId, data);
+
+      res.status(201).json({
+        success: true,
+        message: 'Ownership transfer requested successfully',
+        status: 201,
+        data: transfer,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  async getPendingTransfer(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const communityId = parseIdParam(req, res, 'id', 'community');
+      if (communityId === null) {
+        return;
+      }
+
+      const transfer = await communityOwnershipService.getPendingTransfer(communityId);
+
+      if (!transfer) {
+        sendTransferNotFound(res);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        status: 200,
+        data: transfer,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  async cancelTransfer(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const communityId = parseIdParam(req, res, 'id', 'community');
+      if (communityId === null) {
+        return;
+      }
+
+      const transfer = await communityOwnershipService.cancelTransfer(communityId, userId);
+
+      if (!transfer) {
+        sendTransferNotFound(res);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Ownership transfer canceled',
+        status: 200,
+        data: transfer,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  async getMyTransfers(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const transfers = await communityOwnershipService.getMyTransfers(userId);
+
+      res.status(200).json({
+        success: true,
+        status: 200,
+        data: transfers,
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: error.message,
+        status: 500,
+      });
+    }
+  }
+
+  async acceptTransfer(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.respondToTransfer(req, res, true);
+  }
+
+  async declineTransfer(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.respondToTransfer(req, res, false);
+  }
+
+  async claimOwnership(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const communityId = parseIdParam(req, res, 'id', 'community');
+      if (communityId === null) {
+        return;
+      }
+
+      await communityOwnershipService.claimOwnership(communityId, userId, getAuditContext(req));
+
+      res.status(200).json({
+        success: true,
+        message: 'Community ownership claimed',
+        status: 200,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  private async respondToTransfer(req: AuthenticatedRequest, res: Response, accept: boolean): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const transferId = parseIdParam(req, res, 'transferId', 'ownership transfer');
+      if (transferId === null) {
+        return;
+      }
+
+      const transfer = accept
+        ? await communityOwnershipService.acceptTransfer(transferId, userId, getAuditContext(req))
+        : await communityOwnershipService.declineTransfer(transferId, userId);
+
+      if (!transfer) {
+        sendTransferNotFound(res);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: accept ? 'Ownership transfer accepted' : 'Ownership transfer declined',
+        status: 200,
+        data: transfer,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+}
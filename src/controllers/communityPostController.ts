@@ -0,0 +1,382 @@
+import { Request, Response } from 'express';
+import { CommunityPostService } from '../services/communityPostService';
+import {
+  CommunityBoardListOptions,
+  CreateCommunityPostRequest,
+  ModerateCommunityPostRequest,
+  UpdateCommunityPostRequest,
+} from '../types/communityPost';
+import {
+  communityBoardListSchema,
+  createCommunityPostSchema,
+  moderateCommunityPostSchema,
+  setReactionSchema,
+  updateCommunityPostSchema,
+} from '../validators/communityPostValidator';
+import { getAuditContext } from '../utils/audit';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: number;
+    role: string;
+  };
+}
+
+const communityPostService = new CommunityPostService();
+
+const sendValidationError = (res: Response, issues: { path: PropertyKey[]; message: string }[]): void => {
+  res.status(400).json({
+    success: false,
+    message: 'Validation error',
+    status: 400,
+    errors: issues.map(issue => ({
+      field: issue.path.join('.'),
+      message: issue.message,
+    })),
+  });
+};
+
+const sendUnauthorized = (res: Response): void => {
+  res.status(401).json({
+    success: false,
+    message: 'Unauthorized',
+    status: 401
+  });
+};
+
+const sendPostNotFound = (res: Response): void => {
+  res.status(404).json({
+    success: false,
+    message: 'Post not found',
+    status: 404,
+  });
+};
+
+// The community and post IDs of `/:id/posts/:postId`, answering 400 when one is not a number
+const parsePostParams = (req: Request, res: Response): { communityId: number; postId: number } | null => {
+  const communityId = parseInt(req.params['id'] as string);
+  const postId = parseInt(req.params['postId'] as string);
+
+  if (isNaN(communityId) || isNaN(postId)) {
+    res.status(400).json({
+      success: false,
+      message: isNaN(communityId) ? 'Invalid community ID' : 'Invalid post ID',
+      status: 400,
+    });
+    return null;
+  }
+
+  return { communityId, postId };
+};
+
+export class CommunityPostController {
+  async createPost(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const communityId = parseInt(req.params['id'] as string);
+      if (isNaN(communityId)) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid community ID',
+          status: 400,
+        });
+        return;
+      }
+
+      const validationResult = createCommunityPostSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        sendValidationError(res, validationResult.error.issues);
+        return;
+      }
+
+      const data: CreateCommunityPostRequest = validationResult.data;
+      const post = await communityPostService.createPost(communityId, userId, data);
+
+      res.status(201).json({
+        success: true,
+        message: 'Post created successfully',
+        status: 201,
+        data: post,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  async getPosts(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const communityId = parseInt(req.params['id'] as string);
+      if (isNaN(communityId)) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid community ID',
+          status: 400,
+        });
+        return;
+      }
+
+      const validationResult = communityBoardListSchema.safeParse(req.query);
+      if (!validationResult.success) {
+        sendValidationError(res, validationResult.error.issues);
+        return;
+      }
+
+      const options: CommunityBoardListOptions = validationResult.data;
+      const result = await communityPostService.getPosts(communityId, userId, options);
+
+      res.status(200).json({
+        success: true,
+        status: 200,
+        data: result.data,
+        pagination: result.pagination,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  async getPostById(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const params = parsePostParams(req, res);
+      if (!params) {
+        return;
+      }
+
+      const post = await communityPostService.getPostById(params.communityId, params.postId, userId);
+
+      if (!post) {
+        sendPostNotFound(res);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        status: 200,
+        data: post,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  async updatePost(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const params = parsePostParams(req, res);
+      if (!params) {
+        return;
+      }
+
+      const validationResult = updateCommunityPostSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        sendValidationError(res, validationResult.error.issues);
+        return;
+      }
+
+      const data: UpdateCommunityPostRequest = validationResult.data;
+      const post = await communityPostService.updatePost(params.communityId, params.postId, userId, data);
+
+      if (!post) {
+        sendPostNotFound(res);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Post updated successfully',
+        status: 200,
+        data: post,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  async deletePost(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const params = parsePostParams(req, res);
+      if (!params) {
+        return;
+      }
+
+      const deleted = await communityPostService.deletePost(params.communityId, params.postId, userId, getAuditContext(req));
+
+      if (!deleted) {
+        sendPostNotFound(res);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Post deleted successfully',
+        status: 200,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  async moderatePost(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const params = parsePostParams(req, res);
+      if (!params) {
+        return;
+      }
+
+      const validationResult = moderateCommunityPostSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        sendValidationError(res, validationResult.error.issues);
+        return;
+      }
+
+      const data: ModerateCommunityPostRequest = validationResult.data;
+      const post = await communityPostService.moderatePost(params.communityId, params.postId, userId, data);
+
+      if (!post) {
+        sendPostNotFound(res);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Post updated successfully',
+        status: 200,
+        data: post,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  async setReaction(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const params = parsePostParams(req, res);
+      if (!params) {
+        return;
+      }
+
+      const validationResult = setReactionSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        sendValidationError(res, validationResult.error.issues);
+        return;
+      }
+
+      const post = await communityPostService.setReaction(params.communityId, params.postId, userId, validationResult.data.type);
+
+      if (!post) {
+        sendPostNotFound(res);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        status: 200,
+        data: post,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  async removeReaction(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const params = parsePostParams(req, res);
+      if (!params) {
+        return;
+      }
+
+      const post = await communityPostService.removeReaction(params.communityId, params.postId, userId);
+
+      if (!post) {
+        sendPostNotFound(res);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        status: 200,
+        data: post,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+}
@@ -0,0 +1,282 @@
+import { Request, Response } from 'express';
+import { EquipmentCatalogService } from '../services/equipmentCatalogService';
+import {
+  CreateEquipmentTypeRequest,
+  UpdateEquipmentTypeRequest,
+  CreateLadderMachineTypeRequest,
+  UpdateLadderMachineTypeRequest,
+} from '../types/equipmentCatalog';
+import {
+  createEquipmentTypeSchema,
+  updateEquipmentTypeSchema,
+  createLadderMachineTypeSchema,
+  updateLadderMachineTypeSchema,
+} from '../validators/equipmentCatalogValidator';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: number;
+    role: string;
+  };
+}
+
+const equipmentCatalogService = new EquipmentCatalogService();
+
+export class EquipmentCatalogController {
+  // Public - used by the app to build the equipment pickers
+  async getCatalog(_req: Request, res: Response): Promise<void> {
+    try {
+      const catalog = await equipmentCatalogService.getCatalog();
+
+      res.status(200).json({
+        success: true,
+        data: catalog,
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  async getFullCatalog(_req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const catalog = await equipmentCatalogService.getFullCatalog();
+
+      res.status(200).json({
+        success: true,
+        data: catalog,
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  async createEquipmentType(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      // Validate request body
+      const validationResult = createEquipmentTypeSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        this.sendValidationError(res, validationResult.error.issues);
+        return;
+      }
+
+      const data: CreateEquipmentTypeRequest = validationResult.data;
+      const equipmentType = await equipmentCatalogService.createEquipmentType(data);
+
+      res.status(201).json({
+        success: true,
+        message: 'Equipment type created successfully',
+        status: 201,
+        data: equipmentType,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  async updateEquipmentType(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params['id'] as string);
+      if (isNaN(id)) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid equipment type ID',
+          status: 400,
+        });
+        return;
+      }
+
+      // Validate request body
+      const validationResult = updateEquipmentTypeSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        this.sendValidationError(res, validationResult.error.issues);
+        return;
+      }
+
+      const data: UpdateEquipmentTypeRequest = validationResult.data;
+      const equipmentType = await equipmentCatalogService.updateEquipmentType(id, data);
+
+      if (!equipmentType) {
+        res.status(404).json({
+          success: false,
+          message: 'Equipment type not found',
+          status: 404,
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Equipment type updated successfully',
+        status: 200,
+        data: equipmentType,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  async deleteEquipmentType(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params['id'] as string);
+      if (isNaN(id)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid equipment type ID',
+        });
+        return;
+      }
+
+      const deleted = await equipmentCatalogService.deleteEquipmentType(id);
+
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          error: 'Equipment type not found',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Equipment type deleted successfully',
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  async createLadderMachineType(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      // Validate request body
+      const validationResult = createLadderMachineTypeSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        this.sendValidationError(res, validationResult.error.issues);
+        return;
+      }
+
+      const data: CreateLadderMachineTypeRequest = validationResult.data;
+      const machineType = await equipmentCatalogService.createLadderMachineType(data);
+
+      res.status(201).json({
+        success: true,
+        message: 'Machine type created successfully',
+        status: 201,
+        data: machineType,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  async updateLadderMachineType(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params['id'] as string);
+      if (isNaN(id)) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid machine type ID',
+          status: 400,
+        });
+        return;
+      }
+
+      // Validate request body
+      const validationResult = updateLadderMachineTypeSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        this.sendValidationError(res, validationResult.error.issues);
+        return;
+      }
+
+      const data: UpdateLadderMachineTypeRequest = validationResult.data;
+      const machineType = await equipmentCatalogService.updateLadderMachineType(id, data);
+
+      if (!machineType) {
+        res.status(404).json({
+          success: false,
+          message: 'Machine type not found',
+          status: 404,
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Machine type updated successfully',
+        status: 200,
+        data: machineType,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  async deleteLadderMachineType(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const id = parseInt(req.params['id'] as string);
+      if (isNaN(id)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid machine type ID',
+        });
+        return;
+      }
+
+      const deleted = await equipmentCatalogService.deleteLadderMachineType(id);
+
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          error: 'Machine type not found',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Machine type deleted successfully',
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  private sendValidationError(res: Response, issues: any[]): void {
+    res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      status: 400,
+      errors: issues.map((issue: any) => ({
+        field: issue.path.join('.'),
+        message: issue.message,
+      })),
+    });
+  }
+}
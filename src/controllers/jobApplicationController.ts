@@ -0,0 +1,212 @@
+import { Request, Response } from 'express';
+import { JobApplicationService } from '../services/jobApplicationService';
+import { CreateJobApplicationRequest, JobApplicationResponse } from '../types/jobApplication';
+import { createJobApplicationSchema } from '../validators/jobApplicationValidator';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: number;
+    role: string;
+  };
+}
+
+const jobApplicationService = new JobApplicationService();
+
+export class JobApplicationController {
+  async applyToJobPost(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+          status: 401
+        });
+        return;
+      }
+
+      const jobPostId = parseInt(req.params['id'] as string);
+      if (isNaN(jobPostId)) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid job post ID',
+          status: 400,
+        });
+        return;
+      }
+
+      // Validate request body
+      const validationResult = createJobApplicationSchema.safeParse(req.body ?? {});
+      if (!validationResult.success) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          status: 400,
+          errors: validationResult.error.issues.map((issue: any) => ({
+            field: issue.path.join('.'),
+            message: issue.message,
+          })),
+        });
+        return;
+      }
+
+      const data: CreateJobApplicationRequest = validationResult.data;
+      const application = await jobApplicationService.applyToJobPost(jobPostId, userId, data);
+
+      if (!application) {
+        res.status(404).json({
+          success: false,
+          message: 'Job post not found',
+          status: 404,
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        message: 'Application submitted successfully',
+        status: 201,
+        data: application,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  async getJobPostApplications(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const jobPostId = parseInt(req.params['id'] as string);
+      if (isNaN(jobPostId)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid job post ID',
+        });
+        return;
+      }
+
+      const applications = await jobApplicationService.getJobPostApplications(jobPostId, userId);
+
+      if (!applications) {
+        res.status(404).json({
+          success: false,
+          error: 'Job post not found or access denied',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: applications,
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  async getMyApplications(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const applications = await jobApplicationService.getUserApplications(userId);
+
+      res.status(200).json({
+        success: true,
+        data: applications,
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  async acceptApplication(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.handleApplicationDecision(req, res, 'Application accepted successfully', (jobPostId, applicationId, userId) =>
+      jobApplicationService.acceptApplication(jobPostId, applicationId, userId)
+    );
+  }
+
+  async rejectApplication(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.handleApplicationDecision(req, res, 'Application rejected successfully', (jobPostId, applicationId, userId) =>
+      jobApplicationService.rejectApplication(jobPostId, applicationId, userId)
+    );
+  }
+
+  async withdrawApplication(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.handleApplicationDecision(req, res, 'Application withdrawn successfully', (jobPostId, applicationId, userId) =>
+      jobApplicationService.withdrawApplication(jobPostId, applicationId, userId)
+    );
+  }
+
+  private async handleApplicationDecision(
+    req: AuthenticatedRequest,
+    res: Response,
+    successMessage: string,
+    decide: (jobPostId: number, applicationId: number, userId: number) => Promise<JobApplicationResponse | null>
+  ): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+          status: 401
+        });
+        return;
+      }
+
+      const jobPostId = parseInt(req.params['id'] as string);
+      const applicationId = parseInt(req.params['applicationId'] as string);
+      if (isNaN(jobPostId) || isNaN(applicationId)) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid job post or application ID',
+          status: 400,
+        });
+        return;
+      }
+
+      const application = await decide(jobPostId, applicationId, userId);
+
+      if (!application) {
+        res.status(404).json({
+          success: false,
+          message: 'Application not found or access denied',
+          status: 404,
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: successMessage,
+        status: 200,
+        data: application,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+}
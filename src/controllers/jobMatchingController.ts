@@ -0,0 +1,116 @@
+import { Request, Response } from 'express';
+import { JobMatchingService } from '../services/jobMatchingService';
+import { OperatorFilters, JobPostListOptions } from '../types/jobPost';
+import { jobPostPageSchema, operatorFiltersSchema } from '../validators/jobPostValidator';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: number;
+    role: string;
+  };
+}
+
+const jobMatchingService = new JobMatchingService();
+
+export class JobMatchingController {
+  async getJobPostsForMyEquipment(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      // Validate query parameters
+      const validationResult = jobPostPageSchema.safeParse(req.query);
+      if (!validationResult.success) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          status: 400,
+          errors: validationResult.error.issues.map((issue: any) => ({
+            field: issue.path.join('.'),
+            message: issue.message,
+          })),
+        });
+        return;
+      }
+
+      const options: JobPostListOptions = validationResult.data;
+      const result = await jobMatchingService.getJobPostsForUserEquipment(userId, options);
+
+      res.status(200).json({
+        success: true,
+        data: result.data,
+        pagination: result.pagination,
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  async getSuitableOperators(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+          status: 401
+        });
+        return;
+      }
+
+      const jobPostId = parseInt(req.params['id'] as string);
+      if (isNaN(jobPostId)) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid job post ID',
+          status: 400,
+        });
+        return;
+      }
+
+      const filtersResult = operatorFiltersSchema.safeParse(req.query);
+      if (!filtersResult.success) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          status: 400,
+          errors: filtersResult.error.issues.map((issue: any) => ({
+            field: issue.path.join('.'),
+            message: issue.message,
+          })),
+        });
+        return;
+      }
+
+      const filters: OperatorFilters = filtersResult.data;
+      const operators = await jobMatchingService.getSuitableOperators(jobPostId, userId, filters);
+
+      if (!operators) {
+        res.status(404).json({
+          success: false,
+          message: 'Job post not found or access denied',
+          status: 404,
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        status: 200,
+        data: operators,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+}
@@ -1,18 +1,28 @@
 import { Request, Response } from 'express';
+import { JobPostType } from '@prisma/client';
 import { JobPostService } from '../services/jobPostService';
-import { CreateJobPostRequest, UpdateJobPostRequest, JobPostFilters } from '../types/jobPost';
-import { JobPostType, JobPostCategory } from '@prisma/client';
-import { createJobPostSchema, updateJobPostSchema } from '../validators/jobPostValidator';
+import { JobPostStatusService } from '../services/jobPostStatusService';
+import { JobPostDesignationService } from '../services/jobPostDesignationService';
+import { FeeCalculationService } from '../services/feeCalculationService';
+import { LocationService } from '../services/locationService';
+import { CreateJobPostRequest, UpdateJobPostRequest, JobPostFilters, JobPostListOptions, JobPostResponse, AssignJobPostRequest, CancelJobPostRequest, DeclineDesignationRequest, RedesignateJobPostRequest, OperatorFilters } from '../types/jobPost';
+import { FeePreviewRequest } from '../types/fee';
+import { ApiKeyPrincipal } from '../types/apiKey';
+import { createJobPostSchema, updateJobPostSchema, jobPostFiltersSchema, assignJobPostSchema, cancelJobPostSchema, declineDesignationSchema, redesignateJobPostSchema, feePreviewSchema, operatorFiltersSchema } from '../validators/jobPostValidator';
 
 interface AuthenticatedRequest extends Request {
   user?: {
     userId: number;
     role: string;
-    kakaoId: string;
   };
+  apiKey?: ApiKeyPrincipal;
 }
 
 const jobPostService = new JobPostService();
+const jobPostStatusService = new JobPostStatusService();
+const jobPostDesignationService = new JobPostDesignationService();
+const feeCalculationService = new FeeCalculationService();
+const locationService = new LocationService();
 
 export class JobPostController {
   async createJobPost(req: AuthenticatedRequest, res: Response): Promise<void> {
@@ -43,6 +53,18 @@ export class JobPostController {
       }
 
       const data: CreateJobPostRequest = validationResult.data;
+
+      // A community API key can only post to its own community
+      const keyCommunityId = req.apiKey?.communityId;
+      if (keyCommunityId !== undefined && (data.type !== JobPostType.COMMUNITY || data.communityId !== keyCommunityId)) {
+        res.status(403).json({
+          success: false,
+          message: 'This API key can only create job posts in its community',
+          status: 403,
+        });
+        return;
+      }
+
       const jobPost = await jobPostService.createJobPost(userId, data);
       
       res.status(201).json({
@@ -63,18 +85,50 @@ export class JobPostController {
   async getJobPosts(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const userId = req.user?.userId;
-      const filters: JobPostFilters = {
-        type: req.query['type'] as JobPostType,
-        category: req.query['category'] as JobPostCategory,
-        communityId: req.query['communityId'] ? parseInt(req.query['communityId'] as string) : undefined,
-        authorId: req.query['authorId'] ? parseInt(req.query['authorId'] as string) : undefined,
-      };
-
-      const jobPosts = await jobPostService.getJobPosts(filters, userId);
+
+      // Validate query parameters
+      const validationResult = jobPostFiltersSchema.safeParse(req.query);
+      if (!validationResult.success) {
+        this.sendValidationError(res, validationResult.error.issues);
+        return;
+      }
+
+      const { sortBy, sortOrder, limit, cursor, ...filters } = validationResult.data;
+      const options: JobPostListOptions = { sortBy, sortOrder, limit, cursor };
+
+      // A community API key can only list its own community's job posts
+      const keyCommunityId = req.apiKey?.communityId;
+      if (keyCommunityId !== undefined && filters.communityId !== keyCommunityId) {
+        res.status(403).json({
+          success: false,
+          message: 'This API key can only list job posts of its community (pass ?communityId)',
+          status: 403,
+        });
+        return;
+      }
+
+      // A radius without coordinates is searched around the user's home base
+      if (filters.radiusKm !== undefined && filters.latitude === undefined) {
+        const homeBase = userId ? await locationService.getHomeBase(userId) : null;
+        if (!homeBase) {
+          res.status(400).json({
+            success: false,
+            message: 'Set a home base or pass latitude and longitude to search by radius',
+            status: 400,
+          });
+          return;
+        }
+
+        filters.latitude = homeBase.latitude;
+        filters.longitude = homeBase.longitude;
+      }
+
+      const result = await jobPostService.getJobPosts(filters as JobPostFilters, userId, options);
       
       res.status(200).json({
         success: true,
-        data: jobPosts,
+        data: result.data,
+        pagination: result.pagination,
       });
     } catch (error: any) {
       res.status(500).json({
@@ -84,6 +138,43 @@ export class JobPostController {
     }
   }
 
+  async previewFees(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+          status: 401
+        });
+        return;
+      }
+
+      // Validate request body
+      const validationResult = feePreviewSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        this.sendValidationError(res, validationResult.error.issues);
+        return;
+      }
+
+      const data: FeePreviewRequest = validationResult.data;
+      const fees = await feeCalculationService.previewFees(data);
+
+      res.status(200).json({
+        success: true,
+        message: 'Fees calculated successfully',
+        status: 200,
+        data: fees,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
   async getJobPostById(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const userId = req.user?.userId;
@@ -261,7 +352,17 @@ export class JobPostController {
         return;
       }
 
-      const users = await jobPostService.getCommunityUsers(userId, communityId);
+      const filtersResult = operatorFiltersSchema.safeParse(req.query);
+      if (!filtersResult.success) {
+        res.status(400).json({
+          success: false,
+          error: filtersResult.error.issues[0]?.message ?? 'Invalid filters',
+        });
+        return;
+      }
+
+      const filters: OperatorFilters = filtersResult.data;
+      const users = await jobPostService.getCommunityUsers(userId, communityId, filters);
       
       res.status(200).json({
         success: true,
@@ -275,4 +376,183 @@ export class JobPostController {
     }
   }
 
+  async assignJobPost(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const validationResult = assignJobPostSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      this.sendValidationError(res, validationResult.error.issues);
+      return;
+    }
+
+    const data: AssignJobPostRequest = validationResult.data;
+    await this.handleJobPostAction(req, res, 'Job post assigned successfully', (id, userId) =>
+      jobPostStatusService.assignJobPost(id, userId, data.assignedUserId)
+    );
+  }
+
+  async unassignJobPost(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.handleJobPostAction(req, res, 'Job post assignment released successfully', (id, userId) =>
+      jobPostStatusService.unassignJobPost(id, userId)
+    );
+  }
+
+  async startJobPost(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.handleJobPostAction(req, res, 'Job post started successfully', (id, userId) =>
+      jobPostStatusService.startJobPost(id, userId)
+    );
+  }
+
+  async completeJobPost(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.handleJobPostAction(req, res, 'Job post completed successfully', (id, userId) =>
+      jobPostStatusService.completeJobPost(id, userId)
+    );
+  }
+
+  async cancelJobPost(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const validationResult = cancelJobPostSchema.safeParse(req.body ?? {});
+    if (!validationResult.success) {
+      this.sendValidationError(res, validationResult.error.issues);
+      return;
+    }
+
+    const data: CancelJobPostRequest = validationResult.data;
+    await this.handleJobPostAction(req, res, 'Job post cancelled successfully', (id, userId) =>
+      jobPostStatusService.cancelJobPost(id, userId, data.reason)
+    );
+  }
+
+  async acceptDesignation(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.handleJobPostAction(req, res, 'Designation accepted successfully', (id, userId) =>
+      jobPostDesignationService.acceptDesignation(id, userId)
+    );
+  }
+
+  async declineDesignation(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const validationResult = declineDesignationSchema.safeParse(req.body ?? {});
+    if (!validationResult.success) {
+      this.sendValidationError(res, validationResult.error.issues);
+      return;
+    }
+
+    const data: DeclineDesignationRequest = validationResult.data;
+    await this.handleJobPostAction(req, res, 'Designation declined successfully', (id, userId) =>
+      jobPostDesignationService.declineDesignation(id, userId, data.reason)
+    );
+  }
+
+  async redesignateJobPost(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const validationResult = redesignateJobPostSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      this.sendValidationError(res, validationResult.error.issues);
+      return;
+    }
+
+    const data: RedesignateJobPostRequest = validationResult.data;
+    await this.handleJobPostAction(req, res, 'Job post re-designated successfully', (id, userId) =>
+      jobPostDesignationService.redesignateJobPost(id, userId, data.designatedUserId)
+    );
+  }
+
+  async getStatusHistory(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const id = parseInt(req.params['id'] as string);
+      if (isNaN(id)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid job post ID',
+        });
+        return;
+      }
+
+      const history = await jobPostStatusService.getStatusHistory(id, userId);
+
+      if (!history) {
+        res.status(404).json({
+          success: false,
+          error: 'Job post not found',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: history,
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message,
+      });
+    }
+  }
+
+  private async handleJobPostAction(
+    req: AuthenticatedRequest,
+    res: Response,
+    successMessage: string,
+    action: (id: number, userId: number) => Promise<JobPostResponse | null>
+  ): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        res.status(401).json({ 
+          success: false,
+          message: 'Unauthorized',
+          status: 401 
+        });
+        return;
+      }
+
+      const id = parseInt(req.params['id'] as string);
+      if (isNaN(id)) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid job post ID',
+          status: 400,
+        });
+        return;
+      }
+
+      const jobPost = await action(id, userId);
+
+      if (!jobPost) {
+        res.status(404).json({
+          success: false,
+          message: 'Job post not found or access denied',
+          status: 404,
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: successMessage,
+        status: 200,
+        data: jobPost,
+      });
+    } catch (error: any) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        status: 400,
+      });
+    }
+  }
+
+  private sendValidationError(res: Response, issues: any[]): void {
+    res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      status: 400,
+      errors: issues.map((issue: any) => ({
+        field: issue.path.join('.'),
+        message: issue.message,
+      })),
+    });
+  }
 }
@@ -1,15 +1,30 @@
 import { Request, Response, NextFunction } from "express";
+import { UserRole } from "@prisma/client";
 import { verifyToken } from "../utils/jwt";
+import { JWTPayload } from "../types/auth";
+import { AuthSessionService } from "../services/authSessionService";
+import { ApiKeyService } from "../services/apiKeyService";
+import { ApiKeyScope } from "../constants/apiKeys";
+import { ApiKeyPrincipal } from "../types/apiKey";
+import { hasRole } from "../utils/authorization";
+import logger from "../utils/logger";
 
 export interface AuthenticatedRequest extends Request {
   user?: {
     userId: number;
     role: string;
-    kakaoId: string;
+    sessionId?: number; // Missing for requests made with an API key
   };
+  apiKey?: ApiKeyPrincipal;
 }
 
-export const requireUser = (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+const authSessionService = new AuthSessionService();
+const apiKeyService = new ApiKeyService();
+
+const READ_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+// Verifies the bearer token and its session; sends the error response and returns null on failure
+const authenticate = async (req: AuthenticatedRequest, res: Response): Promise<JWTPayload | null> => {
   const authHeader = req.headers["authorization"];
   const token = authHeader && authHeader.split(" ")[1]; // Bearer TOKEN
 
@@ -18,52 +33,137 @@ export const requireUser = (req: AuthenticatedRequest, res: Response, next: Next
       message: "Access token required",
       status: 401,
     });
-    return;
+    return null;
   }
 
+  let decoded: JWTPayload;
   try {
-    const decoded = verifyToken(token);
-    req.user = decoded;
-    next();
+    decoded = verifyToken(token);
   } catch (error) {
     res.status(403).json({
       message: "Invalid or expired token",
       status: 403,
     });
-    return;
+    return null;
   }
-};
 
-export const requireAdmin = (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
-  const authHeader = req.headers["authorization"];
-  const token = authHeader && authHeader.split(" ")[1]; // Bearer TOKEN
-
-  if (!token) {
+  // Tokens from before sessions existed carry no session id and are no longer accepted
+  if (!decoded.sessionId || !(await authSessionService.isSessionActive(decoded.sessionId, decoded.userId))) {
     res.status(401).json({
-      message: "Access token required",
+      message: "Session has ended, please log in again",
       status: 401,
     });
-    return;
+    return null;
   }
 
+  return decoded;
+};
+
+export const requireUser = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const decoded = verifyToken(token);
-    
-    if (decoded.role !== "USER") {
-      res.status(403).json({
-        message: "Admin access required",
-        status: 403,
-      });
+    const decoded = await authenticate(req, res);
+    if (!decoded) {
       return;
     }
-    
+
     req.user = decoded;
     next();
   } catch (error) {
-    res.status(403).json({
-      message: "Invalid or expired token",
-      status: 403,
+    logger.error("Error checking session:", error);
+    res.status(500).json({
+      message: "Internal server error",
+      status: 500,
     });
-    return;
   }
-}; 
\ No newline at end of file
+};
+
+// Allows only users holding one of the given roles
+export const requireRole = (...roles: UserRole[]) => {
+  const deniedMessage = roles.length === 1 && roles[0] === UserRole.ADMIN ? "Admin access required" : "Insufficient permissions";
+
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const decoded = await authenticate(req, res);
+      if (!decoded) {
+        return;
+      }
+
+      if (!hasRole(decoded, roles)) {
+        res.status(403).json({
+          message: deniedMessage,
+          status: 403,
+        });
+        return;
+      }
+
+      req.user = decoded;
+      next();
+    } catch (error) {
+      logger.error("Error checking session:", error);
+      res.status(500).json({
+        message: "Internal server error",
+        status: 500,
+      });
+    }
+  };
+};
+
+export const requireAdmin = requireRole(UserRole.ADMIN);
+
+/**
+ * Like requireUser, but also accepts an API key in the X-API-Key header when
+ * it holds the scope for the request: scopes.read for GET, scopes.write for
+ * anything else. Key requests act as the key's user with the USER role.
+ * Community keys act as the manager who created them, so they are refused
+ * unless options.communityKeys is set, which a route may only do when it
+ * holds the key to its community (requireCommunityRole, requireCommunityKeyJobPost).
+ */
+export const requireUserOrApiKey = (
+  scopes: { read: ApiKeyScope; write: ApiKeyScope },
+  options: { communityKeys?: boolean } = {}
+) => {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    const apiKey = req.headers["x-api-key"];
+    if (apiKey === undefined) {
+      return requireUser(req, res, next);
+    }
+
+    try {
+      const principal = typeof apiKey === "string" ? await apiKeyService.authenticateApiKey(apiKey, req.ip) : null;
+      if (!principal) {
+        res.status(401).json({
+          message: "Invalid or expired API key",
+          status: 401,
+        });
+        return;
+      }
+
+      if (principal.communityId !== undefined && !options.communityKeys) {
+        res.status(403).json({
+          message: "Community API keys only work on routes of their community",
+          status: 403,
+        });
+        return;
+      }
+
+      const scope = READ_METHODS.includes(req.method) ? scopes.read : scopes.write;
+      if (!principal.scopes.includes(scope)) {
+        res.status(403).json({
+          message: `API key is missing the ${scope} scope`,
+          status: 403,
+        });
+        return;
+      }
+
+      req.user = { userId: principal.userId, role: UserRole.USER };
+      req.apiKey = principal;
+      next();
+    } catch (error) {
+      logger.error("Error checking API key:", error);
+      res.status(500).json({
+        message: "Internal server error",
+        status: 500,
+      });
+    }
+  };
+};
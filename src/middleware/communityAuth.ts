@@ -0,0 +1,116 @@
+import { Response, NextFunction } from 'express';
+import { CommunityMember, CommunityRole } from '@prisma/client';
+import { AuthenticatedRequest } from './auth';
+import { CommunityMembershipService } from '../services/communityMembershipService';
+import { JobPostService } from '../services/jobPostService';
+import logger from '../utils/logger';
+
+export interface CommunityRequest extends AuthenticatedRequest {
+  communityMembership?: CommunityMember;
+}
+
+const communityMembershipService = new CommunityMembershipService();
+const jobPostService = new JobPostService();
+
+/**
+ * Allows only active members of the community in `:id` holding one of the
+ * given roles (any role when none are given). Must run after requireUser.
+ * The membership is attached to the request as communityMembership.
+ */
+export const requireCommunityRole = (...roles: CommunityRole[]) => {
+  return async (req: CommunityRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+          status: 401,
+        });
+        return;
+      }
+
+      const communityId = parseInt(req.params['id'] as string);
+      if (isNaN(communityId)) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid community ID',
+          status: 400,
+        });
+        return;
+      }
+
+      // Community API keys only work inside their own community
+      if (req.apiKey?.communityId !== undefined && req.apiKey.communityId !== communityId) {
+        res.status(403).json({
+          success: false,
+          message: 'API key is not valid for this community',
+          status: 403,
+        });
+        return;
+      }
+
+      const membership = await communityMembershipService.findActiveMembership(
+        communityId,
+        req.user.userId,
+        roles.length > 0 ? roles : undefined
+      );
+
+      if (!membership) {
+        res.status(403).json({
+          success: false,
+          message: roles.length > 0 ? 'Insufficient community permissions' : 'User is not a member of this community',
+          status: 403,
+        });
+        return;
+      }
+
+      req.communityMembership = membership;
+      next();
+    } catch (error) {
+      logger.error('Error checking community membership:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        status: 500,
+      });
+    }
+  };
+};
+
+export const requireCommunityMember = requireCommunityRole();
+
+/**
+ * Holds community API keys to the job posts of their community (`:id` is a
+ * job post). User logins and personal keys pass, the route checks their
+ * access. Must run after requireUserOrApiKey.
+ */
+export const requireCommunityKeyJobPost = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  const keyCommunityId = req.apiKey?.communityId;
+  if (keyCommunityId === undefined) {
+    next();
+    return;
+  }
+
+  try {
+    const jobPostId = parseInt(req.params['id'] as string);
+    const communityId = isNaN(jobPostId) ? null : await jobPostService.getJobPostCommunityId(jobPostId);
+
+    if (communityId !== keyCommunityId) {
+      res.status(403).json({
+        success: false,
+        message: 'API key is not valid for this job post',
+        status: 403,
+      });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    logger.error('Error checking job post community:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      status: 500,
+    });
+  }
+};
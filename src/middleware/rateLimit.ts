@@ -0,0 +1,125 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from './auth';
+import { verifyToken } from '../utils/jwt';
+import { ApiKeyService } from '../services/apiKeyService';
+import logger from '../utils/logger';
+import { MemoryRateLimitStore } from '../services/rateLimitStores/memoryRateLimitStore';
+import { RedisRateLimitStore } from '../services/rateLimitStores/redisRateLimitStore';
+import { RestRedisClient } from '../services/rateLimitStores/restRedisClient';
+import { RateLimitPolicy, RateLimitStore } from '../types/rateLimit';
+
+// RATE_LIMIT_STORE=redis shares counters between instances, anything else keeps them in memory
+const createRateLimitStore = (): RateLimitStore => {
+  if (process.env['RATE_LIMIT_STORE'] === 'redis') {
+    const url = process.env['RATE_LIMIT_REDIS_REST_URL'];
+    const token = process.env['RATE_LIMIT_REDIS_REST_TOKEN'];
+    if (!url || !token) {
+      throw new Error('RATE_LIMIT_REDIS_REST_URL and RATE_LIMIT_REDIS_REST_TOKEN are required when RATE_LIMIT_STORE is redis');
+    }
+
+    return new RedisRateLimitStore(new RestRedisClient(url, token));
+  }
+
+  if (process.env['NODE_ENV'] === 'production') {
+    logger.warn('Rate limits are counted in memory; set RATE_LIMIT_STORE=redis to share them between instances');
+  }
+
+  return new MemoryRateLimitStore();
+};
+
+let defaultStore: RateLimitStore | null = null;
+
+const apiKeyService = new ApiKeyService();
+
+const readPositiveInt = (name: string): number | undefined => {
+  const value = parseInt(process.env[name] || '');
+  return value > 0 ? value : undefined;
+};
+
+// Applies the RATE_LIMIT_<NAME>_* overrides (the global policy also reads the older RATE_LIMIT_WINDOW_MS / RATE_LIMIT_MAX_REQUESTS)
+const resolvePolicy = (policy: RateLimitPolicy): RateLimitPolicy => {
+  const envName = `RATE_LIMIT_${policy.name.toUpperCase()}`;
+  const isGlobal = policy.name === 'global';
+
+  return {
+    ...policy,
+    windowMs: readPositiveInt(`${envName}_WINDOW_MS`) ?? (isGlobal ? readPositiveInt('RATE_LIMIT_WINDOW_MS') : undefined) ?? policy.windowMs,
+    max: readPositiveInt(`${envName}_MAX`) ?? (isGlobal ? readPositiveInt('RATE_LIMIT_MAX_REQUESTS') : undefined) ?? policy.max,
+  };
+};
+
+/**
+ * Who is counted: the API key or user when known, otherwise the IP. Before
+ * the auth middleware has run, a known X-API-Key or a valid bearer token
+ * still identifies the client, so integrations and people behind one
+ * egress or carrier NAT address do not share a limit.
+ */
+const resolveClientKey = async (req: AuthenticatedRequest): Promise<string> => {
+  if (req.apiKey) {
+    return `key:${req.apiKey.apiKeyId}`;
+  }
+
+  if (req.user) {
+    return `user:${req.user.userId}`;
+  }
+
+  // Unknown keys are rejected later by the auth middleware; count them by IP
+  const apiKey = req.headers['x-api-key'];
+  if (typeof apiKey === 'string') {
+    const apiKeyId = await apiKeyService.findApiKeyId(apiKey);
+    if (apiKeyId !== null) {
+      return `key:${apiKeyId}`;
+    }
+  }
+
+  const token = req.headers['authorization']?.split(' ')[1];
+  if (token) {
+    try {
+      return `user:${verifyToken(token).userId}`;
+    } catch {
+      // Invalid tokens are rejected later by the auth middleware; count them by IP
+    }
+  }
+
+  return `ip:${req.ip}`;
+};
+
+/**
+ * Limits requests per client under the given policy. A store outage lets
+ * requests through rather than taking the API down with it.
+ */
+export const rateLimit = (policy: RateLimitPolicy, store?: RateLimitStore) => {
+  let resolved: RateLimitPolicy | null = null;
+
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    // Resolved on first use, after dotenv has loaded
+    resolved ??= resolvePolicy(policy);
+    const limitStore = store ?? (defaultStore ??= createRateLimitStore());
+
+    let hit;
+    try {
+      hit = await limitStore.increment(`${resolved.name}:${await resolveClientKey(req)}`, resolved.windowMs);
+    } catch (error) {
+      logger.warn(`Rate limit store failed for ${resolved.name}, allowing the request:`, error);
+      next();
+      return;
+    }
+
+    const resetSeconds = Math.max(0, Math.ceil((hit.resetAt.getTime() - Date.now()) / 1000));
+    res.setHeader('RateLimit-Limit', resolved.max);
+    res.setHeader('RateLimit-Remaining', Math.max(0, resolved.max - hit.count));
+    res.setHeader('RateLimit-Reset', resetSeconds);
+
+    if (hit.count > resolved.max) {
+      res.setHeader('Retry-After', resetSeconds);
+      res.status(429).json({
+        success: false,
+        message: resolved.message,
+        status: 429,
+      });
+      return;
+    }
+
+    next();
+  };
+};
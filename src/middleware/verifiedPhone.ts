@@ -0,0 +1,38 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from './auth';
+import { PhoneVerificationService } from '../services/phoneVerificationService';
+import { isVerifiedPhoneRequired } from '../constants/phoneVerification';
+import logger from '../utils/logger';
+
+const phoneVerificationService = new PhoneVerificationService();
+
+/**
+ * With REQUIRE_VERIFIED_PHONE=true, only users with a verified phone get
+ * through (creating job posts, taking work). Must run after requireUser.
+ */
+export const requireVerifiedPhone = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  if (!isVerifiedPhoneRequired()) {
+    next();
+    return;
+  }
+
+  try {
+    if (!req.user || !(await phoneVerificationService.hasVerifiedPhone(req.user.userId))) {
+      res.status(403).json({
+        success: false,
+        message: 'A verified phone number is required. Verify it at /users/me/phone first.',
+        status: 403,
+      });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    logger.error('Error checking phone verification:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      status: 500,
+    });
+  }
+};
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { ApiKeyController } from '../controllers/apiKeyController';
+import { requireUser } from '../middleware/auth';
+
+const router = Router();
+const apiKeyController = new ApiKeyController();
+
+// Managing keys needs a user login; API keys cannot create or revoke keys
+router.use(requireUser);
+
+router.post('/', apiKeyController.createApiKey.bind(apiKeyController));
+router.get('/', apiKeyController.getApiKeys.bind(apiKeyController));
+router.delete('/:id', apiKeyController.revokeApiKey.bind(apiKeyController));
+
+export default router;
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { CommunityRole } from '@prisma/client';
+import { AuditLogController } from '../controllers/auditLogController';
+import { requireAdmin, requireUser } from '../middleware/auth';
+import { requireCommunityRole } from '../middleware/communityAuth';
+
+const router = Router();
+const auditLogController = new AuditLogController();
+
+router.get('/', requireAdmin, auditLogController.getAuditLogs.bind(auditLogController));
+router.get('/communities/:id', requireUser, requireCommunityRole(CommunityRole.OWNER), auditLogController.getCommunityAuditLogs.bind(auditLogController));
+
+export default router;
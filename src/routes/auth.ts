@@ -1,18 +1,89 @@
 import { Router, Request, Response } from "express";
+import { IdentityProvider } from "@prisma/client";
 import prisma from "../lib/prisma";
-import { kakaoLoginSchema, KakaoLoginRequest } from "../types/auth";
-import { decodeKakaoJwt, generateToken } from "../utils/jwt";
+import { kakaoLoginSchema, refreshTokenSchema, KakaoLoginRequest, RefreshTokenRequest, SessionClientInfo } from "../types/auth";
+import { AuthSessionService } from "../services/authSessionService";
+import { IdentityService, IdentityConflictError } from "../services/identityService";
+import { IdentityVerificationError } from "../services/identityProviders/identityVerificationError";
+import {
+  identityCredentialSchema,
+  identityProviderParamSchema,
+  linkIdentitySchema,
+  IdentityCredential,
+  VerifiedIdentity,
+} from "../types/identity";
+import { verifyLinkToken } from "../utils/jwt";
 import { requireUser, AuthenticatedRequest } from "../middleware/auth";
 import logger from "../utils/logger";
 
 const router = Router();
+const authSessionService = new AuthSessionService();
+const identityService = new IdentityService();
+
+// Device details recorded with the session
+const getClientInfo = (req: Request): SessionClientInfo => ({
+  userAgent: req.get("user-agent") ?? undefined,
+  ipAddress: req.ip ?? undefined,
+});
+
+// Verifies the provider credential and signs the user in (or up); shared by /login and /kakao-login
+const loginWithCredential = async (credential: IdentityCredential, req: Request, res: Response) => {
+  if (!identityService.isProviderEnabled(credential.provider)) {
+    return res.status(400).json({
+      message: `${credential.provider} login is not enabled`,
+      status: 400,
+      data: null,
+    });
+  }
+
+  let identity;
+  try {
+    identity = await identityService.verifyCredential(credential);
+  } catch (error) {
+    if (error instanceof IdentityVerificationError) {
+      logger.warn(`Rejected ${credential.provider} credential: ${error.message}`);
+      return res.status(401).json({
+        message: "Invalid token",
+        status: 401,
+        data: null,
+      });
+    }
+    throw error;
+  }
+
+  logger.info(`${identity.provider} login: ${identity.providerUserId}`);
+
+  const result = await identityService.login(identity);
+
+  if (result.status === "link_required") {
+    // The email belongs to another account - the owner can link this login from there
+    const { status, ...linkData } = result;
+    return res.status(409).json({
+      message: "An account with this email already exists. Log in to it to link this account.",
+      status: 409,
+      data: linkData,
+    });
+  }
+
+  // Start a session
+  const tokens = await authSessionService.createSession(result.user, getClientInfo(req));
+
+  return res.status(result.created ? 201 : 200).json({
+    message: result.created ? "User created successfully" : "User authenticated successfully",
+    status: result.created ? 201 : 200,
+    data: {
+      user: result.user,
+      ...tokens,
+    },
+  });
+};
 
 /**
  * @swagger
  * /api/v1/auth/kakao-login:
  *   post:
  *     summary: Kakao login
- *     description: Authenticate user with Kakao ID. If user exists, return user info and JWT. If not, create new user and return JWT.
+ *     description: Authenticate user with a verified Kakao OIDC ID token. If user exists, return user info and JWT. If not, create new user and return JWT.
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -39,6 +110,18 @@ const router = Router();
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: ID token failed verification (signature, issuer, audience, expiry or nonce)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BaseResponse'
+ *       409:
+ *         description: Email belongs to an existing user, link required (see /auth/login)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/IdentityLinkRequiredResponse'
  *       500:
  *         description: Internal server error
  *         content:
@@ -62,113 +145,283 @@ router.post("/kakao-login", async (req: Request, res: Response) => {
       });
     }
 
-    const { idToken }: KakaoLoginRequest = result.data;
+    const { idToken, nonce, accessToken }: KakaoLoginRequest = result.data;
 
-    logger.info(`Kakao login request: ${idToken}`);
+    return await loginWithCredential({
+      provider: IdentityProvider.KAKAO,
+      idToken,
+      nonce,
+      ...(accessToken && { accessToken }),
+    }, req, res);
+  } catch (error) {
+    logger.error("Error during Kakao login:", error);
+    return res.status(500).json({
+      message: "Internal server error",
+      status: 500,
+      data: null,
+    });
+  }
+});
 
-    const decoded = decodeKakaoJwt(idToken);
-    if (!decoded) {
+/**
+ * @swagger
+ * /api/v1/auth/login:
+ *   post:
+ *     summary: Log in with any provider
+ *     description: |
+ *       Authenticate with a Kakao, Naver or Apple credential. Unknown accounts create a new user.
+ *       When the provider reports an email that belongs to an existing user, nothing is created and
+ *       409 returns a linkToken; log in to the existing account and send it to POST /auth/me/identities.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/IdentityCredential'
+ *     responses:
+ *       200:
+ *         description: User authenticated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/KakaoLoginResponse'
+ *       201:
+ *         description: User created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/KakaoLoginResponse'
+ *       400:
+ *         description: Validation error or provider not enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Credential failed verification
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BaseResponse'
+ *       409:
+ *         description: Email belongs to an existing user, link required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/IdentityLinkRequiredResponse'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BaseResponse'
+ */
+router.post("/login", async (req: Request, res: Response) => {
+  try {
+    const result = identityCredentialSchema.safeParse(req.body);
+    if (!result.success) {
       return res.status(400).json({
-        message: "Invalid token",
+        message: "Validation error",
         status: 400,
-        data: null,
+        data: {
+          errors: result.error.issues.map((err: any) => ({
+            field: err.path.join("."),
+            message: err.message,
+          })),
+        },
       });
     }
 
-    const { sub: kakaoId, email, nickname } = decoded.payload as {
-      sub: string;
-      email: string;
-      nickname: string;
-    };
-
-    logger.info(`Kakao login decoded: ${kakaoId} ${email} ${nickname}`);
-
-    // Convert kakaoId to BigInt
-    const kakaoIdBigInt = BigInt(kakaoId);
-
-    // Check if user exists by kakaoId
-    let user = await prisma.user.findUnique({
-      where: { kakaoId: kakaoIdBigInt },
+    return await loginWithCredential(result.data, req, res);
+  } catch (error) {
+    logger.error("Error during login:", error);
+    return res.status(500).json({
+      message: "Internal server error",
+      status: 500,
+      data: null,
     });
+  }
+});
 
-    
-    if (user) {
-      const safeUser = {
-        ...user,
-        kakaoId: user.kakaoId!.toString(),
-      };
-      // User exists, return user info and JWT
-      const token = generateToken({
-        userId: user.id,
-        role: user.role,
-        kakaoId: user.kakaoId!.toString(),
-      });
-
-      return res.json({
-        message: "User authenticated successfully",
-        status: 200,
+/**
+ * @swagger
+ * /api/v1/auth/refresh:
+ *   post:
+ *     summary: Refresh tokens
+ *     description: Exchanges a refresh token for a new access token and refresh token. Each refresh token works once; presenting a used one again ends its session.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RefreshTokenRequest'
+ *     responses:
+ *       200:
+ *         description: Tokens refreshed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthTokensResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Refresh token is invalid, expired, already used or its session has ended
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BaseResponse'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BaseResponse'
+ */
+router.post("/refresh", async (req: Request, res: Response) => {
+  try {
+    const result = refreshTokenSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        message: "Validation error",
+        status: 400,
         data: {
-          user: safeUser,
-          token,
+          errors: result.error.issues.map((err: any) => ({
+            field: err.path.join("."),
+            message: err.message,
+          })),
         },
       });
     }
 
-    // User doesn't exist, create new user
-    // Check if email is provided and if it already exists
-    if (email) {
-      const existingUserWithEmail = await prisma.user.findUnique({
-        where: { email },
-      });
+    const { refreshToken }: RefreshTokenRequest = result.data;
 
-      if (existingUserWithEmail) {
-        return res.status(400).json({
-          message: "Email already exists",
-          status: 400,
-          data: {
-            errors: [
-              {
-                field: "email",
-                message: "A user with this email already exists",
-              },
-            ],
-          },
-        });
-      }
+    const tokens = await authSessionService.refreshSession(refreshToken, getClientInfo(req));
+    if (!tokens) {
+      return res.status(401).json({
+        message: "Invalid or expired refresh token",
+        status: 401,
+        data: null,
+      });
     }
 
-    // Create new user
-    user = await prisma.user.create({
-      data: {
-        kakaoId: kakaoIdBigInt,
-        email: email || null,
-        nickname: nickname || null,
-        role: "USER",
-      },
+    return res.json({
+      message: "Tokens refreshed successfully",
+      status: 200,
+      data: tokens,
     });
+  } catch (error) {
+    logger.error("Error refreshing tokens:", error);
+    return res.status(500).json({
+      message: "Internal server error",
+      status: 500,
+      data: null,
+    });
+  }
+});
 
-    const safeUser = {
-      ...user,
-      kakaoId: user.kakaoId!.toString(),
-    };
+/**
+ * @swagger
+ * /api/v1/auth/logout:
+ *   post:
+ *     summary: Log out
+ *     description: Ends the current session. Its access and refresh tokens stop working immediately.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Logged out successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BaseResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BaseResponse'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BaseResponse'
+ */
+router.post("/logout", requireUser, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    await authSessionService.revokeSession(req.user!.sessionId!, req.user!.userId);
 
-    // Generate JWT token
-    const token = generateToken({
-      userId: user.id,
-      role: user.role,
-      kakaoId: user.kakaoId!.toString(),
+    return res.json({
+      message: "Logged out successfully",
+      status: 200,
+      data: null,
+    });
+  } catch (error) {
+    logger.error("Error during logout:", error);
+    return res.status(500).json({
+      message: "Internal server error",
+      status: 500,
+      data: null,
     });
+  }
+});
 
-    return res.status(201).json({
-      message: "User created successfully",
-      status: 201,
-      data: {
-        user: safeUser,
-        token,
-      },
+/**
+ * @swagger
+ * /api/v1/auth/logout-all:
+ *   post:
+ *     summary: Log out on all devices
+ *     description: Ends every session of the current user, including this one.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Logged out on all devices
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/BaseResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         revokedSessions:
+ *                           type: integer
+ *                           example: 3
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BaseResponse'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BaseResponse'
+ */
+router.post("/logout-all", requireUser, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const revokedSessions = await authSessionService.revokeAllSessions(req.user!.userId);
+
+    return res.json({
+      message: "Logged out on all devices",
+      status: 200,
+      data: { revokedSessions },
     });
   } catch (error) {
-    logger.error("Error during Kakao login:", error);
+    logger.error("Error during logout from all devices:", error);
     return res.status(500).json({
       message: "Internal server error",
       status: 500,
@@ -182,7 +435,7 @@ router.post("/kakao-login", async (req: Request, res: Response) => {
  * /api/v1/auth/me:
  *   get:
  *     summary: Get current user
- *     description: Get current user information using JWT token
+ *     description: Get current user information using JWT token, including the linked login providers (identities)
  *     tags: [Authentication]
  *     security:
  *       - bearerAuth: []
@@ -226,15 +479,15 @@ router.get("/me", requireUser, async (req: AuthenticatedRequest, res: Response)
       });
     }
 
-    const safeUser = {
-      ...user,
-      kakaoId: user.kakaoId!.toString(),
-    };
+    const identities = await identityService.listIdentities(user.id);
 
     return res.json({
       message: "User retrieved successfully",
       status: 200,
-      data: safeUser,
+      data: {
+        ...user,
+        identities,
+      },
     });
   } catch (error) {
     logger.error("Error getting current user:", error);
@@ -246,4 +499,266 @@ router.get("/me", requireUser, async (req: AuthenticatedRequest, res: Response)
   }
 });
 
+/**
+ * @swagger
+ * /api/v1/auth/me/identities:
+ *   get:
+ *     summary: List linked login providers
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Identities retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/BaseResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/UserIdentity'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BaseResponse'
+ */
+router.get("/me/identities", requireUser, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const identities = await identityService.listIdentities(req.user!.userId);
+
+    return res.json({
+      message: "Identities retrieved successfully",
+      status: 200,
+      data: identities,
+    });
+  } catch (error) {
+    logger.error("Error listing identities:", error);
+    return res.status(500).json({
+      message: "Internal server error",
+      status: 500,
+      data: null,
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/auth/me/identities:
+ *   post:
+ *     summary: Link a login provider
+ *     description: |
+ *       Links another provider account to the current user, either with a fresh credential
+ *       of that provider or with the linkToken returned by a login that hit this user's email.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/LinkIdentityRequest'
+ *     responses:
+ *       201:
+ *         description: Identity linked successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/BaseResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/UserIdentity'
+ *       400:
+ *         description: Validation error or provider not enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized, or the credential / link token failed verification
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BaseResponse'
+ *       409:
+ *         description: The account is linked to another user, or an account of this provider is already linked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BaseResponse'
+ */
+router.post("/me/identities", requireUser, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const result = linkIdentitySchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        message: "Validation error",
+        status: 400,
+        data: {
+          errors: result.error.issues.map((err: any) => ({
+            field: err.path.join("."),
+            message: err.message,
+          })),
+        },
+      });
+    }
+
+    let identity: VerifiedIdentity;
+    if ("linkToken" in result.data) {
+      try {
+        identity = verifyLinkToken(result.data.linkToken);
+      } catch (error) {
+        return res.status(401).json({
+          message: "Invalid or expired link token",
+          status: 401,
+          data: null,
+        });
+      }
+    } else {
+      const credential = result.data;
+      if (!identityService.isProviderEnabled(credential.provider)) {
+        return res.status(400).json({
+          message: `${credential.provider} login is not enabled`,
+          status: 400,
+          data: null,
+        });
+      }
+
+      try {
+        identity = await identityService.verifyCredential(credential);
+      } catch (error) {
+        if (error instanceof IdentityVerificationError) {
+          logger.warn(`Rejected ${credential.provider} credential for linking: ${error.message}`);
+          return res.status(401).json({
+            message: "Invalid token",
+            status: 401,
+            data: null,
+          });
+        }
+        throw error;
+      }
+    }
+
+    const linked = await identityService.linkIdentity(req.user!.userId, identity);
+
+    return res.status(201).json({
+      message: "Identity linked successfully",
+      status: 201,
+      data: linked,
+    });
+  } catch (error) {
+    if (error instanceof IdentityConflictError) {
+      return res.status(409).json({
+        message: error.message,
+        status: 409,
+        data: null,
+      });
+    }
+    logger.error("Error linking identity:", error);
+    return res.status(500).json({
+      message: "Internal server error",
+      status: 500,
+      data: null,
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/auth/me/identities/{provider}:
+ *   delete:
+ *     summary: Unlink a login provider
+ *     description: Removes the provider account from the current user. The last remaining one cannot be removed.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           $ref: '#/components/schemas/IdentityProvider'
+ *     responses:
+ *       200:
+ *         description: Identity unlinked successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BaseResponse'
+ *       400:
+ *         description: Unknown provider
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: No account of this provider is linked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BaseResponse'
+ *       409:
+ *         description: It is the only login method of the user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BaseResponse'
+ */
+router.delete("/me/identities/:provider", requireUser, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const result = identityProviderParamSchema.safeParse({
+      provider: req.params["provider"]?.toUpperCase(),
+    });
+    if (!result.success) {
+      return res.status(400).json({
+        message: "Invalid provider",
+        status: 400,
+        data: {
+          errors: result.error.issues.map((err: any) => ({
+            field: err.path.join("."),
+            message: err.message,
+          })),
+        },
+      });
+    }
+
+    const unlinked = await identityService.unlinkIdentity(req.user!.userId, result.data.provider);
+    if (!unlinked) {
+      return res.status(404).json({
+        message: "No account of this provider is linked",
+        status: 404,
+        data: null,
+      });
+    }
+
+    return res.json({
+      message: "Identity unlinked successfully",
+      status: 200,
+      data: null,
+    });
+  } catch (error) {
+    if (error instanceof IdentityConflictError) {
+      return res.status(409).json({
+        message: error.message,
+        status: 409,
+        data: null,
+      });
+    }
+    logger.error("Error unlinking identity:", error);
+    return res.status(500).json({
+      message: "Internal server error",
+      status: 500,
+      data: null,
+    });
+  }
+});
+
 export default router; 
\ No newline at end of file
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { BusinessVerificationController } from '../controllers/businessVerificationController';
+import { requireAdmin, requireUser } from '../middleware/auth';
+
+const router = Router();
+const businessVerificationController = new BusinessVerificationController();
+
+// Requests of the current user
+router.post('/', requireUser, businessVerificationController.submitVerification.bind(businessVerificationController));
+router.get('/me', requireUser, businessVerificationController.getMyVerifications.bind(businessVerificationController));
+
+// Admin review
+router.get('/', requireAdmin, businessVerificationController.getVerifications.bind(businessVerificationController));
+router.post('/:id/approve', requireAdmin, businessVerificationController.approveVerification.bind(businessVerificationController));
+router.post('/:id/reject', requireAdmin, businessVerificationController.rejectVerification.bind(businessVerificationController));
+
+export default router;
@@ -1,44 +1,115 @@
 import { Router } from 'express';
-import rateLimit from 'express-rate-limit';
 import { CommunityController } from '../controllers/communityController';
-import { requireUser } from '../middleware/auth';
+import { CommunityInvitationController } from '../controllers/communityInvitationController';
+import { CommunityJoinRequestController } from '../controllers/communityJoinRequestController';
+import { CommunityPostController } from '../controllers/communityPostController';
+import { CommunityCommentController } from '../controllers/communityCommentController';
+import { CommunityOwnershipController } from '../controllers/communityOwnershipController';
+import { CommunityModerationController } from '../controllers/communityModerationController';
+import { CommunityRole } from '@prisma/client';
+import { requireUserOrApiKey } from '../middleware/auth';
+import { requireCommunityRole } from '../middleware/communityAuth';
+import { COMMUNITY_MANAGER_ROLES, COMMUNITY_MODERATOR_ROLES } from '../constants/communityRoles';
+import { rateLimit } from '../middleware/rateLimit';
+import { RATE_LIMIT_POLICIES } from '../constants/rateLimits';
 
 const router = Router();
 const communityController = new CommunityController();
+const communityInvitationController = new CommunityInvitationController();
+const communityJoinRequestController = new CommunityJoinRequestController();
+const communityPostController = new CommunityPostController();
+const communityCommentController = new CommunityCommentController();
+const communityOwnershipController = new CommunityOwnershipController();
+const communityModerationController = new CommunityModerationController();
 
-// Rate limiting for community creation (3 communities per hour per user)
-const createCommunityLimiter = rateLimit({
-  windowMs: 60 * 60 * 1000, // 1 hour
-  max: 10, // 3 communities per hour
-  message: {
-    success: false,
-    message: 'Too many communities created. Please try again later.',
-    status: 429,
-  },
-  standardHeaders: true,
-  legacyHeaders: false,
-});
-
-// Apply authentication middleware to all routes
-router.use(requireUser);
+// Community creation per user or API key (runs after authentication)
+const createCommunityLimiter = rateLimit(RATE_LIMIT_POLICIES.createCommunity);
+
+const apiKeyScopes = { read: 'communities:read', write: 'communities:write' } as const;
+
+// User login, or a personal API key with the communities scopes
+const requireAuth = requireUserOrApiKey(apiKeyScopes);
+
+// Routes of one community (`:id`) also accept that community's API keys, which requireCommunityRole holds to it
+const requireCommunityAuth = (...roles: CommunityRole[]) => [
+  requireUserOrApiKey(apiKeyScopes, { communityKeys: true }),
+  requireCommunityRole(...roles),
+];
 
 // Community CRUD operations
-router.post('/', createCommunityLimiter, communityController.createCommunity.bind(communityController));
-router.get('/', communityController.getCommunities.bind(communityController));
-router.get('/user', communityController.getUserCommunities.bind(communityController));
-router.get('/:id', communityController.getCommunityById.bind(communityController));
-router.put('/:id', communityController.updateCommunity.bind(communityController));
-router.delete('/:id', communityController.deleteCommunity.bind(communityController));
+router.post('/', requireAuth, createCommunityLimiter, communityController.createCommunity.bind(communityController));
+router.get('/', requireAuth, communityController.getCommunities.bind(communityController));
+router.get('/user', requireAuth, communityController.getUserCommunities.bind(communityController));
+router.get('/:id', requireAuth, communityController.getCommunityById.bind(communityController));
+router.put('/:id', requireCommunityAuth(...COMMUNITY_MANAGER_ROLES), communityController.updateCommunity.bind(communityController));
+router.delete('/:id', requireCommunityAuth(CommunityRole.OWNER), communityController.deleteCommunity.bind(communityController));
 
 // Community membership operations
-router.post('/join', communityController.joinCommunity.bind(communityController));
-router.post('/:id/leave', communityController.leaveCommunity.bind(communityController));
-router.post('/invite', communityController.inviteUser.bind(communityController));
-router.get('/:id/members', communityController.getCommunityMembers.bind(communityController));
-router.put('/:id/members/role', communityController.updateMemberRole.bind(communityController));
-router.delete('/:id/members/:userId', communityController.removeMember.bind(communityController));
+router.post('/join', requireAuth, communityController.joinCommunity.bind(communityController));
+router.post('/:id/leave', requireAuth, communityController.leaveCommunity.bind(communityController));
+router.post('/invite', requireAuth, communityController.inviteUser.bind(communityController));
+router.get('/:id/members', requireCommunityAuth(), communityController.getCommunityMembers.bind(communityController));
+router.put('/:id/members/role', requireCommunityAuth(...COMMUNITY_MANAGER_ROLES), communityController.updateMemberRole.bind(communityController));
+router.delete('/:id/members/:userId', requireCommunityAuth(...COMMUNITY_MANAGER_ROLES), communityController.removeMember.bind(communityController));
+
+// Bans (owners and admins), mutes and warnings (also moderators), only over lower-ranked members
+router.get('/:id/bans', requireCommunityAuth(...COMMUNITY_MANAGER_ROLES), communityModerationController.getBans.bind(communityModerationController));
+router.post('/:id/members/:userId/ban', requireCommunityAuth(...COMMUNITY_MANAGER_ROLES), communityModerationController.banMember.bind(communityModerationController));
+router.delete('/:id/members/:userId/ban', requireCommunityAuth(...COMMUNITY_MANAGER_ROLES), communityModerationController.unbanMember.bind(communityModerationController));
+router.post('/:id/members/:userId/mute', requireCommunityAuth(...COMMUNITY_MODERATOR_ROLES), communityModerationController.muteMember.bind(communityModerationController));
+router.delete('/:id/members/:userId/mute', requireCommunityAuth(...COMMUNITY_MODERATOR_ROLES), communityModerationController.unmuteMember.bind(communityModerationController));
+router.post('/:id/members/:userId/warnings', requireCommunityAuth(...COMMUNITY_MODERATOR_ROLES), communityModerationController.warnMember.bind(communityModerationController));
+router.get('/:id/members/:userId/moderation', requireCommunityAuth(...COMMUNITY_MODERATOR_ROLES), communityModerationController.getMemberHistory.bind(communityModerationController));
+
+// Invitations of one user, accepted or declined by the invitee
+router.get('/invitations/me', requireAuth, communityInvitationController.getMyInvitations.bind(communityInvitationController));
+router.post('/invitations/:invitationId/accept', requireAuth, communityInvitationController.acceptInvitation.bind(communityInvitationController));
+router.post('/invitations/:invitationId/decline', requireAuth, communityInvitationController.declineInvitation.bind(communityInvitationController));
+router.post('/:id/invitations', requireCommunityAuth(...COMMUNITY_MODERATOR_ROLES), communityInvitationController.createInvitation.bind(communityInvitationController));
+router.get('/:id/invitations', requireCommunityAuth(...COMMUNITY_MODERATOR_ROLES), communityInvitationController.getCommunityInvitations.bind(communityInvitationController));
+router.delete('/:id/invitations/:invitationId', requireCommunityAuth(...COMMUNITY_MODERATOR_ROLES), communityInvitationController.revokeInvitation.bind(communityInvitationController));
+
+// Shareable invite links (codes), also for private communities
+router.get('/invite-links/:code', requireAuth, communityInvitationController.getInviteLinkPreview.bind(communityInvitationController));
+router.post('/invite-links/:code/join', requireAuth, communityInvitationController.joinWithInviteLink.bind(communityInvitationController));
+router.post('/:id/invite-links', requireCommunityAuth(...COMMUNITY_MODERATOR_ROLES), communityInvitationController.createInviteLink.bind(communityInvitationController));
+router.get('/:id/invite-links', requireCommunityAuth(...COMMUNITY_MODERATOR_ROLES), communityInvitationController.getInviteLinks.bind(communityInvitationController));
+router.delete('/:id/invite-links/:linkId', requireCommunityAuth(...COMMUNITY_MODERATOR_ROLES), communityInvitationController.revokeInviteLink.bind(communityInvitationController));
+
+// Join requests for private communities, decided by owners, admins and moderators
+router.get('/join-requests/me', requireAuth, communityJoinRequestController.getMyJoinRequests.bind(communityJoinRequestController));
+router.delete('/join-requests/:requestId', requireAuth, communityJoinRequestController.cancelJoinRequest.bind(communityJoinRequestController));
+router.post('/:id/join-requests', requireAuth, communityJoinRequestController.createJoinRequest.bind(communityJoinRequestController));
+router.get('/:id/join-requests', requireCommunityAuth(...COMMUNITY_MODERATOR_ROLES), communityJoinRequestController.getJoinRequests.bind(communityJoinRequestController));
+router.post('/:id/join-requests/:requestId/approve', requireCommunityAuth(...COMMUNITY_MODERATOR_ROLES), communityJoinRequestController.approveJoinRequest.bind(communityJoinRequestController));
+router.post('/:id/join-requests/:requestId/reject', requireCommunityAuth(...COMMUNITY_MODERATOR_ROLES), communityJoinRequestController.rejectJoinRequest.bind(communityJoinRequestController));
+
+// Ownership transfer from the owner to an admin, and the fallback when the owner's account is gone
+router.get('/ownership-transfers/me', requireAuth, communityOwnershipController.getMyTransfers.bind(communityOwnershipController));
+router.post('/ownership-transfers/:transferId/accept', requireAuth, communityOwnershipController.acceptTransfer.bind(communityOwnershipController));
+router.post('/ownership-transfers/:transferId/decline', requireAuth, communityOwnershipController.declineTransfer.bind(communityOwnershipController));
+router.post('/:id/ownership-transfer', requireCommunityAuth(CommunityRole.OWNER), communityOwnershipController.requestTransfer.bind(communityOwnershipController));
+router.get('/:id/ownership-transfer', requireCommunityAuth(...COMMUNITY_MANAGER_ROLES), communityOwnershipController.getPendingTransfer.bind(communityOwnershipController));
+router.delete('/:id/ownership-transfer', requireCommunityAuth(CommunityRole.OWNER), communityOwnershipController.cancelTransfer.bind(communityOwnershipController));
+router.post('/:id/ownership/claim', requireCommunityAuth(CommunityRole.ADMIN), communityOwnershipController.claimOwnership.bind(communityOwnershipController));
+
+// Community board, for active members only
+router.get('/:id/posts', requireCommunityAuth(), communityPostController.getPosts.bind(communityPostController));
+router.post('/:id/posts', requireCommunityAuth(), communityPostController.createPost.bind(communityPostController));
+router.get('/:id/posts/:postId', requireCommunityAuth(), communityPostController.getPostById.bind(communityPostController));
+router.put('/:id/posts/:postId', requireCommunityAuth(), communityPostController.updatePost.bind(communityPostController));
+router.delete('/:id/posts/:postId', requireCommunityAuth(), communityPostController.deletePost.bind(communityPostController));
+router.put('/:id/posts/:postId/moderation', requireCommunityAuth(...COMMUNITY_MODERATOR_ROLES), communityPostController.moderatePost.bind(communityPostController));
+router.put('/:id/posts/:postId/reactions', requireCommunityAuth(), communityPostController.setReaction.bind(communityPostController));
+router.delete('/:id/posts/:postId/reactions', requireCommunityAuth(), communityPostController.removeReaction.bind(communityPostController));
+router.get('/:id/posts/:postId/comments', requireCommunityAuth(), communityCommentController.getComments.bind(communityCommentController));
+router.post('/:id/posts/:postId/comments', requireCommunityAuth(), communityCommentController.createComment.bind(communityCommentController));
+router.put('/:id/posts/:postId/comments/:commentId', requireCommunityAuth(), communityCommentController.updateComment.bind(communityCommentController));
+router.delete('/:id/posts/:postId/comments/:commentId', requireCommunityAuth(), communityCommentController.deleteComment.bind(communityCommentController));
+router.put('/:id/posts/:postId/comments/:commentId/reactions', requireCommunityAuth(), communityCommentController.setReaction.bind(communityCommentController));
+router.delete('/:id/posts/:postId/comments/:commentId/reactions', requireCommunityAuth(), communityCommentController.removeReaction.bind(communityCommentController));
 
 // Get all users from user's communities (for job post designation)
-router.get('/users/all', communityController.getAllUsersFromCommunities.bind(communityController));
+router.get('/users/all', requireAuth, communityController.getAllUsersFromCommunities.bind(communityController));
 
 export default router;
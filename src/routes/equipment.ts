@@ -1,4 +1,5 @@
 import { Router, Response } from "express";
+import { AuditAction, AuditTargetType } from "@prisma/client";
 import prisma from "../lib/prisma";
 import {
   createEquipmentSchema,
@@ -10,8 +11,12 @@ import {
 } from "../types/equipment";
 import { requireUser, AuthenticatedRequest } from "../middleware/auth";
 import logger from "../utils/logger";
+import { isAdmin, isOwnerOrAdmin } from "../utils/authorization";
+import { getAuditContext } from "../utils/audit";
+import { AuditLogService } from "../services/auditLogService";
 
 const router = Router();
+const auditLogService = new AuditLogService();
 
 /**
  * @swagger
@@ -113,7 +118,7 @@ router.get("/", requireUser, async (req: AuthenticatedRequest, res: Response) =>
     }
 
     // If user is not admin, they can only see their own equipment
-    if (req.user!.role !== "ADMIN") {
+    if (!isAdmin(req.user!)) {
       where.userId = req.user!.userId;
     }
 
@@ -261,7 +266,7 @@ router.get("/:id", requireUser, async (req: AuthenticatedRequest, res: Response)
     }
 
     // Check if user is trying to access their own equipment or is admin
-    if (req.user!.role !== "ADMIN" && req.user!.userId !== equipment.userId) {
+    if (!isOwnerOrAdmin(req.user!, equipment.userId)) {
       return res.status(403).json({
         message: "You can only access your own equipment",
         status: 403,
@@ -474,7 +479,7 @@ router.put("/:id", requireUser, async (req: AuthenticatedRequest, res: Response)
     }
 
     // Check if user is trying to update their own equipment or is admin
-    if (req.user!.role !== "ADMIN" && req.user!.userId !== existingEquipment.userId) {
+    if (!isOwnerOrAdmin(req.user!, existingEquipment.userId)) {
       return res.status(403).json({
         message: "You can only update your own equipment",
         status: 403,
@@ -626,7 +631,7 @@ router.delete("/:id", requireUser, async (req: AuthenticatedRequest, res: Respon
     }
 
     // Check if user is trying to delete their own equipment or is admin
-    if (req.user!.role !== "ADMIN" && req.user!.userId !== existingEquipment.userId) {
+    if (!isOwnerOrAdmin(req.user!, existingEquipment.userId)) {
       return res.status(403).json({
         message: "You can only delete your own equipment",
         status: 403,
@@ -634,18 +639,32 @@ router.delete("/:id", requireUser, async (req: AuthenticatedRequest, res: Respon
       });
     }
 
-    const deletedEquipment = await prisma.equipment.delete({
-      where: { id },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            nickname: true,
+    const deletedEquipment = await prisma.$transaction(async (tx) => {
+      const deleted = await tx.equipment.delete({
+        where: { id },
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              nickname: true,
+            },
           },
         },
-      },
+      });
+
+      await auditLogService.record(getAuditContext(req), {
+        action: AuditAction.EQUIPMENT_DELETED,
+        targetType: AuditTargetType.EQUIPMENT,
+        targetId: id,
+        changes: {
+          before: { userId: deleted.userId, type: deleted.type, tonnage: deleted.tonnage, length: deleted.length },
+          after: {},
+        },
+      }, tx);
+
+      return deleted;
     });
 
     return res.json({
@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { EquipmentCatalogController } from '../controllers/equipmentCatalogController';
+import { requireAdmin } from '../middleware/auth';
+
+const router = Router();
+const equipmentCatalogController = new EquipmentCatalogController();
+
+// Public catalog used by the app pickers (active entries only)
+router.get('/', equipmentCatalogController.getCatalog.bind(equipmentCatalogController));
+
+// Admin catalog management
+router.get('/all', requireAdmin, equipmentCatalogController.getFullCatalog.bind(equipmentCatalogController));
+
+router.post('/equipment-types', requireAdmin, equipmentCatalogController.createEquipmentType.bind(equipmentCatalogController));
+router.put('/equipment-types/:id', requireAdmin, equipmentCatalogController.updateEquipmentType.bind(equipmentCatalogController));
+router.delete('/equipment-types/:id', requireAdmin, equipmentCatalogController.deleteEquipmentType.bind(equipmentCatalogController));
+
+router.post('/ladder-machine-types', requireAdmin, equipmentCatalogController.createLadderMachineType.bind(equipmentCatalogController));
+router.put('/ladder-machine-types/:id', requireAdmin, equipmentCatalogController.updateLadderMachineType.bind(equipmentCatalogController));
+router.delete('/ladder-machine-types/:id', requireAdmin, equipmentCatalogController.deleteLadderMachineType.bind(equipmentCatalogController));
+
+export default router;
@@ -1,36 +1,73 @@
 import { Router } from 'express';
-import rateLimit from 'express-rate-limit';
 import { JobPostController } from '../controllers/jobPostController';
-import { requireUser } from '../middleware/auth';
+import { JobApplicationController } from '../controllers/jobApplicationController';
+import { JobMatchingController } from '../controllers/jobMatchingController';
+import { requireUserOrApiKey } from '../middleware/auth';
+import { requireCommunityKeyJobPost } from '../middleware/communityAuth';
+import { requireVerifiedPhone } from '../middleware/verifiedPhone';
+import { rateLimit } from '../middleware/rateLimit';
+import { RATE_LIMIT_POLICIES } from '../constants/rateLimits';
 
 const router = Router();
 const jobPostController = new JobPostController();
+const jobApplicationController = new JobApplicationController();
+const jobMatchingController = new JobMatchingController();
 
-// Rate limiting for job post creation (5 posts per hour per user)
-const createJobPostLimiter = rateLimit({
-  windowMs: 60 * 60 * 1000, // 1 hour
-  max: 25, // 5 job posts per hour
-  message: {
-    success: false,
-    message: 'Too many job posts created. Please try again later.',
-    status: 429,
-  },
-  standardHeaders: true,
-  legacyHeaders: false,
-});
-
-// Apply authentication middleware to all routes
-router.use(requireUser);
+// Job post creation per user or API key (runs after authentication)
+const createJobPostLimiter = rateLimit(RATE_LIMIT_POLICIES.createJobPost);
+
+const apiKeyScopes = { read: 'jobposts:read', write: 'jobposts:write' } as const;
+
+// User login, or a personal API key with the jobposts scopes
+const requireAuth = requireUserOrApiKey(apiKeyScopes);
+
+// Also accepts community API keys: creating and listing hold them to their community, the fee preview reads no data
+const requireAuthOrCommunityKey = requireUserOrApiKey(apiKeyScopes, { communityKeys: true });
+
+// Author-side routes of one job post, also open to the API keys of the post's community
+const requireJobPostAuth = [requireAuthOrCommunityKey, requireCommunityKeyJobPost];
+
+// Applications submitted by the current user (must be registered before '/:id')
+router.get('/applications/me', requireAuth, jobApplicationController.getMyApplications.bind(jobApplicationController));
+
+// Open SKY posts the current user's registered equipment can serve (must be registered before '/:id')
+router.get('/matching/my-equipment', requireAuth, jobMatchingController.getJobPostsForMyEquipment.bind(jobMatchingController));
+
+// Fee breakdown for a job post that has not been created yet
+router.post('/fees/preview', requireAuthOrCommunityKey, jobPostController.previewFees.bind(jobPostController));
 
 // Job post CRUD operations
-router.post('/', createJobPostLimiter, jobPostController.createJobPost.bind(jobPostController));
-router.get('/', jobPostController.getJobPosts.bind(jobPostController));
-router.get('/:id', jobPostController.getJobPostById.bind(jobPostController));
-router.put('/:id', jobPostController.updateJobPost.bind(jobPostController));
-router.delete('/:id', jobPostController.deleteJobPost.bind(jobPostController));
+router.post('/', requireAuthOrCommunityKey, createJobPostLimiter, requireVerifiedPhone, jobPostController.createJobPost.bind(jobPostController));
+router.get('/', requireAuthOrCommunityKey, jobPostController.getJobPosts.bind(jobPostController));
+router.get('/:id', requireJobPostAuth, jobPostController.getJobPostById.bind(jobPostController));
+router.put('/:id', requireJobPostAuth, jobPostController.updateJobPost.bind(jobPostController));
+router.delete('/:id', requireJobPostAuth, jobPostController.deleteJobPost.bind(jobPostController));
+
+// Job post lifecycle (OPEN → ASSIGNED → IN_PROGRESS → COMPLETED / CANCELLED)
+router.post('/:id/assign', requireJobPostAuth, jobPostController.assignJobPost.bind(jobPostController));
+router.post('/:id/unassign', requireJobPostAuth, jobPostController.unassignJobPost.bind(jobPostController));
+router.post('/:id/start', requireJobPostAuth, jobPostController.startJobPost.bind(jobPostController));
+router.post('/:id/complete', requireJobPostAuth, jobPostController.completeJobPost.bind(jobPostController));
+router.post('/:id/cancel', requireJobPostAuth, jobPostController.cancelJobPost.bind(jobPostController));
+router.get('/:id/status-history', requireJobPostAuth, jobPostController.getStatusHistory.bind(jobPostController));
+
+// Designated job posts (designated user answers, author re-designates)
+router.post('/:id/designation/accept', requireAuth, requireVerifiedPhone, jobPostController.acceptDesignation.bind(jobPostController));
+router.post('/:id/designation/decline', requireAuth, jobPostController.declineDesignation.bind(jobPostController));
+router.post('/:id/designation/redesignate', requireJobPostAuth, jobPostController.redesignateJobPost.bind(jobPostController));
+
+// Job applications (operators apply, the author picks one)
+router.post('/:id/applications', requireAuth, requireVerifiedPhone, jobApplicationController.applyToJobPost.bind(jobApplicationController));
+router.get('/:id/applications', requireJobPostAuth, jobApplicationController.getJobPostApplications.bind(jobApplicationController));
+router.post('/:id/applications/:applicationId/accept', requireJobPostAuth, jobApplicationController.acceptApplication.bind(jobApplicationController));
+router.post('/:id/applications/:applicationId/reject', requireJobPostAuth, jobApplicationController.rejectApplication.bind(jobApplicationController));
+router.post('/:id/applications/:applicationId/withdraw', requireAuth, jobApplicationController.withdrawApplication.bind(jobApplicationController));
+
+// Operators with equipment suitable for the post (author only)
+router.get('/:id/suitable-operators', requireJobPostAuth, jobMatchingController.getSuitableOperators.bind(jobMatchingController));
 
 // Community and user related endpoints
-router.get('/communities/user', jobPostController.getUserCommunities.bind(jobPostController));
-router.get('/communities/:communityId/users', jobPostController.getCommunityUsers.bind(jobPostController));
+router.get('/communities/user', requireAuth, jobPostController.getUserCommunities.bind(jobPostController));
+router.get('/communities/:communityId/users', requireAuth, jobPostController.getCommunityUsers.bind(jobPostController));
 
 export default router;
@@ -1,16 +1,44 @@
 import { Router, Request, Response } from "express";
+import { AuditAction, AuditTargetType, SessionRevokeReason } from "@prisma/client";
 import prisma from "../lib/prisma";
 import {
   createUserSchema,
   updateUserSchema,
+  updateProfileSchema,
   userIdSchema,
+  setHomeBaseSchema,
+  sendPhoneCodeSchema,
+  verifyPhoneCodeSchema,
   CreateUserRequest,
   UpdateUserRequest,
+  UpdateProfileRequest,
+  SetHomeBaseRequest,
+  SendPhoneCodeRequest,
+  VerifyPhoneCodeRequest,
 } from "../types/user";
 import { requireUser, requireAdmin, AuthenticatedRequest } from "../middleware/auth";
+import { LocationService } from "../services/locationService";
+import { AccountDeletionService, AccountDeletionError } from "../services/accountDeletionService";
+import { AuthSessionService } from "../services/authSessionService";
+import { AuditLogService } from "../services/auditLogService";
+import { diffFields, getAuditContext } from "../utils/audit";
+import {
+  PhoneVerificationService,
+  PhoneVerificationError,
+  PhoneVerificationErrorReason,
+} from "../services/phoneVerificationService";
 import logger from "../utils/logger";
+import { isAdmin, isOwnerOrAdmin } from "../utils/authorization";
 
 const router = Router();
+const locationService = new LocationService();
+const phoneVerificationService = new PhoneVerificationService();
+const accountDeletionService = new AccountDeletionService();
+const authSessionService = new AuthSessionService();
+const auditLogService = new AuditLogService();
+
+// Fields of PUT /users/:id recorded in the audit log
+const AUDITED_USER_FIELDS = ["name", "email", "nickname", "role"] as const;
 
 /**
  * @swagger
@@ -102,8 +130,8 @@ router.get("/", requireAdmin, async (req: AuthenticatedRequest, res: Response) =
 
     const skip = (page - 1) * limit;
 
-    // Build where clause
-    const where: any = {};
+    // Build where clause (deleted accounts are not listed)
+    const where: any = { deletedAt: null };
     if (role) {
       where.role = role;
     }
@@ -144,6 +172,637 @@ router.get("/", requireAdmin, async (req: AuthenticatedRequest, res: Response) =
   }
 });
 
+/**
+ * @swagger
+ * /api/v1/users/me:
+ *   get:
+ *     summary: Get my profile
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Profile retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UserResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BaseResponse'
+ */
+router.get("/me", requireUser, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.userId },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        message: "User not found",
+        status: 404,
+        data: null,
+      });
+    }
+
+    return res.json({
+      message: "Profile retrieved successfully",
+      status: 200,
+      data: user,
+    });
+  } catch (error) {
+    logger.error("Error fetching profile:", error);
+    return res.status(500).json({
+      message: "Internal server error",
+      status: 500,
+      data: null,
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/me:
+ *   put:
+ *     summary: Update my profile
+ *     description: Updates the profile fields of the current user. Role, email and phone number cannot be changed here.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateProfileRequest'
+ *     responses:
+ *       200:
+ *         description: Profile updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UserResponse'
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BaseResponse'
+ */
+router.put("/me", requireUser, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const result = updateProfileSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        message: "Validation error",
+        status: 400,
+        data: {
+          errors: result.error.issues.map((err: any) => ({
+            field: err.path.join("."),
+            message: err.message,
+          })),
+        },
+      });
+    }
+
+    const profileData: UpdateProfileRequest = result.data;
+
+    // Filter out undefined values for Prisma
+    const filteredData = Object.fromEntries(
+      Object.entries(profileData).filter(([_, value]) => value !== undefined)
+    );
+
+    // The verified badge belongs to the approved number only
+    if (profileData.businessRegistrationNumber !== undefined) {
+      const current = await prisma.user.findUnique({
+        where: { id: req.user!.userId },
+        select: { businessRegistrationNumber: true },
+      });
+
+      if (current?.businessRegistrationNumber !== profileData.businessRegistrationNumber) {
+        filteredData["businessVerifiedAt"] = null;
+      }
+    }
+
+    const user = await prisma.user.update({
+      where: { id: req.user!.userId },
+      data: filteredData,
+    });
+
+    return res.json({
+      message: "Profile updated successfully",
+      status: 200,
+      data: user,
+    });
+  } catch (error) {
+    logger.error("Error updating profile:", error);
+    return res.status(500).json({
+      message: "Internal server error",
+      status: 500,
+      data: null,
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/me:
+ *   delete:
+ *     summary: Delete my account
+ *     description: |
+ *       Erases the current user's personal data and logs out every device. Job posts and community
+ *       posts stay, shown with an anonymous author; unfinished job posts are cancelled, work assigned
+ *       but not started is released and pending applications are withdrawn. Community owners must
+ *       transfer or delete their communities first.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Account deleted successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BaseResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BaseResponse'
+ *       409:
+ *         description: The user still owns a community
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BaseResponse'
+ */
+router.delete("/me", requireUser, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    await accountDeletionService.deleteAccount(req.user!.userId, getAuditContext(req));
+
+    return res.json({
+      message: "Account deleted successfully",
+      status: 200,
+      data: null,
+    });
+  } catch (error) {
+    if (error instanceof AccountDeletionError) {
+      return res.status(409).json({
+        message: error.message,
+        status: 409,
+        data: null,
+      });
+    }
+    logger.error("Error deleting account:", error);
+    return res.status(500).json({
+      message: "Internal server error",
+      status: 500,
+      data: null,
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/me/home-base:
+ *   get:
+ *     summary: Get my home base
+ *     description: The current user's home base, used for radius searches and travel distance
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Home base retrieved successfully (data is null when none is set)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/BaseResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/HomeBase'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BaseResponse'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BaseResponse'
+ */
+router.get("/me/home-base", requireUser, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const homeBase = await locationService.getHomeBase(req.user!.userId);
+
+    return res.json({
+      message: "Home base retrieved successfully",
+      status: 200,
+      data: homeBase,
+    });
+  } catch (error) {
+    logger.error("Error fetching home base:", error);
+    return res.status(500).json({
+      message: "Internal server error",
+      status: 500,
+      data: null,
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/me/home-base:
+ *   put:
+ *     summary: Set my home base
+ *     description: Geocodes the address and stores it as the current user's home base
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SetHomeBaseRequest'
+ *     responses:
+ *       200:
+ *         description: Home base updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/BaseResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/HomeBase'
+ *       400:
+ *         description: Validation error or the address could not be located
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BaseResponse'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BaseResponse'
+ */
+router.put("/me/home-base", requireUser, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    // Validate request body
+    const result = setHomeBaseSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        message: "Validation error",
+        status: 400,
+        data: {
+          errors: result.error.issues.map((err: any) => ({
+            field: err.path.join("."),
+            message: err.message,
+          })),
+        },
+      });
+    }
+
+    const { address }: SetHomeBaseRequest = result.data;
+
+    const homeBase = await locationService.setHomeBase(req.user!.userId, address);
+    if (!homeBase) {
+      return res.status(400).json({
+        message: "Address could not be located",
+        status: 400,
+        data: {
+          errors: [
+            {
+              field: "address",
+              message: "Address could not be located",
+            },
+          ],
+        },
+      });
+    }
+
+    return res.json({
+      message: "Home base updated successfully",
+      status: 200,
+      data: homeBase,
+    });
+  } catch (error) {
+    logger.error("Error updating home base:", error);
+    return res.status(500).json({
+      message: "Internal server error",
+      status: 500,
+      data: null,
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/me/home-base:
+ *   delete:
+ *     summary: Clear my home base
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Home base cleared successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BaseResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BaseResponse'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BaseResponse'
+ */
+router.delete("/me/home-base", requireUser, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    await locationService.clearHomeBase(req.user!.userId);
+
+    return res.json({
+      message: "Home base cleared successfully",
+      status: 200,
+      data: null,
+    });
+  } catch (error) {
+    logger.error("Error clearing home base:", error);
+    return res.status(500).json({
+      message: "Internal server error",
+      status: 500,
+      data: null,
+    });
+  }
+});
+
+// Maps a refused phone verification to its HTTP status; waiting errors carry Retry-After
+const PHONE_VERIFICATION_ERROR_STATUS: Record<PhoneVerificationErrorReason, number> = {
+  INVALID_PHONE: 400,
+  NO_ACTIVE_CODE: 400,
+  INVALID_CODE: 400,
+  PHONE_TAKEN: 409,
+  RATE_LIMITED: 429,
+  LOCKED: 429,
+};
+
+const sendPhoneVerificationError = (res: Response, error: PhoneVerificationError) => {
+  if (error.retryAfterSeconds !== undefined) {
+    res.set("Retry-After", String(error.retryAfterSeconds));
+  }
+
+  const status = PHONE_VERIFICATION_ERROR_STATUS[error.reason];
+  return res.status(status).json({
+    message: error.message,
+    status,
+    data: {
+      reason: error.reason,
+      ...(error.retryAfterSeconds !== undefined && { retryAfterSeconds: error.retryAfterSeconds }),
+    },
+  });
+};
+
+/**
+ * @swagger
+ * /api/v1/users/me/phone/code:
+ *   post:
+ *     summary: Send a phone verification code
+ *     description: |
+ *       Sends a 6-digit code by SMS to a Korean mobile number. Codes expire after a few minutes
+ *       and only the latest one is accepted. Sending is limited per user and per number.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SendPhoneCodeRequest'
+ *     responses:
+ *       200:
+ *         description: Code sent
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/BaseResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/PhoneVerificationSent'
+ *       400:
+ *         description: Validation error or not a Korean mobile number
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: The number is verified by another account
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BaseResponse'
+ *       429:
+ *         description: Sending limit reached or locked after wrong codes (see Retry-After)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BaseResponse'
+ */
+router.post("/me/phone/code", requireUser, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const result = sendPhoneCodeSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        message: "Validation error",
+        status: 400,
+        data: {
+          errors: result.error.issues.map((err: any) => ({
+            field: err.path.join("."),
+            message: err.message,
+          })),
+        },
+      });
+    }
+
+    const { phoneNumber }: SendPhoneCodeRequest = result.data;
+    const sent = await phoneVerificationService.sendCode(req.user!.userId, phoneNumber);
+
+    return res.json({
+      message: "Verification code sent",
+      status: 200,
+      data: sent,
+    });
+  } catch (error) {
+    if (error instanceof PhoneVerificationError) {
+      return sendPhoneVerificationError(res, error);
+    }
+    logger.error("Error sending phone verification code:", error);
+    return res.status(500).json({
+      message: "Internal server error",
+      status: 500,
+      data: null,
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/me/phone/verify:
+ *   post:
+ *     summary: Verify my phone number
+ *     description: Checks the SMS code and stores the number as the current user's verified phone
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/VerifyPhoneCodeRequest'
+ *     responses:
+ *       200:
+ *         description: Phone number verified
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/BaseResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/PhoneVerification'
+ *       400:
+ *         description: Validation error, wrong code, or no active code for the number
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: The number is verified by another account
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BaseResponse'
+ *       429:
+ *         description: Locked after too many wrong codes (see Retry-After)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BaseResponse'
+ */
+router.post("/me/phone/verify", requireUser, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const result = verifyPhoneCodeSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        message: "Validation error",
+        status: 400,
+        data: {
+          errors: result.error.issues.map((err: any) => ({
+            field: err.path.join("."),
+            message: err.message,
+          })),
+        },
+      });
+    }
+
+    const { phoneNumber, code }: VerifyPhoneCodeRequest = result.data;
+    const verified = await phoneVerificationService.verifyCode(req.user!.userId, phoneNumber, code);
+
+    return res.json({
+      message: "Phone number verified successfully",
+      status: 200,
+      data: verified,
+    });
+  } catch (error) {
+    if (error instanceof PhoneVerificationError) {
+      return sendPhoneVerificationError(res, error);
+    }
+    logger.error("Error verifying phone number:", error);
+    return res.status(500).json({
+      message: "Internal server error",
+      status: 500,
+      data: null,
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/v1/users/me/phone:
+ *   delete:
+ *     summary: Remove my phone number
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Phone number removed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BaseResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BaseResponse'
+ */
+router.delete("/me/phone", requireUser, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    await phoneVerificationService.removePhoneNumber(req.user!.userId);
+
+    return res.json({
+      message: "Phone number removed successfully",
+      status: 200,
+      data: null,
+    });
+  } catch (error) {
+    logger.error("Error removing phone number:", error);
+    return res.status(500).json({
+      message: "Internal server error",
+      status: 500,
+      data: null,
+    });
+  }
+});
+
 /**
  * @swagger
  * /api/v1/users/{id}:
@@ -218,7 +877,7 @@ router.get("/:id", requireUser, async (req: AuthenticatedRequest, res: Response)
     const { id } = result.data;
 
     // Check if user is trying to access their own profile or is admin
-    if (req.user!.role !== "ADMIN" && req.user!.userId !== id) {
+    if (!isOwnerOrAdmin(req.user!, id)) {
       return res.status(403).json({
         message: "You can only access your own profile",
         status: 403,
@@ -238,15 +897,10 @@ router.get("/:id", requireUser, async (req: AuthenticatedRequest, res: Response)
       });
     }
 
-    const safeUser = {
-      ...user,
-      kakaoId: user.kakaoId?.toString(),
-    };
-
     return res.json({
       message: "User retrieved successfully",
       status: 200,
-      data: safeUser,
+      data: user,
     });
   } catch (error) {
     logger.error("Error fetching user:", error);
@@ -354,15 +1008,10 @@ router.post("/", requireAdmin, async (req: Request, res: Response) => {
       },
     });
 
-    const safeUser = {
-      ...user,
-      kakaoId: user.kakaoId?.toString(),
-    };
-
     return res.status(201).json({
       message: "User created successfully",
       status: 201,
-      data: safeUser,
+      data: user,
     });
   } catch (error) {
     logger.error("Error creating user:", error);
@@ -455,7 +1104,7 @@ router.put("/:id", requireUser, async (req: AuthenticatedRequest, res: Response)
     const { id } = idResult.data;
 
     // Check if user is trying to update their own profile or is admin
-    if (req.user!.role !== "ADMIN" && req.user!.userId !== id) {
+    if (!isOwnerOrAdmin(req.user!, id)) {
       return res.status(403).json({
         message: "You can only update your own profile",
         status: 403,
@@ -480,6 +1129,14 @@ router.put("/:id", requireUser, async (req: AuthenticatedRequest, res: Response)
 
     const updateData: UpdateUserRequest = result.data;
 
+    if (updateData.role !== undefined && !isAdmin(req.user!)) {
+      return res.status(403).json({
+        message: "Only admins can change roles",
+        status: 403,
+        data: null,
+      });
+    }
+
     // Check if user exists
     const existingUser = await prisma.user.findUnique({
       where: { id },
@@ -520,20 +1177,34 @@ router.put("/:id", requireUser, async (req: AuthenticatedRequest, res: Response)
       Object.entries(updateData).filter(([_, value]) => value !== undefined)
     );
 
-    const user = await prisma.user.update({
-      where: { id: id as number },
-      data: filteredData,
+    const user = await prisma.$transaction(async (tx) => {
+      const updated = await tx.user.update({
+        where: { id: id as number },
+        data: filteredData,
+      });
+
+      const changes = diffFields(existingUser, updated, AUDITED_USER_FIELDS);
+      if (changes) {
+        await auditLogService.record(getAuditContext(req), {
+          action: AuditAction.USER_UPDATED,
+          targetType: AuditTargetType.USER,
+          targetId: id,
+          changes,
+        }, tx);
+      }
+
+      return updated;
     });
 
-    const safeUser = {
-      ...user,
-      kakaoId: user.kakaoId?.toString(),
-    };
+    // Access tokens carry the role, so sessions issued under the old one are ended
+    if (updateData.role !== undefined && updateData.role !== existingUser.role) {
+      await authSessionService.revokeAllSessions(id, SessionRevokeReason.ROLE_CHANGED);
+    }
 
     return res.json({
       message: "User updated successfully",
       status: 200,
-      data: safeUser,
+      data: user,
     });
   } catch (error) {
     logger.error("Error updating user:", error);
@@ -605,7 +1276,7 @@ router.put("/:id", requireUser, async (req: AuthenticatedRequest, res: Response)
  *             schema:
  *               $ref: '#/components/schemas/BaseResponse'
  */
-router.delete("/:id", requireAdmin, async (req: Request, res: Response) => {
+router.delete("/:id", requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const result = userIdSchema.safeParse(req.params);
     if (!result.success) {
@@ -630,7 +1301,7 @@ router.delete("/:id", requireAdmin, async (req: Request, res: Response) => {
       where: { id },
     });
 
-    if (!existingUser) {
+    if (!existingUser || existingUser.deletedAt) {
       return res.status(404).json({
         message: "User not found",
         status: 404,
@@ -638,21 +1309,26 @@ router.delete("/:id", requireAdmin, async (req: Request, res: Response) => {
       });
     }
 
-    const deletedUser = await prisma.user.delete({
+    // Same anonymizing deletion as DELETE /users/me, so the user's history is kept
+    await accountDeletionService.deleteAccount(id, getAuditContext(req));
+
+    const deletedUser = await prisma.user.findUnique({
       where: { id },
     });
 
-    const safeUser = {
-      ...deletedUser,
-      kakaoId: deletedUser.kakaoId?.toString(),
-    };
-
     return res.json({
       message: "User deleted successfully",
       status: 200,
-      data: safeUser,
+      data: deletedUser,
     });
   } catch (error) {
+    if (error instanceof AccountDeletionError) {
+      return res.status(409).json({
+        message: error.message,
+        status: 409,
+        data: null,
+      });
+    }
     logger.error("Error deleting user:", error);
     return res.status(500).json({
       message: "Internal server error",
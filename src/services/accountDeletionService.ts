@@ -0,0 +1,184 @@
+import { AuditAction, AuditTargetType, CommunityInvitationStatus, CommunityJoinRequestStatus, CommunityRole, DesignationStatus, JobApplicationStatus, JobPostStatus, OwnershipTransferStatus, SessionRevokeReason } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { JobPostStatusService } from './jobPostStatusService';
+import { AuditLogService } from './auditLogService';
+import { AuditContext } from '../types/auditLog';
+
+const jobPostStatusService = new JobPostStatusService();
+const auditLogService = new AuditLogService();
+
+// Shown as the author of posts left behind by deleted accounts
+export const DELETED_USER_NICKNAME = '탈퇴한 사용자';
+
+const ACTIVE_AUTHORED_STATUSES: JobPostStatus[] = [JobPostStatus.OPEN, JobPostStatus.ASSIGNED, JobPostStatus.IN_PROGRESS];
+
+// The account cannot be deleted yet (e.g. it owns a community no admin could take over)
+export class AccountDeletionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccountDeletionError';
+  }
+}
+
+export class AccountDeletionService {
+  /**
+   * Deletes an account the PIPA way: personal data is erased but the user
+   * row stays as an anonymous author, so job posts, status history and
+   * community posts other people took part in are kept. Unfinished work is
+   * wound down the same way the user could have done it by hand.
+   * Returns false when the user does not exist or was already deleted.
+   * The actor defaults to the user (self-service deletion).
+   */
+  async deleteAccount(userId: number, auditContext: AuditContext = { actorId: userId }): Promise<boolean> {
+    const actorId = auditContext.actorId ?? userId;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { deletedAt: true },
+    });
+
+    if (!user || user.deletedAt) {
+      return false;
+    }
+
+    // An owned community needs an active admin who can claim it afterwards
+    const orphanedCommunity = await prisma.communityMember.findFirst({
+      where: {
+        userId,
+        role: CommunityRole.OWNER,
+        isActive: true,
+        community: {
+          members: { none: { role: CommunityRole.ADMIN, isActive: true, userId: { not: userId } } },
+        },
+      },
+      select: { community: { select: { title: true } } },
+    });
+
+    if (orphanedCommunity) {
+      throw new AccountDeletionError(
+        `"${orphanedCommunity.community.title}" has no admin who could take it over. Transfer ownership or delete it before deleting the account`
+      );
+    }
+
+    const now = new Date();
+
+    await prisma.$transaction(async (tx) => {
+      // Own job posts that are not finished are cancelled, their contact number removed
+      const authoredPosts = await tx.jobPost.findMany({
+        where: { authorId: userId, status: { in: ACTIVE_AUTHORED_STATUSES } },
+        select: { id: true, status: true },
+      });
+
+      for (const jobPost of authoredPosts) {
+        await jobPostStatusService.applyTransition(tx, jobPost, JobPostStatus.CANCELLED, actorId, {
+          reason: 'Author account deleted',
+        });
+      }
+
+      await tx.jobApplication.updateMany({
+        where: { jobPost: { authorId: userId }, status: JobApplicationStatus.PENDING },
+        data: { status: JobApplicationStatus.REJECTED, decidedAt: now },
+      });
+
+      await tx.jobPost.updateMany({
+        where: { authorId: userId },
+        data: { contactNumber: null },
+      });
+
+      // Work assigned to the user that has not started goes back to the feed
+      const assignedPosts = await tx.jobPost.findMany({
+        where: { assignedUserId: userId, status: JobPostStatus.ASSIGNED },
+        select: { id: true, status: true },
+      });
+
+      for (const jobPost of assignedPosts) {
+        await jobPostStatusService.applyTransition(tx, jobPost, JobPostStatus.OPEN, actorId, {
+          assignedUserId: null,
+          reason: 'Assigned operator account deleted',
+        });
+      }
+
+      await tx.jobApplication.updateMany({
+        where: {
+          applicantId: userId,
+          OR: [
+            { status: JobApplicationStatus.PENDING },
+            { status: JobApplicationStatus.ACCEPTED, jobPostId: { in: assignedPosts.map(jobPost => jobPost.id) } },
+          ],
+        },
+        data: { status: JobApplicationStatus.WITHDRAWN },
+      });
+
+      // Designations waiting for the user, or accepted but released above, fall back to their authors
+      await tx.jobPost.updateMany({
+        where: {
+          designatedUserId: userId,
+          status: JobPostStatus.OPEN,
+          designationStatus: { in: [DesignationStatus.PENDING, DesignationStatus.ACCEPTED] },
+        },
+        data: { designationStatus: DesignationStatus.DECLINED, designationRespondedAt: now },
+      });
+
+      await tx.communityMember.updateMany({
+        where: { userId, isActive: true },
+        data: { isActive: false },
+      });
+      await tx.communityInvitation.updateMany({
+        where: { inviteeId: userId, status: CommunityInvitationStatus.PENDING },
+        data: { status: CommunityInvitationStatus.DECLINED, respondedAt: now },
+      });
+      await tx.communityJoinRequest.updateMany({
+        where: { userId, status: CommunityJoinRequestStatus.PENDING },
+        data: { status: CommunityJoinRequestStatus.CANCELED },
+      });
+      await tx.communityOwnershipTransfer.updateMany({
+        where: { OR: [{ fromUserId: userId }, { toUserId: userId }], status: OwnershipTransferStatus.PENDING },
+        data: { status: OwnershipTransferStatus.CANCELED, respondedAt: now },
+      });
+
+      // Logins, devices and personal records
+      await tx.authSession.updateMany({
+        where: { userId, revokedAt: null },
+        data: { revokedAt: now, revokedReason: SessionRevokeReason.ACCOUNT_DELETED },
+      });
+      await tx.apiKey.updateMany({
+        where: { userId, revokedAt: null },
+        data: { revokedAt: now },
+      });
+      await tx.userIdentity.deleteMany({ where: { userId } });
+      await tx.phoneVerification.deleteMany({ where: { userId } });
+      await tx.businessVerification.deleteMany({ where: { userId } });
+      await tx.equipment.deleteMany({ where: { userId } });
+
+      await tx.user.update({
+        where: { id: userId },
+        data: {
+          name: null,
+          email: null,
+          nickname: DELETED_USER_NICKNAME,
+          avatarUrl: null,
+          bio: null,
+          servedRegionCodes: [],
+          businessRegistrationNumber: null,
+          businessVerifiedAt: null,
+          phoneNumber: null,
+          phoneVerifiedAt: null,
+          homeAddress: null,
+          homeRegionCode: null,
+          homeDistrictCode: null,
+          homeLatitude: null,
+          homeLongitude: null,
+          deletedAt: now,
+        },
+      });
+
+      await auditLogService.record(auditContext, {
+        action: AuditAction.USER_DELETED,
+        targetType: AuditTargetType.USER,
+        targetId: userId,
+      }, tx);
+    });
+
+    return true;
+  }
+}
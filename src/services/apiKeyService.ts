@@ -0,0 +1,227 @@
+import { createHash, randomBytes } from 'crypto';
+import { ApiKey, AuditAction, AuditTargetType, Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { API_KEY_LAST_USED_INTERVAL_MS, API_KEY_PREFIX, ApiKeyScope, MAX_ACTIVE_API_KEYS } from '../constants/apiKeys';
+import { COMMUNITY_MANAGER_ROLES } from '../constants/communityRoles';
+import { ApiKeyFilters, ApiKeyPrincipal, ApiKeyResponse, CreateApiKeyRequest, CreatedApiKeyResponse } from '../types/apiKey';
+import { CommunityMembershipService } from './communityMembershipService';
+import { AuditLogService } from './auditLogService';
+import { AuditContext } from '../types/auditLog';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const communityMembershipService = new CommunityMembershipService();
+const auditLogService = new AuditLogService();
+
+const hashKey = (key: string): string => createHash('sha256').update(key).digest('hex');
+
+export class ApiKeyService {
+  /**
+   * Creates a key for the user, or for the community in data.communityId
+   * when the user manages it. The full key is only returned here.
+   */
+  async createApiKey(userId: number, data: CreateApiKeyRequest, auditContext: AuditContext = {}): Promise<CreatedApiKeyResponse> {
+    if (data.communityId !== undefined) {
+      await this.assertCommunityManager(data.communityId, userId);
+    }
+
+    const keyPrefix = `${API_KEY_PREFIX}${randomBytes(6).toString('base64url').slice(0, 8)}`;
+    const key = `${keyPrefix}_${randomBytes(32).toString('base64url')}`;
+    const now = new Date();
+
+    const apiKey = await prisma.$transaction(async (tx) => {
+      const activeKeys = await tx.apiKey.count({
+        where: {
+          ...this.buildOwnerFilter(userId, data.communityId),
+          revokedAt: null,
+          OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+        },
+      });
+
+      if (activeKeys >= MAX_ACTIVE_API_KEYS) {
+        throw new Error(`At most ${MAX_ACTIVE_API_KEYS} active API keys are allowed`);
+      }
+
+      const created = await tx.apiKey.create({
+        data: {
+          name: data.name,
+          keyPrefix,
+          keyHash: hashKey(key),
+          scopes: data.scopes,
+          userId,
+          communityId: data.communityId ?? null,
+          expiresAt: data.expiresInDays !== undefined ? new Date(now.getTime() + data.expiresInDays * DAY_MS) : null,
+        },
+      });
+
+      await auditLogService.record(auditContext, {
+        action: AuditAction.API_KEY_CREATED,
+        targetType: AuditTargetType.API_KEY,
+        targetId: created.id,
+        communityId: data.communityId,
+        changes: {
+          before: {},
+          after: { name: created.name, keyPrefix, scopes: created.scopes, expiresAt: created.expiresAt },
+        },
+      }, tx);
+
+      return created;
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+    return {
+      ...this.formatApiKeyResponse(apiKey),
+      key,
+    };
+  }
+
+  // The user's own keys, or every key of a community the user manages
+  async getApiKeys(userId: number, filters: ApiKeyFilters = {}): Promise<ApiKeyResponse[]> {
+    if (filters.communityId !== undefined) {
+      await this.assertCommunityManager(filters.communityId, userId);
+    }
+
+    const apiKeys = await prisma.apiKey.findMany({
+      where: this.buildOwnerFilter(userId, filters.communityId),
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return apiKeys.map(apiKey => this.formatApiKeyResponse(apiKey));
+  }
+
+  /**
+   * Revokes a key the user owns, or a key of a community the user manages.
+   * Returns null when no such key exists.
+   */
+  async revokeApiKey(apiKeyId: number, userId: number, auditContext: AuditContext = {}): Promise<ApiKeyResponse | null> {
+    const apiKey = await prisma.apiKey.findUnique({
+      where: { id: apiKeyId },
+    });
+
+    if (!apiKey) {
+      return null;
+    }
+
+    if (apiKey.communityId !== null) {
+      const membership = await communityMembershipService.findActiveMembership(apiKey.communityId, userId, COMMUNITY_MANAGER_ROLES);
+      if (!membership) {
+        return null;
+      }
+    } else if (apiKey.userId !== userId) {
+      return null;
+    }
+
+    if (apiKey.revokedAt) {
+      throw new Error('API key is already revoked');
+    }
+
+    const revoked = await prisma.$transaction(async (tx) => {
+      const updated = await tx.apiKey.update({
+        where: { id: apiKeyId },
+        data: { revokedAt: new Date() },
+      });
+
+      await auditLogService.record(auditContext, {
+        action: AuditAction.API_KEY_REVOKED,
+        targetType: AuditTargetType.API_KEY,
+        targetId: apiKeyId,
+        communityId: apiKey.communityId ?? undefined,
+      }, tx);
+
+      return updated;
+    });
+
+    return this.formatApiKeyResponse(revoked);
+  }
+
+  /**
+   * Id of the key without the full authentication checks, so rate limiting
+   * can count a key before the auth middleware runs. Null for unknown or
+   * revoked keys.
+   */
+  async findApiKeyId(key: string): Promise<number | null> {
+    if (!key.startsWith(API_KEY_PREFIX)) {
+      return null;
+    }
+
+    const apiKey = await prisma.apiKey.findUnique({
+      where: { keyHash: hashKey(key) },
+      select: { id: true, revokedAt: true },
+    });
+
+    return apiKey && !apiKey.revokedAt ? apiKey.id : null;
+  }
+
+  /**
+   * Resolves a key sent with a request. Returns null when it is unknown,
+   * revoked or expired, when its user was deleted, or when a community key's
+   * creator no longer manages the community.
+   */
+  async authenticateApiKey(key: string, ipAddress?: string): Promise<ApiKeyPrincipal | null> {
+    if (!key.startsWith(API_KEY_PREFIX)) {
+      return null;
+    }
+
+    const apiKey = await prisma.apiKey.findUnique({
+      where: { keyHash: hashKey(key) },
+      include: { user: { select: { deletedAt: true } } },
+    });
+
+    const now = new Date();
+
+    if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= now) || apiKey.user.deletedAt) {
+      return null;
+    }
+
+    if (apiKey.communityId !== null) {
+      const membership = await communityMembershipService.findActiveMembership(apiKey.communityId, apiKey.userId, COMMUNITY_MANAGER_ROLES);
+      if (!membership) {
+        return null;
+      }
+    }
+
+    // Throttled so busy integrations do not write on every request
+    await prisma.apiKey.updateMany({
+      where: {
+        id: apiKey.id,
+        OR: [
+          { lastUsedAt: null },
+          { lastUsedAt: { lt: new Date(now.getTime() - API_KEY_LAST_USED_INTERVAL_MS) } },
+        ],
+      },
+      data: { lastUsedAt: now, lastUsedIp: ipAddress ?? null },
+    });
+
+    return {
+      apiKeyId: apiKey.id,
+      userId: apiKey.userId,
+      communityId: apiKey.communityId ?? undefined,
+      scopes: apiKey.scopes as ApiKeyScope[],
+    };
+  }
+
+  private buildOwnerFilter(userId: number, communityId: number | undefined): Prisma.ApiKeyWhereInput {
+    return communityId !== undefined ? { communityId } : { userId, communityId: null };
+  }
+
+  private async assertCommunityManager(communityId: number, userId: number): Promise<void> {
+    await communityMembershipService.assertActiveMembership(
+      communityId, userId, 'Only community owners and admins can manage community API keys', COMMUNITY_MANAGER_ROLES
+    );
+  }
+
+  private formatApiKeyResponse(apiKey: ApiKey): ApiKeyResponse {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      keyPrefix: apiKey.keyPrefix,
+      scopes: apiKey.scopes as ApiKeyScope[],
+      communityId: apiKey.communityId ?? undefined,
+      createdById: apiKey.userId,
+      expiresAt: apiKey.expiresAt || undefined,
+      lastUsedAt: apiKey.lastUsedAt || undefined,
+      lastUsedIp: apiKey.lastUsedIp || undefined,
+      revokedAt: apiKey.revokedAt || undefined,
+      createdAt: apiKey.createdAt,
+    };
+  }
+}
@@ -0,0 +1,87 @@
+import { AuditLog, Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import {
+  AuditChanges,
+  AuditContext,
+  AuditEntry,
+  AuditLogFilters,
+  AuditLogListOptions,
+  AuditLogResponse,
+  PaginatedAuditLogsResponse,
+} from '../types/auditLog';
+
+const DEFAULT_PAGE_SIZE = 50;
+
+export class AuditLogService {
+  /**
+   * Appends an entry. Pass the transaction client when the action runs in a
+   * transaction, so the entry is only kept if the action commits.
+   */
+  async record(context: AuditContext, entry: AuditEntry, client: Prisma.TransactionClient = prisma): Promise<void> {
+    await client.auditLog.create({
+      data: {
+        action: entry.action,
+        actorId: context.actorId ?? null,
+        apiKeyId: context.apiKeyId ?? null,
+        targetType: entry.targetType,
+        targetId: entry.targetId,
+        communityId: entry.communityId ?? null,
+        changes: entry.changes ? (entry.changes as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
+        ipAddress: context.ipAddress ?? null,
+        userAgent: context.userAgent ?? null,
+      },
+    });
+  }
+
+  // Newest first, cursor paginated by id
+  async getAuditLogs(filters: AuditLogFilters = {}, options: AuditLogListOptions = {}): Promise<PaginatedAuditLogsResponse> {
+    const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+
+    const entries = await prisma.auditLog.findMany({
+      where: {
+        ...(filters.action && { action: filters.action }),
+        ...(filters.actorId && { actorId: filters.actorId }),
+        ...(filters.targetType && { targetType: filters.targetType }),
+        ...(filters.targetId && { targetId: filters.targetId }),
+        ...(filters.communityId && { communityId: filters.communityId }),
+        ...((filters.from || filters.to) && {
+          createdAt: {
+            ...(filters.from && { gte: filters.from }),
+            ...(filters.to && { lte: filters.to }),
+          },
+        }),
+        ...(options.cursor && { id: { lt: options.cursor } }),
+      },
+      orderBy: { id: 'desc' },
+      take: limit + 1,
+    });
+
+    const hasMore = entries.length > limit;
+    const page = hasMore ? entries.slice(0, limit) : entries;
+
+    return {
+      data: page.map(entry => this.formatAuditLogResponse(entry)),
+      pagination: {
+        limit,
+        hasMore,
+        nextCursor: hasMore ? page[page.length - 1]?.id : undefined,
+      },
+    };
+  }
+
+  private formatAuditLogResponse(entry: AuditLog): AuditLogResponse {
+    return {
+      id: entry.id,
+      action: entry.action,
+      actorId: entry.actorId ?? undefined,
+      apiKeyId: entry.apiKeyId ?? undefined,
+      targetType: entry.targetType,
+      targetId: entry.targetId,
+      communityId: entry.communityId ?? undefined,
+      changes: (entry.changes as unknown as AuditChanges | null) ?? undefined,
+      ipAddress: entry.ipAddress ?? undefined,
+      userAgent: entry.userAgent ?? undefined,
+      createdAt: entry.createdAt,
+    };
+  }
+}
@@ -0,0 +1,165 @@
+import { createHash, randomBytes } from 'crypto';
+import { Prisma, SessionRevokeReason, User } from '@prisma/client';
+import prisma from '../lib/prisma';
+import logger from '../utils/logger';
+import { generateToken } from '../utils/jwt';
+import { AuthTokens, SessionClientInfo } from '../types/auth';
+
+// How long a session can be kept alive by refreshing, counted from login
+const REFRESH_TOKEN_EXPIRES_DAYS = parseInt(process.env['REFRESH_TOKEN_EXPIRES_DAYS'] || '30');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+// Another request exchanged the same refresh token first
+class RefreshTokenReusedError extends Error {}
+
+export class AuthSessionService {
+  // Starts a session for a freshly authenticated user
+  async createSession(user: Pick<User, 'id' | 'role'>, client: SessionClientInfo = {}): Promise<AuthTokens> {
+    const expiresAt = new Date(Date.now() + REFRESH_TOKEN_EXPIRES_DAYS * DAY_MS);
+
+    return prisma.$transaction(async (tx) => {
+      const session = await tx.authSession.create({
+        data: {
+          userId: user.id,
+          userAgent: client.userAgent ?? null,
+          ipAddress: client.ipAddress ?? null,
+          expiresAt,
+        },
+      });
+
+      return this.issueTokens(tx, user, session);
+    });
+  }
+
+  /**
+   * Exchanges a refresh token for a new token pair. Returns null when the
+   * token is unknown, expired or its session has ended. A token that was
+   * already exchanged means it leaked, so its session is revoked.
+   */
+  async refreshSession(refreshToken: string, client: SessionClientInfo = {}): Promise<AuthTokens | null> {
+    const storedToken = await prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(refreshToken) },
+      include: {
+        session: {
+          include: {
+            user: { select: { id: true, role: true } },
+          },
+        },
+      },
+    });
+
+    if (!storedToken) {
+      return null;
+    }
+
+    const { session } = storedToken;
+    const now = new Date();
+
+    if (storedToken.usedAt) {
+      await this.revokeReusedSession(session.id);
+      return null;
+    }
+
+    if (session.revokedAt || session.expiresAt <= now || storedToken.expiresAt <= now) {
+      return null;
+    }
+
+    try {
+      return await prisma.$transaction(async (tx) => {
+        // Guarded on usedAt so two concurrent refreshes cannot both succeed
+        const used = await tx.refreshToken.updateMany({
+          where: { id: storedToken.id, usedAt: null },
+          data: { usedAt: now },
+        });
+
+        if (used.count === 0) {
+          throw new RefreshTokenReusedError();
+        }
+
+        const updatedSession = await tx.authSession.update({
+          where: { id: session.id },
+          data: {
+            lastUsedAt: now,
+            ...(client.userAgent !== undefined && { userAgent: client.userAgent }),
+            ...(client.ipAddress !== undefined && { ipAddress: client.ipAddress }),
+          },
+        });
+
+        return this.issueTokens(tx, session.user, updatedSession);
+      });
+    } catch (error) {
+      if (error instanceof RefreshTokenReusedError) {
+        await this.revokeReusedSession(session.id);
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Ends one session (logout on this device). Returns false when it was already ended.
+  async revokeSession(sessionId: number, userId: number, reason: SessionRevokeReason = SessionRevokeReason.LOGOUT): Promise<boolean> {
+    const result = await prisma.authSession.updateMany({
+      where: { id: sessionId, userId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+
+    return result.count > 0;
+  }
+
+  // Ends every session of the user (logout on all devices). Returns how many were ended.
+  async revokeAllSessions(userId: number, reason: SessionRevokeReason = SessionRevokeReason.LOGOUT_ALL): Promise<number> {
+    const result = await prisma.authSession.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+
+    return result.count;
+  }
+
+  // Whether access tokens of this session are still accepted
+  async isSessionActive(sessionId: number, userId: number): Promise<boolean> {
+    const session = await prisma.authSession.findUnique({
+      where: { id: sessionId },
+      select: { userId: true, revokedAt: true, expiresAt: true },
+    });
+
+    return !!session && session.userId === userId && !session.revokedAt && session.expiresAt > new Date();
+  }
+
+  private async issueTokens(
+    tx: Prisma.TransactionClient,
+    user: Pick<User, 'id' | 'role'>,
+    session: { id: number; expiresAt: Date }
+  ): Promise<AuthTokens> {
+    const refreshToken = randomBytes(48).toString('base64url');
+
+    await tx.refreshToken.create({
+      data: {
+        sessionId: session.id,
+        tokenHash: hashToken(refreshToken),
+        expiresAt: session.expiresAt,
+      },
+    });
+
+    return {
+      token: generateToken({
+        userId: user.id,
+        role: user.role,
+        sessionId: session.id,
+      }),
+      refreshToken,
+      refreshTokenExpiresAt: session.expiresAt,
+    };
+  }
+
+  private async revokeReusedSession(sessionId: number): Promise<void> {
+    logger.warn(`Refresh token reused, revoking session ${sessionId}`);
+
+    await prisma.authSession.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: SessionRevokeReason.TOKEN_REUSE },
+    });
+  }
+}
@@ -0,0 +1,253 @@
+import { Prisma, AuditAction, AuditTargetType, BusinessVerificationStatus } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { formatBusinessRegistrationNumber } from '../utils/businessRegistration';
+import { AuditLogService } from './auditLogService';
+import { AuditContext } from '../types/auditLog';
+import { formatDateOnly, getKstToday, parseDateOnly } from '../utils/workSchedule';
+import {
+  BusinessVerificationFilters,
+  BusinessVerificationResponse,
+  CreateBusinessVerificationRequest,
+  ReviewBusinessVerificationRequest,
+} from '../types/businessVerification';
+
+const auditLogService = new AuditLogService();
+
+const businessVerificationInclude = {
+  user: {
+    select: {
+      id: true,
+      name: true,
+      nickname: true,
+    },
+  },
+} satisfies Prisma.BusinessVerificationInclude;
+
+type BusinessVerificationWithUser = Prisma.BusinessVerificationGetPayload<{ include: typeof businessVerificationInclude }>;
+
+export class BusinessVerificationService {
+  // Starts a review. A user has at most one request waiting at a time.
+  async submitVerification(userId: number, data: CreateBusinessVerificationRequest): Promise<BusinessVerificationResponse> {
+    const openingDate = parseDateOnly(data.openingDate);
+    if (!openingDate || openingDate > getKstToday()) {
+      throw new Error('Opening date cannot be in the future');
+    }
+
+    const verification = await prisma.$transaction(async (tx) => {
+      const user = await tx.user.findUnique({
+        where: { id: userId },
+        select: { businessRegistrationNumber: true, businessVerifiedAt: true },
+      });
+
+      if (user?.businessVerifiedAt && user.businessRegistrationNumber === data.businessRegistrationNumber) {
+        throw new Error('This business registration is already verified');
+      }
+
+      const pending = await tx.businessVerification.findFirst({
+        where: { userId, status: BusinessVerificationStatus.PENDING },
+        select: { id: true },
+      });
+
+      if (pending) {
+        throw new Error('A business verification is already waiting for review');
+      }
+
+      await this.assertNotVerifiedElsewhere(tx, data.businessRegistrationNumber, userId);
+
+      return tx.businessVerification.create({
+        data: {
+          userId,
+          businessRegistrationNumber: data.businessRegistrationNumber,
+          businessName: data.businessName,
+          representativeName: data.representativeName,
+          openingDate,
+        },
+        include: businessVerificationInclude,
+      });
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+    return this.formatBusinessVerificationResponse(verification);
+  }
+
+  // The user's requests, newest first
+  async getUserVerifications(userId: number): Promise<BusinessVerificationResponse[]> {
+    const verifications = await prisma.businessVerification.findMany({
+      where: { userId },
+      include: businessVerificationInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return verifications.map(verification => this.formatBusinessVerificationResponse(verification));
+  }
+
+  // Review queue for admins, oldest first so requests are handled in order
+  async getVerifications(filters: BusinessVerificationFilters = {}): Promise<BusinessVerificationResponse[]> {
+    const verifications = await prisma.businessVerification.findMany({
+      where: {
+        ...(filters.status && { status: filters.status }),
+        ...(filters.userId && { userId: filters.userId }),
+      },
+      include: businessVerificationInclude,
+      orderBy: { createdAt: 'asc' },
+      take: 100,
+    });
+
+    return verifications.map(verification => this.formatBusinessVerificationResponse(verification));
+  }
+
+  /**
+   * Approves a waiting request and gives the user the verified badge for its
+   * number. Returns null when the request does not exist.
+   */
+  async approveVerification(
+    verificationId: number,
+    reviewerId: number,
+    data: ReviewBusinessVerificationRequest = {},
+    auditContext: AuditContext = { actorId: reviewerId }
+  ): Promise<BusinessVerificationResponse | null> {
+    const verification = await prisma.$transaction(async (tx) => {
+      const existing = await tx.businessVerification.findUnique({
+        where: { id: verificationId },
+        include: { user: { select: { deletedAt: true } } },
+      });
+
+      if (!existing) {
+        return null;
+      }
+
+      if (existing.user.deletedAt) {
+        throw new Error('The account of this request has been deleted');
+      }
+
+      await this.assertNotVerifiedElsewhere(tx, existing.businessRegistrationNumber, existing.userId);
+
+      const now = new Date();
+      await this.markReviewed(tx, verificationId, BusinessVerificationStatus.APPROVED, reviewerId, data.note, now);
+
+      await tx.user.update({
+        where: { id: existing.userId },
+        data: {
+          businessRegistrationNumber: existing.businessRegistrationNumber,
+          businessVerifiedAt: now,
+        },
+      });
+
+      await auditLogService.record(auditContext, {
+        action: AuditAction.BUSINESS_VERIFICATION_APPROVED,
+        targetType: AuditTargetType.BUSINESS_VERIFICATION,
+        targetId: verificationId,
+        changes: {
+          before: { status: BusinessVerificationStatus.PENDING },
+          after: { status: BusinessVerificationStatus.APPROVED, userId: existing.userId, reviewNote: data.note ?? null },
+        },
+      }, tx);
+
+      return tx.businessVerification.findUniqueOrThrow({
+        where: { id: verificationId },
+        include: businessVerificationInclude,
+      });
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+    return verification ? this.formatBusinessVerificationResponse(verification) : null;
+  }
+
+  // Rejects a waiting request; the note tells the user what to fix
+  async rejectVerification(
+    verificationId: number,
+    reviewerId: number,
+    data: ReviewBusinessVerificationRequest,
+    auditContext: AuditContext = { actorId: reviewerId }
+  ): Promise<BusinessVerificationResponse | null> {
+    const existing = await prisma.businessVerification.findUnique({
+      where: { id: verificationId },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return null;
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await this.markReviewed(tx, verificationId, BusinessVerificationStatus.REJECTED, reviewerId, data.note, new Date());
+
+      await auditLogService.record(auditContext, {
+        action: AuditAction.BUSINESS_VERIFICATION_REJECTED,
+        targetType: AuditTargetType.BUSINESS_VERIFICATION,
+        targetId: verificationId,
+        changes: {
+          before: { status: BusinessVerificationStatus.PENDING },
+          after: { status: BusinessVerificationStatus.REJECTED, reviewNote: data.note ?? null },
+        },
+      }, tx);
+    });
+
+    const verification = await prisma.businessVerification.findUniqueOrThrow({
+      where: { id: verificationId },
+      include: businessVerificationInclude,
+    });
+
+    return this.formatBusinessVerificationResponse(verification);
+  }
+
+  // Guarded on PENDING so a request is only ever decided once
+  private async markReviewed(
+    client: Prisma.TransactionClient,
+    verificationId: number,
+    status: BusinessVerificationStatus,
+    reviewerId: number,
+    note: string | undefined,
+    reviewedAt: Date
+  ): Promise<void> {
+    const updated = await client.businessVerification.updateMany({
+      where: { id: verificationId, status: BusinessVerificationStatus.PENDING },
+      data: {
+        status,
+        reviewNote: note ?? null,
+        reviewedById: reviewerId,
+        reviewedAt,
+      },
+    });
+
+    if (updated.count === 0) {
+      throw new Error('Only pending business verifications can be reviewed');
+    }
+  }
+
+  // One business registration shows the badge on one account only
+  private async assertNotVerifiedElsewhere(client: Prisma.TransactionClient, businessRegistrationNumber: string, userId: number): Promise<void> {
+    const verifiedUser = await client.user.findFirst({
+      where: {
+        id: { not: userId },
+        businessRegistrationNumber,
+        businessVerifiedAt: { not: null },
+        deletedAt: null,
+      },
+      select: { id: true },
+    });
+
+    if (verifiedUser) {
+      throw new Error('This business registration is already verified for another account');
+    }
+  }
+
+  private formatBusinessVerificationResponse(verification: BusinessVerificationWithUser): BusinessVerificationResponse {
+    return {
+      id: verification.id,
+      userId: verification.userId,
+      businessRegistrationNumber: formatBusinessRegistrationNumber(verification.businessRegistrationNumber),
+      businessName: verification.businessName,
+      representativeName: verification.representativeName,
+      openingDate: formatDateOnly(verification.openingDate),
+      status: verification.status,
+      reviewNote: verification.reviewNote || undefined,
+      reviewedAt: verification.reviewedAt || undefined,
+      createdAt: verification.createdAt,
+      updatedAt: verification.updatedAt,
+      user: {
+        id: verification.user.id,
+        name: verification.user.name || undefined,
+        nickname: verification.user.nickname || undefined,
+      },
+    };
+  }
+}
@@ -0,0 +1,358 @@
+import { AuditAction, AuditTargetType, CommunityComment, CommunityMember, CommunityPost, CommunityReactionType, Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { CommunityMembershipService } from './communityMembershipService';
+import { AuditLogService } from './auditLogService';
+import { AuditContext } from '../types/auditLog';
+import { COMMUNITY_MODERATOR_ROLES } from '../constants/communityRoles';
+import {
+  CommunityBoardListOptions,
+  CommunityCommentResponse,
+  CreateCommunityCommentRequest,
+  PaginatedCommunityCommentsResponse,
+  ReactionCounts,
+  UpdateCommunityCommentRequest,
+} from '../types/communityPost';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+const communityMembershipService = new CommunityMembershipService();
+const auditLogService = new AuditLogService();
+
+// Author and the viewer's own reaction
+const buildCommentInclude = (userId: number) => ({
+  author: { select: { id: true, name: true, nickname: true } },
+  reactions: { where: { userId }, select: { type: true } },
+}) satisfies Prisma.CommunityCommentInclude;
+
+type CommentWithRelations = Prisma.CommunityCommentGetPayload<{ include: ReturnType<typeof buildCommentInclude> }>;
+
+export class CommunityCommentService {
+  /**
+   * Top-level comments of a post, oldest first, each with all of its
+   * replies. Returns null when the community has no such post.
+   */
+  async getComments(
+    communityId: number,
+    postId: number,
+    userId: number,
+    options: CommunityBoardListOptions = {}
+  ): Promise<PaginatedCommunityCommentsResponse | null> {
+    await this.assertMember(communityId, userId);
+
+    const post = await this.findPost(communityId, postId);
+
+    if (!post) {
+      return null;
+    }
+
+    const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+    const include = buildCommentInclude(userId);
+
+    // Fetch one extra row to know whether another page exists
+    const comments = await prisma.communityComment.findMany({
+      where: { postId, parentId: null },
+      include: {
+        ...include,
+        replies: { include, orderBy: { id: 'asc' } },
+      },
+      orderBy: { id: 'asc' },
+      take: limit + 1,
+      ...(options.cursor && {
+        cursor: { id: options.cursor },
+        skip: 1,
+      }),
+    });
+
+    const hasMore = comments.length > limit;
+    const page = hasMore ? comments.slice(0, limit) : comments;
+    const reactionCounts = await this.countReactions(
+      page.flatMap(comment => [comment.id, ...comment.replies.map(reply => reply.id)])
+    );
+
+    return {
+      data: page.map(comment => ({
+        ...this.formatCommentResponse(comment, reactionCounts.get(comment.id) ?? {}),
+        replies: comment.replies.map(reply => this.formatCommentResponse(reply, reactionCounts.get(reply.id) ?? {})),
+      })),
+      pagination: {
+        limit,
+        hasMore,
+        nextCursor: hasMore ? page[page.length - 1]?.id : undefined,
+      },
+    };
+  }
+
+  /**
+   * Comments on a post, or replies to a comment with parentId. A reply to a
+   * reply is attached to the same top-level comment. Locked posts and
+   * archived communities take no new comments. Returns null when the
+   * community has no such post.
+   */
+  async createComment(
+    communityId: number,
+    postId: number,
+    userId: number,
+    data: CreateCommunityCommentRequest
+  ): Promise<CommunityCommentResponse | null> {
+    await this.assertMember(communityId, userId);
+    await this.assertNotArchived(communityId);
+    await communityMembershipService.assertNotMuted(communityId, userId);
+
+    const post = await this.findPost(communityId, postId);
+
+    if (!post) {
+      return null;
+    }
+
+    if (post.isLocked) {
+      throw new Error('This post is locked and does not accept new comments');
+    }
+
+    let parentId: number | null = null;
+
+    if (data.parentId !== undefined) {
+      const parent = await prisma.communityComment.findFirst({
+        where: { id: data.parentId, postId },
+        select: { id: true, parentId: true, deletedAt: true },
+      });
+
+      if (!parent) {
+        throw new Error('Parent comment not found');
+      }
+
+      if (parent.deletedAt) {
+        throw new Error('Cannot reply to a deleted comment');
+      }
+
+      parentId = parent.parentId ?? parent.id;
+    }
+
+    const comment = await prisma.communityComment.create({
+      data: {
+        postId,
+        authorId: userId,
+        parentId,
+        content: data.content,
+      },
+      include: buildCommentInclude(userId),
+    });
+
+    return this.formatCommentResponse(comment, {});
+  }
+
+  // Only the author edits a comment. Returns null when the post has no such comment.
+  async updateComment(
+    communityId: number,
+    postId: number,
+    commentId: number,
+    userId: number,
+    data: UpdateCommunityCommentRequest
+  ): Promise<CommunityCommentResponse | null> {
+    await this.assertMember(communityId, userId);
+    await this.assertNotArchived(communityId);
+
+    const comment = await this.findComment(communityId, postId, commentId);
+
+    if (!comment || comment.deletedAt) {
+      return null;
+    }
+
+    if (comment.authorId !== userId) {
+      throw new Error('Only the author can edit this comment');
+    }
+
+    await prisma.communityComment.update({
+      where: { id: commentId },
+      data: { content: data.content },
+    });
+
+    return this.findCommentResponse(commentId, userId);
+  }
+
+  /**
+   * Deletes a comment. Authors delete their own comments, owners, admins and
+   * moderators any comment; the latter is audited. A comment with replies
+   * stays as a placeholder until its last reply is gone.
+   * Returns false when the post has no such comment.
+   */
+  async deleteComment(
+    communityId: number,
+    postId: number,
+    commentId: number,
+    userId: number,
+    auditContext: AuditContext = {}
+  ): Promise<boolean> {
+    const membership = await this.assertMember(communityId, userId);
+
+    const comment = await this.findComment(communityId, postId, commentId);
+
+    if (!comment || comment.deletedAt) {
+      return false;
+    }
+
+    const isAuthor = comment.authorId === userId;
+
+    if (!isAuthor && !COMMUNITY_MODERATOR_ROLES.includes(membership.role)) {
+      throw new Error('Only the author or a moderator can delete this comment');
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const replyCount = await tx.communityComment.count({ where: { parentId: commentId } });
+
+      if (replyCount > 0) {
+        await tx.communityComment.update({
+          where: { id: commentId },
+          data: { deletedAt: new Date() },
+        });
+        await tx.communityCommentReaction.deleteMany({ where: { commentId } });
+      } else {
+        await tx.communityComment.delete({ where: { id: commentId } });
+
+        // The last reply of a deleted comment takes the placeholder with it
+        if (comment.parentId !== null) {
+          await tx.communityComment.deleteMany({
+            where: { id: comment.parentId, deletedAt: { not: null }, replies: { none: {} } },
+          });
+        }
+      }
+
+      if (!isAuthor) {
+        await auditLogService.record(auditContext, {
+          action: AuditAction.COMMUNITY_COMMENT_DELETED,
+          targetType: AuditTargetType.COMMUNITY_COMMENT,
+          targetId: commentId,
+          communityId,
+          changes: { before: { postId, content: comment.content, authorId: comment.authorId }, after: {} },
+        }, tx);
+      }
+    });
+
+    return true;
+  }
+
+  // Sets the user's reaction, replacing an earlier one. Returns null when the post has no such comment.
+  async setReaction(
+    communityId: number,
+    postId: number,
+    commentId: number,
+    userId: number,
+    type: CommunityReactionType
+  ): Promise<CommunityCommentResponse | null> {
+    await this.assertMember(communityId, userId);
+
+    const comment = await this.findComment(communityId, postId, commentId);
+
+    if (!comment || comment.deletedAt) {
+      return null;
+    }
+
+    await prisma.communityCommentReaction.upsert({
+      where: { commentId_userId: { commentId, userId } },
+      create: { commentId, userId, type },
+      update: { type },
+    });
+
+    return this.findCommentResponse(commentId, userId);
+  }
+
+  // Returns null when the post has no such comment
+  async removeReaction(communityId: number, postId: number, commentId: number, userId: number): Promise<CommunityCommentResponse | null> {
+    await this.assertMember(communityId, userId);
+
+    const comment = await this.findComment(communityId, postId, commentId);
+
+    if (!comment) {
+      return null;
+    }
+
+    await prisma.communityCommentReaction.deleteMany({
+      where: { commentId, userId },
+    });
+
+    return this.findCommentResponse(commentId, userId);
+  }
+
+  private async assertMember(communityId: number, userId: number): Promise<CommunityMember> {
+    return communityMembershipService.assertActiveMembership(
+      communityId, userId, 'User is not a member of this community'
+    );
+  }
+
+  // Archived communities take no new or edited comments
+  private async assertNotArchived(communityId: number): Promise<void> {
+    const community = await prisma.community.findUniqueOrThrow({
+      where: { id: communityId },
+      select: { status: true },
+    });
+
+    communityMembershipService.assertNotArchived(community.status);
+  }
+
+  private async findPost(communityId: number, postId: number): Promise<CommunityPost | null> {
+    return prisma.communityPost.findFirst({
+      where: { id: postId, communityId },
+    });
+  }
+
+  // Deleted placeholders are found too; callers treat them as missing
+  private async findComment(communityId: number, postId: number, commentId: number): Promise<CommunityComment | null> {
+    return prisma.communityComment.findFirst({
+      where: { id: commentId, postId, post: { communityId } },
+    });
+  }
+
+  private async findCommentResponse(commentId: number, userId: number): Promise<CommunityCommentResponse> {
+    const comment = await prisma.communityComment.findUniqueOrThrow({
+      where: { id: commentId },
+      include: buildCommentInclude(userId),
+    });
+
+    const reactionCounts = await this.countReactions([commentId]);
+
+    return this.formatCommentResponse(comment, reactionCounts.get(commentId) ?? {});
+  }
+
+  // Reactions per type for each of the comments
+  private async countReactions(commentIds: number[]): Promise<Map<number, ReactionCounts>> {
+    const counts = new Map<number, ReactionCounts>();
+
+    if (commentIds.length === 0) {
+      return counts;
+    }
+
+    const groups = await prisma.communityCommentReaction.groupBy({
+      by: ['commentId', 'type'],
+      where: { commentId: { in: commentIds } },
+      _count: { _all: true },
+    });
+
+    for (const group of groups) {
+      const commentCounts = counts.get(group.commentId) ?? {};
+      commentCounts[group.type] = group._count._all;
+      counts.set(group.commentId, commentCounts);
+    }
+
+    return counts;
+  }
+
+  private formatCommentResponse(comment: CommentWithRelations, reactionCounts: ReactionCounts): CommunityCommentResponse {
+    const isDeleted = comment.deletedAt !== null;
+
+    return {
+      id: comment.id,
+      postId: comment.postId,
+      parentId: comment.parentId ?? undefined,
+      content: isDeleted ? undefined : comment.content,
+      isDeleted,
+      author: isDeleted ? undefined : {
+        id: comment.author.id,
+        name: comment.author.name || undefined,
+        nickname: comment.author.nickname || undefined,
+      },
+      reactionCounts,
+      myReaction: comment.reactions[0]?.type,
+      createdAt: comment.createdAt,
+      updatedAt: comment.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,392 @@
+import { randomBytes } from 'crypto';
+import { CommunityInvitationStatus, CommunityInviteLink, CommunityRole, Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { CommunityMembershipService } from './communityMembershipService';
+import { COMMUNITY_MANAGER_ROLES, COMMUNITY_MODERATOR_ROLES } from '../constants/communityRoles';
+import { COMMUNITY_INVITATION_EXPIRES_DAYS, MAX_ACTIVE_INVITE_LINKS } from '../constants/communityInvitations';
+import {
+  CommunityInvitationResponse,
+  CommunityInviteLinkResponse,
+  CreateCommunityInvitationRequest,
+  CreateInviteLinkRequest,
+} from '../types/communityInvitation';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const communityMembershipService = new CommunityMembershipService();
+
+const userSummarySelect = {
+  id: true,
+  name: true,
+  nickname: true,
+} satisfies Prisma.UserSelect;
+
+const invitationInclude = {
+  community: { select: { id: true, title: true, slug: true, isPrivate: true } },
+  invitee: { select: userSummarySelect },
+  invitedBy: { select: userSummarySelect },
+} satisfies Prisma.CommunityInvitationInclude;
+
+type InvitationWithRelations = Prisma.CommunityInvitationGetPayload<{ include: typeof invitationInclude }>;
+
+// Links that can still be joined with at `now`
+const usableInviteLinkWhere = (now: Date): Prisma.CommunityInviteLinkWhereInput => ({
+  revokedAt: null,
+  AND: [
+    { OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] },
+    { OR: [{ maxUses: null }, { useCount: { lt: prisma.communityInviteLink.fields.maxUses } }] },
+  ],
+});
+
+export class CommunityInvitationService {
+  /**
+   * Invites one user. Nothing changes for them until they accept. Roles
+   * above MEMBER follow the rules of updateMemberRole.
+   */
+  async createInvitation(
+    communityId: number,
+    inviterId: number,
+    data: CreateCommunityInvitationRequest
+  ): Promise<CommunityInvitationResponse> {
+    const inviterMembership = await communityMembershipService.assertActiveMembership(
+      communityId, inviterId, 'Insufficient permissions to invite users', COMMUNITY_MODERATOR_ROLES
+    );
+
+    const role = data.role ?? CommunityRole.MEMBER;
+
+    if (role === CommunityRole.OWNER) {
+      throw new Error('Users cannot be invited as owner');
+    }
+
+    if (role !== CommunityRole.MEMBER && !COMMUNITY_MANAGER_ROLES.includes(inviterMembership.role)) {
+      throw new Error('Only owners and admins can invite users with a role');
+    }
+
+    if (role === CommunityRole.ADMIN && inviterMembership.role !== CommunityRole.OWNER) {
+      throw new Error('Only owners can invite users as admin');
+    }
+
+    const invitee = await prisma.user.findUnique({
+      where: { id: data.userId },
+      select: { deletedAt: true },
+    });
+
+    if (!invitee || invitee.deletedAt) {
+      throw new Error('User not found');
+    }
+
+    await communityMembershipService.assertNotBanned(communityId, data.userId);
+
+    const now = new Date();
+
+    const invitation = await prisma.$transaction(async (tx) => {
+      const membership = await tx.communityMember.findFirst({
+        where: { communityId, userId: data.userId, isActive: true },
+        select: { id: true },
+      });
+
+      if (membership) {
+        throw new Error('User is already a member of this community');
+      }
+
+      // An invitation left unanswered past its expiry is replaced
+      const pending = await tx.communityInvitation.findFirst({
+        where: { communityId, inviteeId: data.userId, status: CommunityInvitationStatus.PENDING },
+        select: { id: true, expiresAt: true },
+      });
+
+      if (pending && pending.expiresAt > now) {
+        throw new Error('User already has a pending invitation to this community');
+      }
+
+      if (pending) {
+        await tx.communityInvitation.update({
+          where: { id: pending.id },
+          data: { status: CommunityInvitationStatus.REVOKED },
+        });
+      }
+
+      const expiresInDays = data.expiresInDays ?? COMMUNITY_INVITATION_EXPIRES_DAYS;
+
+      return tx.communityInvitation.create({
+        data: {
+          communityId,
+          inviteeId: data.userId,
+          invitedById: inviterId,
+          role,
+          expiresAt: new Date(now.getTime() + expiresInDays * DAY_MS),
+        },
+        include: invitationInclude,
+      });
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+    return this.formatInvitationResponse(invitation);
+  }
+
+  // Invitations of the community still waiting for an answer
+  async getCommunityInvitations(communityId: number, userId: number): Promise<CommunityInvitationResponse[]> {
+    await communityMembershipService.assertActiveMembership(
+      communityId, userId, 'Insufficient permissions to view invitations', COMMUNITY_MODERATOR_ROLES
+    );
+
+    const invitations = await prisma.communityInvitation.findMany({
+      where: { communityId, status: CommunityInvitationStatus.PENDING, expiresAt: { gt: new Date() } },
+      include: invitationInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return invitations.map(invitation => this.formatInvitationResponse(invitation));
+  }
+
+  // Invitations waiting for the user to accept or decline
+  async getMyInvitations(userId: number): Promise<CommunityInvitationResponse[]> {
+    const invitations = await prisma.communityInvitation.findMany({
+      where: { inviteeId: userId, status: CommunityInvitationStatus.PENDING, expiresAt: { gt: new Date() } },
+      include: invitationInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return invitations.map(invitation => this.formatInvitationResponse(invitation));
+  }
+
+  // Withdraws a pending invitation. Returns null when the community has no such invitation.
+  async revokeInvitation(communityId: number, invitationId: number, userId: number): Promise<CommunityInvitationResponse | null> {
+    await communityMembershipService.assertActiveMembership(
+      communityId, userId, 'Insufficient permissions to revoke invitations', COMMUNITY_MODERATOR_ROLES
+    );
+
+    const invitation = await prisma.communityInvitation.findFirst({
+      where: { id: invitationId, communityId },
+      select: { id: true },
+    });
+
+    if (!invitation) {
+      return null;
+    }
+
+    await this.markResponded(prisma, invitationId, CommunityInvitationStatus.REVOKED, null);
+
+    return this.findInvitationResponse(invitationId);
+  }
+
+  /**
+   * Accepts an invitation addressed to the user and makes them a member with
+   * its role. Returns null when the user has no such invitation.
+   */
+  async acceptInvitation(invitationId: number, userId: number): Promise<CommunityInvitationResponse | null> {
+    const invitation = await prisma.communityInvitation.findFirst({
+      where: { id: invitationId, inviteeId: userId },
+    });
+
+    if (!invitation) {
+      return null;
+    }
+
+    this.assertRespondable(invitation.status, invitation.expiresAt);
+
+    // The inviter must still be allowed to invite, so a role granted through an old invitation stays legitimate
+    const inviterMembership = await communityMembershipService.findActiveMembership(
+      invitation.communityId, invitation.invitedById, COMMUNITY_MODERATOR_ROLES
+    );
+
+    if (!inviterMembership) {
+      throw new Error('This invitation is no longer valid');
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await this.markResponded(tx, invitationId, CommunityInvitationStatus.ACCEPTED, new Date());
+
+      await communityMembershipService.addMember(tx, invitation.communityId, userId, {
+        role: invitation.role,
+        invitedBy: invitation.invitedById,
+      });
+    });
+
+    return this.findInvitationResponse(invitationId);
+  }
+
+  // Returns null when the user has no such invitation
+  async declineInvitation(invitationId: number, userId: number): Promise<CommunityInvitationResponse | null> {
+    const invitation = await prisma.communityInvitation.findFirst({
+      where: { id: invitationId, inviteeId: userId },
+      select: { status: true, expiresAt: true },
+    });
+
+    if (!invitation) {
+      return null;
+    }
+
+    this.assertRespondable(invitation.status, invitation.expiresAt);
+
+    await this.markResponded(prisma, invitationId, CommunityInvitationStatus.DECLINED, new Date());
+
+    return this.findInvitationResponse(invitationId);
+  }
+
+  // Creates a shareable code. Anyone holding it can join, also when the community is private.
+  async createInviteLink(communityId: number, userId: number, data: CreateInviteLinkRequest): Promise<CommunityInviteLinkResponse> {
+    await communityMembershipService.assertActiveMembership(
+      communityId, userId, 'Insufficient permissions to create invite links', COMMUNITY_MODERATOR_ROLES
+    );
+
+    const now = new Date();
+
+    const inviteLink = await prisma.$transaction(async (tx) => {
+      const activeLinks = await tx.communityInviteLink.count({
+        where: { communityId, ...usableInviteLinkWhere(now) },
+      });
+
+      if (activeLinks >= MAX_ACTIVE_INVITE_LINKS) {
+        throw new Error(`At most ${MAX_ACTIVE_INVITE_LINKS} active invite links are allowed`);
+      }
+
+      return tx.communityInviteLink.create({
+        data: {
+          communityId,
+          code: randomBytes(9).toString('base64url'),
+          createdById: userId,
+          maxUses: data.maxUses ?? null,
+          expiresAt: data.expiresInDays !== undefined ? new Date(now.getTime() + data.expiresInDays * DAY_MS) : null,
+        },
+      });
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+    return this.formatInviteLinkResponse(inviteLink);
+  }
+
+  async getInviteLinks(communityId: number, userId: number): Promise<CommunityInviteLinkResponse[]> {
+    await communityMembershipService.assertActiveMembership(
+      communityId, userId, 'Insufficient permissions to view invite links', COMMUNITY_MODERATOR_ROLES
+    );
+
+    const inviteLinks = await prisma.communityInviteLink.findMany({
+      where: { communityId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return inviteLinks.map(inviteLink => this.formatInviteLinkResponse(inviteLink));
+  }
+
+  // Returns null when the community has no such link
+  async revokeInviteLink(communityId: number, inviteLinkId: number, userId: number): Promise<CommunityInviteLinkResponse | null> {
+    await communityMembershipService.assertActiveMembership(
+      communityId, userId, 'Insufficient permissions to revoke invite links', COMMUNITY_MODERATOR_ROLES
+    );
+
+    const inviteLink = await prisma.communityInviteLink.findFirst({
+      where: { id: inviteLinkId, communityId },
+    });
+
+    if (!inviteLink) {
+      return null;
+    }
+
+    if (inviteLink.revokedAt) {
+      throw new Error('Invite link is already revoked');
+    }
+
+    const revoked = await prisma.communityInviteLink.update({
+      where: { id: inviteLinkId },
+      data: { revokedAt: new Date() },
+    });
+
+    return this.formatInviteLinkResponse(revoked);
+  }
+
+  // The link behind a code when it can still be joined with, null otherwise
+  async findUsableInviteLink(code: string): Promise<CommunityInviteLink | null> {
+    return prisma.communityInviteLink.findFirst({
+      where: { code, ...usableInviteLinkWhere(new Date()) },
+    });
+  }
+
+  /**
+   * Counts one use of the link behind a code, atomically so maxUses holds
+   * under concurrent joins. Run it in the transaction that adds the member.
+   */
+  async redeemInviteLink(client: Prisma.TransactionClient, code: string): Promise<CommunityInviteLink> {
+    const redeemed = await client.communityInviteLink.updateMany({
+      where: { code, ...usableInviteLinkWhere(new Date()) },
+      data: { useCount: { increment: 1 } },
+    });
+
+    if (redeemed.count === 0) {
+      throw new Error('Invite link is invalid or has expired');
+    }
+
+    return client.communityInviteLink.findUniqueOrThrow({ where: { code } });
+  }
+
+  private assertRespondable(status: CommunityInvitationStatus, expiresAt: Date): void {
+    if (status !== CommunityInvitationStatus.PENDING) {
+      throw new Error('Invitation is no longer pending');
+    }
+
+    if (expiresAt <= new Date()) {
+      throw new Error('Invitation has expired');
+    }
+  }
+
+  // Guarded on PENDING so an invitation is only ever answered once
+  private async markResponded(
+    client: Prisma.TransactionClient,
+    invitationId: number,
+    status: CommunityInvitationStatus,
+    respondedAt: Date | null
+  ): Promise<void> {
+    const updated = await client.communityInvitation.updateMany({
+      where: { id: invitationId, status: CommunityInvitationStatus.PENDING },
+      data: { status, respondedAt },
+    });
+
+    if (updated.count === 0) {
+      throw new Error('Invitation is no longer pending');
+    }
+  }
+
+  private async findInvitationResponse(invitationId: number): Promise<CommunityInvitationResponse> {
+    const invitation = await prisma.communityInvitation.findUniqueOrThrow({
+      where: { id: invitationId },
+      include: invitationInclude,
+    });
+
+    return this.formatInvitationResponse(invitation);
+  }
+
+  private formatInvitationResponse(invitation: InvitationWithRelations): CommunityInvitationResponse {
+    return {
+      id: invitation.id,
+      communityId: invitation.communityId,
+      role: invitation.role,
+      status: invitation.status,
+      expiresAt: invitation.expiresAt,
+      respondedAt: invitation.respondedAt || undefined,
+      createdAt: invitation.createdAt,
+      community: invitation.community,
+      invitee: {
+        id: invitation.invitee.id,
+        name: invitation.invitee.name || undefined,
+        nickname: invitation.invitee.nickname || undefined,
+      },
+      invitedBy: {
+        id: invitation.invitedBy.id,
+        name: invitation.invitedBy.name || undefined,
+        nickname: invitation.invitedBy.nickname || undefined,
+      },
+    };
+  }
+
+  private formatInviteLinkResponse(inviteLink: CommunityInviteLink): CommunityInviteLinkResponse {
+    return {
+      id: inviteLink.id,
+      communityId: inviteLink.communityId,
+      code: inviteLink.code,
+      maxUses: inviteLink.maxUses ?? undefined,
+      useCount: inviteLink.useCount,
+      expiresAt: inviteLink.expiresAt || undefined,
+      revokedAt: inviteLink.revokedAt || undefined,
+      createdById: inviteLink.createdById,
+      createdAt: inviteLink.createdAt,
+    };
+  }
+}
@@ -0,0 +1,234 @@
+import { CommunityJoinRequestStatus, Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { CommunityMembershipService } from './communityMembershipService';
+import { COMMUNITY_MODERATOR_ROLES } from '../constants/communityRoles';
+import {
+  CommunityJoinRequestResponse,
+  CreateJoinRequestRequest,
+  JoinRequestFilters,
+  ReviewJoinRequestRequest,
+} from '../types/communityInvitation';
+
+const communityMembershipService = new CommunityMembershipService();
+
+const joinRequestInclude = {
+  community: { select: { id: true, title: true, slug: true, isPrivate: true } },
+  user: { select: { id: true, name: true, nickname: true } },
+} satisfies Prisma.CommunityJoinRequestInclude;
+
+type JoinRequestWithRelations = Prisma.CommunityJoinRequestGetPayload<{ include: typeof joinRequestInclude }>;
+
+export class CommunityJoinRequestService {
+  // Asks to join a private community. A user has at most one request waiting per community.
+  async createJoinRequest(communityId: number, userId: number, data: CreateJoinRequestRequest): Promise<CommunityJoinRequestResponse> {
+    const community = await prisma.community.findUnique({
+      where: { id: communityId },
+      select: { isPrivate: true, status: true },
+    });
+
+    if (!community) {
+      throw new Error('Community not found');
+    }
+
+    communityMembershipService.assertNotArchived(community.status);
+    await communityMembershipService.assertNotBanned(communityId, userId);
+
+    if (!community.isPrivate) {
+      throw new Error('This community is public. Join it directly instead.');
+    }
+
+    const joinRequest = await prisma.$transaction(async (tx) => {
+      const membership = await tx.communityMember.findFirst({
+        where: { communityId, userId, isActive: true },
+        select: { id: true },
+      });
+
+      if (membership) {
+        throw new Error('User is already a member of this community');
+      }
+
+      const pending = await tx.communityJoinRequest.findFirst({
+        where: { communityId, userId, status: CommunityJoinRequestStatus.PENDING },
+        select: { id: true },
+      });
+
+      if (pending) {
+        throw new Error('A join request is already waiting for review');
+      }
+
+      return tx.communityJoinRequest.create({
+        data: {
+          communityId,
+          userId,
+          message: data.message ?? null,
+        },
+        include: joinRequestInclude,
+      });
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+    return this.formatJoinRequestResponse(joinRequest);
+  }
+
+  // Review queue of the community, oldest first so requests are handled in order
+  async getJoinRequests(communityId: number, userId: number, filters: JoinRequestFilters = {}): Promise<CommunityJoinRequestResponse[]> {
+    await communityMembershipService.assertActiveMembership(
+      communityId, userId, 'Insufficient permissions to view join requests', COMMUNITY_MODERATOR_ROLES
+    );
+
+    const joinRequests = await prisma.communityJoinRequest.findMany({
+      where: {
+        communityId,
+        ...(filters.status && { status: filters.status }),
+      },
+      include: joinRequestInclude,
+      orderBy: { createdAt: 'asc' },
+      take: 100,
+    });
+
+    return joinRequests.map(joinRequest => this.formatJoinRequestResponse(joinRequest));
+  }
+
+  // The user's requests, newest first
+  async getMyJoinRequests(userId: number): Promise<CommunityJoinRequestResponse[]> {
+    const joinRequests = await prisma.communityJoinRequest.findMany({
+      where: { userId },
+      include: joinRequestInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return joinRequests.map(joinRequest => this.formatJoinRequestResponse(joinRequest));
+  }
+
+  // Withdraws the user's own waiting request. Returns null when there is no such request.
+  async cancelJoinRequest(joinRequestId: number, userId: number): Promise<CommunityJoinRequestResponse | null> {
+    const joinRequest = await prisma.communityJoinRequest.findFirst({
+      where: { id: joinRequestId, userId },
+      select: { id: true },
+    });
+
+    if (!joinRequest) {
+      return null;
+    }
+
+    const canceled = await prisma.communityJoinRequest.updateMany({
+      where: { id: joinRequestId, status: CommunityJoinRequestStatus.PENDING },
+      data: { status: CommunityJoinRequestStatus.CANCELED },
+    });
+
+    if (canceled.count === 0) {
+      throw new Error('Only pending join requests can be canceled');
+    }
+
+    return this.findJoinRequestResponse(joinRequestId);
+  }
+
+  /**
+   * Approves a waiting request and makes the user a member, subject to
+   * maxMembers. Returns null when the community has no such request.
+   */
+  async approveJoinRequest(
+    communityId: number,
+    joinRequestId: number,
+    reviewerId: number,
+    data: ReviewJoinRequestRequest = {}
+  ): Promise<CommunityJoinRequestResponse | null> {
+    await communityMembershipService.assertActiveMembership(
+      communityId, reviewerId, 'Insufficient permissions to review join requests', COMMUNITY_MODERATOR_ROLES
+    );
+
+    const joinRequest = await prisma.communityJoinRequest.findFirst({
+      where: { id: joinRequestId, communityId },
+      include: { user: { select: { deletedAt: true } } },
+    });
+
+    if (!joinRequest) {
+      return null;
+    }
+
+    if (joinRequest.user.deletedAt) {
+      throw new Error('The account of this request has been deleted');
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await this.markReviewed(tx, joinRequestId, CommunityJoinRequestStatus.APPROVED, reviewerId, data.note);
+      await communityMembershipService.addMember(tx, communityId, joinRequest.userId);
+    });
+
+    return this.findJoinRequestResponse(joinRequestId);
+  }
+
+  // Returns null when the community has no such request
+  async rejectJoinRequest(
+    communityId: number,
+    joinRequestId: number,
+    reviewerId: number,
+    data: ReviewJoinRequestRequest = {}
+  ): Promise<CommunityJoinRequestResponse | null> {
+    await communityMembershipService.assertActiveMembership(
+      communityId, reviewerId, 'Insufficient permissions to review join requests', COMMUNITY_MODERATOR_ROLES
+    );
+
+    const joinRequest = await prisma.communityJoinRequest.findFirst({
+      where: { id: joinRequestId, communityId },
+      select: { id: true },
+    });
+
+    if (!joinRequest) {
+      return null;
+    }
+
+    await this.markReviewed(prisma, joinRequestId, CommunityJoinRequestStatus.REJECTED, reviewerId, data.note);
+
+    return this.findJoinRequestResponse(joinRequestId);
+  }
+
+  // Guarded on PENDING so a request is only ever decided once
+  private async markReviewed(
+    client: Prisma.TransactionClient,
+    joinRequestId: number,
+    status: CommunityJoinRequestStatus,
+    reviewerId: number,
+    note: string | undefined
+  ): Promise<void> {
+    const updated = await client.communityJoinRequest.updateMany({
+      where: { id: joinRequestId, status: CommunityJoinRequestStatus.PENDING },
+      data: {
+        status,
+        reviewNote: note ?? null,
+        reviewedById: reviewerId,
+        reviewedAt: new Date(),
+      },
+    });
+
+    if (updated.count === 0) {
+      throw new Error('Only pending join requests can be reviewed');
+    }
+  }
+
+  private async findJoinRequestResponse(joinRequestId: number): Promise<CommunityJoinRequestResponse> {
+    const joinRequest = await prisma.communityJoinRequest.findUniqueOrThrow({
+      where: { id: joinRequestId },
+      include: joinRequestInclude,
+    });
+
+    return this.formatJoinRequestResponse(joinRequest);
+  }
+
+  private formatJoinRequestResponse(joinRequest: JoinRequestWithRelations): CommunityJoinRequestResponse {
+    return {
+      id: joinRequest.id,
+      communityId: joinRequest.communityId,
+      status: joinRequest.status,
+      message: joinRequest.message || undefined,
+      reviewNote: joinRequest.reviewNote || undefined,
+      reviewedAt: joinRequest.reviewedAt || undefined,
+      createdAt: joinRequest.createdAt,
+      community: joinRequest.community,
+      user: {
+        id: joinRequest.user.id,
+        name: joinRequest.user.name || undefined,
+        nickname: joinRequest.user.nickname || undefined,
+      },
+    };
+  }
+}
@@ -0,0 +1,186 @@
+import {
+  CommunityInvitationStatus,
+  CommunityJoinRequestStatus,
+  CommunityMember,
+  CommunityModerationAction,
+  CommunityModerationType,
+  CommunityRole,
+  CommunityStatus,
+  Prisma,
+} from '@prisma/client';
+import prisma from '../lib/prisma';
+
+/**
+ * Membership lookups behind every community-scoped permission check, so the
+ * services and the route middleware agree on who may do what.
+ */
+export class CommunityMembershipService {
+  // Active membership of the user, optionally limited to the given roles
+  async findActiveMembership(
+    communityId: number,
+    userId: number,
+    roles?: readonly CommunityRole[]
+  ): Promise<CommunityMember | null> {
+    return prisma.communityMember.findFirst({
+      where: {
+        communityId,
+        userId,
+        isActive: true,
+        ...(roles && { role: { in: [...roles] } }),
+      },
+    });
+  }
+
+  // Same as findActiveMembership, but throws `message` when there is none
+  async assertActiveMembership(
+    communityId: number,
+    userId: number,
+    message: string,
+    roles?: readonly CommunityRole[]
+  ): Promise<CommunityMember> {
+    const membership = await this.findActiveMembership(communityId, userId, roles);
+
+    if (!membership) {
+      throw new Error(message);
+    }
+
+    return membership;
+  }
+
+  /**
+   * Makes the user an active member, reactivating an old membership. Must
+   * run in a transaction: the community is locked so concurrent joins
+   * cannot push it past maxMembers. Archived communities and banned users
+   * are refused. Open invitations and join requests of the user for the
+   * community are closed.
+   */
+  async addMember(
+    client: Prisma.TransactionClient,
+    communityId: number,
+    userId: number,
+    options: { role?: CommunityRole | undefined; invitedBy?: number | undefined } = {}
+  ): Promise<CommunityMember> {
+    const community = await this.lockCommunity(client, communityId);
+
+    if (!community) {
+      throw new Error('Community not found');
+    }
+
+    this.assertNotArchived(community.status);
+    await this.assertNotBanned(communityId, userId, client);
+
+    const existingMembership = await client.communityMember.findUnique({
+      where: { userId_communityId: { userId, communityId } },
+    });
+
+    if (existingMembership?.isActive) {
+      throw new Error('User is already a member of this community');
+    }
+
+    if (community.maxMembers !== null) {
+      const memberCount = await client.communityMember.count({
+        where: { communityId, isActive: true },
+      });
+
+      if (memberCount >= community.maxMembers) {
+        throw new Error('Community has reached maximum member limit');
+      }
+    }
+
+    const data = {
+      role: options.role ?? CommunityRole.MEMBER,
+      invitedBy: options.invitedBy ?? null,
+      isActive: true,
+    };
+
+    const membership = existingMembership
+      ? await client.communityMember.update({
+        where: { id: existingMembership.id },
+        data: { ...data, joinedAt: new Date() },
+      })
+      : await client.communityMember.create({
+        data: { ...data, userId, communityId },
+      });
+
+    await client.communityInvitation.updateMany({
+      where: { communityId, inviteeId: userId, status: CommunityInvitationStatus.PENDING },
+      data: { status: CommunityInvitationStatus.REVOKED },
+    });
+    await client.communityJoinRequest.updateMany({
+      where: { communityId, userId, status: CommunityJoinRequestStatus.PENDING },
+      data: { status: CommunityJoinRequestStatus.CANCELED },
+    });
+
+    return membership;
+  }
+
+  /**
+   * Locks the community row FOR UPDATE until the transaction ends, so
+   * membership changes of one community run one at a time. Returns null
+   * when the community does not exist.
+   */
+  async lockCommunity(
+    client: Prisma.TransactionClient,
+    communityId: number
+  ): Promise<{ maxMembers: number | null; status: CommunityStatus } | null> {
+    const [community] = await client.$queryRaw<{ maxMembers: number | null; status: CommunityStatus }[]>`
+      SELECT "maxMembers", "status" FROM "community" WHERE "id" = ${communityId} FOR UPDATE
+    `;
+
+    return community ?? null;
+  }
+
+  // Archived communities are read-only
+  assertNotArchived(status: CommunityStatus): void {
+    if (status === CommunityStatus.ARCHIVED) {
+      throw new Error('This community is archived');
+    }
+  }
+
+  // The user's ban or mute in the community that is neither lifted nor expired
+  async findActiveSanction(
+    communityId: number,
+    userId: number,
+    type: CommunityModerationType,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<CommunityModerationAction | null> {
+    return client.communityModerationAction.findFirst({
+      where: {
+        communityId,
+        userId,
+        type,
+        liftedAt: null,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+      },
+      orderBy: { id: 'desc' },
+    });
+  }
+
+  async assertNotBanned(communityId: number, userId: number, client: Prisma.TransactionClient = prisma): Promise<void> {
+    const ban = await this.findActiveSanction(communityId, userId, CommunityModerationType.BAN, client);
+
+    if (ban) {
+      throw new Error('User is banned from this community');
+    }
+  }
+
+  // Muted members cannot create job posts, board posts or comments
+  async assertNotMuted(communityId: number, userId: number): Promise<void> {
+    const mute = await this.findActiveSanction(communityId, userId, CommunityModerationType.MUTE);
+
+    if (mute) {
+      throw new Error(mute.expiresAt
+        ? `You are muted in this community until ${mute.expiresAt.toISOString()}`
+        : 'You are muted in this community');
+    }
+  }
+
+  async getActiveCommunityIds(userId: number): Promise<number[]> {
+    const memberships = await prisma.communityMember.findMany({
+      where: { userId, isActive: true },
+      select: { communityId: true },
+    });
+
+    return memberships.map(membership => membership.communityId);
+  }
+}
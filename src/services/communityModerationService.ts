@@ -0,0 +1,382 @@
+import {
+  AuditAction,
+  AuditTargetType,
+  CommunityInvitationStatus,
+  CommunityJoinRequestStatus,
+  CommunityMember,
+  CommunityModerationType,
+  CommunityRole,
+  OwnershipTransferStatus,
+  Prisma,
+} from '@prisma/client';
+import prisma from '../lib/prisma';
+import { CommunityMembershipService } from './communityMembershipService';
+import { AuditLogService } from './auditLogService';
+import { AuditContext } from '../types/auditLog';
+import { COMMUNITY_MANAGER_ROLES, COMMUNITY_MODERATOR_ROLES, COMMUNITY_ROLE_RANK } from '../constants/communityRoles';
+import { CommunityModerationActionResponse, SanctionMemberRequest, WarnMemberRequest } from '../types/communityModeration';
+import { CommunityUserSummary } from '../types/communityInvitation';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const communityMembershipService = new CommunityMembershipService();
+const auditLogService = new AuditLogService();
+
+const userSummarySelect = {
+  id: true,
+  name: true,
+  nickname: true,
+} satisfies Prisma.UserSelect;
+
+const moderationActionInclude = {
+  user: { select: userSummarySelect },
+  moderator: { select: userSummarySelect },
+  liftedBy: { select: userSummarySelect },
+} satisfies Prisma.CommunityModerationActionInclude;
+
+type ModerationActionWithRelations = Prisma.CommunityModerationActionGetPayload<{ include: typeof moderationActionInclude }>;
+
+/**
+ * Bans, mutes and warnings. Owners and admins ban, moderators also mute and
+ * warn, and everyone only acts on members ranked below them.
+ */
+export class CommunityModerationService {
+  /**
+   * Removes the user and keeps them from rejoining until the ban expires or
+   * is lifted. Former members and users who never joined can be banned too.
+   */
+  async banMember(
+    communityId: number,
+    moderatorId: number,
+    userId: number,
+    data: SanctionMemberRequest,
+    auditContext: AuditContext = {}
+  ): Promise<CommunityModerationActionResponse> {
+    const moderatorMembership = await communityMembershipService.assertActiveMembership(
+      communityId, moderatorId, 'Insufficient permissions to ban members', COMMUNITY_MANAGER_ROLES
+    );
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true },
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const now = new Date();
+    const expiresAt = this.resolveExpiry(now, data.durationDays);
+
+    const action = await prisma.$transaction(async (tx) => {
+      // Serializes with joins, which check for bans under the same lock
+      await communityMembershipService.lockCommunity(tx, communityId);
+
+      const membership = await tx.communityMember.findUnique({
+        where: { userId_communityId: { userId, communityId } },
+      });
+
+      this.assertOutranks(moderatorMembership, membership?.role ?? CommunityRole.MEMBER);
+
+      if (await communityMembershipService.findActiveSanction(communityId, userId, CommunityModerationType.BAN, tx)) {
+        throw new Error('User is already banned from this community');
+      }
+
+      if (membership?.isActive) {
+        await tx.communityMember.update({
+          where: { id: membership.id },
+          data: { isActive: false },
+        });
+      }
+
+      // Open invitations, join requests and ownership transfers no longer apply
+      await tx.communityInvitation.updateMany({
+        where: { communityId, inviteeId: userId, status: CommunityInvitationStatus.PENDING },
+        data: { status: CommunityInvitationStatus.REVOKED },
+      });
+      await tx.communityJoinRequest.updateMany({
+        where: { communityId, userId, status: CommunityJoinRequestStatus.PENDING },
+        data: { status: CommunityJoinRequestStatus.REJECTED, reviewedById: moderatorId, reviewedAt: now },
+      });
+      await tx.communityOwnershipTransfer.updateMany({
+        where: { communityId, toUserId: userId, status: OwnershipTransferStatus.PENDING },
+        data: { status: OwnershipTransferStatus.CANCELED, respondedAt: now },
+      });
+
+      const ban = await tx.communityModerationAction.create({
+        data: {
+          communityId,
+          userId,
+          moderatorId,
+          type: CommunityModerationType.BAN,
+          reason: data.reason ?? null,
+          expiresAt,
+        },
+        include: moderationActionInclude,
+      });
+
+      await auditLogService.record(auditContext, {
+        action: AuditAction.COMMUNITY_MEMBER_BANNED,
+        targetType: AuditTargetType.USER,
+        targetId: userId,
+        communityId,
+        changes: {
+          before: { isActive: membership?.isActive ?? false },
+          after: { isActive: false, reason: ban.reason, expiresAt: ban.expiresAt },
+        },
+      }, tx);
+
+      return ban;
+    });
+
+    return this.formatActionResponse(action);
+  }
+
+  // Lifts the ban in effect. Returns null when the user is not banned.
+  async unbanMember(
+    communityId: number,
+    moderatorId: number,
+    userId: number,
+    auditContext: AuditContext = {}
+  ): Promise<CommunityModerationActionResponse | null> {
+    const moderatorMembership = await communityMembershipService.assertActiveMembership(
+      communityId, moderatorId, 'Insufficient permissions to unban members', COMMUNITY_MANAGER_ROLES
+    );
+
+    return this.liftSanction(
+      communityId, moderatorMembership, userId, CommunityModerationType.BAN, AuditAction.COMMUNITY_MEMBER_UNBANNED, auditContext
+    );
+  }
+
+  // Keeps an active member from creating job posts, board posts and comments
+  async muteMember(
+    communityId: number,
+    moderatorId: number,
+    userId: number,
+    data: SanctionMemberRequest,
+    auditContext: AuditContext = {}
+  ): Promise<CommunityModerationActionResponse> {
+    const moderatorMembership = await communityMembershipService.assertActiveMembership(
+      communityId, moderatorId, 'Insufficient permissions to mute members', COMMUNITY_MODERATOR_ROLES
+    );
+
+    const membership = await communityMembershipService.assertActiveMembership(
+      communityId, userId, 'User is not a member of this community'
+    );
+
+    this.assertOutranks(moderatorMembership, membership.role);
+
+    const expiresAt = this.resolveExpiry(new Date(), data.durationDays);
+
+    const action = await prisma.$transaction(async (tx) => {
+      if (await communityMembershipService.findActiveSanction(communityId, userId, CommunityModerationType.MUTE, tx)) {
+        throw new Error('User is already muted in this community');
+      }
+
+      const mute = await tx.communityModerationAction.create({
+        data: {
+          communityId,
+          userId,
+          moderatorId,
+          type: CommunityModerationType.MUTE,
+          reason: data.reason ?? null,
+          expiresAt,
+        },
+        include: moderationActionInclude,
+      });
+
+      await auditLogService.record(auditContext, {
+        action: AuditAction.COMMUNITY_MEMBER_MUTED,
+        targetType: AuditTargetType.USER,
+        targetId: userId,
+        communityId,
+        changes: { before: {}, after: { reason: mute.reason, expiresAt: mute.expiresAt } },
+      }, tx);
+
+      return mute;
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+    return this.formatActionResponse(action);
+  }
+
+  // Lifts the mute in effect. Returns null when the user is not muted.
+  async unmuteMember(
+    communityId: number,
+    moderatorId: number,
+    userId: number,
+    auditContext: AuditContext = {}
+  ): Promise<CommunityModerationActionResponse | null> {
+    const moderatorMembership = await communityMembershipService.assertActiveMembership(
+      communityId, moderatorId, 'Insufficient permissions to unmute members', COMMUNITY_MODERATOR_ROLES
+    );
+
+    return this.liftSanction(
+      communityId, moderatorMembership, userId, CommunityModerationType.MUTE, AuditAction.COMMUNITY_MEMBER_UNMUTED, auditContext
+    );
+  }
+
+  async warnMember(
+    communityId: number,
+    moderatorId: number,
+    userId: number,
+    data: WarnMemberRequest,
+    auditContext: AuditContext = {}
+  ): Promise<CommunityModerationActionResponse> {
+    const moderatorMembership = await communityMembershipService.assertActiveMembership(
+      communityId, moderatorId, 'Insufficient permissions to warn members', COMMUNITY_MODERATOR_ROLES
+    );
+
+    const membership = await communityMembershipService.assertActiveMembership(
+      communityId, userId, 'User is not a member of this community'
+    );
+
+    this.assertOutranks(moderatorMembership, membership.role);
+
+    const action = await prisma.$transaction(async (tx) => {
+      const warning = await tx.communityModerationAction.create({
+        data: {
+          communityId,
+          userId,
+          moderatorId,
+          type: CommunityModerationType.WARNING,
+          reason: data.reason,
+        },
+        include: moderationActionInclude,
+      });
+
+      await auditLogService.record(auditContext, {
+        action: AuditAction.COMMUNITY_MEMBER_WARNED,
+        targetType: AuditTargetType.USER,
+        targetId: userId,
+        communityId,
+        changes: { before: {}, after: { reason: warning.reason } },
+      }, tx);
+
+      return warning;
+    });
+
+    return this.formatActionResponse(action);
+  }
+
+  // Warnings, mutes, bans and removals of one user in the community, newest first
+  async getMemberHistory(communityId: number, moderatorId: number, userId: number): Promise<CommunityModerationActionResponse[]> {
+    await communityMembershipService.assertActiveMembership(
+      communityId, moderatorId, 'Insufficient permissions to view moderation history', COMMUNITY_MODERATOR_ROLES
+    );
+
+    const actions = await prisma.communityModerationAction.findMany({
+      where: { communityId, userId },
+      include: moderationActionInclude,
+      orderBy: { id: 'desc' },
+    });
+
+    return actions.map(action => this.formatActionResponse(action));
+  }
+
+  // Bans in effect, newest first
+  async getBans(communityId: number, moderatorId: number): Promise<CommunityModerationActionResponse[]> {
+    await communityMembershipService.assertActiveMembership(
+      communityId, moderatorId, 'Insufficient permissions to view bans', COMMUNITY_MANAGER_ROLES
+    );
+
+    const bans = await prisma.communityModerationAction.findMany({
+      where: {
+        communityId,
+        type: CommunityModerationType.BAN,
+        liftedAt: null,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+      },
+      include: moderationActionInclude,
+      orderBy: { id: 'desc' },
+    });
+
+    return bans.map(ban => this.formatActionResponse(ban));
+  }
+
+  private async liftSanction(
+    communityId: number,
+    moderatorMembership: CommunityMember,
+    userId: number,
+    type: CommunityModerationType,
+    auditAction: AuditAction,
+    auditContext: AuditContext
+  ): Promise<CommunityModerationActionResponse | null> {
+    const sanction = await communityMembershipService.findActiveSanction(communityId, userId, type);
+
+    if (!sanction) {
+      return null;
+    }
+
+    const membership = await prisma.communityMember.findUnique({
+      where: { userId_communityId: { userId, communityId } },
+      select: { role: true },
+    });
+
+    this.assertOutranks(moderatorMembership, membership?.role ?? CommunityRole.MEMBER);
+
+    const liftedAt = new Date();
+
+    const action = await prisma.$transaction(async (tx) => {
+      const lifted = await tx.communityModerationAction.updateMany({
+        where: { id: sanction.id, liftedAt: null },
+        data: { liftedAt, liftedById: moderatorMembership.userId },
+      });
+
+      if (lifted.count === 0) {
+        throw new Error('This sanction was already lifted');
+      }
+
+      await auditLogService.record(auditContext, {
+        action: auditAction,
+        targetType: AuditTargetType.USER,
+        targetId: userId,
+        communityId,
+        changes: { before: { expiresAt: sanction.expiresAt }, after: { liftedAt } },
+      }, tx);
+
+      return tx.communityModerationAction.findUniqueOrThrow({
+        where: { id: sanction.id },
+        include: moderationActionInclude,
+      });
+    });
+
+    return this.formatActionResponse(action);
+  }
+
+  // Owners over admins, admins over moderators and members, moderators over members
+  private assertOutranks(moderatorMembership: CommunityMember, targetRole: CommunityRole): void {
+    if (COMMUNITY_ROLE_RANK[moderatorMembership.role] <= COMMUNITY_ROLE_RANK[targetRole]) {
+      throw new Error('Cannot moderate a member with the same or a higher role');
+    }
+  }
+
+  private resolveExpiry(now: Date, durationDays: number | undefined): Date | null {
+    return durationDays !== undefined ? new Date(now.getTime() + durationDays * DAY_MS) : null;
+  }
+
+  private formatActionResponse(action: ModerationActionWithRelations): CommunityModerationActionResponse {
+    const isSanction = action.type === CommunityModerationType.BAN || action.type === CommunityModerationType.MUTE;
+
+    return {
+      id: action.id,
+      communityId: action.communityId,
+      type: action.type,
+      reason: action.reason || undefined,
+      expiresAt: action.expiresAt || undefined,
+      liftedAt: action.liftedAt || undefined,
+      inEffect: isSanction && !action.liftedAt && (!action.expiresAt || action.expiresAt > new Date()),
+      createdAt: action.createdAt,
+      user: this.formatUserSummary(action.user),
+      moderator: this.formatUserSummary(action.moderator),
+      liftedBy: action.liftedBy ? this.formatUserSummary(action.liftedBy) : undefined,
+    };
+  }
+
+  private formatUserSummary(user: { id: number; name: string | null; nickname: string | null }): CommunityUserSummary {
+    return {
+      id: user.id,
+      name: user.name || undefined,
+      nickname: user.nickname || undefined,
+    };
+  }
+}
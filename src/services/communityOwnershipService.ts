@@ -0,0 +1,312 @@
+import { AuditAction, AuditTargetType, CommunityRole, OwnershipTransferStatus, Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { CommunityMembershipService } from './communityMembershipService';
+import { AuditLogService } from './auditLogService';
+import { AuditContext } from '../types/auditLog';
+import { OWNERSHIP_TRANSFER_EXPIRES_DAYS } from '../constants/communityOwnership';
+import { OwnershipTransferResponse, RequestOwnershipTransferRequest } from '../types/communityOwnership';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const communityMembershipService = new CommunityMembershipService();
+const auditLogService = new AuditLogService();
+
+const userSummarySelect = {
+  id: true,
+  name: true,
+  nickname: true,
+} satisfies Prisma.UserSelect;
+
+const transferInclude = {
+  community: { select: { id: true, title: true, slug: true, isPrivate: true } },
+  fromUser: { select: userSummarySelect },
+  toUser: { select: userSummarySelect },
+} satisfies Prisma.CommunityOwnershipTransferInclude;
+
+type TransferWithRelations = Prisma.CommunityOwnershipTransferGetPayload<{ include: typeof transferInclude }>;
+
+export class CommunityOwnershipService {
+  /**
+   * The owner nominates an active admin. Nothing changes until the nominee
+   * accepts. A community has at most one open transfer.
+   */
+  async requestTransfer(
+    communityId: number,
+    ownerId: number,
+    data: RequestOwnershipTransferRequest
+  ): Promise<OwnershipTransferResponse> {
+    await communityMembershipService.assertActiveMembership(
+      communityId, ownerId, 'Only the community owner can transfer ownership', [CommunityRole.OWNER]
+    );
+
+    await communityMembershipService.assertActiveMembership(
+      communityId, data.userId, 'Ownership can only be transferred to an active admin of the community', [CommunityRole.ADMIN]
+    );
+
+    const now = new Date();
+
+    const transfer = await prisma.$transaction(async (tx) => {
+      // A transfer left unanswered past its expiry is replaced
+      const pending = await tx.communityOwnershipTransfer.findFirst({
+        where: { communityId, status: OwnershipTransferStatus.PENDING },
+        select: { id: true, expiresAt: true },
+      });
+
+      if (pending && pending.expiresAt > now) {
+        throw new Error('An ownership transfer is already pending. Cancel it first.');
+      }
+
+      if (pending) {
+        await tx.communityOwnershipTransfer.update({
+          where: { id: pending.id },
+          data: { status: OwnershipTransferStatus.CANCELED },
+        });
+      }
+
+      return tx.communityOwnershipTransfer.create({
+        data: {
+          communityId,
+          fromUserId: ownerId,
+          toUserId: data.userId,
+          expiresAt: new Date(now.getTime() + OWNERSHIP_TRANSFER_EXPIRES_DAYS * DAY_MS),
+        },
+        include: transferInclude,
+      });
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+    return this.formatTransferResponse(transfer);
+  }
+
+  // The open transfer of the community, null when there is none
+  async getPendingTransfer(communityId: number): Promise<OwnershipTransferResponse | null> {
+    const transfer = await prisma.communityOwnershipTransfer.findFirst({
+      where: { communityId, status: OwnershipTransferStatus.PENDING, expiresAt: { gt: new Date() } },
+      include: transferInclude,
+    });
+
+    return transfer ? this.formatTransferResponse(transfer) : null;
+  }
+
+  // Withdraws the open transfer. Returns null when there is none.
+  async cancelTransfer(communityId: number, ownerId: number): Promise<OwnershipTransferResponse | null> {
+    await communityMembershipService.assertActiveMembership(
+      communityId, ownerId, 'Only the community owner can cancel an ownership transfer', [CommunityRole.OWNER]
+    );
+
+    const transfer = await prisma.communityOwnershipTransfer.findFirst({
+      where: { communityId, status: OwnershipTransferStatus.PENDING },
+      select: { id: true },
+    });
+
+    if (!transfer) {
+      return null;
+    }
+
+    await this.markResponded(prisma, transfer.id, OwnershipTransferStatus.CANCELED);
+
+    return this.findTransferResponse(transfer.id);
+  }
+
+  // Transfers waiting for the user to accept or decline
+  async getMyTransfers(userId: number): Promise<OwnershipTransferResponse[]> {
+    const transfers = await prisma.communityOwnershipTransfer.findMany({
+      where: { toUserId: userId, status: OwnershipTransferStatus.PENDING, expiresAt: { gt: new Date() } },
+      include: transferInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return transfers.map(transfer => this.formatTransferResponse(transfer));
+  }
+
+  /**
+   * The nominee accepts: they become OWNER and the previous owner ADMIN, in
+   * one transaction. Both must still hold their roles. Returns null when the
+   * user has no such transfer.
+   */
+  async acceptTransfer(transferId: number, userId: number, auditContext: AuditContext = {}): Promise<OwnershipTransferResponse | null> {
+    const transfer = await prisma.communityOwnershipTransfer.findFirst({
+      where: { id: transferId, toUserId: userId },
+    });
+
+    if (!transfer) {
+      return null;
+    }
+
+    this.assertRespondable(transfer.status, transfer.expiresAt);
+
+    await prisma.$transaction(async (tx) => {
+      await communityMembershipService.lockCommunity(tx, transfer.communityId);
+      await this.markResponded(tx, transferId, OwnershipTransferStatus.ACCEPTED);
+
+      const ownerMembership = await tx.communityMember.findFirst({
+        where: { communityId: transfer.communityId, userId: transfer.fromUserId, role: CommunityRole.OWNER, isActive: true },
+        select: { id: true },
+      });
+
+      if (!ownerMembership) {
+        throw new Error('This ownership transfer is no longer valid');
+      }
+
+      const nomineeMembership = await tx.communityMember.findFirst({
+        where: { communityId: transfer.communityId, userId, role: CommunityRole.ADMIN, isActive: true },
+        select: { id: true },
+      });
+
+      if (!nomineeMembership) {
+        throw new Error('Only an active admin of the community can accept ownership');
+      }
+
+      await tx.communityMember.update({
+        where: { id: ownerMembership.id },
+        data: { role: CommunityRole.ADMIN },
+      });
+      await tx.communityMember.update({
+        where: { id: nomineeMembership.id },
+        data: { role: CommunityRole.OWNER },
+      });
+
+      await auditLogService.record(auditContext, {
+        action: AuditAction.COMMUNITY_OWNERSHIP_TRANSFERRED,
+        targetType: AuditTargetType.COMMUNITY,
+        targetId: transfer.communityId,
+        communityId: transfer.communityId,
+        changes: { before: { ownerId: transfer.fromUserId }, after: { ownerId: userId } },
+      }, tx);
+    });
+
+    return this.findTransferResponse(transferId);
+  }
+
+  // Returns null when the user has no such transfer
+  async declineTransfer(transferId: number, userId: number): Promise<OwnershipTransferResponse | null> {
+    const transfer = await prisma.communityOwnershipTransfer.findFirst({
+      where: { id: transferId, toUserId: userId },
+      select: { status: true, expiresAt: true },
+    });
+
+    if (!transfer) {
+      return null;
+    }
+
+    this.assertRespondable(transfer.status, transfer.expiresAt);
+
+    await this.markResponded(prisma, transferId, OwnershipTransferStatus.DECLINED);
+
+    return this.findTransferResponse(transferId);
+  }
+
+  /**
+   * Fallback for a community whose owner deleted their account: an active
+   * admin takes ownership. The first admin to claim it wins.
+   */
+  async claimOwnership(communityId: number, userId: number, auditContext: AuditContext = {}): Promise<void> {
+    await prisma.$transaction(async (tx) => {
+      const community = await communityMembershipService.lockCommunity(tx, communityId);
+
+      if (!community) {
+        throw new Error('Community not found');
+      }
+
+      const adminMembership = await tx.communityMember.findFirst({
+        where: { communityId, userId, role: CommunityRole.ADMIN, isActive: true },
+        select: { id: true },
+      });
+
+      if (!adminMembership) {
+        throw new Error('Only an active admin of the community can claim ownership');
+      }
+
+      const activeOwner = await tx.communityMember.findFirst({
+        where: { communityId, role: CommunityRole.OWNER, isActive: true },
+        select: { id: true },
+      });
+
+      if (activeOwner) {
+        throw new Error('This community still has an owner');
+      }
+
+      // The deleted owner's membership is already inactive; it stops being OWNER
+      const previousOwner = await tx.communityMember.findFirst({
+        where: { communityId, role: CommunityRole.OWNER },
+        select: { id: true, userId: true },
+      });
+
+      if (previousOwner) {
+        await tx.communityMember.update({
+          where: { id: previousOwner.id },
+          data: { role: CommunityRole.MEMBER },
+        });
+      }
+
+      await tx.communityMember.update({
+        where: { id: adminMembership.id },
+        data: { role: CommunityRole.OWNER },
+      });
+
+      await auditLogService.record(auditContext, {
+        action: AuditAction.COMMUNITY_OWNERSHIP_CLAIMED,
+        targetType: AuditTargetType.COMMUNITY,
+        targetId: communityId,
+        communityId,
+        changes: { before: { ownerId: previousOwner?.userId ?? null }, after: { ownerId: userId } },
+      }, tx);
+    });
+  }
+
+  private assertRespondable(status: OwnershipTransferStatus, expiresAt: Date): void {
+    if (status !== OwnershipTransferStatus.PENDING) {
+      throw new Error('Ownership transfer is no longer pending');
+    }
+
+    if (expiresAt <= new Date()) {
+      throw new Error('Ownership transfer has expired');
+    }
+  }
+
+  // Guarded on PENDING so a transfer is only ever answered once
+  private async markResponded(
+    client: Prisma.TransactionClient,
+    transferId: number,
+    status: OwnershipTransferStatus
+  ): Promise<void> {
+    const updated = await client.communityOwnershipTransfer.updateMany({
+      where: { id: transferId, status: OwnershipTransferStatus.PENDING },
+      data: { status, respondedAt: new Date() },
+    });
+
+    if (updated.count === 0) {
+      throw new Error('Ownership transfer is no longer pending');
+    }
+  }
+
+  private async findTransferResponse(transferId: number): Promise<OwnershipTransferResponse> {
+    const transfer = await prisma.communityOwnershipTransfer.findUniqueOrThrow({
+      where: { id: transferId },
+      include: transferInclude,
+    });
+
+    return this.formatTransferResponse(transfer);
+  }
+
+  private formatTransferResponse(transfer: TransferWithRelations): OwnershipTransferResponse {
+    return {
+      id: transfer.id,
+      communityId: transfer.communityId,
+      status: transfer.status,
+      expiresAt: transfer.expiresAt,
+      respondedAt: transfer.respondedAt || undefined,
+      createdAt: transfer.createdAt,
+      community: transfer.community,
+      fromUser: {
+        id: transfer.fromUser.id,
+        name: transfer.fromUser.name || undefined,
+        nickname: transfer.fromUser.nickname || undefined,
+      },
+      toUser: {
+        id: transfer.toUser.id,
+        name: transfer.toUser.name || undefined,
+        nickname: transfer.toUser.nickname || undefined,
+      },
+    };
+  }
+}
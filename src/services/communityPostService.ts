@@ -0,0 +1,309 @@
+import { AuditAction, AuditTargetType, CommunityMember, CommunityPost, CommunityReactionType, Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { CommunityMembershipService } from './communityMembershipService';
+import { AuditLogService } from './auditLogService';
+import { AuditContext } from '../types/auditLog';
+import { COMMUNITY_MODERATOR_ROLES } from '../constants/communityRoles';
+import {
+  CommunityBoardListOptions,
+  CommunityPostResponse,
+  CreateCommunityPostRequest,
+  ModerateCommunityPostRequest,
+  PaginatedCommunityPostsResponse,
+  ReactionCounts,
+  UpdateCommunityPostRequest,
+} from '../types/communityPost';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+const communityMembershipService = new CommunityMembershipService();
+const auditLogService = new AuditLogService();
+
+// Author, live comment count and the viewer's own reaction
+const buildPostInclude = (userId: number) => ({
+  author: { select: { id: true, name: true, nickname: true } },
+  _count: { select: { comments: { where: { deletedAt: null } } } },
+  reactions: { where: { userId }, select: { type: true } },
+}) satisfies Prisma.CommunityPostInclude;
+
+type PostWithRelations = Prisma.CommunityPostGetPayload<{ include: ReturnType<typeof buildPostInclude> }>;
+
+export class CommunityPostService {
+  async createPost(communityId: number, userId: number, data: CreateCommunityPostRequest): Promise<CommunityPostResponse> {
+    await this.assertMember(communityId, userId);
+    await this.assertNotArchived(communityId);
+    await communityMembershipService.assertNotMuted(communityId, userId);
+
+    const post = await prisma.communityPost.create({
+      data: {
+        communityId,
+        authorId: userId,
+        title: data.title,
+        content: data.content,
+      },
+      include: buildPostInclude(userId),
+    });
+
+    return this.formatPostResponse(post, {});
+  }
+
+  // The community feed: pinned posts first, then newest first
+  async getPosts(communityId: number, userId: number, options: CommunityBoardListOptions = {}): Promise<PaginatedCommunityPostsResponse> {
+    await this.assertMember(communityId, userId);
+
+    const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+
+    // Fetch one extra row to know whether another page exists
+    const posts = await prisma.communityPost.findMany({
+      where: { communityId },
+      include: buildPostInclude(userId),
+      orderBy: [
+        { isPinned: 'desc' },
+        { id: 'desc' },
+      ],
+      take: limit + 1,
+      ...(options.cursor && {
+        cursor: { id: options.cursor },
+        skip: 1,
+      }),
+    });
+
+    const hasMore = posts.length > limit;
+    const page = hasMore ? posts.slice(0, limit) : posts;
+    const reactionCounts = await this.countReactions(page.map(post => post.id));
+
+    return {
+      data: page.map(post => this.formatPostResponse(post, reactionCounts.get(post.id) ?? {})),
+      pagination: {
+        limit,
+        hasMore,
+        nextCursor: hasMore ? page[page.length - 1]?.id : undefined,
+      },
+    };
+  }
+
+  // Returns null when the community has no such post
+  async getPostById(communityId: number, postId: number, userId: number): Promise<CommunityPostResponse | null> {
+    await this.assertMember(communityId, userId);
+
+    return this.findPostResponse(communityId, postId, userId);
+  }
+
+  // Only the author edits a post. Returns null when the community has no such post.
+  async updatePost(
+    communityId: number,
+    postId: number,
+    userId: number,
+    data: UpdateCommunityPostRequest
+  ): Promise<CommunityPostResponse | null> {
+    await this.assertMember(communityId, userId);
+    await this.assertNotArchived(communityId);
+
+    const post = await this.findPost(communityId, postId);
+
+    if (!post) {
+      return null;
+    }
+
+    if (post.authorId !== userId) {
+      throw new Error('Only the author can edit this post');
+    }
+
+    await prisma.communityPost.update({
+      where: { id: postId },
+      data: {
+        ...(data.title !== undefined && { title: data.title }),
+        ...(data.content !== undefined && { content: data.content }),
+      },
+    });
+
+    return this.findPostResponse(communityId, postId, userId);
+  }
+
+  /**
+   * Deletes a post with its comments and reactions. Authors delete their own
+   * posts, owners, admins and moderators any post; the latter is audited.
+   * Returns false when the community has no such post.
+   */
+  async deletePost(communityId: number, postId: number, userId: number, auditContext: AuditContext = {}): Promise<boolean> {
+    const membership = await this.assertMember(communityId, userId);
+
+    const post = await this.findPost(communityId, postId);
+
+    if (!post) {
+      return false;
+    }
+
+    const isAuthor = post.authorId === userId;
+
+    if (!isAuthor && !COMMUNITY_MODERATOR_ROLES.includes(membership.role)) {
+      throw new Error('Only the author or a moderator can delete this post');
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.communityPost.delete({ where: { id: postId } });
+
+      if (!isAuthor) {
+        await auditLogService.record(auditContext, {
+          action: AuditAction.COMMUNITY_POST_DELETED,
+          targetType: AuditTargetType.COMMUNITY_POST,
+          targetId: postId,
+          communityId,
+          changes: { before: { title: post.title, authorId: post.authorId }, after: {} },
+        }, tx);
+      }
+    });
+
+    return true;
+  }
+
+  // Pins or locks a post (owners, admins and moderators). Returns null when the community has no such post.
+  async moderatePost(
+    communityId: number,
+    postId: number,
+    userId: number,
+    data: ModerateCommunityPostRequest
+  ): Promise<CommunityPostResponse | null> {
+    await communityMembershipService.assertActiveMembership(
+      communityId, userId, 'Insufficient permissions to moderate posts', COMMUNITY_MODERATOR_ROLES
+    );
+
+    const post = await this.findPost(communityId, postId);
+
+    if (!post) {
+      return null;
+    }
+
+    await prisma.communityPost.update({
+      where: { id: postId },
+      data: {
+        ...(data.isPinned !== undefined && { isPinned: data.isPinned }),
+        ...(data.isLocked !== undefined && { isLocked: data.isLocked }),
+      },
+    });
+
+    return this.findPostResponse(communityId, postId, userId);
+  }
+
+  // Sets the user's reaction, replacing an earlier one. Returns null when the community has no such post.
+  async setReaction(
+    communityId: number,
+    postId: number,
+    userId: number,
+    type: CommunityReactionType
+  ): Promise<CommunityPostResponse | null> {
+    await this.assertMember(communityId, userId);
+
+    const post = await this.findPost(communityId, postId);
+
+    if (!post) {
+      return null;
+    }
+
+    await prisma.communityPostReaction.upsert({
+      where: { postId_userId: { postId, userId } },
+      create: { postId, userId, type },
+      update: { type },
+    });
+
+    return this.findPostResponse(communityId, postId, userId);
+  }
+
+  // Returns null when the community has no such post
+  async removeReaction(communityId: number, postId: number, userId: number): Promise<CommunityPostResponse | null> {
+    await this.assertMember(communityId, userId);
+
+    const post = await this.findPost(communityId, postId);
+
+    if (!post) {
+      return null;
+    }
+
+    await prisma.communityPostReaction.deleteMany({
+      where: { postId, userId },
+    });
+
+    return this.findPostResponse(communityId, postId, userId);
+  }
+
+  private async assertMember(communityId: number, userId: number): Promise<CommunityMember> {
+    return communityMembershipService.assertActiveMembership(
+      communityId, userId, 'User is not a member of this community'
+    );
+  }
+
+  // Archived communities take no new or edited posts
+  private async assertNotArchived(communityId: number): Promise<void> {
+    const community = await prisma.community.findUniqueOrThrow({
+      where: { id: communityId },
+      select: { status: true },
+    });
+
+    communityMembershipService.assertNotArchived(community.status);
+  }
+
+  private async findPost(communityId: number, postId: number): Promise<CommunityPost | null> {
+    return prisma.communityPost.findFirst({
+      where: { id: postId, communityId },
+    });
+  }
+
+  private async findPostResponse(communityId: number, postId: number, userId: number): Promise<CommunityPostResponse | null> {
+    const post = await prisma.communityPost.findFirst({
+      where: { id: postId, communityId },
+      include: buildPostInclude(userId),
+    });
+
+    if (!post) {
+      return null;
+    }
+
+    const reactionCounts = await this.countReactions([postId]);
+
+    return this.formatPostResponse(post, reactionCounts.get(postId) ?? {});
+  }
+
+  // Reactions per type for each of the posts
+  private async countReactions(postIds: number[]): Promise<Map<number, ReactionCounts>> {
+    const counts = new Map<number, ReactionCounts>();
+
+    if (postIds.length === 0) {
+      return counts;
+    }
+
+    const groups = await prisma.communityPostReaction.groupBy({
+      by: ['postId', 'type'],
+      where: { postId: { in: postIds } },
+      _count: { _all: true },
+    });
+
+    for (const group of groups) {
+      const postCounts = counts.get(group.postId) ?? {};
+      postCounts[group.type] = group._count._all;
+      counts.set(group.postId, postCounts);
+    }
+
+    return counts;
+  }
+
+  private formatPostResponse(post: PostWithRelations, reactionCounts: ReactionCounts): CommunityPostResponse {
+    return {
+      id: post.id,
+      communityId: post.communityId,
+      title: post.title,
+      content: post.content,
+      isPinned: post.isPinned,
+      isLocked: post.isLocked,
+      author: {
+        id: post.author.id,
+        name: post.author.name || undefined,
+        nickname: post.author.nickname || undefined,
+      },
+      commentCount: post._count.comments,
+      reactionCounts,
+      myReaction: post.reactions[0]?.type,
+      createdAt: post.createdAt,
+      updatedAt: post.updatedAt,
+    };
+  }
+}
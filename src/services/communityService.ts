@@ -1,7 +1,22 @@
-import { PrismaClient, CommunityStatus, CommunityRole } from '@prisma/client';
-import { CreateCommunityRequest, UpdateCommunityRequest, JoinCommunityRequest, InviteUserRequest, UpdateMemberRoleRequest, CommunityResponse, CommunityMemberResponse, CommunityFilters } from '../types/community';
+import { PrismaClient, CommunityStatus, CommunityRole, CommunityModerationType, AuditAction, AuditTargetType } from '@prisma/client';
+import { CommunityMembershipService } from './communityMembershipService';
+import { CommunityInvitationService } from './communityInvitationService';
+import { AuditLogService } from './auditLogService';
+import { AuditContext } from '../types/auditLog';
+import { diffFields } from '../utils/audit';
+import { COMMUNITY_MANAGER_ROLES } from '../constants/communityRoles';
+import { CreateCommunityRequest, UpdateCommunityRequest, JoinCommunityRequest, UpdateMemberRoleRequest, CommunityResponse, CommunityMemberResponse, CommunityFilters } from '../types/community';
+import { InviteLinkPreviewResponse } from '../types/communityInvitation';
 
 const prisma = new PrismaClient();
+const communityMembershipService = new CommunityMembershipService();
+const communityInvitationService = new CommunityInvitationService();
+const auditLogService = new AuditLogService();
+
+// Community settings compared for the audit log
+const AUDITED_COMMUNITY_FIELDS = [
+  'title', 'description', 'slug', 'status', 'isPrivate', 'maxMembers', 'defaultWorkFee', 'defaultSupportFee',
+] as const;
 
 export class CommunityService {
   async createCommunity(userId: number, data: CreateCommunityRequest): Promise<CommunityResponse> {
@@ -22,7 +37,7 @@ export class CommunityService {
         title: data.title,
         description: data.description || null,
         slug,
-        status: data.status || CommunityStatus.ACTIVE,
+        status: CommunityStatus.ACTIVE,
         isPrivate: data.isPrivate || false,
         maxMembers: data.maxMembers || null,
         defaultWorkFee: data.defaultWorkFee || 5,
@@ -43,12 +58,14 @@ export class CommunityService {
     return this.formatCommunityResponse(community);
   }
 
+  // Inactive communities are never listed
   async getCommunities(filters: CommunityFilters = {}): Promise<CommunityResponse[]> {
-    const where: any = {};
-
-    if (filters.status) {
-      where.status = filters.status;
-    }
+    const where: any = {
+      status: {
+        not: CommunityStatus.INACTIVE,
+        ...(filters.status && { equals: filters.status }),
+      },
+    };
 
     if (filters.isPrivate !== undefined) {
       where.isPrivate = filters.isPrivate;
@@ -101,20 +118,10 @@ export class CommunityService {
     };
   }
 
-  async updateCommunity(id: number, userId: number, data: UpdateCommunityRequest): Promise<CommunityResponse | null> {
-    // Check if user is owner or admin
-    const membership = await prisma.communityMember.findFirst({
-      where: {
-        communityId: id,
-        userId,
-        role: { in: [CommunityRole.OWNER, CommunityRole.ADMIN] },
-        isActive: true,
-      },
-    });
-
-    if (!membership) {
-      throw new Error('Insufficient permissions to update community');
-    }
+  async updateCommunity(id: number, userId: number, data: UpdateCommunityRequest, auditContext: AuditContext = {}): Promise<CommunityResponse | null> {
+    await communityMembershipService.assertActiveMembership(
+      id, userId, 'Insufficient permissions to update community', COMMUNITY_MANAGER_ROLES
+    );
 
     // Check if slug is unique (if provided)
     if (data.slug) {
@@ -130,134 +137,121 @@ export class CommunityService {
       }
     }
 
-    const community = await prisma.community.update({
-      where: { id },
-      data: {
-        ...(data.title && { title: data.title }),
-        ...(data.description !== undefined && { description: data.description }),
-        ...(data.slug && { slug: data.slug }),
-        ...(data.status && { status: data.status }),
-        ...(data.isPrivate !== undefined && { isPrivate: data.isPrivate }),
-        ...(data.maxMembers !== undefined && { maxMembers: data.maxMembers }),
-        ...(data.defaultWorkFee !== undefined && { defaultWorkFee: data.defaultWorkFee }),
-        ...(data.defaultSupportFee !== undefined && { defaultSupportFee: data.defaultSupportFee }),
-      },
+    const community = await prisma.$transaction(async (tx) => {
+      const before = await tx.community.findUniqueOrThrow({ where: { id } });
+
+      const updated = await tx.community.update({
+        where: { id },
+        data: {
+          ...(data.title && { title: data.title }),
+          ...(data.description !== undefined && { description: data.description }),
+          ...(data.slug && { slug: data.slug }),
+          ...(data.status && { status: data.status }),
+          ...(data.isPrivate !== undefined && { isPrivate: data.isPrivate }),
+          ...(data.maxMembers !== undefined && { maxMembers: data.maxMembers }),
+          ...(data.defaultWorkFee !== undefined && { defaultWorkFee: data.defaultWorkFee }),
+          ...(data.defaultSupportFee !== undefined && { defaultSupportFee: data.defaultSupportFee }),
+        },
+      });
+
+      const changes = diffFields(before, updated, AUDITED_COMMUNITY_FIELDS);
+      if (changes) {
+        await auditLogService.record(auditContext, {
+          action: AuditAction.COMMUNITY_UPDATED,
+          targetType: AuditTargetType.COMMUNITY,
+          targetId: id,
+          communityId: id,
+          changes,
+        }, tx);
+      }
+
+      return updated;
     });
 
     return this.formatCommunityResponse(community);
   }
 
-  async deleteCommunity(id: number, userId: number): Promise<boolean> {
-    // Check if user is owner
-    const membership = await prisma.communityMember.findFirst({
-      where: {
-        communityId: id,
-        userId,
-        role: CommunityRole.OWNER,
-        isActive: true,
-      },
-    });
+  async deleteCommunity(id: number, userId: number, auditContext: AuditContext = {}): Promise<boolean> {
+    await communityMembershipService.assertActiveMembership(
+      id, userId, 'Only community owner can delete the community', [CommunityRole.OWNER]
+    );
 
-    if (!membership) {
-      throw new Error('Only community owner can delete the community');
-    }
+    await prisma.$transaction(async (tx) => {
+      const community = await tx.community.delete({
+        where: { id },
+      });
 
-    await prisma.community.delete({
-      where: { id },
+      await auditLogService.record(auditContext, {
+        action: AuditAction.COMMUNITY_DELETED,
+        targetType: AuditTargetType.COMMUNITY,
+        targetId: id,
+        communityId: id,
+        changes: { before: { title: community.title, slug: community.slug }, after: {} },
+      }, tx);
     });
 
     return true;
   }
 
+  // Joins a public community. Private communities take an invite link, an invitation or a join request.
   async joinCommunity(userId: number, data: JoinCommunityRequest): Promise<CommunityMemberResponse> {
     const community = await prisma.community.findUnique({
       where: { id: data.communityId },
+      select: { isPrivate: true },
     });
 
     if (!community) {
       throw new Error('Community not found');
     }
 
-    // Check if user is already a member
-    const existingMembership = await prisma.communityMember.findFirst({
-      where: {
-        communityId: data.communityId,
-        userId,
-      },
+    if (community.isPrivate) {
+      throw new Error('This community is private. Use an invite link or send a join request.');
+    }
+
+    const membership = await prisma.$transaction(async (tx) => {
+      return communityMembershipService.addMember(tx, data.communityId, userId);
     });
 
-    if (existingMembership) {
-      if (existingMembership.isActive) {
-        throw new Error('User is already a member of this community');
-      } else {
-        // Reactivate membership
-        const membership = await prisma.communityMember.update({
-          where: { id: existingMembership.id },
-          data: { isActive: true },
-          include: {
-            user: {
-              select: {
-                id: true,
-                name: true,
-                nickname: true,
-                email: true,
-              },
-            },
-          },
-        });
+    return this.findMemberResponse(membership.id);
+  }
 
-        return this.formatCommunityMemberResponse(membership);
-      }
-    }
+  // Joins the community behind an invite code, private or not
+  async joinWithInviteCode(userId: number, code: string): Promise<CommunityMemberResponse> {
+    const membership = await prisma.$transaction(async (tx) => {
+      const inviteLink = await communityInvitationService.redeemInviteLink(tx, code);
 
-    // Check if community has reached max members
-    if (community.maxMembers) {
-      const memberCount = await prisma.communityMember.count({
-        where: {
-          communityId: data.communityId,
-          isActive: true,
-        },
+      return communityMembershipService.addMember(tx, inviteLink.communityId, userId, {
+        invitedBy: inviteLink.createdById,
       });
+    });
 
-      if (memberCount >= community.maxMembers) {
-        throw new Error('Community has reached maximum member limit');
-      }
+    return this.findMemberResponse(membership.id);
+  }
+
+  // The community behind an invite code, shown before joining. Null when the code cannot be used.
+  async getInviteLinkPreview(code: string): Promise<InviteLinkPreviewResponse | null> {
+    const inviteLink = await communityInvitationService.findUsableInviteLink(code);
+
+    if (!inviteLink) {
+      return null;
     }
 
-    const membership = await prisma.communityMember.create({
-      data: {
-        userId,
-        communityId: data.communityId,
-        role: CommunityRole.MEMBER,
-        isActive: true,
-      },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            nickname: true,
-            email: true,
-          },
-        },
-      },
-    });
+    const community = await this.getCommunityById(inviteLink.communityId);
 
-    return this.formatCommunityMemberResponse(membership);
+    if (!community) {
+      return null;
+    }
+
+    return {
+      community,
+      expiresAt: inviteLink.expiresAt || undefined,
+    };
   }
 
   async leaveCommunity(userId: number, communityId: number): Promise<boolean> {
-    const membership = await prisma.communityMember.findFirst({
-      where: {
-        communityId,
-        userId,
-        isActive: true,
-      },
-    });
-
-    if (!membership) {
-      throw new Error('User is not a member of this community');
-    }
+    const membership = await communityMembershipService.assertActiveMembership(
+      communityId, userId, 'User is not a member of this community'
+    );
 
     // Check if user is the owner
     if (membership.role === CommunityRole.OWNER) {
@@ -272,134 +266,10 @@ export class CommunityService {
     return true;
   }
 
-  async inviteUser(userId: number, data: InviteUserRequest): Promise<CommunityMemberResponse> {
-    // Check if inviter has permission to invite
-    const inviterMembership = await prisma.communityMember.findFirst({
-      where: {
-        communityId: data.communityId,
-        userId,
-        role: { in: [CommunityRole.OWNER, CommunityRole.ADMIN, CommunityRole.MODERATOR] },
-        isActive: true,
-      },
-    });
-
-    if (!inviterMembership) {
-      throw new Error('Insufficient permissions to invite users');
-    }
-
-    // Check if user exists
-    const user = await prisma.user.findUnique({
-      where: { id: data.userId },
-    });
-
-    if (!user) {
-      throw new Error('User not found');
-    }
-
-    // Check if user is already a member
-    const existingMembership = await prisma.communityMember.findFirst({
-      where: {
-        communityId: data.communityId,
-        userId: data.userId,
-      },
-    });
-
-    if (existingMembership) {
-      if (existingMembership.isActive) {
-        throw new Error('User is already a member of this community');
-      } else {
-        // Reactivate membership
-        const membership = await prisma.communityMember.update({
-          where: { id: existingMembership.id },
-          data: { 
-            isActive: true,
-            role: data.role || CommunityRole.MEMBER,
-            invitedBy: userId,
-          },
-          include: {
-            user: {
-              select: {
-                id: true,
-                name: true,
-                nickname: true,
-                email: true,
-              },
-            },
-            inviter: {
-              select: {
-                id: true,
-                name: true,
-                nickname: true,
-              },
-            },
-          },
-        });
-
-        return this.formatCommunityMemberResponse(membership);
-      }
-    }
-
-    // Check if community has reached max members
-    const community = await prisma.community.findUnique({
-      where: { id: data.communityId },
-    });
-
-    if (community?.maxMembers) {
-      const memberCount = await prisma.communityMember.count({
-        where: {
-          communityId: data.communityId,
-          isActive: true,
-        },
-      });
-
-      if (memberCount >= community.maxMembers) {
-        throw new Error('Community has reached maximum member limit');
-      }
-    }
-
-    const membership = await prisma.communityMember.create({
-      data: {
-        userId: data.userId,
-        communityId: data.communityId,
-        role: data.role || CommunityRole.MEMBER,
-        invitedBy: userId,
-        isActive: true,
-      },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            nickname: true,
-            email: true,
-          },
-        },
-        inviter: {
-          select: {
-            id: true,
-            name: true,
-            nickname: true,
-          },
-        },
-      },
-    });
-
-    return this.formatCommunityMemberResponse(membership);
-  }
-
   async getCommunityMembers(communityId: number, userId: number): Promise<CommunityMemberResponse[]> {
-    // Check if user is a member of the community
-    const userMembership = await prisma.communityMember.findFirst({
-      where: {
-        communityId,
-        userId,
-        isActive: true,
-      },
-    });
-
-    if (!userMembership) {
-      throw new Error('User is not a member of this community');
-    }
+    await communityMembershipService.assertActiveMembership(
+      communityId, userId, 'User is not a member of this community'
+    );
 
     const members = await prisma.communityMember.findMany({
       where: {
@@ -432,96 +302,85 @@ export class CommunityService {
     return members.map(member => this.formatCommunityMemberResponse(member));
   }
 
-  async updateMemberRole(communityId: number, adminUserId: number, data: UpdateMemberRoleRequest): Promise<CommunityMemberResponse> {
+  async updateMemberRole(
+    communityId: number,
+    adminUserId: number,
+    data: UpdateMemberRoleRequest,
+    auditContext: AuditContext = {}
+  ): Promise<CommunityMemberResponse> {
     // Check if admin has permission to update roles
-    const adminMembership = await prisma.communityMember.findFirst({
-      where: {
-        communityId,
-        userId: adminUserId,
-        role: { in: [CommunityRole.OWNER, CommunityRole.ADMIN] },
-        isActive: true,
-      },
-    });
-
-    if (!adminMembership) {
-      throw new Error('Insufficient permissions to update member roles');
-    }
+    const adminMembership = await communityMembershipService.assertActiveMembership(
+      communityId, adminUserId, 'Insufficient permissions to update member roles', COMMUNITY_MANAGER_ROLES
+    );
 
     // Check if target user is a member
-    const targetMembership = await prisma.communityMember.findFirst({
-      where: {
-        communityId,
-        userId: data.userId,
-        isActive: true,
-      },
-    });
-
-    if (!targetMembership) {
-      throw new Error('User is not a member of this community');
-    }
+    const targetMembership = await communityMembershipService.assertActiveMembership(
+      communityId, data.userId, 'User is not a member of this community'
+    );
 
     // Prevent changing owner role
     if (targetMembership.role === CommunityRole.OWNER) {
       throw new Error('Cannot change owner role');
     }
 
+    if (data.role === CommunityRole.OWNER) {
+      throw new Error('Use an ownership transfer to change the owner');
+    }
+
     // Prevent non-owners from promoting to admin
     if (data.role === CommunityRole.ADMIN && adminMembership.role !== CommunityRole.OWNER) {
       throw new Error('Only owners can promote users to admin');
     }
 
-    const updatedMembership = await prisma.communityMember.update({
-      where: { id: targetMembership.id },
-      data: { role: data.role },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            nickname: true,
-            email: true,
+    const updatedMembership = await prisma.$transaction(async (tx) => {
+      const membership = await tx.communityMember.update({
+        where: { id: targetMembership.id },
+        data: { role: data.role },
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              nickname: true,
+              email: true,
+            },
           },
-        },
-        inviter: {
-          select: {
-            id: true,
-            name: true,
-            nickname: true,
+          inviter: {
+            select: {
+              id: true,
+              name: true,
+              nickname: true,
+            },
           },
         },
-      },
+      });
+
+      if (targetMembership.role !== data.role) {
+        await auditLogService.record(auditContext, {
+          action: AuditAction.COMMUNITY_MEMBER_ROLE_CHANGED,
+          targetType: AuditTargetType.USER,
+          targetId: data.userId,
+          communityId,
+          changes: { before: { role: targetMembership.role }, after: { role: data.role } },
+        }, tx);
+      }
+
+      return membership;
     });
 
     return this.formatCommunityMemberResponse(updatedMembership);
   }
 
-  async removeMember(communityId: number, adminUserId: number, targetUserId: number): Promise<boolean> {
+  async removeMember(communityId: number, adminUserId: number, targetUserId: number, auditContext: AuditContext = {}): Promise<boolean> {
     // Check if admin has permission to remove members
-    const adminMembership = await prisma.communityMember.findFirst({
-      where: {
-        communityId,
-        userId: adminUserId,
-        role: { in: [CommunityRole.OWNER, CommunityRole.ADMIN] },
-        isActive: true,
-      },
-    });
-
-    if (!adminMembership) {
-      throw new Error('Insufficient permissions to remove members');
-    }
+    const adminMembership = await communityMembershipService.assertActiveMembership(
+      communityId, adminUserId, 'Insufficient permissions to remove members', COMMUNITY_MANAGER_ROLES
+    );
 
     // Check if target user is a member
-    const targetMembership = await prisma.communityMember.findFirst({
-      where: {
-        communityId,
-        userId: targetUserId,
-        isActive: true,
-      },
-    });
-
-    if (!targetMembership) {
-      throw new Error('User is not a member of this community');
-    }
+    const targetMembership = await communityMembershipService.assertActiveMembership(
+      communityId, targetUserId, 'User is not a member of this community'
+    );
 
     // Prevent removing owner
     if (targetMembership.role === CommunityRole.OWNER) {
@@ -533,9 +392,29 @@ export class CommunityService {
       throw new Error('Only owners can remove admins');
     }
 
-    await prisma.communityMember.update({
-      where: { id: targetMembership.id },
-      data: { isActive: false },
+    await prisma.$transaction(async (tx) => {
+      await tx.communityMember.update({
+        where: { id: targetMembership.id },
+        data: { isActive: false },
+      });
+
+      // Part of the member's moderation history; unlike a ban it does not block rejoining
+      await tx.communityModerationAction.create({
+        data: {
+          communityId,
+          userId: targetUserId,
+          moderatorId: adminUserId,
+          type: CommunityModerationType.REMOVAL,
+        },
+      });
+
+      await auditLogService.record(auditContext, {
+        action: AuditAction.COMMUNITY_MEMBER_REMOVED,
+        targetType: AuditTargetType.USER,
+        targetId: targetUserId,
+        communityId,
+        changes: { before: { role: targetMembership.role, isActive: true }, after: { isActive: false } },
+      }, tx);
     });
 
     return true;
@@ -570,17 +449,7 @@ export class CommunityService {
 
   async getAllUsersFromUserCommunities(userId: number): Promise<CommunityMemberResponse[]> {
     // Get all communities where the user is a member
-    const userMemberships = await prisma.communityMember.findMany({
-      where: {
-        userId,
-        isActive: true,
-      },
-      select: {
-        communityId: true,
-      },
-    });
-
-    const communityIds = userMemberships.map(membership => membership.communityId);
+    const communityIds = await communityMembershipService.getActiveCommunityIds(userId);
 
     if (communityIds.length === 0) {
       return [];
@@ -634,6 +503,31 @@ export class CommunityService {
     return Array.from(uniqueUsers.values());
   }
 
+  private async findMemberResponse(membershipId: number): Promise<CommunityMemberResponse> {
+    const membership = await prisma.communityMember.findUniqueOrThrow({
+      where: { id: membershipId },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            nickname: true,
+            email: true,
+          },
+        },
+        inviter: {
+          select: {
+            id: true,
+            name: true,
+            nickname: true,
+          },
+        },
+      },
+    });
+
+    return this.formatCommunityMemberResponse(membership);
+  }
+
   private generateSlug(title: string): string {
     return title
       .toLowerCase()
@@ -0,0 +1,232 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import {
+  CreateEquipmentTypeRequest,
+  UpdateEquipmentTypeRequest,
+  CreateLadderMachineTypeRequest,
+  UpdateLadderMachineTypeRequest,
+  EquipmentTypeResponse,
+  LadderMachineTypeResponse,
+  EquipmentCatalogResponse,
+} from '../types/equipmentCatalog';
+
+// How long the active catalog used for job post validation is kept in memory
+const CATALOG_CACHE_TTL_MS = parseInt(process.env['EQUIPMENT_CATALOG_CACHE_TTL_SECONDS'] || '300') * 1000;
+
+const equipmentTypeInclude = {
+  lengths: {
+    orderBy: { length: 'asc' },
+  },
+} satisfies Prisma.EquipmentTypeInclude;
+
+const catalogOrderBy = [{ sortOrder: 'asc' as const }, { name: 'asc' as const }];
+
+// Shared by every service instance so admin changes are seen by job post validation right away
+let catalogCache: { catalog: EquipmentCatalogResponse; expiresAt: number } | null = null;
+
+export class EquipmentCatalogService {
+  // Active catalog, as shown in the app pickers
+  async getCatalog(): Promise<EquipmentCatalogResponse> {
+    if (catalogCache && catalogCache.expiresAt > Date.now()) {
+      return catalogCache.catalog;
+    }
+
+    const catalog = await this.loadCatalog(true);
+    catalogCache = { catalog, expiresAt: Date.now() + CATALOG_CACHE_TTL_MS };
+
+    return catalog;
+  }
+
+  // Full catalog including inactive entries, for admins
+  async getFullCatalog(): Promise<EquipmentCatalogResponse> {
+    return this.loadCatalog(false);
+  }
+
+  async validateEquipmentSelection(equipmentType: string, equipmentLengths: number[]): Promise<void> {
+    const catalog = await this.getCatalog();
+    const validLengths = catalog.equipmentTypes.find(type => type.name === equipmentType)?.lengths;
+
+    if (!validLengths) {
+      throw new Error(`Invalid equipment type ${equipmentType}`);
+    }
+
+    for (const length of equipmentLengths) {
+      if (!validLengths.includes(length)) {
+        throw new Error(`Invalid equipment length ${length} for equipment type ${equipmentType}. Valid lengths: ${validLengths.join(', ')}`);
+      }
+    }
+  }
+
+  // Machine types are only enforced once the catalog has entries
+  async validateLadderMachineType(machineType: string): Promise<void> {
+    const { ladderMachineTypes } = await this.getCatalog();
+
+    if (ladderMachineTypes.length > 0 && !ladderMachineTypes.some(type => type.name === machineType)) {
+      throw new Error(`Invalid machine type ${machineType}. Valid machine types: ${ladderMachineTypes.map(type => type.name).join(', ')}`);
+    }
+  }
+
+  async createEquipmentType(data: CreateEquipmentTypeRequest): Promise<EquipmentTypeResponse> {
+    await this.ensureEquipmentTypeNameAvailable(data.name);
+
+    const equipmentType = await prisma.equipmentType.create({
+      data: {
+        name: data.name,
+        sortOrder: data.sortOrder ?? 0,
+        isActive: data.isActive ?? true,
+        lengths: {
+          create: data.lengths.map(length => ({ length })),
+        },
+      },
+      include: equipmentTypeInclude,
+    });
+
+    this.invalidateCache();
+    return this.formatEquipmentTypeResponse(equipmentType);
+  }
+
+  async updateEquipmentType(id: number, data: UpdateEquipmentTypeRequest): Promise<EquipmentTypeResponse | null> {
+    const existingType = await prisma.equipmentType.findUnique({ where: { id } });
+
+    if (!existingType) {
+      return null;
+    }
+
+    if (data.name !== undefined && data.name !== existingType.name) {
+      await this.ensureEquipmentTypeNameAvailable(data.name);
+    }
+
+    const equipmentType = await prisma.equipmentType.update({
+      where: { id },
+      data: {
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.sortOrder !== undefined && { sortOrder: data.sortOrder }),
+        ...(data.isActive !== undefined && { isActive: data.isActive }),
+        ...(data.lengths && {
+          lengths: {
+            deleteMany: {},
+            create: data.lengths.map(length => ({ length })),
+          },
+        }),
+      },
+      include: equipmentTypeInclude,
+    });
+
+    this.invalidateCache();
+    return this.formatEquipmentTypeResponse(equipmentType);
+  }
+
+  // Job posts keep the type name as text, so removing an entry does not touch existing posts
+  async deleteEquipmentType(id: number): Promise<boolean> {
+    const result = await prisma.equipmentType.deleteMany({ where: { id } });
+
+    this.invalidateCache();
+    return result.count > 0;
+  }
+
+  async createLadderMachineType(data: CreateLadderMachineTypeRequest): Promise<LadderMachineTypeResponse> {
+    await this.ensureLadderMachineTypeNameAvailable(data.name);
+
+    const machineType = await prisma.ladderMachineType.create({
+      data: {
+        name: data.name,
+        sortOrder: data.sortOrder ?? 0,
+        isActive: data.isActive ?? true,
+      },
+    });
+
+    this.invalidateCache();
+    return this.formatLadderMachineTypeResponse(machineType);
+  }
+
+  async updateLadderMachineType(id: number, data: UpdateLadderMachineTypeRequest): Promise<LadderMachineTypeResponse | null> {
+    const existingType = await prisma.ladderMachineType.findUnique({ where: { id } });
+
+    if (!existingType) {
+      return null;
+    }
+
+    if (data.name !== undefined && data.name !== existingType.name) {
+      await this.ensureLadderMachineTypeNameAvailable(data.name);
+    }
+
+    const machineType = await prisma.ladderMachineType.update({
+      where: { id },
+      data: {
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.sortOrder !== undefined && { sortOrder: data.sortOrder }),
+        ...(data.isActive !== undefined && { isActive: data.isActive }),
+      },
+    });
+
+    this.invalidateCache();
+    return this.formatLadderMachineTypeResponse(machineType);
+  }
+
+  async deleteLadderMachineType(id: number): Promise<boolean> {
+    const result = await prisma.ladderMachineType.deleteMany({ where: { id } });
+
+    this.invalidateCache();
+    return result.count > 0;
+  }
+
+  private async loadCatalog(activeOnly: boolean): Promise<EquipmentCatalogResponse> {
+    const where = activeOnly ? { isActive: true } : {};
+
+    const [equipmentTypes, ladderMachineTypes] = await Promise.all([
+      prisma.equipmentType.findMany({
+        where,
+        include: equipmentTypeInclude,
+        orderBy: catalogOrderBy,
+      }),
+      prisma.ladderMachineType.findMany({
+        where,
+        orderBy: catalogOrderBy,
+      }),
+    ]);
+
+    return {
+      equipmentTypes: equipmentTypes.map(type => this.formatEquipmentTypeResponse(type)),
+      ladderMachineTypes: ladderMachineTypes.map(type => this.formatLadderMachineTypeResponse(type)),
+    };
+  }
+
+  private invalidateCache(): void {
+    catalogCache = null;
+  }
+
+  private async ensureEquipmentTypeNameAvailable(name: string): Promise<void> {
+    const existingType = await prisma.equipmentType.findUnique({ where: { name } });
+
+    if (existingType) {
+      throw new Error(`Equipment type ${name} already exists`);
+    }
+  }
+
+  private async ensureLadderMachineTypeNameAvailable(name: string): Promise<void> {
+    const existingType = await prisma.ladderMachineType.findUnique({ where: { name } });
+
+    if (existingType) {
+      throw new Error(`Machine type ${name} already exists`);
+    }
+  }
+
+  private formatEquipmentTypeResponse(equipmentType: Prisma.EquipmentTypeGetPayload<{ include: typeof equipmentTypeInclude }>): EquipmentTypeResponse {
+    return {
+      id: equipmentType.id,
+      name: equipmentType.name,
+      lengths: equipmentType.lengths.map(length => length.length),
+      sortOrder: equipmentType.sortOrder,
+      isActive: equipmentType.isActive,
+    };
+  }
+
+  private formatLadderMachineTypeResponse(machineType: LadderMachineTypeResponse): LadderMachineTypeResponse {
+    return {
+      id: machineType.id,
+      name: machineType.name,
+      sortOrder: machineType.sortOrder,
+      isActive: machineType.isActive,
+    };
+  }
+}
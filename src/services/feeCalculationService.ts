@@ -0,0 +1,117 @@
+import { JobPostType, JobPostCategory, LadderType } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { FeeBreakdown, FeeCalculationInput, FeePreviewRequest } from '../types/fee';
+import {
+  PLATFORM_WORK_FEE_RATE,
+  DEFAULT_COMMUNITY_WORK_FEE_RATE,
+  DEFAULT_COMMUNITY_SUPPORT_FEE_RATE,
+  NIGHT_WORK_MULTIPLIER,
+  LADDER_MOVING_FEE,
+  LADDER_ON_SITE_FEE,
+  LADDER_EXTRA_HOUR_FEE,
+  LADDER_WORK_DURATION_HOURS,
+  LADDER_EXTRA_HOUR_DURATION,
+} from '../constants/feeRates';
+
+export class FeeCalculationService {
+  async previewFees(data: FeePreviewRequest): Promise<FeeBreakdown> {
+    return this.calculate(await this.resolveFeeRates(data));
+  }
+
+  // Fills in the community's default rates for COMMUNITY posts that do not set their own
+  async resolveFeeRates<T extends FeePreviewRequest>(data: T): Promise<T> {
+    if (data.type !== JobPostType.COMMUNITY || !data.communityId) {
+      return data;
+    }
+
+    if (data.communityWorkFee !== undefined && data.communitySupportFee !== undefined) {
+      return data;
+    }
+
+    const community = await prisma.community.findUnique({
+      where: { id: data.communityId },
+      select: { defaultWorkFee: true, defaultSupportFee: true },
+    });
+
+    if (!community) {
+      throw new Error('Community not found');
+    }
+
+    return {
+      ...data,
+      communityWorkFee: data.communityWorkFee ??
+        (community.defaultWorkFee !== null ? Number(community.defaultWorkFee) : DEFAULT_COMMUNITY_WORK_FEE_RATE),
+      communitySupportFee: data.communitySupportFee ??
+        (community.defaultSupportFee !== null ? Number(community.defaultSupportFee) : DEFAULT_COMMUNITY_SUPPORT_FEE_RATE),
+    };
+  }
+
+  /**
+   * Computes the commission breakdown of a job post. Pure - the community
+   * rates must already be resolved (see resolveFeeRates).
+   */
+  calculate(input: FeeCalculationInput): FeeBreakdown {
+    const isLadderMoving = input.category === JobPostCategory.LADDER && input.ladderType === LadderType.MOVING_GOODS;
+    const isLadderOnSite = input.category === JobPostCategory.LADDER && input.ladderType === LadderType.ON_SITE;
+
+    // Work cost
+    const priceAdjustment = input.priceAdjustment ?? 0;
+    const adjustedWorkCost = Math.max(input.workCost + priceAdjustment, 0);
+    const nightWorkSurcharge = input.isNightWork ? Math.round(adjustedWorkCost * (NIGHT_WORK_MULTIPLIER - 1)) : 0;
+
+    // Overtime on ladder ON_SITE work is paid pro rata to the booked duration
+    const extraHours = isLadderOnSite ? this.getExtraHours(input) : 0;
+    const bookedHours = input.ladderWorkDuration ? LADDER_WORK_DURATION_HOURS[input.ladderWorkDuration] : undefined;
+    const extraHoursCost = extraHours > 0 && bookedHours ? Math.round((adjustedWorkCost / bookedHours) * extraHours) : 0;
+
+    const totalWorkCost = adjustedWorkCost + nightWorkSurcharge + extraHoursCost;
+
+    // Rates - community posts use the group leader's rates, everything else the platform rate
+    const workFeeRate = !input.withFee ? 0 :
+      input.type === JobPostType.COMMUNITY ? (input.communityWorkFee ?? DEFAULT_COMMUNITY_WORK_FEE_RATE) : PLATFORM_WORK_FEE_RATE;
+    const supportFeeRate = !input.withFee ? 0 :
+      input.type === JobPostType.COMMUNITY && isLadderOnSite ? (input.communitySupportFee ?? DEFAULT_COMMUNITY_SUPPORT_FEE_RATE) : 0;
+
+    // Commission
+    const totalWorkFee = Math.round((totalWorkCost * workFeeRate) / 100);
+    const unitPriceFee = Math.round((input.workCost * workFeeRate) / 100);
+    const supportFee = Math.round((totalWorkCost * supportFeeRate) / 100);
+
+    const movingFee = input.withFee && isLadderMoving ? (input.movingFee ?? LADDER_MOVING_FEE.base) : 0;
+    const onSiteFee = input.withFee && isLadderOnSite
+      ? (input.onSiteFee ?? LADDER_ON_SITE_FEE.base) + extraHours * LADDER_EXTRA_HOUR_FEE
+      : 0;
+    const ladderFee = movingFee + onSiteFee;
+
+    const totalFees = totalWorkFee + supportFee + ladderFee;
+
+    return {
+      workCost: input.workCost,
+      priceAdjustment,
+      adjustedWorkCost,
+      nightWorkSurcharge,
+      extraHours,
+      extraHoursCost,
+      totalWorkCost,
+      workFeeRate,
+      supportFeeRate,
+      totalWorkFee,
+      unitPriceFee,
+      supportFee,
+      movingFee,
+      onSiteFee,
+      ladderFee,
+      totalFees,
+      operatorPayout: totalWorkCost - totalFees,
+    };
+  }
+
+  // ladderWorkHours only counts when the "추가1시간" (overtime) duration is booked
+  private getExtraHours(input: FeeCalculationInput): number {
+    if (input.ladderWorkDuration !== LADDER_EXTRA_HOUR_DURATION) {
+      return 0;
+    }
+
+    return input.ladderWorkHours ?? 1;
+  }
+}
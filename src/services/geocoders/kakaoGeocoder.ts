@@ -0,0 +1,50 @@
+import { Geocoder, GeocodedLocation } from '../../types/location';
+
+const KAKAO_ADDRESS_SEARCH_URL = 'https://dapi.kakao.com/v2/local/search/address.json';
+
+interface KakaoAddressDocument {
+  x: string;
+  y: string;
+  address: {
+    region_1depth_name: string;
+    region_2depth_name: string;
+    b_code: string;
+  } | null;
+}
+
+/**
+ * Kakao Local address search. The legal-dong code (b_code) gives the 시/도
+ * (2 digits) and 시/군/구 (5 digits) codes.
+ */
+export class KakaoGeocoder implements Geocoder {
+  constructor(private readonly restApiKey: string, private readonly timeoutMs: number = 3000) {}
+
+  async geocode(address: string): Promise<GeocodedLocation | null> {
+    const url = `${KAKAO_ADDRESS_SEARCH_URL}?query=${encodeURIComponent(address)}`;
+
+    const response = await fetch(url, {
+      headers: { Authorization: `KakaoAK ${this.restApiKey}` },
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Kakao geocoding failed with status ${response.status}`);
+    }
+
+    const body = await response.json() as { documents?: KakaoAddressDocument[] };
+    const document = body.documents?.[0];
+
+    if (!document?.address || document.address.b_code.length < 5) {
+      return null;
+    }
+
+    return {
+      regionCode: document.address.b_code.slice(0, 2),
+      regionName: document.address.region_1depth_name,
+      districtCode: document.address.b_code.slice(0, 5),
+      districtName: document.address.region_2depth_name || undefined,
+      latitude: Number(document.y),
+      longitude: Number(document.x),
+    };
+  }
+}
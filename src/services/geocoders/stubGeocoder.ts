@@ -0,0 +1,63 @@
+import { Geocoder, GeocodedLocation } from '../../types/location';
+import { REGIONS, DISTRICTS, RegionDefinition } from '../../constants/regions';
+
+const WORD_CHARACTER = /[\p{L}\p{N}]/u;
+
+/**
+ * Offline geocoder backed by the REGIONS / DISTRICTS tables. Resolves an
+ * address by the 시/도 and 시/군/구 names it mentions (Korean or English),
+ * which is enough for local development and tests.
+ */
+export class StubGeocoder implements Geocoder {
+  async geocode(address: string): Promise<GeocodedLocation | null> {
+    const text = address.toLowerCase();
+    const region = this.findFirstMentioned(text, REGIONS);
+
+    // Without a 시/도, only a district name that exists in a single region is conclusive
+    const candidates = region
+      ? DISTRICTS.filter(district => district.regionCode === region.code)
+      : DISTRICTS.filter(district => DISTRICTS.filter(other => other.name === district.name).length === 1);
+    const district = this.findFirstMentioned(text, candidates);
+
+    const resolvedRegion = region ?? REGIONS.find(item => item.code === district?.regionCode);
+    if (!resolvedRegion) {
+      return null;
+    }
+
+    return {
+      regionCode: resolvedRegion.code,
+      regionName: resolvedRegion.name,
+      districtCode: district?.code,
+      districtName: district?.name,
+      latitude: district?.latitude ?? resolvedRegion.latitude,
+      longitude: district?.longitude ?? resolvedRegion.longitude,
+    };
+  }
+
+  // The area whose name appears earliest, so "경기도 광주시" is 경기도 and not 광주
+  private findFirstMentioned<T extends RegionDefinition>(text: string, areas: readonly T[]): T | undefined {
+    let match: { area: T; index: number } | undefined;
+
+    for (const area of areas) {
+      for (const alias of [area.name, ...area.aliases]) {
+        const index = this.indexOfWord(text, alias.toLowerCase());
+        if (index !== -1 && (!match || index < match.index)) {
+          match = { area, index };
+        }
+      }
+    }
+
+    return match?.area;
+  }
+
+  // Only matches at the start of a word, so 해운대구 does not mention 대구
+  private indexOfWord(text: string, word: string): number {
+    for (let index = text.indexOf(word); index !== -1; index = text.indexOf(word, index + 1)) {
+      if (index === 0 || !WORD_CHARACTER.test(text.charAt(index - 1))) {
+        return index;
+      }
+    }
+
+    return -1;
+  }
+}
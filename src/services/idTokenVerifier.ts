@@ -0,0 +1,112 @@
+import { createPublicKey, KeyObject } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { IdTokenClaims, Jwk, JwksProvider } from '../types/auth';
+import { IdentityVerificationError } from './identityProviders/identityVerificationError';
+
+interface IdTokenVerifierOptions {
+  jwksProvider: JwksProvider;
+  issuer: string;
+  audiences: string[];
+  // Providers with a known subject format (Kakao: numeric user id)
+  subjectPattern?: RegExp | undefined;
+  clockToleranceSeconds?: number | undefined;
+}
+
+/**
+ * Verifies OIDC ID tokens: RS256 signature against the issuer's JWKS,
+ * then iss, aud, exp and nonce.
+ */
+export class IdTokenVerifier {
+  private readonly jwksProvider: JwksProvider;
+  private readonly issuer: string;
+  private readonly audiences: string[];
+  private readonly subjectPattern: RegExp | undefined;
+  private readonly clockToleranceSeconds: number;
+
+  constructor(options: IdTokenVerifierOptions) {
+    if (options.audiences.length === 0) {
+      throw new Error(`At least one client id is required to verify ID tokens from ${options.issuer}`);
+    }
+
+    this.jwksProvider = options.jwksProvider;
+    this.issuer = options.issuer;
+    this.audiences = options.audiences;
+    this.subjectPattern = options.subjectPattern;
+    this.clockToleranceSeconds = options.clockToleranceSeconds ?? 30;
+  }
+
+  async verifyIdToken(idToken: string, nonce: string): Promise<IdTokenClaims> {
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw new IdentityVerificationError('Malformed ID token');
+    }
+
+    if (decoded.header.alg !== 'RS256') {
+      throw new IdentityVerificationError(`Unsupported ID token algorithm ${decoded.header.alg}`);
+    }
+
+    const kid = decoded.header.kid;
+    if (!kid) {
+      throw new IdentityVerificationError('ID token has no key id');
+    }
+
+    const key = await this.getSigningKey(kid);
+
+    let claims: jwt.JwtPayload;
+    try {
+      claims = jwt.verify(idToken, key, {
+        algorithms: ['RS256'],
+        issuer: this.issuer,
+        audience: this.audiences as [string, ...string[]],
+        clockTolerance: this.clockToleranceSeconds,
+      }) as jwt.JwtPayload;
+    } catch (error: any) {
+      throw new IdentityVerificationError(error.message);
+    }
+
+    // jsonwebtoken only checks exp when it is present
+    if (typeof claims.exp !== 'number') {
+      throw new IdentityVerificationError('ID token has no expiry');
+    }
+
+    if (typeof claims.sub !== 'string' || !claims.sub || (this.subjectPattern && !this.subjectPattern.test(claims.sub))) {
+      throw new IdentityVerificationError('ID token has an invalid subject');
+    }
+
+    if (claims['nonce'] !== nonce) {
+      throw new IdentityVerificationError('ID token nonce does not match');
+    }
+
+    return {
+      iss: claims.iss!,
+      aud: Array.isArray(claims.aud) ? claims.aud[0]! : claims.aud!,
+      sub: claims.sub,
+      exp: claims.exp,
+      iat: claims.iat ?? 0,
+      nonce: claims['nonce'],
+      email: typeof claims['email'] === 'string' ? claims['email'] : undefined,
+      // Apple sends the flag as a string
+      emailVerified: [true, 'true'].includes(claims['email_verified']),
+      nickname: typeof claims['nickname'] === 'string' ? claims['nickname'] : undefined,
+    };
+  }
+
+  // Looks the key up by kid, refetching the set once when it is unknown (key rotation)
+  private async getSigningKey(kid: string): Promise<KeyObject> {
+    let jwk = this.findKey(await this.jwksProvider.getKeys(), kid);
+
+    if (!jwk) {
+      jwk = this.findKey(await this.jwksProvider.getKeys({ forceRefresh: true }), kid);
+    }
+
+    if (!jwk) {
+      throw new IdentityVerificationError(`Unknown ID token signing key ${kid}`);
+    }
+
+    return createPublicKey({ key: { kty: jwk.kty, n: jwk.n, e: jwk.e }, format: 'jwk' });
+  }
+
+  private findKey(keys: Jwk[], kid: string): Jwk | undefined {
+    return keys.find(key => key.kid === kid && key.kty === 'RSA' && (!key.use || key.use === 'sig'));
+  }
+}
@@ -0,0 +1,44 @@
+import { IdentityProvider } from '@prisma/client';
+import { IdentityCredential, IdentityProviderClient, VerifiedIdentity } from '../../types/identity';
+import { IdTokenVerifier } from '../idTokenVerifier';
+import { RemoteJwksProvider } from '../jwksProvider';
+
+export const APPLE_ISSUER = 'https://appleid.apple.com';
+export const APPLE_JWKS_URL = 'https://appleid.apple.com/auth/keys';
+
+type AppleCredential = Extract<IdentityCredential, { provider: typeof IdentityProvider.APPLE }>;
+
+// Sign in with Apple: the app sends the identity token it received from Apple
+export class AppleIdentityProvider implements IdentityProviderClient<AppleCredential> {
+  readonly provider = IdentityProvider.APPLE;
+
+  constructor(private readonly idTokenVerifier: IdTokenVerifier) {}
+
+  async verify(credential: AppleCredential): Promise<VerifiedIdentity> {
+    const claims = await this.idTokenVerifier.verifyIdToken(credential.idToken, credential.nonce);
+
+    // Apple only reports the name to the app on the first sign-in, never in the token
+    return {
+      provider: this.provider,
+      providerUserId: claims.sub,
+      email: claims.emailVerified ? claims.email : undefined,
+    };
+  }
+}
+
+// Provider for the configured bundle / services ids (APPLE_CLIENT_ID, comma-separated), null when unset
+export const createAppleIdentityProvider = (): AppleIdentityProvider | null => {
+  const audiences = (process.env['APPLE_CLIENT_ID'] || '').split(',').map(id => id.trim()).filter(Boolean);
+  if (audiences.length === 0) {
+    return null;
+  }
+
+  return new AppleIdentityProvider(new IdTokenVerifier({
+    jwksProvider: new RemoteJwksProvider(
+      APPLE_JWKS_URL,
+      parseInt(process.env['APPLE_JWKS_CACHE_TTL_SECONDS'] || '3600') * 1000
+    ),
+    issuer: APPLE_ISSUER,
+    audiences,
+  }));
+};
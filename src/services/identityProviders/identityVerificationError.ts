@@ -0,0 +1,7 @@
+// The provider credential is not acceptable (bad signature, wrong audience, expired, ...)
+export class IdentityVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IdentityVerificationError';
+  }
+}
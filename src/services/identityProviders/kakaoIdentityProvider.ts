@@ -0,0 +1,91 @@
+import { IdentityProvider } from '@prisma/client';
+import { IdentityCredential, IdentityProviderClient, VerifiedIdentity } from '../../types/identity';
+import { IdTokenVerifier } from '../idTokenVerifier';
+import { RemoteJwksProvider } from '../jwksProvider';
+import { IdentityVerificationError } from './identityVerificationError';
+
+export const KAKAO_ISSUER = 'https://kauth.kakao.com';
+export const KAKAO_JWKS_URL = 'https://kauth.kakao.com/.well-known/jwks.json';
+const KAKAO_USER_URL = 'https://kapi.kakao.com/v2/user/me';
+
+type KakaoCredential = Extract<IdentityCredential, { provider: typeof IdentityProvider.KAKAO }>;
+
+interface KakaoUserResponse {
+  id: number;
+  kakao_account?: {
+    email?: string;
+    is_email_valid?: boolean;
+    is_email_verified?: boolean;
+  };
+}
+
+/**
+ * Kakao Login (OIDC): the app sends the ID token it received from Kakao.
+ * Kakao ID tokens carry the email but no email_verified claim; whether Kakao
+ * verified it is only in the user info API. The email is therefore only used
+ * when the app also sends the access token of the same login.
+ */
+export class KakaoIdentityProvider implements IdentityProviderClient<KakaoCredential> {
+  readonly provider = IdentityProvider.KAKAO;
+
+  constructor(
+    private readonly idTokenVerifier: IdTokenVerifier,
+    private readonly timeoutMs: number = 3000
+  ) {}
+
+  async verify(credential: KakaoCredential): Promise<VerifiedIdentity> {
+    const claims = await this.idTokenVerifier.verifyIdToken(credential.idToken, credential.nonce);
+
+    return {
+      provider: this.provider,
+      providerUserId: claims.sub,
+      email: credential.accessToken ? await this.getVerifiedEmail(credential.accessToken, claims.sub) : undefined,
+      nickname: claims.nickname,
+    };
+  }
+
+  // The account email when Kakao reports it as valid and verified
+  private async getVerifiedEmail(accessToken: string, kakaoUserId: string): Promise<string | undefined> {
+    const response = await fetch(KAKAO_USER_URL, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (response.status === 401) {
+      throw new IdentityVerificationError('Kakao rejected the access token');
+    }
+
+    if (!response.ok) {
+      throw new Error(`Kakao user lookup failed with status ${response.status}`);
+    }
+
+    const user = await response.json() as KakaoUserResponse;
+
+    // The access token must belong to the account the ID token was issued for
+    if (String(user.id) !== kakaoUserId) {
+      throw new IdentityVerificationError('Kakao access token belongs to another account');
+    }
+
+    const account = user.kakao_account;
+    return account?.is_email_valid && account.is_email_verified ? account.email : undefined;
+  }
+}
+
+// Provider for the configured Kakao app keys (KAKAO_CLIENT_ID, comma-separated), null when unset
+export const createKakaoIdentityProvider = (): KakaoIdentityProvider | null => {
+  const audiences = (process.env['KAKAO_CLIENT_ID'] || '').split(',').map(key => key.trim()).filter(Boolean);
+  if (audiences.length === 0) {
+    return null;
+  }
+
+  return new KakaoIdentityProvider(new IdTokenVerifier({
+    jwksProvider: new RemoteJwksProvider(
+      KAKAO_JWKS_URL,
+      parseInt(process.env['KAKAO_JWKS_CACHE_TTL_SECONDS'] || '3600') * 1000
+    ),
+    issuer: KAKAO_ISSUER,
+    audiences,
+    // Kakao subjects are the numeric Kakao user id
+    subjectPattern: /^[0-9]+$/,
+  }));
+};
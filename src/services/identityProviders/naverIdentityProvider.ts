@@ -0,0 +1,91 @@
+import { IdentityProvider } from '@prisma/client';
+import { IdentityCredential, IdentityProviderClient, VerifiedIdentity } from '../../types/identity';
+import { IdentityVerificationError } from './identityVerificationError';
+
+const NAVER_TOKEN_URL = 'https://nid.naver.com/oauth2.0/token';
+const NAVER_PROFILE_URL = 'https://openapi.naver.com/v1/nid/me';
+
+type NaverCredential = Extract<IdentityCredential, { provider: typeof IdentityProvider.NAVER }>;
+
+interface NaverTokenResponse {
+  access_token?: string;
+  error?: string;
+  error_description?: string;
+}
+
+interface NaverProfileResponse {
+  resultcode: string;
+  message: string;
+  response?: {
+    id: string;
+    email?: string;
+    nickname?: string;
+  };
+}
+
+/**
+ * Naver Login has no ID token, so the app sends the authorization code and
+ * the server exchanges it with our client secret. That ties the login to
+ * this app, which a bare access token would not.
+ */
+export class NaverIdentityProvider implements IdentityProviderClient<NaverCredential> {
+  readonly provider = IdentityProvider.NAVER;
+
+  constructor(
+    private readonly clientId: string,
+    private readonly clientSecret: string,
+    private readonly timeoutMs: number = 3000
+  ) {}
+
+  async verify(credential: NaverCredential): Promise<VerifiedIdentity> {
+    const accessToken = await this.exchangeCode(credential.code, credential.state);
+
+    const response = await fetch(NAVER_PROFILE_URL, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    const profile = await response.json() as NaverProfileResponse;
+
+    if (profile.resultcode !== '00' || !profile.response?.id) {
+      throw new IdentityVerificationError(`Naver profile lookup failed: ${profile.message}`);
+    }
+
+    // The profile does not say whether Naver verified the email, so it is not used
+    return {
+      provider: this.provider,
+      providerUserId: profile.response.id,
+      nickname: profile.response.nickname,
+    };
+  }
+
+  private async exchangeCode(code: string, state: string): Promise<string> {
+    const url = new URL(NAVER_TOKEN_URL);
+    url.search = new URLSearchParams({
+      grant_type: 'authorization_code',
+      client_id: this.clientId,
+      client_secret: this.clientSecret,
+      code,
+      state,
+    }).toString();
+
+    const response = await fetch(url, { signal: AbortSignal.timeout(this.timeoutMs) });
+    if (!response.ok) {
+      throw new Error(`Naver token request failed with status ${response.status}`);
+    }
+
+    const body = await response.json() as NaverTokenResponse;
+    if (!body.access_token) {
+      throw new IdentityVerificationError(body.error_description || body.error || 'Naver rejected the authorization code');
+    }
+
+    return body.access_token;
+  }
+}
+
+// Provider for NAVER_CLIENT_ID / NAVER_CLIENT_SECRET, null when unset
+export const createNaverIdentityProvider = (): NaverIdentityProvider | null => {
+  const clientId = process.env['NAVER_CLIENT_ID'];
+  const clientSecret = process.env['NAVER_CLIENT_SECRET'];
+
+  return clientId && clientSecret ? new NaverIdentityProvider(clientId, clientSecret) : null;
+};
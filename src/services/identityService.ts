@@ -0,0 +1,205 @@
+import { IdentityProvider, Prisma, User, UserIdentity, UserRole } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { generateLinkToken, LINK_TOKEN_EXPIRES_IN_SECONDS } from '../utils/jwt';
+import { IdentityCredential, IdentityProviderClient, UserIdentityResponse, VerifiedIdentity } from '../types/identity';
+import { createKakaoIdentityProvider } from './identityProviders/kakaoIdentityProvider';
+import { createNaverIdentityProvider } from './identityProviders/naverIdentityProvider';
+import { createAppleIdentityProvider } from './identityProviders/appleIdentityProvider';
+
+// The identity cannot be linked or unlinked (taken by another user, last login method, ...)
+export class IdentityConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IdentityConflictError';
+  }
+}
+
+export type IdentityLoginResult =
+  | { status: 'authenticated'; user: User; created: boolean }
+  // The provider reported an email that belongs to an existing user
+  | {
+      status: 'link_required';
+      email: string;
+      linkToken: string;
+      linkTokenExpiresIn: number;
+      existingProviders: IdentityProvider[];
+    };
+
+// Providers whose configuration is present in the environment
+const createIdentityProviders = (): IdentityProviderClient[] => {
+  return [
+    createKakaoIdentityProvider(),
+    createNaverIdentityProvider(),
+    createAppleIdentityProvider(),
+  ].filter(provider => provider !== null) as IdentityProviderClient[];
+};
+
+let defaultProviders: IdentityProviderClient[] | null = null;
+
+export class IdentityService {
+  private providers: Map<IdentityProvider, IdentityProviderClient> | null = null;
+
+  constructor(private readonly clients?: IdentityProviderClient[]) {}
+
+  isProviderEnabled(provider: IdentityProvider): boolean {
+    return this.getProviders().has(provider);
+  }
+
+  // Throws IdentityVerificationError when the credential is not acceptable
+  async verifyCredential(credential: IdentityCredential): Promise<VerifiedIdentity> {
+    const client = this.getProviders().get(credential.provider);
+    if (!client) {
+      throw new Error(`${credential.provider} login is not enabled`);
+    }
+
+    return client.verify(credential);
+  }
+
+  /**
+   * Signs in with a verified identity, creating the user on first login. A
+   * new identity whose email is already taken is not attached to that user
+   * automatically - the caller gets a link token instead, which the owner
+   * can redeem after logging in with one of their existing providers.
+   */
+  async login(identity: VerifiedIdentity): Promise<IdentityLoginResult> {
+    const existing = await prisma.userIdentity.findUnique({
+      where: {
+        provider_providerUserId: { provider: identity.provider, providerUserId: identity.providerUserId },
+      },
+      include: { user: true },
+    });
+
+    if (existing) {
+      await prisma.userIdentity.update({
+        where: { id: existing.id },
+        data: { lastLoginAt: new Date() },
+      });
+
+      return { status: 'authenticated', user: existing.user, created: false };
+    }
+
+    if (identity.email) {
+      const emailOwner = await prisma.user.findUnique({
+        where: { email: identity.email },
+        select: { identities: { select: { provider: true } } },
+      });
+
+      if (emailOwner) {
+        return {
+          status: 'link_required',
+          email: identity.email,
+          linkToken: generateLinkToken({
+            provider: identity.provider,
+            providerUserId: identity.providerUserId,
+            email: identity.email,
+          }),
+          linkTokenExpiresIn: LINK_TOKEN_EXPIRES_IN_SECONDS,
+          existingProviders: emailOwner.identities.map(owned => owned.provider),
+        };
+      }
+    }
+
+    const user = await prisma.user.create({
+      data: {
+        email: identity.email || null,
+        nickname: identity.nickname || null,
+        role: UserRole.USER,
+        identities: {
+          create: {
+            provider: identity.provider,
+            providerUserId: identity.providerUserId,
+            email: identity.email || null,
+            lastLoginAt: new Date(),
+          },
+        },
+      },
+    });
+
+    return { status: 'authenticated', user, created: true };
+  }
+
+  async listIdentities(userId: number): Promise<UserIdentityResponse[]> {
+    const identities = await prisma.userIdentity.findMany({
+      where: { userId },
+      orderBy: { linkedAt: 'asc' },
+    });
+
+    return identities.map(identity => this.formatIdentityResponse(identity));
+  }
+
+  // Attaches a verified identity to the user; one account per provider
+  async linkIdentity(userId: number, identity: VerifiedIdentity): Promise<UserIdentityResponse> {
+    const owner = await prisma.userIdentity.findUnique({
+      where: {
+        provider_providerUserId: { provider: identity.provider, providerUserId: identity.providerUserId },
+      },
+      select: { userId: true },
+    });
+
+    if (owner) {
+      throw new IdentityConflictError(owner.userId === userId
+        ? 'This account is already linked'
+        : 'This account is linked to another user');
+    }
+
+    try {
+      const linked = await prisma.userIdentity.create({
+        data: {
+          userId,
+          provider: identity.provider,
+          providerUserId: identity.providerUserId,
+          email: identity.email || null,
+        },
+      });
+
+      return this.formatIdentityResponse(linked);
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new IdentityConflictError(`A ${identity.provider} account is already linked`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Removes the user's identity at a provider. Returns false when none is
+   * linked. The last identity cannot be removed, the user could not log in.
+   */
+  async unlinkIdentity(userId: number, provider: IdentityProvider): Promise<boolean> {
+    // Serializable so two concurrent unlinks cannot both pass the count check
+    return prisma.$transaction(async (tx) => {
+      const identities = await tx.userIdentity.findMany({
+        where: { userId },
+        select: { id: true, provider: true },
+      });
+
+      const identity = identities.find(linked => linked.provider === provider);
+      if (!identity) {
+        return false;
+      }
+
+      if (identities.length === 1) {
+        throw new IdentityConflictError('Cannot unlink the only login method');
+      }
+
+      await tx.userIdentity.delete({ where: { id: identity.id } });
+      return true;
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+  }
+
+  // Resolved on first use so the environment is read after it has been loaded
+  private getProviders(): Map<IdentityProvider, IdentityProviderClient> {
+    const clients = this.clients ?? (defaultProviders ??= createIdentityProviders());
+    this.providers ??= new Map(clients.map(client => [client.provider, client]));
+    return this.providers;
+  }
+
+  private formatIdentityResponse(identity: UserIdentity): UserIdentityResponse {
+    return {
+      provider: identity.provider,
+      email: identity.email,
+      linkedAt: identity.linkedAt,
+      lastLoginAt: identity.lastLoginAt,
+    };
+  }
+}
@@ -0,0 +1,277 @@
+import { Prisma, JobApplicationStatus, JobPostStatus, JobPostType } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { JobPostService } from './jobPostService';
+import { JobPostStatusService } from './jobPostStatusService';
+import { CreateJobApplicationRequest, JobApplicationResponse } from '../types/jobApplication';
+
+const jobPostService = new JobPostService();
+const jobPostStatusService = new JobPostStatusService();
+
+const jobApplicationInclude = {
+  applicant: {
+    select: {
+      id: true,
+      name: true,
+      nickname: true,
+    },
+  },
+  equipment: {
+    select: {
+      id: true,
+      type: true,
+      tonnage: true,
+      length: true,
+      height: true,
+    },
+  },
+  jobPost: {
+    select: {
+      id: true,
+      status: true,
+      workDateType: true,
+      scheduledStartAt: true,
+      siteAddress: true,
+    },
+  },
+} satisfies Prisma.JobApplicationInclude;
+
+export class JobApplicationService {
+  async applyToJobPost(jobPostId: number, userId: number, data: CreateJobApplicationRequest): Promise<JobApplicationResponse | null> {
+    const jobPost = await prisma.jobPost.findUnique({
+      where: { id: jobPostId },
+    });
+
+    // Posts the user cannot see are reported as not found
+    if (!jobPost || !(await jobPostService.canAccessJobPost(jobPost, userId))) {
+      return null;
+    }
+
+    // Designated posts are answered through accept/decline, not applications
+    if (jobPost.type === JobPostType.DESIGNATED) {
+      throw new Error('Designated job posts do not accept applications');
+    }
+
+    if (jobPost.authorId === userId) {
+      throw new Error('Cannot apply to your own job post');
+    }
+
+    if (jobPost.status !== JobPostStatus.OPEN) {
+      throw new Error('Job post is no longer accepting applications');
+    }
+
+    if (data.equipmentId) {
+      const equipment = await prisma.equipment.findUnique({
+        where: { id: data.equipmentId },
+      });
+
+      if (!equipment || equipment.userId !== userId) {
+        throw new Error('Equipment not found');
+      }
+    }
+
+    const existingApplication = await prisma.jobApplication.findUnique({
+      where: {
+        jobPostId_applicantId: {
+          jobPostId,
+          applicantId: userId,
+        },
+      },
+    });
+
+    const applicationData = {
+      equipmentId: data.equipmentId ?? null,
+      proposedPrice: data.proposedPrice ?? null,
+      message: data.message ?? null,
+      status: JobApplicationStatus.PENDING,
+      decidedAt: null,
+    };
+
+    if (existingApplication) {
+      // A withdrawn application can be re-submitted, anything else is final
+      if (existingApplication.status !== JobApplicationStatus.WITHDRAWN) {
+        throw new Error('You have already applied to this job post');
+      }
+
+      const application = await prisma.jobApplication.update({
+        where: { id: existingApplication.id },
+        data: applicationData,
+        include: jobApplicationInclude,
+      });
+
+      return this.formatJobApplicationResponse(application);
+    }
+
+    const application = await prisma.jobApplication.create({
+      data: {
+        ...applicationData,
+        jobPostId,
+        applicantId: userId,
+      },
+      include: jobApplicationInclude,
+    });
+
+    return this.formatJobApplicationResponse(application);
+  }
+
+  async getJobPostApplications(jobPostId: number, userId: number): Promise<JobApplicationResponse[] | null> {
+    const jobPost = await prisma.jobPost.findUnique({
+      where: { id: jobPostId },
+    });
+
+    // Only the author can see who applied
+    if (!jobPost || jobPost.authorId !== userId) {
+      return null;
+    }
+
+    const applications = await prisma.jobApplication.findMany({
+      where: { jobPostId },
+      include: jobApplicationInclude,
+      orderBy: {
+        createdAt: 'asc',
+      },
+    });
+
+    return applications.map(application => this.formatJobApplicationResponse(application));
+  }
+
+  async getUserApplications(userId: number): Promise<JobApplicationResponse[]> {
+    const applications = await prisma.jobApplication.findMany({
+      where: { applicantId: userId },
+      include: jobApplicationInclude,
+      orderBy: {
+        createdAt: 'desc',
+      },
+    });
+
+    return applications.map(application => this.formatJobApplicationResponse(application));
+  }
+
+  async acceptApplication(jobPostId: number, applicationId: number, userId: number): Promise<JobApplicationResponse | null> {
+    const jobPost = await prisma.jobPost.findUnique({
+      where: { id: jobPostId },
+    });
+
+    if (!jobPost || jobPost.authorId !== userId) {
+      return null;
+    }
+
+    const application = await prisma.jobApplication.findFirst({
+      where: { id: applicationId, jobPostId },
+    });
+
+    if (!application) {
+      return null;
+    }
+
+    if (application.status !== JobApplicationStatus.PENDING) {
+      throw new Error(`Cannot accept an application that is ${application.status}`);
+    }
+
+    const decidedAt = new Date();
+
+    await prisma.$transaction(async (tx) => {
+      const accepted = await tx.jobApplication.updateMany({
+        where: { id: applicationId, status: JobApplicationStatus.PENDING },
+        data: { status: JobApplicationStatus.ACCEPTED, decidedAt },
+      });
+
+      if (accepted.count === 0) {
+        throw new Error('Application was changed by another request. Please reload and try again.');
+      }
+
+      // Everyone else who was still waiting is turned down
+      await tx.jobApplication.updateMany({
+        where: {
+          jobPostId,
+          id: { not: applicationId },
+          status: JobApplicationStatus.PENDING,
+        },
+        data: { status: JobApplicationStatus.REJECTED, decidedAt },
+      });
+
+      await jobPostStatusService.applyTransition(tx, jobPost, JobPostStatus.ASSIGNED, userId, {
+        assignedUserId: application.applicantId,
+      });
+    });
+
+    return this.getApplicationById(applicationId);
+  }
+
+  async rejectApplication(jobPostId: number, applicationId: number, userId: number): Promise<JobApplicationResponse | null> {
+    const jobPost = await prisma.jobPost.findUnique({
+      where: { id: jobPostId },
+    });
+
+    if (!jobPost || jobPost.authorId !== userId) {
+      return null;
+    }
+
+    const result = await prisma.jobApplication.updateMany({
+      where: { id: applicationId, jobPostId, status: JobApplicationStatus.PENDING },
+      data: { status: JobApplicationStatus.REJECTED, decidedAt: new Date() },
+    });
+
+    if (result.count === 0) {
+      throw new Error('Only pending applications can be rejected');
+    }
+
+    return this.getApplicationById(applicationId);
+  }
+
+  async withdrawApplication(jobPostId: number, applicationId: number, userId: number): Promise<JobApplicationResponse | null> {
+    const application = await prisma.jobApplication.findFirst({
+      where: { id: applicationId, jobPostId },
+    });
+
+    if (!application || application.applicantId !== userId) {
+      return null;
+    }
+
+    // Accepted applications are released through the job post unassign flow
+    if (application.status !== JobApplicationStatus.PENDING) {
+      throw new Error('Only pending applications can be withdrawn');
+    }
+
+    const updatedApplication = await prisma.jobApplication.update({
+      where: { id: applicationId },
+      data: { status: JobApplicationStatus.WITHDRAWN },
+      include: jobApplicationInclude,
+    });
+
+    return this.formatJobApplicationResponse(updatedApplication);
+  }
+
+  private async getApplicationById(id: number): Promise<JobApplicationResponse | null> {
+    const application = await prisma.jobApplication.findUnique({
+      where: { id },
+      include: jobApplicationInclude,
+    });
+
+    return application ? this.formatJobApplicationResponse(application) : null;
+  }
+
+  private formatJobApplicationResponse(application: any): JobApplicationResponse {
+    return {
+      id: application.id,
+      jobPostId: application.jobPostId,
+      applicantId: application.applicantId,
+      equipmentId: application.equipmentId || undefined,
+      proposedPrice: application.proposedPrice ? Number(application.proposedPrice) : undefined,
+      message: application.message || undefined,
+      status: application.status,
+      decidedAt: application.decidedAt || undefined,
+      createdAt: application.createdAt,
+      updatedAt: application.updatedAt,
+      applicant: application.applicant || undefined,
+      equipment: application.equipment ? {
+        ...application.equipment,
+        length: application.equipment.length || undefined,
+      } : undefined,
+      jobPost: application.jobPost ? {
+        ...application.jobPost,
+        scheduledStartAt: application.jobPost.scheduledStartAt || undefined,
+        siteAddress: application.jobPost.siteAddress || undefined,
+      } : undefined,
+    };
+  }
+}
@@ -0,0 +1,168 @@
+import { Prisma, JobPostCategory, JobPostStatus, JobPostType } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { JobPostService } from './jobPostService';
+import { EquipmentCatalogService } from './equipmentCatalogService';
+import { normalizeEquipment } from '../utils/equipmentNormalizer';
+import { OperatorFilters, JobPostListOptions, PaginatedJobPostsResponse } from '../types/jobPost';
+import { MatchedEquipmentResponse, MatchedJobPostResponse, NormalizedEquipment, SuitableOperatorResponse } from '../types/jobMatching';
+
+const jobPostService = new JobPostService();
+const equipmentCatalogService = new EquipmentCatalogService();
+
+const matchingEquipmentSelect = {
+  id: true,
+  userId: true,
+  type: true,
+  tonnage: true,
+  length: true,
+  user: {
+    select: {
+      id: true,
+      name: true,
+      nickname: true,
+      businessVerifiedAt: true,
+    },
+  },
+} satisfies Prisma.EquipmentSelect;
+
+type MatchingEquipment = Prisma.EquipmentGetPayload<{ select: typeof matchingEquipmentSelect }>;
+
+export class JobMatchingService {
+  // Open SKY posts the user can see and at least one of their trucks can serve
+  async getJobPostsForUserEquipment(
+    userId: number,
+    options: JobPostListOptions = {}
+  ): Promise<Omit<PaginatedJobPostsResponse, 'data'> & { data: MatchedJobPostResponse[] }> {
+    const equipment = await this.getNormalizedEquipment({ userId });
+
+    // One condition per distinct type/length pair - no equipment matches nothing
+    const pairs = new Map(equipment.map(item => [`${item.equipmentType}:${item.equipmentLength}`, item]));
+
+    const result = await jobPostService.findJobPosts({
+      category: JobPostCategory.SKY,
+      status: JobPostStatus.OPEN,
+      authorId: { not: userId },
+      OR: [...pairs.values()].map(({ equipmentType, equipmentLength }) => ({
+        equipmentType,
+        equipmentLengths: { has: equipmentLength },
+      })),
+    }, userId, options);
+
+    return {
+      ...result,
+      data: result.data.map(post => ({
+        ...post,
+        matchedEquipmentIds: equipment
+          .filter(item => this.canServe(item, post))
+          .map(item => item.id),
+      })),
+    };
+  }
+
+  /**
+   * Operators owning equipment suitable for the post, limited to users who
+   * can see it. Only the author can ask; returns null otherwise.
+   */
+  async getSuitableOperators(
+    jobPostId: number,
+    userId: number,
+    filters: OperatorFilters = {}
+  ): Promise<SuitableOperatorResponse[] | null> {
+    const jobPost = await prisma.jobPost.findUnique({
+      where: { id: jobPostId },
+    });
+
+    if (!jobPost || jobPost.authorId !== userId) {
+      return null;
+    }
+
+    if (jobPost.category !== JobPostCategory.SKY || !jobPost.equipmentType) {
+      throw new Error('Equipment matching is only available for SKY job posts');
+    }
+
+    const equipment = await this.getNormalizedEquipment({
+      user: {
+        id: { not: jobPost.authorId },
+        ...(filters.verifiedOnly && { businessVerifiedAt: { not: null } }),
+        ...(await this.buildAudienceFilter(jobPost)),
+      },
+    });
+
+    const operators = new Map<number, SuitableOperatorResponse>();
+
+    for (const item of equipment) {
+      if (!this.canServe(item, jobPost)) {
+        continue;
+      }
+
+      const operator = operators.get(item.user.id) ?? {
+        id: item.user.id,
+        name: item.user.name || undefined,
+        nickname: item.user.nickname || undefined,
+        isBusinessVerified: item.user.businessVerifiedAt !== null,
+        equipment: [],
+      };
+
+      operator.equipment.push(this.formatMatchedEquipment(item));
+      operators.set(item.user.id, operator);
+    }
+
+    return [...operators.values()];
+  }
+
+  // Users who may see the post: everyone for GLOBAL, community members for
+  // COMMUNITY and, for DESIGNATED, users the author could designate
+  private async buildAudienceFilter(jobPost: { type: JobPostType; authorId: number; communityId: number | null }): Promise<Prisma.UserWhereInput> {
+    if (jobPost.type === JobPostType.COMMUNITY) {
+      return {
+        communities: {
+          some: { communityId: { in: jobPost.communityId ? [jobPost.communityId] : [] }, isActive: true },
+        },
+      };
+    }
+
+    if (jobPost.type === JobPostType.DESIGNATED) {
+      const authorCommunities = await jobPostService.getUserCommunities(jobPost.authorId);
+
+      return {
+        communities: {
+          some: { communityId: { in: authorCommunities.map(c => c.id) }, isActive: true },
+        },
+      };
+    }
+
+    return {};
+  }
+
+  private async getNormalizedEquipment(where: Prisma.EquipmentWhereInput): Promise<(MatchingEquipment & NormalizedEquipment)[]> {
+    const [equipment, catalog] = await Promise.all([
+      prisma.equipment.findMany({
+        where,
+        select: matchingEquipmentSelect,
+        orderBy: { id: 'asc' },
+      }),
+      equipmentCatalogService.getCatalog(),
+    ]);
+
+    return equipment.flatMap(item => {
+      const normalized = normalizeEquipment(item, catalog.equipmentTypes);
+      return normalized ? [{ ...item, ...normalized }] : [];
+    });
+  }
+
+  private canServe(equipment: NormalizedEquipment, jobPost: { equipmentType?: string | null | undefined; equipmentLengths?: number[] | undefined }): boolean {
+    return jobPost.equipmentType === equipment.equipmentType &&
+      (jobPost.equipmentLengths ?? []).includes(equipment.equipmentLength);
+  }
+
+  private formatMatchedEquipment(equipment: MatchingEquipment & NormalizedEquipment): MatchedEquipmentResponse {
+    return {
+      id: equipment.id,
+      type: equipment.type,
+      tonnage: equipment.tonnage,
+      length: equipment.length || undefined,
+      equipmentType: equipment.equipmentType,
+      equipmentLength: equipment.equipmentLength,
+    };
+  }
+}
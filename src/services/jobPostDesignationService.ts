@@ -0,0 +1,148 @@
+import { JobPost, JobPostStatus, JobPostType, DesignationStatus } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { JobPostService } from './jobPostService';
+import { JobPostStatusService } from './jobPostStatusService';
+import { JobPostResponse } from '../types/jobPost';
+import { getDesignationExpiresAt } from '../constants/jobPostStatus';
+
+const jobPostService = new JobPostService();
+const jobPostStatusService = new JobPostStatusService();
+
+export class JobPostDesignationService {
+  async acceptDesignation(id: number, userId: number): Promise<JobPostResponse | null> {
+    const jobPost = await this.findPendingDesignation(id, userId);
+
+    if (!jobPost) {
+      return null;
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const accepted = await tx.jobPost.updateMany({
+        where: { id, designationStatus: DesignationStatus.PENDING },
+        data: {
+          designationStatus: DesignationStatus.ACCEPTED,
+          designationRespondedAt: new Date(),
+        },
+      });
+
+      if (accepted.count === 0) {
+        throw new Error('Designation was changed by another request. Please reload and try again.');
+      }
+
+      await jobPostStatusService.applyTransition(tx, jobPost, JobPostStatus.ASSIGNED, userId, {
+        assignedUserId: userId,
+      });
+    });
+
+    return jobPostService.getJobPostById(id);
+  }
+
+  async declineDesignation(id: number, userId: number, reason?: string): Promise<JobPostResponse | null> {
+    const jobPost = await this.findPendingDesignation(id, userId);
+
+    if (!jobPost) {
+      return null;
+    }
+
+    // The post stays OPEN and falls back to the author
+    const declined = await prisma.jobPost.updateMany({
+      where: { id, designationStatus: DesignationStatus.PENDING },
+      data: {
+        designationStatus: DesignationStatus.DECLINED,
+        designationRespondedAt: new Date(),
+        designationDeclineReason: reason ?? null,
+      },
+    });
+
+    if (declined.count === 0) {
+      throw new Error('Designation was changed by another request. Please reload and try again.');
+    }
+
+    return jobPostService.getJobPostById(id);
+  }
+
+  async redesignateJobPost(id: number, userId: number, designatedUserId: number): Promise<JobPostResponse | null> {
+    await this.expireStaleDesignations();
+
+    const jobPost = await prisma.jobPost.findUnique({ where: { id } });
+
+    if (!jobPost || jobPost.authorId !== userId) {
+      return null;
+    }
+
+    if (jobPost.type !== JobPostType.DESIGNATED) {
+      throw new Error('Only designated job posts can be re-designated');
+    }
+
+    if (jobPost.status !== JobPostStatus.OPEN) {
+      throw new Error('Job post is no longer open');
+    }
+
+    if (jobPost.designationStatus !== DesignationStatus.DECLINED && jobPost.designationStatus !== DesignationStatus.EXPIRED) {
+      throw new Error('The current designation has not been declined or expired yet');
+    }
+
+    if (designatedUserId === userId) {
+      throw new Error('Cannot designate a job post to its author');
+    }
+
+    await jobPostService.validateDesignatedUserAccess(userId, designatedUserId);
+
+    await prisma.jobPost.update({
+      where: { id },
+      data: {
+        designatedUserId,
+        designationStatus: DesignationStatus.PENDING,
+        designationExpiresAt: getDesignationExpiresAt(),
+        designationRespondedAt: null,
+        designationDeclineReason: null,
+      },
+    });
+
+    return jobPostService.getJobPostById(id);
+  }
+
+  // Marks every unanswered designation past its deadline as EXPIRED
+  async expireStaleDesignations(): Promise<number> {
+    const result = await prisma.jobPost.updateMany({
+      where: {
+        type: JobPostType.DESIGNATED,
+        designationStatus: DesignationStatus.PENDING,
+        designationExpiresAt: { lte: new Date() },
+      },
+      data: {
+        designationStatus: DesignationStatus.EXPIRED,
+      },
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Loads a designated post the user can still answer. Returns null when the
+   * post does not exist or is not addressed to the user.
+   */
+  private async findPendingDesignation(id: number, userId: number): Promise<JobPost | null> {
+    await this.expireStaleDesignations();
+
+    const jobPost = await prisma.jobPost.findUnique({ where: { id } });
+
+    if (!jobPost || jobPost.type !== JobPostType.DESIGNATED || jobPost.designatedUserId !== userId) {
+      return null;
+    }
+
+    if (jobPost.status !== JobPostStatus.OPEN) {
+      throw new Error('Job post is no longer open');
+    }
+
+    if (jobPost.designationStatus === DesignationStatus.EXPIRED) {
+      throw new Error('This designation has expired');
+    }
+
+    if (jobPost.designationStatus !== DesignationStatus.PENDING) {
+      throw new Error('This designation has already been answered');
+    }
+
+    return jobPost;
+  }
+}
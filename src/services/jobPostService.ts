@@ -1,35 +1,78 @@
-import { PrismaClient, JobPostType, JobPostCategory } from '@prisma/client';
-import { CreateJobPostRequest, UpdateJobPostRequest, JobPostFilters, JobPostResponse, UserCommunitiesResponse, CommunityUsersResponse } from '../types/jobPost';
-
-const prisma = new PrismaClient();
+import { Prisma, JobPostType, JobPostCategory, JobPostStatus, DesignationStatus, PaymentMethod } from '@prisma/client';
+import { CreateJobPostRequest, UpdateJobPostRequest, JobPostFilters, JobPostListOptions, JobPostResponse, PaginatedJobPostsResponse, ResolvedWorkSchedule, UserCommunitiesResponse, CommunityUsersResponse, OperatorFilters, UserSummaryResponse } from '../types/jobPost';
+import prisma from '../lib/prisma';
+import { DEFAULT_FEED_STATUSES, getDesignationExpiresAt } from '../constants/jobPostStatus';
+import { FeeBreakdown } from '../types/fee';
+import { createJobPostSchema } from '../validators/jobPostValidator';
+import { resolveWorkSchedule, resolveWorkDate, formatDateOnly, getShiftForArrivalTime } from '../utils/workSchedule';
+import { FeeCalculationService } from './feeCalculationService';
+import { EquipmentCatalogService } from './equipmentCatalogService';
+import { LocationService } from './locationService';
+import { CommunityMembershipService } from './communityMembershipService';
+
+const feeCalculationService = new FeeCalculationService();
+const equipmentCatalogService = new EquipmentCatalogService();
+const locationService = new LocationService();
+const communityMembershipService = new CommunityMembershipService();
+
+const DEFAULT_PAGE_SIZE = 20;
+
+// Fields that only apply to one category
+const CATEGORY_FIELDS: Record<JobPostCategory, (keyof CreateJobPostRequest)[]> = {
+  [JobPostCategory.SKY]: ['equipmentType', 'equipmentLengths'],
+  [JobPostCategory.LADDER]: [
+    'ladderType', 'machineType', 'luggageVolume', 'workFloor', 'overallHeight',
+    'ladderWorkDuration', 'ladderWorkHours', 'options', 'movingFee', 'onSiteFee',
+  ],
+};
+
+// The fields an edit sets, with the cleared (null) ones as undefined
+const toMergedFields = (fields: object): Record<string, unknown> => Object.fromEntries(
+  Object.entries(fields)
+    .filter(([_, value]) => value !== undefined)
+    .map(([key, value]) => [key, value ?? undefined])
+);
+
+const userSummarySelect = {
+  id: true,
+  name: true,
+  nickname: true,
+  businessVerifiedAt: true,
+} satisfies Prisma.UserSelect;
+
+// Relations returned with every job post
+export const jobPostInclude = {
+  author: {
+    select: userSummarySelect,
+  },
+  community: {
+    select: {
+      id: true,
+      title: true,
+    },
+  },
+  designatedUser: {
+    select: userSummarySelect,
+  },
+  assignedUser: {
+    select: userSummarySelect,
+  },
+  options: true, // Include JobPostOptions relation
+} satisfies Prisma.JobPostInclude;
 
 export class JobPostService {
-  // Equipment type and length mappings
-  private readonly equipmentLengths = {
-    '1 ton': [16, 18, 20, 21],
-    '2.5 ton': [22, 24, 25],
-    '3.5 ton': [28, 30, 32, 35],
-    '5 ton': [38, 40, 45, 50, 54],
-    '18 ton': [58, 60, 65, 70],
-    '19 ton': [75],
-    '3.5 tons of bending': [28],
-    'Refraction 5 tons': [40],
-    'Refraction 60M': [60],
-    'Refraction 70M': [70]
-  };
-
   async createJobPost(userId: number, data: CreateJobPostRequest): Promise<JobPostResponse> {
     // Validate job post type and required fields
     this.validateJobPostData(data);
 
     // Validate SKY category specific fields
     if (data.category === JobPostCategory.SKY) {
-      this.validateSkyJobPostData(data);
+      await this.validateSkyJobPostData(data);
     }
 
     // Validate LADDER category specific fields
     if (data.category === JobPostCategory.LADDER) {
-      this.validateLadderJobPostData(data);
+      await this.validateLadderJobPostData(data);
     }
 
     // Check if user has permission to post in community (if community type)
@@ -42,22 +85,11 @@ export class JobPostService {
       await this.validateDesignatedUserAccess(userId, data.designatedUserId);
     }
 
-
-    // For COMMUNITY type, get default fees from community settings
-    let communityWorkFee = data.communityWorkFee;
-    let communitySupportFee = data.communitySupportFee;
-    
-    if (data.type === JobPostType.COMMUNITY && data.communityId) {
-      const community = await prisma.community.findUnique({
-        where: { id: data.communityId },
-        select: { defaultWorkFee: true, defaultSupportFee: true },
-      });
-      
-      if (community) {
-        communityWorkFee = communityWorkFee || (community.defaultWorkFee ? Number(community.defaultWorkFee) : 5);
-        communitySupportFee = communitySupportFee || (community.defaultSupportFee ? Number(community.defaultSupportFee) : 2);
-      }
-    }
+    // For COMMUNITY type, get default fees from community settings, then compute the fees
+    const pricedData = await feeCalculationService.resolveFeeRates(data);
+    const fees = feeCalculationService.calculate(pricedData);
+    const schedule = resolveWorkSchedule(data);
+    const siteLocation = await locationService.resolveSiteLocation(data.siteAddress);
 
     const jobPost = await prisma.jobPost.create({
       data: {
@@ -67,101 +99,38 @@ export class JobPostService {
         communityId: data.communityId ?? null,
         designatedUserId: data.designatedUserId ?? null,
         
-        // Equipment Selection (Required for SKY, Optional for LADDER)
-        equipmentType: data.equipmentType ?? null,
-        equipmentLengths: data.equipmentLengths ?? [],
-      
-      // Ladder-specific fields
-      ladderType: data.ladderType ?? null,
-      machineType: data.machineType ?? null,
-      luggageVolume: data.luggageVolume ?? null,
-      workFloor: data.workFloor ?? null,
-      overallHeight: data.overallHeight ?? null,
-      
-      // Ladder Work Schedule (for ON_SITE type)
-      ladderWorkDuration: data.ladderWorkDuration ?? null,
-      ladderWorkHours: data.ladderWorkHours ?? null,
-      
-    // Ladder Options - Moved to JobPostOptions table
-      
-      // Ladder-specific pricing
-      movingFee: data.movingFee ?? null,
-      onSiteFee: data.onSiteFee ?? null,
-        
-        // Work Details
-        workDateType: data.workDateType,
-        arrivalTime: data.arrivalTime,
-        workSchedule: data.workSchedule ?? '',
-        customHours: data.customHours ?? null,
-        
-        // Pricing
-        workCost: data.workCost,
-        isNightWork: data.isNightWork || false,
-        priceAdjustment: data.priceAdjustment ?? null,
-        
-        // Payment
-        paymentMethod: data.paymentMethod,
-        expectedPaymentDate: data.expectedPaymentDate,
+        // Designated user has a limited time to accept or decline
+        designationStatus: data.type === JobPostType.DESIGNATED ? DesignationStatus.PENDING : null,
+        designationExpiresAt: data.type === JobPostType.DESIGNATED ? getDesignationExpiresAt() : null,
         
-        // Fee Structure
-        withFee: data.withFee,
-        totalWorkFee: data.totalWorkFee ?? null,
-        unitPriceFee: data.unitPriceFee ?? null,
+        ...this.buildJobPostFields(pricedData, fees, schedule),
+        ...siteLocation,
         
-        // Community Fee Structure (for COMMUNITY type)
-        communityWorkFee: communityWorkFee ?? null,
-        communitySupportFee: communitySupportFee ?? null,
-        
-        // Location and Contact
-        siteAddress: data.siteAddress,
-        contactNumber: data.contactNumber,
-        
-        // Work Information
-        workContents: data.workContents ?? null,
-        deliveryInfo: data.deliveryInfo,
-      },
-      include: {
-        author: {
-          select: {
-            id: true,
-            name: true,
-            nickname: true,
-          },
-        },
-        community: {
-          select: {
-            id: true,
-            title: true,
+        // Ladder Options - saved in JobPostOptions table
+        ...(data.options && {
+          options: {
+            create: this.buildJobPostOptionsFields(data.options),
           },
-        },
-        designatedUser: {
-          select: {
-            id: true,
-            name: true,
-            nickname: true,
+        }),
+        
+        // Lifecycle - every post starts OPEN
+        status: JobPostStatus.OPEN,
+        statusChangedAt: new Date(),
+        statusHistory: {
+          create: {
+            toStatus: JobPostStatus.OPEN,
+            changedById: userId,
           },
         },
-        options: true, // Include JobPostOptions relation
       },
+      include: jobPostInclude,
     });
 
-    // Create JobPostOptions if provided
-    if (data.options) {
-      await prisma.jobPostOptions.create({
-        data: {
-          jobPostId: jobPost.id,
-          loadingUnloadingService: data.options.loadingUnloadingService ?? null,
-          travelDistance: data.options.travelDistance ?? null,
-          dumpService: data.options.dumpService || false,
-        },
-      });
-    }
-
     return this.formatJobPostResponse(jobPost);
   }
 
-  async getJobPosts(filters: JobPostFilters = {}, userId?: number): Promise<JobPostResponse[]> {
-    const where: any = {};
+  async getJobPosts(filters: JobPostFilters = {}, userId?: number, options: JobPostListOptions = {}): Promise<PaginatedJobPostsResponse> {
+    const where: Prisma.JobPostWhereInput = {};
 
     if (filters.type) {
       where.type = filters.type;
@@ -175,84 +144,154 @@ export class JobPostService {
       where.authorId = filters.authorId;
     }
 
+    // Only OPEN posts are shown unless other statuses are requested explicitly
+    where.status = {
+      in: filters.status && filters.status.length > 0 ? filters.status : [...DEFAULT_FEED_STATUSES],
+    };
 
-    // For community posts, only show posts from communities user is member of
     if (filters.communityId) {
       where.communityId = filters.communityId;
-    } else if (userId) {
-      // Get user's communities for filtering
-      const userCommunities = await this.getUserCommunities(userId);
-      const communityIds = userCommunities.map(c => c.id);
+    }
 
-      where.OR = [
-        { type: JobPostType.GLOBAL },
-        { type: JobPostType.COMMUNITY, communityId: { in: communityIds } },
-        { type: JobPostType.DESIGNATED, designatedUserId: userId },
-      ];
-    } else {
-      // If no user, only show global posts
-      where.type = JobPostType.GLOBAL;
+    // Equipment filters
+    if (filters.equipmentType) {
+      where.equipmentType = filters.equipmentType;
+    }
+
+    if (filters.equipmentLengths && filters.equipmentLengths.length > 0) {
+      where.equipmentLengths = { hasEvery: filters.equipmentLengths };
+    }
+
+    if (filters.ladderType) {
+      where.ladderType = filters.ladderType;
+    }
+
+    // Payment and pricing filters
+    if (filters.paymentMethod) {
+      where.paymentMethod = filters.paymentMethod;
+    }
+
+    if (filters.isNightWork !== undefined) {
+      where.isNightWork = filters.isNightWork;
+    }
+
+    if (filters.withFee !== undefined) {
+      where.withFee = filters.withFee;
+    }
+
+    if (filters.minWorkCost !== undefined || filters.maxWorkCost !== undefined) {
+      where.workCost = {
+        ...(filters.minWorkCost !== undefined && { gte: filters.minWorkCost }),
+        ...(filters.maxWorkCost !== undefined && { lte: filters.maxWorkCost }),
+      };
+    }
+
+    if (filters.createdFrom || filters.createdTo) {
+      where.createdAt = {
+        ...(filters.createdFrom && { gte: filters.createdFrom }),
+        ...(filters.createdTo && { lte: filters.createdTo }),
+      };
+    }
+
+    // Schedule filters
+    const workDate = filters.workDate ? resolveWorkDate(filters.workDate) : null;
+    if (workDate) {
+      where.workDate = workDate;
+    }
+
+    if (filters.shift) {
+      where.shift = filters.shift;
     }
 
+    if (filters.scheduledFrom || filters.scheduledTo) {
+      where.scheduledStartAt = {
+        ...(filters.scheduledFrom && { gte: filters.scheduledFrom }),
+        ...(filters.scheduledTo && { lte: filters.scheduledTo }),
+      };
+    }
+
+    // Location filters
+    if (filters.regionCode) {
+      where.siteRegionCode = filters.regionCode;
+    }
+
+    if (filters.districtCode) {
+      where.siteDistrictCode = filters.districtCode;
+    }
+
+    let truncated = false;
+    if (filters.radiusKm !== undefined && filters.latitude !== undefined && filters.longitude !== undefined) {
+      const center = { latitude: filters.latitude, longitude: filters.longitude };
+      const scope: Prisma.JobPostWhereInput = { AND: [{ ...where }, await this.buildVisibilityFilter(userId)] };
+      const radiusSearch = await locationService.findJobPostIdsWithinRadius(center, filters.radiusKm, scope);
+      where.id = { in: radiusSearch.jobPostIds };
+      truncated = radiusSearch.truncated;
+    }
+
+    const result = await this.findJobPosts(where, userId, options);
+
+    return truncated ? { ...result, pagination: { ...result.pagination, truncated } } : result;
+  }
+
+  /**
+   * One page of job posts matching `where`, restricted to what the user is
+   * allowed to see.
+   */
+  async findJobPosts(where: Prisma.JobPostWhereInput, userId?: number, options: JobPostListOptions = {}): Promise<PaginatedJobPostsResponse> {
+    const sortBy = options.sortBy ?? 'createdAt';
+    const sortOrder = options.sortOrder ?? 'desc';
+    const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+
+    // Fetch one extra row to know whether another page exists. The id
+    // tie-breaker keeps the order stable for the cursor.
     const jobPosts = await prisma.jobPost.findMany({
-      where,
-      include: {
-        author: {
-          select: {
-            id: true,
-            name: true,
-            nickname: true,
-          },
-        },
-        community: {
-          select: {
-            id: true,
-            title: true,
-          },
-        },
-        designatedUser: {
-          select: {
-            id: true,
-            name: true,
-            nickname: true,
-          },
-        },
-        options: true, // Include JobPostOptions relation
+      where: {
+        AND: [
+          where,
+          await this.buildVisibilityFilter(userId),
+          // Posts without a resolved start cannot be placed in a scheduledStartAt cursor
+          ...(sortBy === 'scheduledStartAt' ? [{ scheduledStartAt: { not: null } }] : []),
+        ],
       },
-      orderBy: {
-        createdAt: 'desc',
+      include: jobPostInclude,
+      orderBy: [
+        { [sortBy]: sortOrder },
+        { id: sortOrder },
+      ],
+      take: limit + 1,
+      ...(options.cursor && {
+        cursor: { id: options.cursor },
+        skip: 1,
+      }),
+    });
+
+    const hasMore = jobPosts.length > limit;
+    const page = hasMore ? jobPosts.slice(0, limit) : jobPosts;
+
+    return {
+      data: page.map(post => this.formatJobPostResponse(post)),
+      pagination: {
+        limit,
+        hasMore,
+        nextCursor: hasMore ? page[page.length - 1]?.id : undefined,
       },
+    };
+  }
+
+  // The community a job post was posted in, null when it has none or does not exist
+  async getJobPostCommunityId(id: number): Promise<number | null> {
+    const jobPost = await prisma.jobPost.findUnique({
+      where: { id },
+      select: { communityId: true },
     });
 
-    return jobPosts.map(post => this.formatJobPostResponse(post));
+    return jobPost?.communityId ?? null;
   }
 
   async getJobPostById(id: number, userId?: number): Promise<JobPostResponse | null> {
     const jobPost = await prisma.jobPost.findUnique({
       where: { id },
-      include: {
-        author: {
-          select: {
-            id: true,
-            name: true,
-            nickname: true,
-          },
-        },
-        community: {
-          select: {
-            id: true,
-            title: true,
-          },
-        },
-        designatedUser: {
-          select: {
-            id: true,
-            name: true,
-            nickname: true,
-          },
-        },
-        options: true, // Include JobPostOptions relation
-      },
+      include: jobPostInclude,
     });
 
     if (!jobPost) {
@@ -260,7 +299,7 @@ export class JobPostService {
     }
 
     // Check if user has access to this job post
-    if (userId && !this.hasAccessToJobPost(jobPost, userId)) {
+    if (userId && !(await this.canAccessJobPost(jobPost, userId))) {
       return null;
     }
 
@@ -270,69 +309,75 @@ export class JobPostService {
   async updateJobPost(id: number, userId: number, data: UpdateJobPostRequest): Promise<JobPostResponse | null> {
     const existingJobPost = await prisma.jobPost.findUnique({
       where: { id },
+      include: { options: true },
     });
 
     if (!existingJobPost || existingJobPost.authorId !== userId) {
       return null;
     }
 
-    const updateData: any = {};
-    if (data.category !== undefined) {
-      updateData.category = data.category;
+    // Once an operator is involved the terms can no longer change
+    if (existingJobPost.status !== JobPostStatus.OPEN) {
+      throw new Error('Job post can only be edited while it is open');
     }
-    
-    // Update other basic fields if provided
-    if (data.machineType !== undefined) updateData.machineType = data.machineType;
-    if (data.luggageVolume !== undefined) updateData.luggageVolume = data.luggageVolume;
-    if (data.workFloor !== undefined) updateData.workFloor = data.workFloor;
-    if (data.overallHeight !== undefined) updateData.overallHeight = data.overallHeight;
+
+    const { options, ...fields } = data;
+    const existingData = this.toCreateJobPostRequest(existingJobPost);
+
+    // Switching category drops the fields of the previous one
+    const category = fields.category ?? existingJobPost.category;
+    const categoryChanged = category !== existingJobPost.category;
+    if (categoryChanged) {
+      for (const field of CATEGORY_FIELDS[existingJobPost.category]) {
+        delete existingData[field];
+      }
+    }
+
+    // Merge the changes over the stored post; null clears an optional field
+    const mergedData: CreateJobPostRequest = {
+      ...existingData,
+      ...toMergedFields(fields),
+      options: options === null
+        ? undefined
+        : options ? { ...existingData.options, ...toMergedFields(options) } : existingData.options,
+    };
+
+    await this.validateMergedJobPostData(mergedData);
+
+    const pricedData = await feeCalculationService.resolveFeeRates(mergedData);
+    const fees = feeCalculationService.calculate(pricedData);
+
+    // Keep the resolved work day unless the edit changes the date itself
+    const dateChanged = fields.workDateType !== undefined || fields.workDate !== undefined;
+    const schedule = resolveWorkSchedule(mergedData, {
+      workDate: dateChanged ? undefined : existingJobPost.workDate ?? undefined,
+    });
+
+    // Only a changed address is geocoded again
+    const siteLocation = mergedData.siteAddress !== existingJobPost.siteAddress
+      ? await locationService.resolveSiteLocation(mergedData.siteAddress)
+      : {};
 
     const updatedJobPost = await prisma.jobPost.update({
       where: { id },
-      data: updateData,
-      include: {
-        author: {
-          select: {
-            id: true,
-            name: true,
-            nickname: true,
-          },
-        },
-        community: {
-          select: {
-            id: true,
-            title: true,
-          },
-        },
-        designatedUser: {
-          select: {
-            id: true,
-            name: true,
-            nickname: true,
-          },
-        },
-        options: true, // Include JobPostOptions relation
+      data: {
+        category: mergedData.category,
+        ...this.buildJobPostFields(pricedData, fees, schedule),
+        ...siteLocation,
+        ...(mergedData.options
+          ? {
+            options: {
+              upsert: {
+                create: this.buildJobPostOptionsFields(mergedData.options),
+                update: this.buildJobPostOptionsFields(mergedData.options),
+              },
+            },
+          }
+          : existingJobPost.options && { options: { delete: true } }),
       },
+      include: jobPostInclude,
     });
 
-    // Update JobPostOptions if provided
-    if (data.options) {
-      await prisma.jobPostOptions.upsert({
-        where: { jobPostId: id },
-        update: {
-          loadingUnloadingService: data.options.loadingUnloadingService ?? null,
-          travelDistance: data.options.travelDistance ?? null,
-          dumpService: data.options.dumpService || false,
-        },
-        create: {
-          jobPostId: id,
-          loadingUnloadingService: data.options.loadingUnloadingService ?? null,
-          travelDistance: data.options.travelDistance ?? null,
-          dumpService: data.options.dumpService || false,
-        },
-      });
-    }
-
     return this.formatJobPostResponse(updatedJobPost);
   }
 
@@ -381,25 +426,17 @@ export class JobPostService {
     }));
   }
 
-  async getCommunityUsers(userId: number, communityId: number): Promise<CommunityUsersResponse[]> {
-    // Check if user is member of the community
-    const userMembership = await prisma.communityMember.findFirst({
-      where: {
-        userId,
-        communityId,
-        isActive: true,
-      },
-    });
-
-    if (!userMembership) {
-      throw new Error('User is not a member of this community');
-    }
+  async getCommunityUsers(userId: number, communityId: number, filters: OperatorFilters = {}): Promise<CommunityUsersResponse[]> {
+    await communityMembershipService.assertActiveMembership(
+      communityId, userId, 'User is not a member of this community'
+    );
 
     const members = await prisma.communityMember.findMany({
       where: {
         communityId,
         isActive: true,
         userId: { not: userId }, // Exclude current user
+        ...(filters.verifiedOnly && { user: { businessVerifiedAt: { not: null } } }),
       },
       include: {
         user: {
@@ -408,6 +445,7 @@ export class JobPostService {
             name: true,
             nickname: true,
             email: true,
+            businessVerifiedAt: true,
           },
         },
       },
@@ -422,10 +460,153 @@ export class JobPostService {
       nickname: member.user.nickname || undefined,
       email: member.user.email || undefined,
       role: member.role,
+      isBusinessVerified: member.user.businessVerifiedAt !== null,
       joinedAt: member.joinedAt,
     }));
   }
 
+  // Runs every creation rule against a merged (stored + edited) job post
+  private async validateMergedJobPostData(data: CreateJobPostRequest): Promise<void> {
+    const validationResult = createJobPostSchema.safeParse(data);
+    const issue = validationResult.error?.issues[0];
+    if (issue) {
+      throw new Error(`${issue.path.join('.')}: ${issue.message}`);
+    }
+
+    this.validateJobPostData(data);
+
+    if (data.category === JobPostCategory.SKY) {
+      await this.validateSkyJobPostData(data);
+    }
+
+    if (data.category === JobPostCategory.LADDER) {
+      await this.validateLadderJobPostData(data);
+    }
+  }
+
+  // Column values shared by create and update (everything except type, audience and lifecycle)
+  private buildJobPostFields(data: CreateJobPostRequest, fees: FeeBreakdown, schedule: ResolvedWorkSchedule) {
+    return {
+      // Equipment Selection (Required for SKY, Optional for LADDER)
+      equipmentType: data.equipmentType ?? null,
+      equipmentLengths: data.equipmentLengths ?? [],
+      
+      // Ladder-specific fields
+      ladderType: data.ladderType ?? null,
+      machineType: data.machineType ?? null,
+      luggageVolume: data.luggageVolume ?? null,
+      workFloor: data.workFloor ?? null,
+      overallHeight: data.overallHeight ?? null,
+      
+      // Ladder Work Schedule (for ON_SITE type)
+      ladderWorkDuration: data.ladderWorkDuration ?? null,
+      ladderWorkHours: data.ladderWorkHours ?? null,
+      
+      // Ladder-specific pricing
+      movingFee: data.movingFee ?? null,
+      onSiteFee: data.onSiteFee ?? null,
+      
+      // Work Details
+      workDateType: data.workDateType,
+      arrivalTime: this.normalizeArrivalTime(data.arrivalTime),
+      workSchedule: data.workSchedule ?? '',
+      customHours: data.customHours ?? null,
+      
+      // Structured schedule
+      workDate: schedule.workDate,
+      scheduledStartAt: schedule.scheduledStartAt,
+      shift: schedule.shift,
+      durationValue: schedule.durationValue,
+      durationUnit: schedule.durationUnit,
+      
+      // Pricing
+      workCost: data.workCost,
+      isNightWork: data.isNightWork || false,
+      priceAdjustment: data.priceAdjustment ?? null,
+      
+      // Payment
+      paymentMethod: data.paymentMethod,
+      expectedPaymentDate: data.expectedPaymentDate,
+      
+      // Fee Structure
+      withFee: data.withFee,
+      totalWorkFee: fees.totalWorkFee,
+      unitPriceFee: fees.unitPriceFee,
+      
+      // Community Fee Structure (for COMMUNITY type)
+      communityWorkFee: data.communityWorkFee ?? null,
+      communitySupportFee: data.communitySupportFee ?? null,
+      
+      // Computed by the fee engine
+      totalWorkCost: fees.totalWorkCost,
+      operatorPayout: fees.operatorPayout,
+      feeBreakdown: fees as unknown as Prisma.InputJsonObject,
+      
+      // Location and Contact
+      siteAddress: data.siteAddress,
+      contactNumber: data.contactNumber,
+      
+      // Work Information
+      workContents: data.workContents ?? null,
+      deliveryInfo: data.deliveryInfo,
+    };
+  }
+
+  private buildJobPostOptionsFields(options: NonNullable<CreateJobPostRequest['options']>) {
+    return {
+      loadingUnloadingService: options.loadingUnloadingService ?? null,
+      travelDistance: options.travelDistance ?? null,
+      dumpService: options.dumpService || false,
+    };
+  }
+
+  // Converts a stored job post back into the shape accepted on creation
+  private toCreateJobPostRequest(jobPost: Prisma.JobPostGetPayload<{ include: { options: true } }>): CreateJobPostRequest {
+    return {
+      type: jobPost.type,
+      category: jobPost.category,
+      communityId: jobPost.communityId ?? undefined,
+      designatedUserId: jobPost.designatedUserId ?? undefined,
+      equipmentType: jobPost.equipmentType ?? undefined,
+      equipmentLengths: jobPost.equipmentLengths.length > 0 ? jobPost.equipmentLengths : undefined,
+      ladderType: jobPost.ladderType ?? undefined,
+      machineType: jobPost.machineType ?? undefined,
+      luggageVolume: jobPost.luggageVolume ?? undefined,
+      workFloor: jobPost.workFloor ?? undefined,
+      overallHeight: jobPost.overallHeight ?? undefined,
+      ladderWorkDuration: jobPost.ladderWorkDuration ?? undefined,
+      ladderWorkHours: jobPost.ladderWorkHours ?? undefined,
+      options: jobPost.options ? {
+        loadingUnloadingService: jobPost.options.loadingUnloadingService ?? undefined,
+        travelDistance: jobPost.options.travelDistance ?? undefined,
+        dumpService: jobPost.options.dumpService,
+      } : undefined,
+      movingFee: jobPost.movingFee !== null ? Number(jobPost.movingFee) : undefined,
+      onSiteFee: jobPost.onSiteFee !== null ? Number(jobPost.onSiteFee) : undefined,
+      workDateType: jobPost.workDateType ?? '',
+      workDate: jobPost.workDate ? formatDateOnly(jobPost.workDate) : undefined,
+      arrivalTime: jobPost.arrivalTime ?? '',
+      workSchedule: jobPost.workSchedule || undefined,
+      customHours: jobPost.customHours ?? undefined,
+      // Only a shift that was chosen explicitly, otherwise it follows arrivalTime
+      shift: jobPost.shift && jobPost.arrivalTime && jobPost.shift !== getShiftForArrivalTime(jobPost.arrivalTime)
+        ? jobPost.shift.toLowerCase()
+        : undefined,
+      workCost: Number(jobPost.workCost),
+      isNightWork: jobPost.isNightWork,
+      priceAdjustment: jobPost.priceAdjustment ?? undefined,
+      paymentMethod: jobPost.paymentMethod as PaymentMethod,
+      expectedPaymentDate: jobPost.expectedPaymentDate ?? '',
+      withFee: jobPost.withFee,
+      communityWorkFee: jobPost.communityWorkFee !== null ? Number(jobPost.communityWorkFee) : undefined,
+      communitySupportFee: jobPost.communitySupportFee !== null ? Number(jobPost.communitySupportFee) : undefined,
+      siteAddress: jobPost.siteAddress ?? '',
+      contactNumber: jobPost.contactNumber ?? '',
+      workContents: jobPost.workContents ?? undefined,
+      deliveryInfo: jobPost.deliveryInfo ?? '',
+    };
+  }
+
   private validateJobPostData(data: CreateJobPostRequest): void {
     if (data.type === JobPostType.COMMUNITY && !data.communityId) {
       throw new Error('Community ID is required for community job posts');
@@ -441,7 +622,7 @@ export class JobPostService {
     }
   }
 
-  private validateSkyJobPostData(data: CreateJobPostRequest): void {
+  private async validateSkyJobPostData(data: CreateJobPostRequest): Promise<void> {
     // equipmentType and equipmentLengths are required for SKY category
     if (!data.equipmentType) {
       throw new Error('Equipment type is required for SKY category');
@@ -451,28 +632,18 @@ export class JobPostService {
       throw new Error('Equipment lengths are required for SKY category');
     }
     
-    // Validate equipment type and lengths
-    const validLengths = this.equipmentLengths[data.equipmentType as keyof typeof this.equipmentLengths];
-    if (!validLengths) {
-      throw new Error(`Invalid equipment type ${data.equipmentType}`);
-    }
-    
-    for (const length of data.equipmentLengths) {
-      if (!validLengths.includes(length)) {
-        throw new Error(`Invalid equipment length ${length} for equipment type ${data.equipmentType}. Valid lengths: ${validLengths.join(', ')}`);
-      }
-    }
+    // Validate equipment type and lengths against the equipment catalog
+    await equipmentCatalogService.validateEquipmentSelection(data.equipmentType, data.equipmentLengths);
 
     // Validate arrival time format
     if (data.arrivalTime && !this.isValidTimeFormat(data.arrivalTime)) {
       throw new Error('Invalid arrival time format. Use format like "6:30" or "14:30"');
     }
 
-    // workSchedule validation removed - now accepts any string
-    // customHours validation removed - no longer required
+    // workDateType, workSchedule and customHours are validated by the schema
   }
 
-  private validateLadderJobPostData(data: CreateJobPostRequest): void {    
+  private async validateLadderJobPostData(data: CreateJobPostRequest): Promise<void> {    
     // luggageVolume must be provided for LADDER category
     if (!data.luggageVolume) {
       throw new Error('Luggage volume is required for LADDER category');
@@ -483,6 +654,8 @@ export class JobPostService {
       throw new Error('Machine type is required for LADDER category');
     }
     
+    await equipmentCatalogService.validateLadderMachineType(data.machineType);
+    
     // workFloor must be provided for LADDER category
     if (!data.workFloor) {
       throw new Error('Work floor is required for LADDER category');
@@ -499,35 +672,30 @@ export class JobPostService {
     return timeRegex.test(time);
   }
 
+  // Stores "6:30" as "06:30" so arrival times sort correctly as text
+  private normalizeArrivalTime(time: string): string {
+    return this.isValidTimeFormat(time) ? time.padStart(5, '0') : time;
+  }
+
 
 
   private async validateCommunityAccess(userId: number, communityId: number): Promise<void> {
-    const membership = await prisma.communityMember.findFirst({
-      where: {
-        userId,
-        communityId,
-        isActive: true,
-      },
+    await communityMembershipService.assertActiveMembership(
+      communityId, userId, 'User is not a member of this community'
+    );
+
+    const community = await prisma.community.findUniqueOrThrow({
+      where: { id: communityId },
+      select: { status: true },
     });
 
-    if (!membership) {
-      throw new Error('User is not a member of this community');
-    }
+    communityMembershipService.assertNotArchived(community.status);
+    await communityMembershipService.assertNotMuted(communityId, userId);
   }
 
-  private async validateDesignatedUserAccess(userId: number, designatedUserId: number): Promise<void> {
+  async validateDesignatedUserAccess(userId: number, designatedUserId: number): Promise<void> {
     // Get all communities where the current user is a member
-    const userCommunities = await prisma.communityMember.findMany({
-      where: {
-        userId,
-        isActive: true,
-      },
-      select: {
-        communityId: true,
-      },
-    });
-
-    const communityIds = userCommunities.map(c => c.communityId);
+    const communityIds = await communityMembershipService.getActiveCommunityIds(userId);
 
     // Check if the designated user is also a member of any of these communities
     const designatedUserMembership = await prisma.communityMember.findFirst({
@@ -543,24 +711,81 @@ export class JobPostService {
     }
   }
 
-  private hasAccessToJobPost(jobPost: any, userId: number): boolean {
-    if (jobPost.type === JobPostType.GLOBAL) {
-      return true;
+  /**
+   * Job posts a user is allowed to see: their own posts, every GLOBAL post,
+   * COMMUNITY posts of communities they are an active member of and DESIGNATED
+   * posts addressed to them that they have not declined or let expire.
+   * Anonymous callers only see GLOBAL posts.
+   */
+  async buildVisibilityFilter(userId?: number): Promise<Prisma.JobPostWhereInput> {
+    if (!userId) {
+      return { type: JobPostType.GLOBAL };
     }
 
-    if (jobPost.type === JobPostType.DESIGNATED && jobPost.designatedUserId === userId) {
+    const userCommunities = await this.getUserCommunities(userId);
+    const communityIds = userCommunities.map(c => c.id);
+
+    return {
+      OR: [
+        { authorId: userId },
+        { type: JobPostType.GLOBAL },
+        { type: JobPostType.COMMUNITY, communityId: { in: communityIds } },
+        {
+          type: JobPostType.DESIGNATED,
+          designatedUserId: userId,
+          OR: [
+            { designationStatus: DesignationStatus.ACCEPTED },
+            { designationStatus: DesignationStatus.PENDING, designationExpiresAt: { gt: new Date() } },
+          ],
+        },
+      ],
+    };
+  }
+
+  async canAccessJobPost(
+    jobPost: {
+      type: JobPostType;
+      authorId: number;
+      communityId: number | null;
+      designatedUserId: number | null;
+      assignedUserId: number | null;
+      designationStatus: DesignationStatus | null;
+      designationExpiresAt: Date | null;
+    },
+    userId: number
+  ): Promise<boolean> {
+    // Authors and the assigned operator can always see the post
+    if (jobPost.authorId === userId || jobPost.assignedUserId === userId) {
       return true;
     }
 
-    if (jobPost.type === JobPostType.COMMUNITY) {
-      // This will be checked at the query level
+    if (jobPost.type === JobPostType.GLOBAL) {
       return true;
     }
 
+    if (jobPost.type === JobPostType.DESIGNATED) {
+      return jobPost.designatedUserId === userId && this.isDesignationActive(jobPost);
+    }
+
+    if (jobPost.type === JobPostType.COMMUNITY && jobPost.communityId) {
+      const membership = await communityMembershipService.findActiveMembership(jobPost.communityId, userId);
+      return !!membership;
+    }
+
     return false;
   }
 
-  private formatJobPostResponse(jobPost: any): JobPostResponse {
+  // A designation is active while it is accepted or still waiting for an answer
+  isDesignationActive(jobPost: { designationStatus: DesignationStatus | null; designationExpiresAt: Date | null }): boolean {
+    if (jobPost.designationStatus === DesignationStatus.ACCEPTED) {
+      return true;
+    }
+
+    return jobPost.designationStatus === DesignationStatus.PENDING &&
+      (!jobPost.designationExpiresAt || jobPost.designationExpiresAt > new Date());
+  }
+
+  private formatJobPostResponse(jobPost: Prisma.JobPostGetPayload<{ include: typeof jobPostInclude }>): JobPostResponse {
     return {
       id: jobPost.id,
       type: jobPost.type,
@@ -569,8 +794,20 @@ export class JobPostService {
       communityId: jobPost.communityId || undefined,
       designatedUserId: jobPost.designatedUserId || undefined,
       
+      // Lifecycle
+      status: jobPost.status,
+      assignedUserId: jobPost.assignedUserId || undefined,
+      statusChangedAt: jobPost.statusChangedAt || undefined,
+      cancelReason: jobPost.cancelReason || undefined,
+      
+      // Designation response
+      designationStatus: jobPost.designationStatus || undefined,
+      designationExpiresAt: jobPost.designationExpiresAt || undefined,
+      designationRespondedAt: jobPost.designationRespondedAt || undefined,
+      designationDeclineReason: jobPost.designationDeclineReason || undefined,
+      
       // Equipment Selection
-      equipmentType: jobPost.equipmentType,
+      equipmentType: jobPost.equipmentType || undefined,
       equipmentLengths: jobPost.equipmentLengths,
       
       // Ladder-specific fields
@@ -596,19 +833,26 @@ export class JobPostService {
       onSiteFee: jobPost.onSiteFee ? Number(jobPost.onSiteFee) : undefined,
       
       // Work Details
-      workDateType: jobPost.workDateType,
-      arrivalTime: jobPost.arrivalTime,
+      workDateType: jobPost.workDateType ?? '',
+      arrivalTime: jobPost.arrivalTime ?? '',
       workSchedule: jobPost.workSchedule,
       customHours: jobPost.customHours || undefined,
       
+      // Structured schedule
+      workDate: jobPost.workDate ? formatDateOnly(jobPost.workDate) : undefined,
+      scheduledStartAt: jobPost.scheduledStartAt || undefined,
+      shift: jobPost.shift || undefined,
+      durationValue: jobPost.durationValue ?? undefined,
+      durationUnit: jobPost.durationUnit || undefined,
+      
       // Pricing
       workCost: Number(jobPost.workCost),
       isNightWork: jobPost.isNightWork || false,
       priceAdjustment: jobPost.priceAdjustment || undefined,
       
       // Payment
-      paymentMethod: jobPost.paymentMethod,
-      expectedPaymentDate: jobPost.expectedPaymentDate,
+      paymentMethod: jobPost.paymentMethod ?? undefined,
+      expectedPaymentDate: jobPost.expectedPaymentDate ?? '',
       
       // Fee Structure
       withFee: jobPost.withFee,
@@ -619,19 +863,41 @@ export class JobPostService {
       communityWorkFee: jobPost.communityWorkFee ? Number(jobPost.communityWorkFee) : undefined,
       communitySupportFee: jobPost.communitySupportFee ? Number(jobPost.communitySupportFee) : undefined,
       
+      // Computed by the fee engine
+      totalWorkCost: jobPost.totalWorkCost !== null ? Number(jobPost.totalWorkCost) : undefined,
+      operatorPayout: jobPost.operatorPayout !== null ? Number(jobPost.operatorPayout) : undefined,
+      feeBreakdown: (jobPost.feeBreakdown as unknown as FeeBreakdown | null) ?? undefined,
+      
       // Location and Contact
-      siteAddress: jobPost.siteAddress,
-      contactNumber: jobPost.contactNumber,
+      siteAddress: jobPost.siteAddress ?? '',
+      siteLocation: jobPost.siteRegionCode ? {
+        regionCode: jobPost.siteRegionCode,
+        districtCode: jobPost.siteDistrictCode || undefined,
+        latitude: jobPost.siteLatitude ?? undefined,
+        longitude: jobPost.siteLongitude ?? undefined,
+      } : undefined,
+      travelDistance: jobPost.travelDistance || undefined,
+      contactNumber: jobPost.contactNumber ?? '',
       
       // Work Information
-      workContents: jobPost.workContents,
-      deliveryInfo: jobPost.deliveryInfo,
+      workContents: jobPost.workContents || undefined,
+      deliveryInfo: jobPost.deliveryInfo ?? '',
       
       createdAt: jobPost.createdAt,
       updatedAt: jobPost.updatedAt,
-      author: jobPost.author || undefined,
+      author: jobPost.author ? this.formatUserSummary(jobPost.author) : undefined,
       community: jobPost.community || undefined,
-      designatedUser: jobPost.designatedUser || undefined,
+      designatedUser: jobPost.designatedUser ? this.formatUserSummary(jobPost.designatedUser) : undefined,
+      assignedUser: jobPost.assignedUser ? this.formatUserSummary(jobPost.assignedUser) : undefined,
+    };
+  }
+
+  private formatUserSummary(user: Prisma.UserGetPayload<{ select: typeof userSummarySelect }>): UserSummaryResponse {
+    return {
+      id: user.id,
+      name: user.name || undefined,
+      nickname: user.nickname || undefined,
+      isBusinessVerified: user.businessVerifiedAt !== null,
     };
   }
 }
@@ -0,0 +1,226 @@
+import { Prisma, JobPostStatus, JobPostType, JobApplicationStatus, DesignationStatus } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { JobPostService } from './jobPostService';
+import { LocationService } from './locationService';
+import { JobPostResponse, JobPostStatusHistoryResponse } from '../types/jobPost';
+import { canTransitionJobPostStatus } from '../constants/jobPostStatus';
+
+const jobPostService = new JobPostService();
+const locationService = new LocationService();
+
+interface TransitionOptions {
+  assignedUserId?: number | null | undefined;
+  reason?: string | undefined;
+}
+
+export class JobPostStatusService {
+  async assignJobPost(id: number, userId: number, assignedUserId: number): Promise<JobPostResponse | null> {
+    const jobPost = await prisma.jobPost.findUnique({ where: { id } });
+
+    if (!jobPost || jobPost.authorId !== userId) {
+      return null;
+    }
+
+    // Designated posts are assigned when the designated user accepts
+    if (jobPost.type === JobPostType.DESIGNATED) {
+      throw new Error('Designated job posts are assigned when the designated user accepts');
+    }
+
+    if (assignedUserId === userId) {
+      throw new Error('Cannot assign a job post to its author');
+    }
+
+    const assignee = await prisma.user.findUnique({ where: { id: assignedUserId } });
+    if (!assignee) {
+      throw new Error('Assigned user not found');
+    }
+
+    // The operator must be able to see the post they are assigned to
+    if (!(await jobPostService.canAccessJobPost({ ...jobPost, assignedUserId: null }, assignedUserId))) {
+      throw new Error('Assigned user does not have access to this job post');
+    }
+
+    await prisma.$transaction((tx) =>
+      this.applyTransition(tx, jobPost, JobPostStatus.ASSIGNED, userId, { assignedUserId })
+    );
+
+    return jobPostService.getJobPostById(id);
+  }
+
+  async unassignJobPost(id: number, userId: number): Promise<JobPostResponse | null> {
+    const jobPost = await prisma.jobPost.findUnique({ where: { id } });
+
+    // Either side can release an assignment before the work starts
+    if (!jobPost || (jobPost.authorId !== userId && jobPost.assignedUserId !== userId)) {
+      return null;
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await this.applyTransition(tx, jobPost, JobPostStatus.OPEN, userId, { assignedUserId: null });
+
+      // A released designation falls back to the author, who can re-designate it
+      if (jobPost.type === JobPostType.DESIGNATED) {
+        await tx.jobPost.update({
+          where: { id },
+          data: {
+            designationStatus: DesignationStatus.DECLINED,
+            designationRespondedAt: new Date(),
+          },
+        });
+      }
+
+      // The accepted application no longer holds the job
+      if (jobPost.assignedUserId) {
+        await tx.jobApplication.updateMany({
+          where: {
+            jobPostId: id,
+            applicantId: jobPost.assignedUserId,
+            status: JobApplicationStatus.ACCEPTED,
+          },
+          data: {
+            status: jobPost.assignedUserId === userId ? JobApplicationStatus.WITHDRAWN : JobApplicationStatus.REJECTED,
+          },
+        });
+      }
+    });
+
+    return jobPostService.getJobPostById(id);
+  }
+
+  async startJobPost(id: number, userId: number): Promise<JobPostResponse | null> {
+    const jobPost = await prisma.jobPost.findUnique({ where: { id } });
+
+    if (!jobPost || (jobPost.authorId !== userId && jobPost.assignedUserId !== userId)) {
+      return null;
+    }
+
+    await prisma.$transaction((tx) =>
+      this.applyTransition(tx, jobPost, JobPostStatus.IN_PROGRESS, userId)
+    );
+
+    return jobPostService.getJobPostById(id);
+  }
+
+  async completeJobPost(id: number, userId: number): Promise<JobPostResponse | null> {
+    const jobPost = await prisma.jobPost.findUnique({ where: { id } });
+
+    if (!jobPost || (jobPost.authorId !== userId && jobPost.assignedUserId !== userId)) {
+      return null;
+    }
+
+    await prisma.$transaction((tx) =>
+      this.applyTransition(tx, jobPost, JobPostStatus.COMPLETED, userId)
+    );
+
+    return jobPostService.getJobPostById(id);
+  }
+
+  async cancelJobPost(id: number, userId: number, reason?: string): Promise<JobPostResponse | null> {
+    const jobPost = await prisma.jobPost.findUnique({ where: { id } });
+
+    if (!jobPost || jobPost.authorId !== userId) {
+      return null;
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await this.applyTransition(tx, jobPost, JobPostStatus.CANCELLED, userId, { reason });
+
+      await tx.jobApplication.updateMany({
+        where: { jobPostId: id, status: JobApplicationStatus.PENDING },
+        data: { status: JobApplicationStatus.REJECTED, decidedAt: new Date() },
+      });
+    });
+
+    return jobPostService.getJobPostById(id);
+  }
+
+  async getStatusHistory(id: number, userId: number): Promise<JobPostStatusHistoryResponse[] | null> {
+    const jobPost = await prisma.jobPost.findUnique({ where: { id } });
+
+    if (!jobPost || !(await jobPostService.canAccessJobPost(jobPost, userId))) {
+      return null;
+    }
+
+    const history = await prisma.jobPostStatusHistory.findMany({
+      where: { jobPostId: id },
+      include: {
+        changedBy: {
+          select: {
+            id: true,
+            name: true,
+            nickname: true,
+          },
+        },
+      },
+      orderBy: {
+        createdAt: 'asc',
+      },
+    });
+
+    return history.map(entry => ({
+      id: entry.id,
+      fromStatus: entry.fromStatus || undefined,
+      toStatus: entry.toStatus,
+      reason: entry.reason || undefined,
+      createdAt: entry.createdAt,
+      changedBy: {
+        id: entry.changedBy.id,
+        name: entry.changedBy.name || undefined,
+        nickname: entry.changedBy.nickname || undefined,
+      },
+    }));
+  }
+
+  /**
+   * Moves a job post to `toStatus` inside the given transaction and records
+   * the transition. The update is guarded on the status the caller read, so
+   * two concurrent transitions cannot both succeed.
+   */
+  async applyTransition(
+    tx: Prisma.TransactionClient,
+    jobPost: { id: number; status: JobPostStatus },
+    toStatus: JobPostStatus,
+    actorId: number,
+    options: TransitionOptions = {}
+  ): Promise<void> {
+    if (!canTransitionJobPostStatus(jobPost.status, toStatus)) {
+      throw new Error(`Cannot change job post status from ${jobPost.status} to ${toStatus}`);
+    }
+
+    const data: Prisma.JobPostUncheckedUpdateManyInput = {
+      status: toStatus,
+      statusChangedAt: new Date(),
+    };
+
+    // 관내/관외 always refers to the operator currently assigned
+    if (options.assignedUserId !== undefined) {
+      data.assignedUserId = options.assignedUserId;
+      data.travelDistance = options.assignedUserId
+        ? await locationService.deriveJobPostTravelDistance(tx, jobPost.id, options.assignedUserId)
+        : null;
+    }
+
+    if (toStatus === JobPostStatus.CANCELLED) {
+      data.cancelReason = options.reason ?? null;
+    }
+
+    const result = await tx.jobPost.updateMany({
+      where: { id: jobPost.id, status: jobPost.status },
+      data,
+    });
+
+    if (result.count === 0) {
+      throw new Error('Job post status was changed by another request. Please reload and try again.');
+    }
+
+    await tx.jobPostStatusHistory.create({
+      data: {
+        jobPostId: jobPost.id,
+        fromStatus: jobPost.status,
+        toStatus,
+        changedById: actorId,
+        reason: options.reason ?? null,
+      },
+    });
+  }
+}
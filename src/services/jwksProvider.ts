@@ -0,0 +1,70 @@
+import { Jwk, JwksProvider } from '../types/auth';
+
+// Unknown key ids trigger a refetch at most this often, so forged kids cannot hammer the issuer
+const MIN_REFRESH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Fetches a JWKS over HTTPS and keeps it for cacheTtlMs. Concurrent callers
+ * share one request; a failed refresh keeps serving the previous keys.
+ */
+export class RemoteJwksProvider implements JwksProvider {
+  private keys: Jwk[] | null = null;
+  private fetchedAt = 0;
+  private attemptedAt = 0;
+  private pending: Promise<Jwk[]> | null = null;
+
+  constructor(
+    private readonly url: string,
+    private readonly cacheTtlMs: number = 60 * 60 * 1000,
+    private readonly timeoutMs: number = 3000
+  ) {}
+
+  async getKeys(options: { forceRefresh?: boolean } = {}): Promise<Jwk[]> {
+    const now = Date.now();
+    const wanted = now - this.fetchedAt > this.cacheTtlMs || options.forceRefresh === true;
+
+    if (this.keys && (!wanted || now - this.attemptedAt < MIN_REFRESH_INTERVAL_MS)) {
+      return this.keys;
+    }
+
+    this.pending ??= this.fetchKeys().finally(() => {
+      this.pending = null;
+    });
+
+    try {
+      return await this.pending;
+    } catch (error) {
+      if (this.keys) {
+        return this.keys;
+      }
+      throw error;
+    }
+  }
+
+  private async fetchKeys(): Promise<Jwk[]> {
+    this.attemptedAt = Date.now();
+    const response = await fetch(this.url, { signal: AbortSignal.timeout(this.timeoutMs) });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch JWKS from ${this.url}: status ${response.status}`);
+    }
+
+    const body = await response.json() as { keys?: Jwk[] };
+    if (!Array.isArray(body.keys)) {
+      throw new Error(`Invalid JWKS response from ${this.url}`);
+    }
+
+    this.keys = body.keys;
+    this.fetchedAt = Date.now();
+    return this.keys;
+  }
+}
+
+// Fixed key set, for tests and local development
+export class StaticJwksProvider implements JwksProvider {
+  constructor(private readonly keys: Jwk[]) {}
+
+  async getKeys(): Promise<Jwk[]> {
+    return this.keys;
+  }
+}
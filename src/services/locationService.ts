@@ -0,0 +1,208 @@
+import { Prisma, TravelDistance } from '@prisma/client';
+import prisma from '../lib/prisma';
+import logger from '../utils/logger';
+import { deriveTravelDistance, getBoundingBox, getDistanceKm } from '../utils/location';
+import { StubGeocoder } from './geocoders/stubGeocoder';
+import { KakaoGeocoder } from './geocoders/kakaoGeocoder';
+import { Geocoder, GeocodedLocation, GeoPoint, HomeBaseResponse, RadiusSearchResult } from '../types/location';
+import { MAX_RADIUS_SEARCH_RESULTS } from '../constants/location';
+
+// GEOCODER_PROVIDER=kakao uses the Kakao Local API, anything else the offline stub
+const createGeocoder = (): Geocoder => {
+  if (process.env['GEOCODER_PROVIDER'] === 'kakao') {
+    const restApiKey = process.env['KAKAO_REST_API_KEY'];
+    if (!restApiKey) {
+      throw new Error('KAKAO_REST_API_KEY is required when GEOCODER_PROVIDER is kakao');
+    }
+
+    return new KakaoGeocoder(restApiKey);
+  }
+
+  return new StubGeocoder();
+};
+
+let defaultGeocoder: Geocoder | null = null;
+
+const homeBaseSelect = {
+  homeAddress: true,
+  homeRegionCode: true,
+  homeDistrictCode: true,
+  homeLatitude: true,
+  homeLongitude: true,
+} satisfies Prisma.UserSelect;
+
+export class LocationService {
+  private readonly geocoder: Geocoder;
+
+  constructor(geocoder?: Geocoder) {
+    this.geocoder = geocoder ?? (defaultGeocoder ??= createGeocoder());
+  }
+
+  // Never fails a request because of the geocoder - unresolved addresses just have no location
+  async geocodeAddress(address: string | null | undefined): Promise<GeocodedLocation | null> {
+    if (!address || !address.trim()) {
+      return null;
+    }
+
+    try {
+      return await this.geocoder.geocode(address.trim());
+    } catch (error) {
+      logger.warn(`Geocoding failed for "${address}":`, error);
+      return null;
+    }
+  }
+
+  // Job post columns for a site address
+  async resolveSiteLocation(address: string | null | undefined) {
+    const location = await this.geocodeAddress(address);
+
+    return {
+      siteRegionCode: location?.regionCode ?? null,
+      siteDistrictCode: location?.districtCode ?? null,
+      siteLatitude: location?.latitude ?? null,
+      siteLongitude: location?.longitude ?? null,
+    };
+  }
+
+  async getHomeBase(userId: number): Promise<HomeBaseResponse | null> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: homeBaseSelect,
+    });
+
+    return user ? this.formatHomeBaseResponse(user) : null;
+  }
+
+  // Returns null when the address could not be located
+  async setHomeBase(userId: number, address: string): Promise<HomeBaseResponse | null> {
+    const location = await this.geocodeAddress(address);
+
+    if (!location) {
+      return null;
+    }
+
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: {
+        homeAddress: address.trim(),
+        homeRegionCode: location.regionCode,
+        homeDistrictCode: location.districtCode ?? null,
+        homeLatitude: location.latitude,
+        homeLongitude: location.longitude,
+      },
+      select: homeBaseSelect,
+    });
+
+    return this.formatHomeBaseResponse(user);
+  }
+
+  async clearHomeBase(userId: number): Promise<void> {
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        homeAddress: null,
+        homeRegionCode: null,
+        homeDistrictCode: null,
+        homeLatitude: null,
+        homeLongitude: null,
+      },
+    });
+  }
+
+  /**
+   * Ids of the newest job posts matching `scope` (the caller's status and
+   * visibility filters) whose site lies within radiusKm of center. Only the
+   * newest MAX_RADIUS_SEARCH_RESULTS candidates are considered, `truncated`
+   * tells when there were more. The bounding box narrows the candidates on
+   * the (latitude, longitude) index, the exact distance is checked here.
+   */
+  async findJobPostIdsWithinRadius(
+    center: GeoPoint,
+    radiusKm: number,
+    scope: Prisma.JobPostWhereInput = {}
+  ): Promise<RadiusSearchResult> {
+    const box = getBoundingBox(center, radiusKm);
+
+    const candidates = await prisma.jobPost.findMany({
+      where: {
+        AND: [
+          scope,
+          {
+            siteLatitude: { gte: box.minLatitude, lte: box.maxLatitude },
+            siteLongitude: { gte: box.minLongitude, lte: box.maxLongitude },
+          },
+        ],
+      },
+      select: { id: true, siteLatitude: true, siteLongitude: true },
+      orderBy: { id: 'desc' },
+      // One extra row to know whether the cap cut anything off
+      take: MAX_RADIUS_SEARCH_RESULTS + 1,
+    });
+
+    const truncated = candidates.length > MAX_RADIUS_SEARCH_RESULTS;
+
+    return {
+      jobPostIds: candidates.slice(0, MAX_RADIUS_SEARCH_RESULTS).flatMap(({ id, siteLatitude, siteLongitude }) =>
+        siteLatitude !== null && siteLongitude !== null &&
+          getDistanceKm(center, { latitude: siteLatitude, longitude: siteLongitude }) <= radiusKm
+          ? [id]
+          : []
+      ),
+      truncated,
+    };
+  }
+
+  /**
+   * 관내/관외 between the author's side (the job site, or the author's home
+   * base when the site could not be located) and the operator's home base.
+   */
+  async deriveJobPostTravelDistance(
+    client: Prisma.TransactionClient,
+    jobPostId: number,
+    operatorId: number
+  ): Promise<TravelDistance | null> {
+    const [jobPost, operator] = await Promise.all([
+      client.jobPost.findUnique({
+        where: { id: jobPostId },
+        select: {
+          siteRegionCode: true,
+          siteDistrictCode: true,
+          author: { select: { homeRegionCode: true, homeDistrictCode: true } },
+        },
+      }),
+      client.user.findUnique({
+        where: { id: operatorId },
+        select: { homeRegionCode: true, homeDistrictCode: true },
+      }),
+    ]);
+
+    if (!jobPost || !operator?.homeRegionCode) {
+      return null;
+    }
+
+    const authorJurisdiction = jobPost.siteRegionCode
+      ? { regionCode: jobPost.siteRegionCode, districtCode: jobPost.siteDistrictCode ?? undefined }
+      : jobPost.author.homeRegionCode
+        ? { regionCode: jobPost.author.homeRegionCode, districtCode: jobPost.author.homeDistrictCode ?? undefined }
+        : null;
+
+    return deriveTravelDistance(authorJurisdiction, {
+      regionCode: operator.homeRegionCode,
+      districtCode: operator.homeDistrictCode ?? undefined,
+    });
+  }
+
+  private formatHomeBaseResponse(user: Prisma.UserGetPayload<{ select: typeof homeBaseSelect }>): HomeBaseResponse | null {
+    if (!user.homeAddress || !user.homeRegionCode || user.homeLatitude === null || user.homeLongitude === null) {
+      return null;
+    }
+
+    return {
+      address: user.homeAddress,
+      regionCode: user.homeRegionCode,
+      districtCode: user.homeDistrictCode ?? undefined,
+      latitude: user.homeLatitude,
+      longitude: user.homeLongitude,
+    };
+  }
+}
@@ -0,0 +1,287 @@
+import { createHash, randomInt, timingSafeEqual } from 'crypto';
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { SmsGateway } from '../types/sms';
+import { PhoneVerificationResponse, PhoneVerificationSentResponse } from '../types/user';
+import { normalizeMobileNumber, formatMobileNumber } from '../utils/phone';
+import { ConsoleSmsGateway } from './smsGateways/consoleSmsGateway';
+import { MemorySmsGateway } from './smsGateways/memorySmsGateway';
+import {
+  OTP_CODE_LENGTH,
+  OTP_EXPIRES_MINUTES,
+  OTP_MAX_ATTEMPTS,
+  OTP_LOCKOUT_MINUTES,
+  OTP_RESEND_COOLDOWN_SECONDS,
+  OTP_MAX_SENDS_PER_PHONE_PER_HOUR,
+  OTP_MAX_SENDS_PER_USER_PER_DAY,
+} from '../constants/phoneVerification';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+export type PhoneVerificationErrorReason =
+  | 'INVALID_PHONE'
+  | 'PHONE_TAKEN'
+  | 'RATE_LIMITED'
+  | 'LOCKED'
+  | 'NO_ACTIVE_CODE'
+  | 'INVALID_CODE';
+
+export class PhoneVerificationError extends Error {
+  constructor(
+    readonly reason: PhoneVerificationErrorReason,
+    message: string,
+    readonly retryAfterSeconds?: number
+  ) {
+    super(message);
+    this.name = 'PhoneVerificationError';
+  }
+}
+
+// SMS_GATEWAY selects the driver; only local drivers exist so far, and they never run in production
+const createSmsGateway = (): SmsGateway => {
+  const driver = process.env['SMS_GATEWAY'] || 'console';
+
+  if (process.env['NODE_ENV'] === 'production') {
+    throw new Error(`SMS gateway "${driver}" cannot be used in production`);
+  }
+
+  return driver === 'memory' ? new MemorySmsGateway() : new ConsoleSmsGateway();
+};
+
+let defaultGateway: SmsGateway | null = null;
+
+const hashCode = (phoneNumber: string, code: string): string => {
+  return createHash('sha256').update(`${phoneNumber}:${code}`).digest('hex');
+};
+
+const secondsUntil = (date: Date, now: Date): number => Math.max(1, Math.ceil((date.getTime() - now.getTime()) / 1000));
+
+export class PhoneVerificationService {
+  private gateway: SmsGateway | null;
+
+  constructor(gateway?: SmsGateway) {
+    this.gateway = gateway ?? null;
+  }
+
+  // Sends a new code to the number, replacing any earlier code of the user
+  async sendCode(userId: number, rawPhoneNumber: string): Promise<PhoneVerificationSentResponse> {
+    const phoneNumber = this.normalize(rawPhoneNumber);
+    const now = new Date();
+
+    await this.ensureNotLocked(userId, now);
+    await this.ensureNotTaken(userId, phoneNumber);
+    await this.ensureWithinSendLimits(userId, phoneNumber, now);
+
+    const code = randomInt(0, 10 ** OTP_CODE_LENGTH).toString().padStart(OTP_CODE_LENGTH, '0');
+    const expiresAt = new Date(now.getTime() + OTP_EXPIRES_MINUTES * MINUTE_MS);
+
+    const verification = await prisma.phoneVerification.create({
+      data: { userId, phoneNumber, codeHash: hashCode(phoneNumber, code), expiresAt },
+    });
+
+    try {
+      await this.getGateway().send({
+        to: phoneNumber,
+        text: `[장비GO] 인증번호 [${code}]를 입력해주세요. (${OTP_EXPIRES_MINUTES}분 이내)`,
+      });
+    } catch (error) {
+      // Undelivered codes do not count against the sending limits
+      await prisma.phoneVerification.delete({ where: { id: verification.id } });
+      throw error;
+    }
+
+    return {
+      phoneNumber: formatMobileNumber(phoneNumber),
+      expiresAt,
+      resendAvailableAt: new Date(now.getTime() + OTP_RESEND_COOLDOWN_SECONDS * 1000),
+    };
+  }
+
+  /**
+   * Checks the code against the latest one sent to the number and stores the
+   * number on the user. Every guess uses up an attempt before it is compared,
+   * so parallel guesses cannot get around OTP_MAX_ATTEMPTS.
+   */
+  async verifyCode(userId: number, rawPhoneNumber: string, code: string): Promise<PhoneVerificationResponse> {
+    const phoneNumber = this.normalize(rawPhoneNumber);
+    const now = new Date();
+
+    await this.ensureNotLocked(userId, now);
+
+    const verification = await prisma.phoneVerification.findFirst({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (!verification || verification.phoneNumber !== phoneNumber || verification.verifiedAt || verification.expiresAt <= now) {
+      throw new PhoneVerificationError('NO_ACTIVE_CODE', 'No active code for this number, request a new one');
+    }
+
+    const claimed = await prisma.phoneVerification.updateMany({
+      where: { id: verification.id, verifiedAt: null, attempts: { lt: OTP_MAX_ATTEMPTS } },
+      data: { attempts: { increment: 1 } },
+    });
+
+    if (claimed.count === 0) {
+      throw new PhoneVerificationError('NO_ACTIVE_CODE', 'No active code for this number, request a new one');
+    }
+
+    const expected = Buffer.from(verification.codeHash, 'hex');
+    const actual = Buffer.from(hashCode(phoneNumber, code), 'hex');
+
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      await this.handleWrongCode(verification.id, now);
+    }
+
+    try {
+      const user = await prisma.$transaction(async (tx) => {
+        await tx.phoneVerification.update({
+          where: { id: verification.id },
+          data: { verifiedAt: now },
+        });
+
+        return tx.user.update({
+          where: { id: userId },
+          data: { phoneNumber, phoneVerifiedAt: now },
+          select: { phoneNumber: true, phoneVerifiedAt: true },
+        });
+      });
+
+      return {
+        phoneNumber: formatMobileNumber(user.phoneNumber!),
+        phoneVerifiedAt: user.phoneVerifiedAt!,
+      };
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new PhoneVerificationError('PHONE_TAKEN', 'This phone number is registered to another account');
+      }
+      throw error;
+    }
+  }
+
+  async hasVerifiedPhone(userId: number): Promise<boolean> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { phoneVerifiedAt: true },
+    });
+
+    return !!user?.phoneVerifiedAt;
+  }
+
+  // Removes the number from the user; it has to be verified again to be used
+  async removePhoneNumber(userId: number): Promise<void> {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { phoneNumber: null, phoneVerifiedAt: null },
+    });
+  }
+
+  private async handleWrongCode(verificationId: number, now: Date): Promise<never> {
+    const { attempts } = await prisma.phoneVerification.findUniqueOrThrow({
+      where: { id: verificationId },
+      select: { attempts: true },
+    });
+
+    const remaining = OTP_MAX_ATTEMPTS - attempts;
+    if (remaining > 0) {
+      throw new PhoneVerificationError('INVALID_CODE', `Invalid code, ${remaining} attempt(s) left`);
+    }
+
+    const lockedUntil = new Date(now.getTime() + OTP_LOCKOUT_MINUTES * MINUTE_MS);
+    await prisma.phoneVerification.update({
+      where: { id: verificationId },
+      data: { lockedUntil },
+    });
+
+    throw new PhoneVerificationError(
+      'LOCKED',
+      `Too many wrong codes, try again in ${OTP_LOCKOUT_MINUTES} minutes`,
+      secondsUntil(lockedUntil, now)
+    );
+  }
+
+  private normalize(rawPhoneNumber: string): string {
+    const phoneNumber = normalizeMobileNumber(rawPhoneNumber);
+    if (!phoneNumber) {
+      throw new PhoneVerificationError('INVALID_PHONE', 'Enter a Korean mobile number, e.g. 010-1234-5678');
+    }
+
+    return phoneNumber;
+  }
+
+  private async ensureNotLocked(userId: number, now: Date): Promise<void> {
+    const locked = await prisma.phoneVerification.findFirst({
+      where: { userId, lockedUntil: { gt: now } },
+      orderBy: { lockedUntil: 'desc' },
+      select: { lockedUntil: true },
+    });
+
+    if (locked?.lockedUntil) {
+      throw new PhoneVerificationError(
+        'LOCKED',
+        'Too many wrong codes, try again later',
+        secondsUntil(locked.lockedUntil, now)
+      );
+    }
+  }
+
+  private async ensureNotTaken(userId: number, phoneNumber: string): Promise<void> {
+    const owner = await prisma.user.findUnique({
+      where: { phoneNumber },
+      select: { id: true },
+    });
+
+    if (owner && owner.id !== userId) {
+      throw new PhoneVerificationError('PHONE_TAKEN', 'This phone number is registered to another account');
+    }
+  }
+
+  private async ensureWithinSendLimits(userId: number, phoneNumber: string, now: Date): Promise<void> {
+    const recent = await prisma.phoneVerification.findMany({
+      where: {
+        OR: [{ userId }, { phoneNumber }],
+        createdAt: { gt: new Date(now.getTime() - DAY_MS) },
+      },
+      select: { userId: true, phoneNumber: true, createdAt: true },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const byUser = recent.filter(sent => sent.userId === userId);
+    const toPhoneLastHour = recent.filter(sent =>
+      sent.phoneNumber === phoneNumber && sent.createdAt.getTime() > now.getTime() - HOUR_MS
+    );
+
+    const lastSent = byUser[0];
+    if (lastSent && now.getTime() - lastSent.createdAt.getTime() < OTP_RESEND_COOLDOWN_SECONDS * 1000) {
+      const availableAt = new Date(lastSent.createdAt.getTime() + OTP_RESEND_COOLDOWN_SECONDS * 1000);
+      throw new PhoneVerificationError('RATE_LIMITED', 'Please wait before requesting another code', secondsUntil(availableAt, now));
+    }
+
+    // Lists are newest first, so the window frees up when its oldest entry leaves it
+    if (toPhoneLastHour.length >= OTP_MAX_SENDS_PER_PHONE_PER_HOUR) {
+      const oldest = toPhoneLastHour[toPhoneLastHour.length - 1]!;
+      throw new PhoneVerificationError(
+        'RATE_LIMITED',
+        'Too many codes sent to this number, try again later',
+        secondsUntil(new Date(oldest.createdAt.getTime() + HOUR_MS), now)
+      );
+    }
+
+    if (byUser.length >= OTP_MAX_SENDS_PER_USER_PER_DAY) {
+      const oldest = byUser[byUser.length - 1]!;
+      throw new PhoneVerificationError(
+        'RATE_LIMITED',
+        'Too many codes requested today, try again later',
+        secondsUntil(new Date(oldest.createdAt.getTime() + DAY_MS), now)
+      );
+    }
+  }
+
+  // Resolved on first use so the environment is read after it has been loaded
+  private getGateway(): SmsGateway {
+    this.gateway ??= (defaultGateway ??= createSmsGateway());
+    return this.gateway;
+  }
+}
@@ -0,0 +1,46 @@
+import { RateLimitHit, RateLimitStore } from '../../types/rateLimit';
+
+// Expired windows are swept once the map grows past this many keys
+const SWEEP_THRESHOLD = 10000;
+
+/**
+ * Counters in process memory. Each process (and each serverless instance)
+ * counts on its own, so this is for tests and single-process development.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly windows = new Map<string, RateLimitHit>();
+
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    const current = this.windows.get(key);
+
+    if (current && current.resetAt.getTime() > now) {
+      current.count += 1;
+      return { ...current };
+    }
+
+    if (this.windows.size >= SWEEP_THRESHOLD) {
+      this.sweep(now);
+    }
+
+    const hit = { count: 1, resetAt: new Date(now + windowMs) };
+    this.windows.set(key, hit);
+    return { ...hit };
+  }
+
+  async reset(key: string): Promise<void> {
+    this.windows.delete(key);
+  }
+
+  clear(): void {
+    this.windows.clear();
+  }
+
+  private sweep(now: number): void {
+    for (const [key, hit] of this.windows) {
+      if (hit.resetAt.getTime() <= now) {
+        this.windows.delete(key);
+      }
+    }
+  }
+}
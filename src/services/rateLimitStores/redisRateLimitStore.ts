@@ -0,0 +1,41 @@
+import { RateLimitHit, RateLimitStore, RedisCommandClient } from '../../types/rateLimit';
+
+// Increments and starts the window in one round trip; returns [count, milliseconds left]
+const INCREMENT_SCRIPT = `
+local count = redis.call('INCR', KEYS[1])
+if count == 1 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[1])
+end
+local ttl = redis.call('PTTL', KEYS[1])
+if ttl < 0 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[1])
+  ttl = tonumber(ARGV[1])
+end
+return { count, ttl }
+`;
+
+/**
+ * Counters shared by every instance, in Redis or anything speaking its
+ * commands (Upstash, Valkey, KeyDB). Keys expire with their window.
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(
+    private readonly client: RedisCommandClient,
+    private readonly keyPrefix: string = 'ratelimit:'
+  ) {}
+
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const result = await this.client.command(['EVAL', INCREMENT_SCRIPT, 1, this.keyPrefix + key, windowMs]);
+
+    if (!Array.isArray(result) || result.length !== 2) {
+      throw new Error('Unexpected response from Redis rate limit script');
+    }
+
+    const [count, ttl] = result.map(Number) as [number, number];
+    return { count, resetAt: new Date(Date.now() + ttl) };
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.client.command(['DEL', this.keyPrefix + key]);
+  }
+}
@@ -0,0 +1,34 @@
+import { RedisCommandClient } from '../../types/rateLimit';
+
+/**
+ * Redis over HTTPS (the Upstash REST protocol: POST the command as a JSON
+ * array, get { result } or { error } back). Works from serverless functions,
+ * where a pooled TCP connection cannot be kept.
+ */
+export class RestRedisClient implements RedisCommandClient {
+  constructor(
+    private readonly url: string,
+    private readonly token: string,
+    private readonly timeoutMs: number = 1000
+  ) {}
+
+  async command(args: (string | number)[]): Promise<unknown> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(args),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    const body = await response.json().catch(() => ({})) as { result?: unknown; error?: string };
+
+    if (!response.ok || body.error) {
+      throw new Error(`Redis command ${args[0]} failed: ${body.error ?? `status ${response.status}`}`);
+    }
+
+    return body.result;
+  }
+}
@@ -0,0 +1,9 @@
+import { SmsGateway, SmsMessage } from '../../types/sms';
+import logger from '../../utils/logger';
+
+// Writes messages to the log instead of sending them (local development)
+export class ConsoleSmsGateway implements SmsGateway {
+  async send(message: SmsMessage): Promise<void> {
+    logger.info(`[SMS to ${message.to}] ${message.text}`);
+  }
+}
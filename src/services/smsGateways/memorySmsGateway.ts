@@ -0,0 +1,18 @@
+import { SmsGateway, SmsMessage } from '../../types/sms';
+
+// Keeps sent messages in memory so tests can read the codes back
+export class MemorySmsGateway implements SmsGateway {
+  readonly sent: SmsMessage[] = [];
+
+  async send(message: SmsMessage): Promise<void> {
+    this.sent.push(message);
+  }
+
+  getLastMessage(to: string): SmsMessage | undefined {
+    return [...this.sent].reverse().find(message => message.to === to);
+  }
+
+  clear(): void {
+    this.sent.length = 0;
+  }
+}
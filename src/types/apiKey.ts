@@ -0,0 +1,39 @@
+import { ApiKeyScope } from '../constants/apiKeys';
+
+export interface CreateApiKeyRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+  communityId?: number | undefined;   // Set for a key owned by the community instead of the user
+  expiresInDays?: number | undefined; // Never expires when omitted
+}
+
+export interface ApiKeyFilters {
+  communityId?: number | undefined;
+}
+
+// Who a request made with an API key acts as
+export interface ApiKeyPrincipal {
+  apiKeyId: number;
+  userId: number;                   // The owner, or the manager who created a community key
+  communityId?: number | undefined; // Community keys only work inside their community
+  scopes: ApiKeyScope[];
+}
+
+export interface ApiKeyResponse {
+  id: number;
+  name: string;
+  keyPrefix: string; // First characters of the key, to tell keys apart
+  scopes: ApiKeyScope[];
+  communityId?: number | undefined;
+  createdById: number;
+  expiresAt?: Date | undefined;
+  lastUsedAt?: Date | undefined;
+  lastUsedIp?: string | undefined;
+  revokedAt?: Date | undefined;
+  createdAt: Date;
+}
+
+// Returned once on creation; only the hash is stored
+export interface CreatedApiKeyResponse extends ApiKeyResponse {
+  key: string;
+}
@@ -0,0 +1,60 @@
+import { AuditAction, AuditTargetType } from '@prisma/client';
+
+// Who performed an action and from where, taken from the request
+export interface AuditContext {
+  actorId?: number | undefined;
+  apiKeyId?: number | undefined;
+  ipAddress?: string | undefined;
+  userAgent?: string | undefined;
+}
+
+export interface AuditChanges {
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+}
+
+export interface AuditEntry {
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: number;
+  communityId?: number | undefined;
+  changes?: AuditChanges | undefined;
+}
+
+export interface AuditLogFilters {
+  action?: AuditAction | undefined;
+  actorId?: number | undefined;
+  targetType?: AuditTargetType | undefined;
+  targetId?: number | undefined;
+  communityId?: number | undefined;
+  from?: Date | undefined;
+  to?: Date | undefined;
+}
+
+export interface AuditLogListOptions {
+  limit?: number | undefined;
+  cursor?: number | undefined; // id of the last entry of the previous page
+}
+
+export interface AuditLogResponse {
+  id: number;
+  action: AuditAction;
+  actorId?: number | undefined;
+  apiKeyId?: number | undefined;
+  targetType: AuditTargetType;
+  targetId: number;
+  communityId?: number | undefined;
+  changes?: AuditChanges | undefined;
+  ipAddress?: string | undefined;
+  userAgent?: string | undefined;
+  createdAt: Date;
+}
+
+export interface PaginatedAuditLogsResponse {
+  data: AuditLogResponse[];
+  pagination: {
+    limit: number;
+    hasMore: boolean;
+    nextCursor?: number | undefined;
+  };
+}
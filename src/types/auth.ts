@@ -3,22 +3,74 @@ import { UserRole } from "@prisma/client";
 
 // Kakao login request schema
 export const kakaoLoginSchema = z.object({
-  idToken: z.string(),
+  idToken: z.string().min(1, "ID token is required"),
+  // The nonce the app sent to Kakao when requesting the token
+  nonce: z.string().min(1, "Nonce is required"),
+  // Access token of the same login, needed to use the Kakao account email
+  accessToken: z.string().min(1, "Access token cannot be empty").optional(),
 });
 
+// Claims of a verified OIDC ID token (Kakao, Apple)
+export interface IdTokenClaims {
+  iss: string;
+  aud: string;
+  sub: string;
+  exp: number;
+  iat: number;
+  nonce: string;
+  email?: string | undefined;
+  emailVerified: boolean; // email_verified is true
+  nickname?: string | undefined;
+}
+
+// Public key from a JSON Web Key Set
+export interface Jwk {
+  kid: string;
+  kty: string;
+  alg?: string | undefined;
+  use?: string | undefined;
+  n?: string | undefined;
+  e?: string | undefined;
+}
+
+/**
+ * Source of an issuer's signing keys. forceRefresh is passed when a token
+ * names a key id that is not in the current set (key rotation).
+ */
+export interface JwksProvider {
+  getKeys(options?: { forceRefresh?: boolean }): Promise<Jwk[]>;
+}
+
+
+// Refresh request schema
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, "Refresh token is required"),
+});
 
 // JWT payload type
 export interface JWTPayload {
   userId: number;
   role: UserRole;
-  kakaoId: string;
+  sessionId: number;
+}
+
+// Issued on login and on every refresh
+export interface AuthTokens {
+  token: string;          // Short-lived access token
+  refreshToken: string;   // Single use, exchanged at /auth/refresh
+  refreshTokenExpiresAt: Date;
+}
+
+// Device details stored with a session
+export interface SessionClientInfo {
+  userAgent?: string | undefined;
+  ipAddress?: string | undefined;
 }
 
 // Kakao login response type
 export interface KakaoLoginResponse {
   user: {
     id: number;
-    kakaoId: bigint;
     name: string | null;
     email: string | null;
     nickname: string | null;
@@ -27,10 +79,13 @@ export interface KakaoLoginResponse {
     updatedAt: Date;
   };
   token: string;
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
 }
 
 // TypeScript types
 export type KakaoLoginRequest = z.infer<typeof kakaoLoginSchema>;
+export type RefreshTokenRequest = z.infer<typeof refreshTokenSchema>;
 
 // Swagger schemas
 /**
@@ -44,8 +99,16 @@ export type KakaoLoginRequest = z.infer<typeof kakaoLoginSchema>;
  *           type: string
  *           description: Kakao ID token (JWT)
  *           example: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
+ *         nonce:
+ *           type: string
+ *           description: Nonce sent to Kakao when the ID token was requested
+ *           example: "b1d6d4c2f0a84e3b9a1f"
+ *         accessToken:
+ *           type: string
+ *           description: Kakao access token of the same login. Without it the Kakao account email is not used.
  *       required:
  *         - idToken
+ *         - nonce
  *     KakaoLoginResponse:
  *       allOf:
  *         - $ref: '#/components/schemas/BaseResponse'
@@ -58,9 +121,41 @@ export type KakaoLoginRequest = z.infer<typeof kakaoLoginSchema>;
  *                   $ref: '#/components/schemas/User'
  *                 token:
  *                   type: string
- *                   description: JWT authentication token
+ *                   description: JWT access token (short-lived)
  *                   example: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
+ *                 refreshToken:
+ *                   type: string
+ *                   description: Single-use refresh token
+ *                   example: "3q2-7wX0c1YbQm..."
+ *                 refreshTokenExpiresAt:
+ *                   type: string
+ *                   format: date-time
  *               required:
  *                 - user
  *                 - token
+ *                 - refreshToken
+ *                 - refreshTokenExpiresAt
+ *     RefreshTokenRequest:
+ *       type: object
+ *       properties:
+ *         refreshToken:
+ *           type: string
+ *           description: Refresh token from the last login or refresh
+ *       required:
+ *         - refreshToken
+ *     AuthTokensResponse:
+ *       allOf:
+ *         - $ref: '#/components/schemas/BaseResponse'
+ *         - type: object
+ *           properties:
+ *             data:
+ *               type: object
+ *               properties:
+ *                 token:
+ *                   type: string
+ *                 refreshToken:
+ *                   type: string
+ *                 refreshTokenExpiresAt:
+ *                   type: string
+ *                   format: date-time
  */
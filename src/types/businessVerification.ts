@@ -0,0 +1,36 @@
+import { BusinessVerificationStatus } from '@prisma/client';
+
+export interface CreateBusinessVerificationRequest {
+  businessRegistrationNumber: string; // Digits only after validation
+  businessName: string;
+  representativeName: string;
+  openingDate: string;                // YYYY-MM-DD
+}
+
+export interface ReviewBusinessVerificationRequest {
+  note?: string | undefined;
+}
+
+export interface BusinessVerificationFilters {
+  status?: BusinessVerificationStatus | undefined;
+  userId?: number | undefined;
+}
+
+export interface BusinessVerificationResponse {
+  id: number;
+  userId: number;
+  businessRegistrationNumber: string; // "123-45-67890"
+  businessName: string;
+  representativeName: string;
+  openingDate: string;
+  status: BusinessVerificationStatus;
+  reviewNote?: string | undefined;
+  reviewedAt?: Date | undefined;
+  createdAt: Date;
+  updatedAt: Date;
+  user?: {
+    id: number;
+    name?: string | undefined;
+    nickname?: string | undefined;
+  } | undefined;
+}
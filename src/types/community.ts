@@ -1,10 +1,10 @@
 import { CommunityStatus, CommunityRole } from '@prisma/client';
+import { CreateCommunityInvitationRequest } from './communityInvitation';
 
 export interface CreateCommunityRequest {
   title: string;
   description?: string | undefined;
   slug?: string | undefined;
-  status?: CommunityStatus | undefined;
   isPrivate?: boolean | undefined;
   maxMembers?: number | undefined;
   
@@ -30,10 +30,8 @@ export interface JoinCommunityRequest {
   communityId: number;
 }
 
-export interface InviteUserRequest {
+export interface InviteUserRequest extends CreateCommunityInvitationRequest {
   communityId: number;
-  userId: number;
-  role?: CommunityRole | undefined;
 }
 
 export interface UpdateMemberRoleRequest {
@@ -0,0 +1,81 @@
+import { CommunityInvitationStatus, CommunityJoinRequestStatus, CommunityRole } from '@prisma/client';
+import { CommunityResponse } from './community';
+
+export interface CommunityUserSummary {
+  id: number;
+  name?: string | undefined;
+  nickname?: string | undefined;
+}
+
+export interface CommunitySummary {
+  id: number;
+  title: string;
+  slug: string;
+  isPrivate: boolean;
+}
+
+export interface CreateCommunityInvitationRequest {
+  userId: number;
+  role?: CommunityRole | undefined;   // MEMBER when omitted
+  expiresInDays?: number | undefined; // COMMUNITY_INVITATION_EXPIRES_DAYS when omitted
+}
+
+export interface CommunityInvitationResponse {
+  id: number;
+  communityId: number;
+  role: CommunityRole;
+  status: CommunityInvitationStatus;
+  expiresAt: Date;
+  respondedAt?: Date | undefined;
+  createdAt: Date;
+  community: CommunitySummary;
+  invitee: CommunityUserSummary;
+  invitedBy: CommunityUserSummary;
+}
+
+export interface CreateInviteLinkRequest {
+  maxUses?: number | undefined;       // Unlimited when omitted
+  expiresInDays?: number | undefined; // Never expires when omitted
+}
+
+export interface CommunityInviteLinkResponse {
+  id: number;
+  communityId: number;
+  code: string;
+  maxUses?: number | undefined;
+  useCount: number;
+  expiresAt?: Date | undefined;
+  revokedAt?: Date | undefined;
+  createdById: number;
+  createdAt: Date;
+}
+
+// What someone holding a code sees before joining
+export interface InviteLinkPreviewResponse {
+  community: CommunityResponse;
+  expiresAt?: Date | undefined;
+}
+
+export interface CreateJoinRequestRequest {
+  message?: string | undefined;
+}
+
+export interface ReviewJoinRequestRequest {
+  note?: string | undefined;
+}
+
+export interface JoinRequestFilters {
+  status?: CommunityJoinRequestStatus | undefined;
+}
+
+export interface CommunityJoinRequestResponse {
+  id: number;
+  communityId: number;
+  status: CommunityJoinRequestStatus;
+  message?: string | undefined;
+  reviewNote?: string | undefined;
+  reviewedAt?: Date | undefined;
+  createdAt: Date;
+  community: CommunitySummary;
+  user: CommunityUserSummary;
+}
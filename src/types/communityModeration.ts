@@ -0,0 +1,26 @@
+import { CommunityModerationType } from '@prisma/client';
+import { CommunityUserSummary } from './communityInvitation';
+
+// Ban or mute
+export interface SanctionMemberRequest {
+  reason?: string | undefined;
+  durationDays?: number | undefined; // Until lifted when omitted
+}
+
+export interface WarnMemberRequest {
+  reason: string;
+}
+
+export interface CommunityModerationActionResponse {
+  id: number;
+  communityId: number;
+  type: CommunityModerationType;
+  reason?: string | undefined;
+  expiresAt?: Date | undefined;
+  liftedAt?: Date | undefined;
+  inEffect: boolean; // A ban or mute that is neither lifted nor expired
+  createdAt: Date;
+  user: CommunityUserSummary;
+  moderator: CommunityUserSummary;
+  liftedBy?: CommunityUserSummary | undefined;
+}
@@ -0,0 +1,18 @@
+import { OwnershipTransferStatus } from '@prisma/client';
+import { CommunitySummary, CommunityUserSummary } from './communityInvitation';
+
+export interface RequestOwnershipTransferRequest {
+  userId: number; // An active ADMIN of the community
+}
+
+export interface OwnershipTransferResponse {
+  id: number;
+  communityId: number;
+  status: OwnershipTransferStatus;
+  expiresAt: Date;
+  respondedAt?: Date | undefined;
+  createdAt: Date;
+  community: CommunitySummary;
+  fromUser: CommunityUserSummary;
+  toUser: CommunityUserSummary;
+}
@@ -0,0 +1,91 @@
+import { CommunityReactionType } from '@prisma/client';
+
+export interface CommunityAuthorSummary {
+  id: number;
+  name?: string | undefined;
+  nickname?: string | undefined;
+}
+
+export type ReactionCounts = Partial<Record<CommunityReactionType, number>>;
+
+export interface CreateCommunityPostRequest {
+  title: string;
+  content: string;
+}
+
+export interface UpdateCommunityPostRequest {
+  title?: string | undefined;
+  content?: string | undefined;
+}
+
+// Owners, admins and moderators only
+export interface ModerateCommunityPostRequest {
+  isPinned?: boolean | undefined;
+  isLocked?: boolean | undefined; // Locked posts take no new comments
+}
+
+export interface CommunityBoardListOptions {
+  limit?: number | undefined;
+  cursor?: number | undefined; // ID of the last item of the previous page
+}
+
+export interface CommunityPostResponse {
+  id: number;
+  communityId: number;
+  title: string;
+  content: string;
+  isPinned: boolean;
+  isLocked: boolean;
+  author: CommunityAuthorSummary;
+  commentCount: number;
+  reactionCounts: ReactionCounts;
+  myReaction?: CommunityReactionType | undefined;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PaginatedCommunityPostsResponse {
+  data: CommunityPostResponse[];
+  pagination: {
+    limit: number;
+    hasMore: boolean;
+    nextCursor?: number | undefined;
+  };
+}
+
+export interface CreateCommunityCommentRequest {
+  content: string;
+  parentId?: number | undefined; // Set to reply to a comment
+}
+
+export interface UpdateCommunityCommentRequest {
+  content: string;
+}
+
+export interface CommunityCommentResponse {
+  id: number;
+  postId: number;
+  parentId?: number | undefined;
+  content?: string | undefined; // Removed once the comment is deleted
+  isDeleted: boolean;
+  author?: CommunityAuthorSummary | undefined;
+  reactionCounts: ReactionCounts;
+  myReaction?: CommunityReactionType | undefined;
+  createdAt: Date;
+  updatedAt: Date;
+  replies?: CommunityCommentResponse[] | undefined; // Top-level comments only, oldest first
+}
+
+// Top-level comments are paginated; each comes with all of its replies
+export interface PaginatedCommunityCommentsResponse {
+  data: CommunityCommentResponse[];
+  pagination: {
+    limit: number;
+    hasMore: boolean;
+    nextCursor?: number | undefined;
+  };
+}
+
+export interface SetReactionRequest {
+  type: CommunityReactionType;
+}
@@ -0,0 +1,45 @@
+export interface CreateEquipmentTypeRequest {
+  name: string;
+  lengths: number[];
+  sortOrder?: number | undefined;
+  isActive?: boolean | undefined;
+}
+
+export interface UpdateEquipmentTypeRequest {
+  name?: string | undefined;
+  lengths?: number[] | undefined; // Replaces the current lengths
+  sortOrder?: number | undefined;
+  isActive?: boolean | undefined;
+}
+
+export interface CreateLadderMachineTypeRequest {
+  name: string;
+  sortOrder?: number | undefined;
+  isActive?: boolean | undefined;
+}
+
+export interface UpdateLadderMachineTypeRequest {
+  name?: string | undefined;
+  sortOrder?: number | undefined;
+  isActive?: boolean | undefined;
+}
+
+export interface EquipmentTypeResponse {
+  id: number;
+  name: string;
+  lengths: number[];
+  sortOrder: number;
+  isActive: boolean;
+}
+
+export interface LadderMachineTypeResponse {
+  id: number;
+  name: string;
+  sortOrder: number;
+  isActive: boolean;
+}
+
+export interface EquipmentCatalogResponse {
+  equipmentTypes: EquipmentTypeResponse[];
+  ladderMachineTypes: LadderMachineTypeResponse[];
+}
@@ -0,0 +1,54 @@
+import { JobPostType, JobPostCategory, LadderType } from '@prisma/client';
+
+export interface FeeCalculationInput {
+  type: JobPostType;
+  category: JobPostCategory;
+  ladderType?: LadderType | undefined;
+  
+  // Pricing
+  workCost: number;
+  priceAdjustment?: number | undefined;
+  isNightWork?: boolean | undefined;
+  withFee: boolean;
+  
+  // Ladder-specific pricing and schedule
+  movingFee?: number | undefined;
+  onSiteFee?: number | undefined;
+  ladderWorkDuration?: string | undefined;
+  ladderWorkHours?: number | undefined;
+  
+  // Community rates (%) - resolved from the community defaults when omitted
+  communityWorkFee?: number | undefined;
+  communitySupportFee?: number | undefined;
+}
+
+export interface FeePreviewRequest extends FeeCalculationInput {
+  communityId?: number | undefined;
+}
+
+export interface FeeBreakdown {
+  // Work cost
+  workCost: number;
+  priceAdjustment: number;
+  adjustedWorkCost: number;
+  nightWorkSurcharge: number;
+  extraHours: number;
+  extraHoursCost: number;
+  totalWorkCost: number;
+  
+  // Rates applied (%)
+  workFeeRate: number;
+  supportFeeRate: number;
+  
+  // Commission
+  totalWorkFee: number;
+  unitPriceFee: number;
+  supportFee: number;
+  movingFee: number;
+  onSiteFee: number;
+  ladderFee: number;
+  totalFees: number;
+  
+  // What the operator receives after fees
+  operatorPayout: number;
+}
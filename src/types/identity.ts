@@ -0,0 +1,146 @@
+import { z } from "zod";
+import { IdentityProvider } from "@prisma/client";
+
+// Proof of an account at a login provider, sent on login and when linking
+export const identityCredentialSchema = z.discriminatedUnion("provider", [
+  z.object({
+    provider: z.literal(IdentityProvider.KAKAO),
+    idToken: z.string().min(1, "ID token is required"),
+    nonce: z.string().min(1, "Nonce is required"),
+    // Access token of the same login, needed to use the Kakao account email
+    accessToken: z.string().min(1, "Access token cannot be empty").optional(),
+  }),
+  z.object({
+    provider: z.literal(IdentityProvider.APPLE),
+    idToken: z.string().min(1, "ID token is required"),
+    nonce: z.string().min(1, "Nonce is required"),
+  }),
+  z.object({
+    provider: z.literal(IdentityProvider.NAVER),
+    // Authorization code from the Naver login redirect, exchanged by the server
+    code: z.string().min(1, "Authorization code is required"),
+    state: z.string().min(1, "State is required"),
+  }),
+]);
+
+// Link either with a fresh provider credential or with the linkToken from a conflicting login
+export const linkIdentitySchema = z.union([
+  z.object({
+    linkToken: z.string().min(1, "Link token is required"),
+  }),
+  identityCredentialSchema,
+]);
+
+export const identityProviderParamSchema = z.object({
+  provider: z.nativeEnum(IdentityProvider),
+});
+
+export type IdentityCredential = z.infer<typeof identityCredentialSchema>;
+export type LinkIdentityRequest = z.infer<typeof linkIdentitySchema>;
+
+// Account at a provider, after its credential was verified
+export interface VerifiedIdentity {
+  provider: IdentityProvider;
+  providerUserId: string;
+  email?: string | undefined; // Only when the provider verified it; it is stored and matched against accounts
+  nickname?: string | undefined;
+}
+
+/**
+ * Verifies the credentials of one login provider. New providers implement
+ * this and are registered in IdentityService.
+ */
+export interface IdentityProviderClient<C extends IdentityCredential = IdentityCredential> {
+  readonly provider: C["provider"];
+  verify(credential: C): Promise<VerifiedIdentity>;
+}
+
+export interface UserIdentityResponse {
+  provider: IdentityProvider;
+  email: string | null;
+  linkedAt: Date;
+  lastLoginAt: Date | null;
+}
+
+// Claims of the short-lived token handed out when a login hits an existing email
+export interface IdentityLinkTokenPayload {
+  provider: IdentityProvider;
+  providerUserId: string;
+  email?: string | undefined;
+}
+
+// Swagger schemas
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     IdentityProvider:
+ *       type: string
+ *       enum: [KAKAO, NAVER, APPLE]
+ *     IdentityCredential:
+ *       type: object
+ *       description: |
+ *         KAKAO and APPLE send the OIDC ID token and the nonce used to request it.
+ *         KAKAO also sends the access token of the same login when the account email should be used.
+ *         NAVER sends the authorization code and state from the login redirect.
+ *       properties:
+ *         provider:
+ *           $ref: '#/components/schemas/IdentityProvider'
+ *         idToken:
+ *           type: string
+ *         nonce:
+ *           type: string
+ *         accessToken:
+ *           type: string
+ *         code:
+ *           type: string
+ *         state:
+ *           type: string
+ *       required:
+ *         - provider
+ *     LinkIdentityRequest:
+ *       oneOf:
+ *         - $ref: '#/components/schemas/IdentityCredential'
+ *         - type: object
+ *           properties:
+ *             linkToken:
+ *               type: string
+ *               description: linkToken from a login that returned 409
+ *           required:
+ *             - linkToken
+ *     UserIdentity:
+ *       type: object
+ *       properties:
+ *         provider:
+ *           $ref: '#/components/schemas/IdentityProvider'
+ *         email:
+ *           type: string
+ *           nullable: true
+ *         linkedAt:
+ *           type: string
+ *           format: date-time
+ *         lastLoginAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *     IdentityLinkRequiredResponse:
+ *       allOf:
+ *         - $ref: '#/components/schemas/BaseResponse'
+ *         - type: object
+ *           properties:
+ *             data:
+ *               type: object
+ *               properties:
+ *                 email:
+ *                   type: string
+ *                 linkToken:
+ *                   type: string
+ *                   description: Send to POST /auth/me/identities after logging in to the existing account
+ *                 linkTokenExpiresIn:
+ *                   type: integer
+ *                   description: Seconds the link token stays valid
+ *                 existingProviders:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/IdentityProvider'
+ */
@@ -0,0 +1,39 @@
+import { JobApplicationStatus, JobPostStatus } from '@prisma/client';
+
+export interface CreateJobApplicationRequest {
+  equipmentId?: number | undefined;
+  proposedPrice?: number | undefined;
+  message?: string | undefined;
+}
+
+export interface JobApplicationResponse {
+  id: number;
+  jobPostId: number;
+  applicantId: number;
+  equipmentId?: number | undefined;
+  proposedPrice?: number | undefined;
+  message?: string | undefined;
+  status: JobApplicationStatus;
+  decidedAt?: Date | undefined;
+  createdAt: Date;
+  updatedAt: Date;
+  applicant?: {
+    id: number;
+    name?: string | undefined;
+    nickname?: string | undefined;
+  } | undefined;
+  equipment?: {
+    id: number;
+    type: string;
+    tonnage: string;
+    length?: string | undefined;
+    height: string;
+  } | undefined;
+  jobPost?: {
+    id: number;
+    status: JobPostStatus;
+    workDateType: string;
+    scheduledStartAt?: Date | undefined;
+    siteAddress?: string | undefined;
+  } | undefined;
+}
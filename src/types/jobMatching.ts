@@ -0,0 +1,26 @@
+import { JobPostResponse } from './jobPost';
+
+// Registered equipment expressed in SKY catalog units
+export interface NormalizedEquipment {
+  equipmentType: string;
+  equipmentLength: number;
+}
+
+export interface MatchedEquipmentResponse extends NormalizedEquipment {
+  id: number;
+  type: string;
+  tonnage: string;
+  length?: string | undefined;
+}
+
+export interface MatchedJobPostResponse extends JobPostResponse {
+  matchedEquipmentIds: number[];
+}
+
+export interface SuitableOperatorResponse {
+  id: number;
+  name?: string | undefined;
+  nickname?: string | undefined;
+  isBusinessVerified: boolean;
+  equipment: MatchedEquipmentResponse[];
+}
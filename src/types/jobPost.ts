@@ -1,4 +1,6 @@
-import { JobPostType, JobPostCategory, PaymentMethod, LadderType } from '@prisma/client';
+import { JobPostType, JobPostCategory, JobPostStatus, DesignationStatus, PaymentMethod, LadderType, WorkShift, WorkDurationUnit, TravelDistance } from '@prisma/client';
+import { FeeBreakdown } from './fee';
+import { SiteLocationResponse } from './location';
 
 export interface CreateJobPostRequest {
   type: JobPostType;
@@ -34,9 +36,11 @@ export interface CreateJobPostRequest {
   
   // Work Details
   workDateType: string;
+  workDate?: string | undefined; // "YYYY-MM-DD", required for CUSTOM_DATE
   arrivalTime: string;
   workSchedule?: string | undefined;
   customHours?: number | undefined;
+  shift?: string | undefined; // "morning" / "afternoon", derived from arrivalTime when omitted
   
   // Pricing
   workCost: number;
@@ -49,8 +53,6 @@ export interface CreateJobPostRequest {
   
   // Fee Structure
   withFee: boolean;
-  totalWorkFee?: number | undefined;
-  unitPriceFee?: number | undefined;
   
   // Community Fee Structure (for COMMUNITY type)
   communityWorkFee?: number | undefined;
@@ -65,73 +67,127 @@ export interface CreateJobPostRequest {
   deliveryInfo: string;
 }
 
+// null clears an optional field
 export interface UpdateJobPostRequest {
   category?: JobPostCategory | undefined;
   
   // Equipment Selection (Required for SKY, not needed for LADDER)
-  equipmentType?: string | undefined;
-  equipmentLengths?: number[] | undefined;
+  equipmentType?: string | null | undefined;
+  equipmentLengths?: number[] | null | undefined;
   
   // Ladder-specific fields (for LADDER category)
-  ladderType?: LadderType | undefined;
-  machineType?: string | undefined;
-  luggageVolume?: string | undefined;
-  workFloor?: string | undefined;
-  overallHeight?: string | undefined;
+  ladderType?: LadderType | null | undefined;
+  machineType?: string | null | undefined;
+  luggageVolume?: string | null | undefined;
+  workFloor?: string | null | undefined;
+  overallHeight?: string | null | undefined;
   
   // Ladder Work Schedule (for ON_SITE type)
-  ladderWorkDuration?: string | undefined;
-  ladderWorkHours?: number | undefined;
+  ladderWorkDuration?: string | null | undefined;
+  ladderWorkHours?: number | null | undefined;
   
   // Ladder Options (Optional) - Will be saved in separate JobPostOptions table
   options?: {
-    loadingUnloadingService?: string | undefined;
-    travelDistance?: string | undefined;
+    loadingUnloadingService?: string | null | undefined;
+    travelDistance?: string | null | undefined;
     dumpService?: boolean | undefined;
-  } | undefined;
+  } | null | undefined;
   
   // Ladder-specific pricing
-  movingFee?: number | undefined;
-  onSiteFee?: number | undefined;
+  movingFee?: number | null | undefined;
+  onSiteFee?: number | null | undefined;
   
   // Work Details
-  workDateType: string;
-  arrivalTime: string;
-  workSchedule?: string | undefined;
-  customHours?: number | undefined;
+  workDateType?: string | undefined;
+  workDate?: string | null | undefined;
+  arrivalTime?: string | undefined;
+  workSchedule?: string | null | undefined;
+  customHours?: number | null | undefined;
+  shift?: string | null | undefined;
   
   // Pricing
-  workCost: number;
+  workCost?: number | undefined;
   isNightWork?: boolean | undefined;
-  priceAdjustment?: number | undefined;
+  priceAdjustment?: number | null | undefined;
   
   // Payment
-  paymentMethod: PaymentMethod;
-  expectedPaymentDate: string;
+  paymentMethod?: PaymentMethod | undefined;
+  expectedPaymentDate?: string | undefined;
   
   // Fee Structure
-  withFee: boolean;
-  totalWorkFee?: number | undefined;
-  unitPriceFee?: number | undefined;
+  withFee?: boolean | undefined;
   
   // Community Fee Structure (for COMMUNITY type)
-  communityWorkFee?: number | undefined;
-  communitySupportFee?: number | undefined;
+  communityWorkFee?: number | null | undefined;
+  communitySupportFee?: number | null | undefined;
   
   // Location and Contact
-  siteAddress: string;
-  contactNumber: string;
+  siteAddress?: string | undefined;
+  contactNumber?: string | undefined;
   
   // Work Information
-  workContents: string;
-  deliveryInfo: string;
+  workContents?: string | null | undefined;
+  deliveryInfo?: string | undefined;
 }
 
 export interface JobPostFilters {
-  type?: JobPostType;
-  category?: JobPostCategory;
+  type?: JobPostType | undefined;
+  category?: JobPostCategory | undefined;
   communityId?: number | undefined;
   authorId?: number | undefined;
+  status?: JobPostStatus[] | undefined;
+  equipmentType?: string | undefined;
+  equipmentLengths?: number[] | undefined;
+  ladderType?: LadderType | undefined;
+  paymentMethod?: PaymentMethod | undefined;
+  isNightWork?: boolean | undefined;
+  withFee?: boolean | undefined;
+  minWorkCost?: number | undefined;
+  maxWorkCost?: number | undefined;
+  createdFrom?: Date | undefined;
+  createdTo?: Date | undefined;
+  workDate?: string | undefined; // "TODAY", "TOMORROW" or "YYYY-MM-DD"
+  shift?: WorkShift | undefined;
+  scheduledFrom?: Date | undefined;
+  scheduledTo?: Date | undefined;
+  regionCode?: string | undefined;
+  districtCode?: string | undefined;
+  latitude?: number | undefined;
+  longitude?: number | undefined;
+  radiusKm?: number | undefined; // Around latitude/longitude, or the user's home base
+}
+
+export type JobPostSortField = 'createdAt' | 'workCost' | 'scheduledStartAt';
+
+// Schedule fields of a job post, as entered
+export type WorkScheduleInput = Pick<
+  CreateJobPostRequest,
+  'workDateType' | 'workDate' | 'arrivalTime' | 'workSchedule' | 'customHours' | 'shift' | 'ladderWorkDuration' | 'ladderWorkHours'
+>;
+
+export interface ResolvedWorkSchedule {
+  workDate: Date;
+  scheduledStartAt: Date;
+  shift: WorkShift;
+  durationValue: number | null;
+  durationUnit: WorkDurationUnit | null;
+}
+
+export interface JobPostListOptions {
+  sortBy?: JobPostSortField | undefined;
+  sortOrder?: 'asc' | 'desc' | undefined;
+  limit?: number | undefined;
+  cursor?: number | undefined; // ID of the last job post of the previous page
+}
+
+export interface PaginatedJobPostsResponse {
+  data: JobPostResponse[];
+  pagination: {
+    limit: number;
+    hasMore: boolean;
+    nextCursor?: number | undefined;
+    truncated?: boolean | undefined; // Set when a radius search left out older posts in range
+  };
 }
 
 export interface JobPostResponse {
@@ -142,6 +198,18 @@ export interface JobPostResponse {
   communityId?: number | undefined;
   designatedUserId?: number | undefined;
   
+  // Lifecycle
+  status: JobPostStatus;
+  assignedUserId?: number | undefined;
+  statusChangedAt?: Date | undefined;
+  cancelReason?: string | undefined;
+  
+  // Designation response (for DESIGNATED type)
+  designationStatus?: DesignationStatus | undefined;
+  designationExpiresAt?: Date | undefined;
+  designationRespondedAt?: Date | undefined;
+  designationDeclineReason?: string | undefined;
+  
   // Equipment Selection (Required for SKY, not needed for LADDER)
   equipmentType?: string | undefined;
   equipmentLengths?: number[] | undefined;
@@ -174,13 +242,20 @@ export interface JobPostResponse {
   workSchedule?: string | undefined;
   customHours?: number | undefined;
   
+  // Structured schedule (KST work day, UTC start)
+  workDate?: string | undefined;
+  scheduledStartAt?: Date | undefined;
+  shift?: WorkShift | undefined;
+  durationValue?: number | undefined;
+  durationUnit?: WorkDurationUnit | undefined;
+  
   // Pricing
   workCost: number;
   isNightWork?: boolean | undefined;
   priceAdjustment?: number | undefined;
   
   // Payment
-  paymentMethod: PaymentMethod;
+  paymentMethod?: PaymentMethod | undefined;
   expectedPaymentDate: string;
   
   // Fee Structure
@@ -192,30 +267,67 @@ export interface JobPostResponse {
   communityWorkFee?: number | undefined;
   communitySupportFee?: number | undefined;
   
+  // Computed by the fee engine
+  totalWorkCost?: number | undefined;
+  operatorPayout?: number | undefined;
+  feeBreakdown?: FeeBreakdown | undefined;
+  
   // Location and Contact
   siteAddress: string;
+  siteLocation?: SiteLocationResponse | undefined; // Geocoded from siteAddress
+  travelDistance?: TravelDistance | undefined;     // Set once an operator is assigned
   contactNumber: string;
   
   // Work Information
-  workContents: string;
+  workContents?: string | undefined;
   deliveryInfo: string;
   
   createdAt: Date;
   updatedAt: Date;
-  author?: {
-    id: number;
-    name?: string | undefined;
-    nickname?: string | undefined;
-  } | undefined;
+  author?: UserSummaryResponse | undefined;
   community?: {
     id: number;
     title: string;
   } | undefined;
-  designatedUser?: {
+  designatedUser?: UserSummaryResponse | undefined;
+  assignedUser?: UserSummaryResponse | undefined;
+}
+
+// A user as shown on job posts
+export interface UserSummaryResponse {
+  id: number;
+  name?: string | undefined;
+  nickname?: string | undefined;
+  isBusinessVerified: boolean; // Verified badge (approved business registration)
+}
+
+export interface AssignJobPostRequest {
+  assignedUserId: number;
+}
+
+export interface DeclineDesignationRequest {
+  reason?: string | undefined;
+}
+
+export interface RedesignateJobPostRequest {
+  designatedUserId: number;
+}
+
+export interface CancelJobPostRequest {
+  reason?: string | undefined;
+}
+
+export interface JobPostStatusHistoryResponse {
+  id: number;
+  fromStatus?: JobPostStatus | undefined;
+  toStatus: JobPostStatus;
+  reason?: string | undefined;
+  createdAt: Date;
+  changedBy: {
     id: number;
     name?: string | undefined;
     nickname?: string | undefined;
-  } | undefined;
+  };
 }
 
 export interface UserCommunitiesResponse {
@@ -226,11 +338,16 @@ export interface UserCommunitiesResponse {
   joinedAt: Date;
 }
 
+export interface OperatorFilters {
+  verifiedOnly?: boolean | undefined; // Only users with the verified badge
+}
+
 export interface CommunityUsersResponse {
   id: number;
   name?: string | undefined;
   nickname?: string | undefined;
   email?: string | undefined;
   role: string;
+  isBusinessVerified: boolean;
   joinedAt: Date;
 }
\ No newline at end of file
@@ -0,0 +1,50 @@
+// Administrative area (시/도 + 시/군/구) an address belongs to
+export interface Jurisdiction {
+  regionCode: string;
+  districtCode?: string | undefined;
+}
+
+export interface GeocodedLocation extends Jurisdiction {
+  regionName: string;
+  districtName?: string | undefined;
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Turns a free-text address into a location. Implementations return null
+ * when the address cannot be resolved and only throw on provider failures.
+ */
+export interface Geocoder {
+  geocode(address: string): Promise<GeocodedLocation | null>;
+}
+
+export interface SetHomeBaseRequest {
+  address: string;
+}
+
+export interface HomeBaseResponse {
+  address: string;
+  regionCode: string;
+  districtCode?: string | undefined;
+  latitude: number;
+  longitude: number;
+}
+
+export interface SiteLocationResponse {
+  regionCode: string;
+  districtCode?: string | undefined;
+  latitude?: number | undefined;
+  longitude?: number | undefined;
+}
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface RadiusSearchResult {
+  jobPostIds: number[];
+  // More than MAX_RADIUS_SEARCH_RESULTS posts were in range, the older ones are left out
+  truncated: boolean;
+}
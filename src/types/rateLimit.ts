@@ -0,0 +1,26 @@
+// Named limit for one kind of request; see RATE_LIMIT_POLICIES
+export interface RateLimitPolicy {
+  name: string;     // Namespaces the counters and the env overrides (RATE_LIMIT_<NAME>_MAX / _WINDOW_MS)
+  windowMs: number;
+  max: number;      // Requests allowed per window
+  message: string;
+}
+
+export interface RateLimitHit {
+  count: number;    // Requests in the current window, including this one
+  resetAt: Date;    // When the window ends
+}
+
+/**
+ * Keeps request counters. Fixed windows: the first hit of a key starts a
+ * window of windowMs, every hit in it increments the same counter.
+ */
+export interface RateLimitStore {
+  increment(key: string, windowMs: number): Promise<RateLimitHit>;
+  reset(key: string): Promise<void>;
+}
+
+// Sends one Redis command, e.g. ['INCR', 'key']. Implemented per client library or REST API.
+export interface RedisCommandClient {
+  command(args: (string | number)[]): Promise<unknown>;
+}
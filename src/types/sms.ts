@@ -0,0 +1,12 @@
+export interface SmsMessage {
+  to: string;     // Digits only, e.g. "01012345678"
+  text: string;
+}
+
+/**
+ * Delivers text messages. Implementations throw when the message could not
+ * be handed to the provider.
+ */
+export interface SmsGateway {
+  send(message: SmsMessage): Promise<void>;
+}
@@ -1,5 +1,8 @@
 import { z } from "zod";
 import { UserRole } from "@prisma/client";
+import { OTP_CODE_LENGTH } from "../constants/phoneVerification";
+import { REGIONS } from "../constants/regions";
+import { isValidBusinessRegistrationNumber, normalizeBusinessRegistrationNumber } from "../utils/businessRegistration";
 
 // Zod schemas for validation
 export const createUserSchema = z.object({
@@ -16,6 +19,36 @@ export const updateUserSchema = z.object({
   role: z.nativeEnum(UserRole).optional(),
 });
 
+// Fields a user may change on their own profile (role, email and phone have their own flows)
+export const updateProfileSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name too long").optional(),
+  nickname: z.string().trim().min(1, "Nickname is required").max(50, "Nickname too long").optional(),
+  avatarUrl: z.string().url("Invalid avatar URL").max(500, "Avatar URL too long").nullable().optional(),
+  bio: z.string().trim().max(500, "Bio too long").nullable().optional(),
+  servedRegionCodes: z.array(
+    z.string().refine(code => REGIONS.some(region => region.code === code), "Unknown region code")
+  ).max(REGIONS.length, "Too many regions").optional(),
+  businessRegistrationNumber: z.string()
+    .transform(normalizeBusinessRegistrationNumber)
+    .refine(value => /^[0-9]{10}$/.test(value), "Business registration number must be 10 digits")
+    .refine(isValidBusinessRegistrationNumber, "Business registration number is not valid")
+    .nullable()
+    .optional(),
+});
+
+export const setHomeBaseSchema = z.object({
+  address: z.string().trim().min(1, "Address is required").max(200, "Address too long"),
+});
+
+export const sendPhoneCodeSchema = z.object({
+  phoneNumber: z.string().trim().min(1, "Phone number is required").max(20, "Phone number too long"),
+});
+
+export const verifyPhoneCodeSchema = z.object({
+  phoneNumber: z.string().trim().min(1, "Phone number is required").max(20, "Phone number too long"),
+  code: z.string().regex(new RegExp(`^[0-9]{${OTP_CODE_LENGTH}}$`), `Code must be ${OTP_CODE_LENGTH} digits`),
+});
+
 export const userIdSchema = z.object({
   id: z.string().transform((val: string) => parseInt(val, 10)),
 });
@@ -23,7 +56,22 @@ export const userIdSchema = z.object({
 // TypeScript types
 export type CreateUserRequest = z.infer<typeof createUserSchema>;
 export type UpdateUserRequest = z.infer<typeof updateUserSchema>;
+export type UpdateProfileRequest = z.infer<typeof updateProfileSchema>;
 export type UserIdParams = z.infer<typeof userIdSchema>;
+export type SetHomeBaseRequest = z.infer<typeof setHomeBaseSchema>;
+export type SendPhoneCodeRequest = z.infer<typeof sendPhoneCodeSchema>;
+export type VerifyPhoneCodeRequest = z.infer<typeof verifyPhoneCodeSchema>;
+
+export interface PhoneVerificationSentResponse {
+  phoneNumber: string;        // Formatted, e.g. "010-1234-5678"
+  expiresAt: Date;
+  resendAvailableAt: Date;
+}
+
+export interface PhoneVerificationResponse {
+  phoneNumber: string;
+  phoneVerifiedAt: Date;
+}
 
 // Swagger schemas
 /**
@@ -41,10 +89,6 @@ export type UserIdParams = z.infer<typeof userIdSchema>;
  *           type: integer
  *           description: Unique identifier for the user
  *           example: 1
- *         kakaoId:
- *           type: string
- *           description: Kakao user ID
- *           example: "123456789"
  *         name:
  *           type: string
  *           nullable: true
@@ -65,6 +109,42 @@ export type UserIdParams = z.infer<typeof userIdSchema>;
  *           $ref: '#/components/schemas/UserRole'
  *           description: User's role
  *           example: "USER"
+ *         avatarUrl:
+ *           type: string
+ *           nullable: true
+ *         bio:
+ *           type: string
+ *           nullable: true
+ *         servedRegionCodes:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: 시/도 codes the user takes work in
+ *           example: ["11", "41"]
+ *         businessRegistrationNumber:
+ *           type: string
+ *           nullable: true
+ *           description: 사업자등록번호, digits only
+ *           example: "1234567891"
+ *         businessVerifiedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: Set when an admin approved the business registration (verified badge)
+ *         deletedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: Set when the account was deleted (personal data removed)
+ *         phoneNumber:
+ *           type: string
+ *           nullable: true
+ *           description: Verified mobile number, digits only
+ *           example: "01012345678"
+ *         phoneVerifiedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
  *         createdAt:
  *           type: string
  *           format: date-time
@@ -120,6 +200,104 @@ export type UserIdParams = z.infer<typeof userIdSchema>;
  *           $ref: '#/components/schemas/UserRole'
  *           description: User's role
  *           example: "USER"
+ *     HomeBase:
+ *       type: object
+ *       properties:
+ *         address:
+ *           type: string
+ *           example: "서울특별시 강남구 테헤란로 152"
+ *         regionCode:
+ *           type: string
+ *           description: 시/도 code
+ *           example: "11"
+ *         districtCode:
+ *           type: string
+ *           description: 시/군/구 code (when it could be resolved)
+ *           example: "11680"
+ *         latitude:
+ *           type: number
+ *           example: 37.5172
+ *         longitude:
+ *           type: number
+ *           example: 127.0473
+ *     SetHomeBaseRequest:
+ *       type: object
+ *       required:
+ *         - address
+ *       properties:
+ *         address:
+ *           type: string
+ *           description: Address to geocode
+ *           example: "서울특별시 강남구 테헤란로 152"
+ *     UpdateProfileRequest:
+ *       type: object
+ *       properties:
+ *         name:
+ *           type: string
+ *           example: "홍길동"
+ *         nickname:
+ *           type: string
+ *           example: "스카이기사"
+ *         avatarUrl:
+ *           type: string
+ *           nullable: true
+ *         bio:
+ *           type: string
+ *           nullable: true
+ *           maxLength: 500
+ *         servedRegionCodes:
+ *           type: array
+ *           items:
+ *             type: string
+ *           example: ["11", "41"]
+ *         businessRegistrationNumber:
+ *           type: string
+ *           nullable: true
+ *           description: Changing it removes the verified badge until a new verification is approved
+ *           example: "123-45-67891"
+ *     SendPhoneCodeRequest:
+ *       type: object
+ *       required:
+ *         - phoneNumber
+ *       properties:
+ *         phoneNumber:
+ *           type: string
+ *           description: Korean mobile number, with or without hyphens
+ *           example: "010-1234-5678"
+ *     VerifyPhoneCodeRequest:
+ *       type: object
+ *       required:
+ *         - phoneNumber
+ *         - code
+ *       properties:
+ *         phoneNumber:
+ *           type: string
+ *           example: "010-1234-5678"
+ *         code:
+ *           type: string
+ *           description: 6-digit code from the SMS
+ *           example: "123456"
+ *     PhoneVerificationSent:
+ *       type: object
+ *       properties:
+ *         phoneNumber:
+ *           type: string
+ *           example: "010-1234-5678"
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *         resendAvailableAt:
+ *           type: string
+ *           format: date-time
+ *     PhoneVerification:
+ *       type: object
+ *       properties:
+ *         phoneNumber:
+ *           type: string
+ *           example: "010-1234-5678"
+ *         phoneVerifiedAt:
+ *           type: string
+ *           format: date-time
  *     UsersListResponse:
  *       allOf:
  *         - $ref: '#/components/schemas/BaseResponse'
@@ -0,0 +1,40 @@
+import { Request } from 'express';
+import { AuditChanges, AuditContext } from '../types/auditLog';
+
+// Any request that went through requireUser or requireUserOrApiKey
+type AuditableRequest = Request & {
+  user?: { userId: number } | undefined;
+  apiKey?: { apiKeyId: number } | undefined;
+};
+
+export const getAuditContext = (req: AuditableRequest): AuditContext => ({
+  actorId: req.user?.userId,
+  apiKeyId: req.apiKey?.apiKeyId,
+  ipAddress: req.ip,
+  userAgent: req.get('user-agent'),
+});
+
+const isEqual = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * The given fields that differ between before and after, or null when none
+ * changed. Fields missing from after are treated as unchanged.
+ */
+export const diffFields = <T extends object>(
+  before: T,
+  after: Partial<T>,
+  fields: readonly (keyof T & string)[]
+): AuditChanges | null => {
+  const changes: AuditChanges = { before: {}, after: {} };
+
+  for (const field of fields) {
+    if (after[field] === undefined || isEqual(before[field], after[field])) {
+      continue;
+    }
+
+    changes.before[field] = before[field];
+    changes.after[field] = after[field];
+  }
+
+  return Object.keys(changes.after).length > 0 ? changes : null;
+};
@@ -0,0 +1,18 @@
+import { UserRole } from '@prisma/client';
+
+// The authenticated caller as set on req.user by the auth middleware
+interface Actor {
+  userId: number;
+  role: string;
+}
+
+export const hasRole = (actor: Actor, roles: readonly UserRole[]): boolean => {
+  return roles.includes(actor.role as UserRole);
+};
+
+export const isAdmin = (actor: Actor): boolean => actor.role === UserRole.ADMIN;
+
+// Users may act on what they own, admins on anything
+export const isOwnerOrAdmin = (actor: Actor, ownerId: number): boolean => {
+  return actor.userId === ownerId || isAdmin(actor);
+};
@@ -0,0 +1,28 @@
+// Weights of the first nine digits in the 사업자등록번호 check digit
+const CHECKSUM_WEIGHTS = [1, 3, 7, 1, 3, 7, 1, 3, 5];
+
+// "123-45-67890" and "123 45 67890" both become "1234567890"
+export const normalizeBusinessRegistrationNumber = (input: string): string => {
+  return input.replace(/[\s-]/g, '');
+};
+
+/**
+ * Whether a 10-digit 사업자등록번호 carries a valid check digit. The ninth
+ * digit is weighted by 5 and its tens digit is added once more.
+ */
+export const isValidBusinessRegistrationNumber = (digits: string): boolean => {
+  if (!/^[0-9]{10}$/.test(digits)) {
+    return false;
+  }
+
+  const numbers = digits.split('').map(Number);
+  let sum = CHECKSUM_WEIGHTS.reduce((total, weight, index) => total + weight * numbers[index]!, 0);
+  sum += Math.floor(numbers[8]! * 5 / 10);
+
+  return (10 - sum % 10) % 10 === numbers[9];
+};
+
+// "1234567890" -> "123-45-67890"
+export const formatBusinessRegistrationNumber = (digits: string): string => {
+  return `${digits.slice(0, 3)}-${digits.slice(3, 5)}-${digits.slice(5)}`;
+};
@@ -0,0 +1,85 @@
+import { EquipmentTypeResponse } from '../types/equipmentCatalog';
+import { NormalizedEquipment } from '../types/jobMatching';
+
+const BENDING_PATTERN = /bending|refraction|굴절/i;
+const TONNAGE_PATTERN = /(\d+(?:\.\d+)?)\s*(?:t\b|tons?\b|톤)/i;
+const LENGTH_PATTERN = /(\d+(?:\.\d+)?)\s*(?:m\b|meters?\b|미터)/i;
+const BARE_NUMBER_PATTERN = /^\s*(\d+(?:\.\d+)?)\s*$/;
+
+// Registered lengths are measured, catalog lengths are nominal (meters)
+const LENGTH_TOLERANCE = 0.5;
+
+interface CatalogTypeSpec {
+  name: string;
+  bending: boolean;
+  tonnage: number | null;
+  length: number | null;
+  lengths: number[];
+}
+
+// "5 tons", "3.5톤", "2.5t" or a bare number -> tons
+export const parseTonnage = (value: string | null | undefined): number | null => {
+  const match = value ? TONNAGE_PATTERN.exec(value) ?? BARE_NUMBER_PATTERN.exec(value) : null;
+  return match ? Number(match[1]) : null;
+};
+
+// "28m", "6.5 meters", "45미터" or a bare number -> meters
+export const parseLengthMeters = (value: string | null | undefined): number | null => {
+  const match = value ? LENGTH_PATTERN.exec(value) ?? BARE_NUMBER_PATTERN.exec(value) : null;
+  return match ? Number(match[1]) : null;
+};
+
+// "Refraction 60M" is identified by its boom length, every other type by its tonnage
+const describeCatalogType = (type: EquipmentTypeResponse): CatalogTypeSpec => {
+  const lengthMatch = /(\d+(?:\.\d+)?)\s*m$/i.exec(type.name.trim());
+
+  return {
+    name: type.name,
+    bending: BENDING_PATTERN.test(type.name),
+    tonnage: lengthMatch ? null : parseTonnage(type.name),
+    length: lengthMatch ? Number(lengthMatch[1]) : null,
+    lengths: type.lengths,
+  };
+};
+
+// Longest catalog length the boom reaches
+const snapToCatalogLength = (length: number, lengths: number[]): number | null => {
+  const reachable = lengths.filter(catalogLength => catalogLength <= length + LENGTH_TOLERANCE);
+  return reachable.length > 0 ? Math.max(...reachable) : null;
+};
+
+/**
+ * Maps a registered truck onto the SKY catalog. Returns null when the truck
+ * does not correspond to any catalog type or its boom length is unknown.
+ */
+export const normalizeEquipment = (
+  equipment: { type: string; tonnage: string; length: string | null },
+  catalog: EquipmentTypeResponse[]
+): NormalizedEquipment | null => {
+  const bending = BENDING_PATTERN.test(`${equipment.type} ${equipment.tonnage}`);
+  const tonnage = parseTonnage(equipment.tonnage);
+  const length = parseLengthMeters(equipment.length);
+
+  const specs = catalog.map(describeCatalogType).filter(spec => spec.bending === bending);
+  const catalogType =
+    specs.find(spec => spec.length !== null && length !== null && Math.abs(spec.length - length) <= LENGTH_TOLERANCE) ??
+    specs.find(spec => spec.tonnage !== null && tonnage !== null && spec.tonnage === tonnage);
+
+  if (!catalogType) {
+    return null;
+  }
+
+  // Types with a single length do not need the registered length
+  const equipmentLength = length !== null
+    ? snapToCatalogLength(length, catalogType.lengths)
+    : catalogType.lengths.length === 1 ? catalogType.lengths[0] ?? null : null;
+
+  if (equipmentLength === null) {
+    return null;
+  }
+
+  return {
+    equipmentType: catalogType.name,
+    equipmentLength,
+  };
+};
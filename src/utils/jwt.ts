@@ -1,8 +1,13 @@
 import jwt, { SignOptions } from "jsonwebtoken";
 import { JWTPayload } from "../types/auth";
+import { IdentityLinkTokenPayload } from "../types/identity";
 
 const JWT_SECRET = process.env["JWT_SECRET"] || "your-secret-key";
-const JWT_EXPIRES_IN = process.env["JWT_EXPIRES_IN"] || "7d";
+// Access tokens are short-lived; sessions are kept alive with refresh tokens
+const JWT_EXPIRES_IN = process.env["JWT_EXPIRES_IN"] || "15m";
+// Link tokens carry their own audience so they cannot be used as access tokens or vice versa
+const LINK_TOKEN_AUDIENCE = "identity-link";
+export const LINK_TOKEN_EXPIRES_IN_SECONDS = 10 * 60;
 
 export const generateToken = (payload: JWTPayload): string => {
   return jwt.sign(payload, JWT_SECRET, {
@@ -24,15 +29,23 @@ export const decodeToken = (token: string): JWTPayload | null => {
   } catch (error) {
     return null;
   }
-}; 
+};
+
+export const generateLinkToken = (payload: IdentityLinkTokenPayload): string => {
+  return jwt.sign(payload, JWT_SECRET, {
+    expiresIn: LINK_TOKEN_EXPIRES_IN_SECONDS,
+    audience: LINK_TOKEN_AUDIENCE,
+  });
+};
 
+export const verifyLinkToken = (token: string): IdentityLinkTokenPayload => {
+  try {
+    const { provider, providerUserId, email } = jwt.verify(token, JWT_SECRET, {
+      audience: LINK_TOKEN_AUDIENCE,
+    }) as IdentityLinkTokenPayload;
 
-export const decodeKakaoJwt = (token: string) => {
-    try {
-        const decoded = jwt.decode(token, { complete: true }); // complete: true gives header and payload
-        return decoded;
-    } catch (err) {
-        console.error('Failed to decode token:', err);
-        return null;
-    }
-}
\ No newline at end of file
+    return { provider, providerUserId, email };
+  } catch (error) {
+    throw new Error("Invalid link token");
+  }
+};
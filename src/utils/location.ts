@@ -0,0 +1,53 @@
+import { TravelDistance } from '@prisma/client';
+import { EARTH_RADIUS_KM } from '../constants/location';
+import { GeoPoint, Jurisdiction } from '../types/location';
+
+const toRadians = (degrees: number): number => degrees * Math.PI / 180;
+
+// Great-circle distance between two points
+export const getDistanceKm = (from: GeoPoint, to: GeoPoint): number => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+// Latitude/longitude box containing every point within radiusKm of center
+export const getBoundingBox = (center: GeoPoint, radiusKm: number) => {
+  const latDelta = radiusKm / EARTH_RADIUS_KM * 180 / Math.PI;
+  const lngDelta = latDelta / Math.max(Math.cos(toRadians(center.latitude)), 0.01);
+
+  return {
+    minLatitude: center.latitude - latDelta,
+    maxLatitude: center.latitude + latDelta,
+    minLongitude: center.longitude - lngDelta,
+    maxLongitude: center.longitude + lngDelta,
+  };
+};
+
+/**
+ * 관내 (same 시/군/구) or 관외. Different 시/도 are always 관외; within the
+ * same 시/도 both district codes are needed, otherwise the result is null.
+ */
+export const deriveTravelDistance = (
+  from: Jurisdiction | null | undefined,
+  to: Jurisdiction | null | undefined
+): TravelDistance | null => {
+  if (!from || !to) {
+    return null;
+  }
+
+  if (from.regionCode !== to.regionCode) {
+    return TravelDistance.OUTSIDE_JURISDICTION;
+  }
+
+  if (!from.districtCode || !to.districtCode) {
+    return null;
+  }
+
+  return from.districtCode === to.districtCode
+    ? TravelDistance.WITHIN_JURISDICTION
+    : TravelDistance.OUTSIDE_JURISDICTION;
+};
@@ -0,0 +1,23 @@
+// Korean mobile numbers: 010 is always 11 digits, the legacy 011 and 016-019 prefixes can be 10
+const KOREAN_MOBILE_PATTERN = /^(010[0-9]{8}|01[16789][0-9]{7,8})$/;
+
+/**
+ * "010-1234-5678", "010 1234 5678" and "+82 10-1234-5678" all become
+ * "01012345678". Returns null for anything that is not a Korean mobile number.
+ */
+export const normalizeMobileNumber = (input: string): string | null => {
+  let digits = input.replace(/[\s\-().]/g, '');
+
+  if (digits.startsWith('+82')) {
+    digits = '0' + digits.slice(3).replace(/^0/, '');
+  }
+
+  return KOREAN_MOBILE_PATTERN.test(digits) ? digits : null;
+};
+
+// "01012345678" -> "010-1234-5678"
+export const formatMobileNumber = (digits: string): string => {
+  return digits.length === 11
+    ? `${digits.slice(0, 3)}-${digits.slice(3, 7)}-${digits.slice(7)}`
+    : `${digits.slice(0, 3)}-${digits.slice(3, 6)}-${digits.slice(6)}`;
+};
@@ -0,0 +1,132 @@
+import { WorkShift, WorkDurationUnit } from '@prisma/client';
+import { WORK_TIMEZONE_OFFSET_MINUTES, AFTERNOON_SHIFT_START_HOUR, WORK_DURATION_UNITS } from '../constants/workSchedule';
+import { LADDER_WORK_DURATION_HOURS, LADDER_EXTRA_HOUR_DURATION } from '../constants/feeRates';
+import { WorkScheduleInput, ResolvedWorkSchedule } from '../types/jobPost';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TIMEZONE_OFFSET_MS = WORK_TIMEZONE_OFFSET_MINUTES * 60 * 1000;
+
+// Dates without a time are kept as UTC midnight, the way Prisma reads and writes @db.Date columns
+export const getKstToday = (now: Date = new Date()): Date => {
+  const local = new Date(now.getTime() + TIMEZONE_OFFSET_MS);
+  return new Date(Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate()));
+};
+
+export const addDays = (date: Date, days: number): Date => {
+  return new Date(date.getTime() + days * DAY_MS);
+};
+
+// "2026-10-20" -> Date, or null when the value is not a real calendar date
+export const parseDateOnly = (value: string): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const [year, month, day] = match.slice(1).map(Number) as [number, number, number];
+  const date = new Date(Date.UTC(year, month - 1, day));
+
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+};
+
+export const formatDateOnly = (date: Date): string => {
+  return date.toISOString().slice(0, 10);
+};
+
+// Resolves "TODAY", "TOMORROW" or "YYYY-MM-DD" to a work day
+export const resolveWorkDate = (value: string, now: Date = new Date()): Date | null => {
+  if (value === 'TODAY') {
+    return getKstToday(now);
+  }
+
+  if (value === 'TOMORROW') {
+    return addDays(getKstToday(now), 1);
+  }
+
+  return parseDateOnly(value);
+};
+
+// Work day + "HH:MM" (KST) -> UTC instant
+export const toScheduledStartAt = (workDate: Date, arrivalTime: string): Date => {
+  const [hours = 0, minutes = 0] = arrivalTime.split(':').map(Number);
+  return new Date(workDate.getTime() + (hours * 60 + minutes) * 60 * 1000 - TIMEZONE_OFFSET_MS);
+};
+
+// "morning" / "afternoon" (SHIFT_VALUES) -> WorkShift
+export const toWorkShift = (shift: string): WorkShift => {
+  return shift === 'afternoon' ? WorkShift.AFTERNOON : WorkShift.MORNING;
+};
+
+export const getShiftForArrivalTime = (arrivalTime: string): WorkShift => {
+  const hours = Number(arrivalTime.split(':')[0]);
+  return hours >= AFTERNOON_SHIFT_START_HOUR ? WorkShift.AFTERNOON : WorkShift.MORNING;
+};
+
+// "2 days" -> { durationValue: 2, durationUnit: DAY }
+export const parseWorkDuration = (value: string): { durationValue: number; durationUnit: WorkDurationUnit } | null => {
+  const match = /^([1-9][0-9]*) ([a-z]+)$/.exec(value.trim());
+  const durationUnit = match?.[2] ? WORK_DURATION_UNITS[match[2]] : undefined;
+
+  if (!match || !durationUnit) {
+    return null;
+  }
+
+  return { durationValue: Number(match[1]), durationUnit };
+};
+
+/**
+ * Turns the entered schedule into a concrete start, shift and duration.
+ *
+ * URGENT and TODAY start today, TOMORROW tomorrow and CUSTOM_DATE on
+ * workDate, all at arrivalTime (KST). Pass options.workDate to keep an
+ * already resolved day, e.g. when an edit does not touch the date.
+ */
+export const resolveWorkSchedule = (
+  data: WorkScheduleInput,
+  options: { workDate?: Date | undefined; now?: Date | undefined } = {}
+): ResolvedWorkSchedule => {
+  const now = options.now ?? new Date();
+  let workDate = options.workDate;
+
+  if (!workDate) {
+    if (data.workDateType === 'CUSTOM_DATE') {
+      workDate = data.workDate ? parseDateOnly(data.workDate) ?? undefined : undefined;
+      if (!workDate) {
+        throw new Error('A valid work date (YYYY-MM-DD) is required for CUSTOM_DATE');
+      }
+
+      if (workDate < getKstToday(now)) {
+        throw new Error('Work date cannot be in the past');
+      }
+    } else {
+      workDate = data.workDateType === 'TOMORROW' ? addDays(getKstToday(now), 1) : getKstToday(now);
+    }
+  }
+
+  return {
+    workDate,
+    scheduledStartAt: toScheduledStartAt(workDate, data.arrivalTime),
+    shift: data.shift ? toWorkShift(data.shift) : getShiftForArrivalTime(data.arrivalTime),
+    ...resolveWorkDuration(data),
+  };
+};
+
+// workSchedule wins, then the ladder duration (plus overtime), then customHours
+const resolveWorkDuration = (data: WorkScheduleInput): { durationValue: number | null; durationUnit: WorkDurationUnit | null } => {
+  const parsed = data.workSchedule ? parseWorkDuration(data.workSchedule) : null;
+  if (parsed) {
+    return parsed;
+  }
+
+  const ladderHours = data.ladderWorkDuration ? LADDER_WORK_DURATION_HOURS[data.ladderWorkDuration] : undefined;
+  if (ladderHours !== undefined) {
+    const extraHours = data.ladderWorkDuration === LADDER_EXTRA_HOUR_DURATION ? data.ladderWorkHours ?? 1 : 0;
+    return { durationValue: ladderHours + extraHours, durationUnit: WorkDurationUnit.HOUR };
+  }
+
+  if (data.customHours) {
+    return { durationValue: data.customHours, durationUnit: WorkDurationUnit.HOUR };
+  }
+
+  return { durationValue: null, durationUnit: null };
+};
@@ -0,0 +1,18 @@
+import { z } from 'zod';
+import { API_KEY_SCOPES, MAX_API_KEY_EXPIRES_DAYS } from '../constants/apiKeys';
+
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name must be less than 100 characters'),
+  scopes: z.array(z.enum(API_KEY_SCOPES))
+    .min(1, 'At least one scope is required')
+    .transform((scopes) => [...new Set(scopes)]),
+  communityId: z.number().int().positive('Community ID must be a positive number').optional(),
+  expiresInDays: z.number().int()
+    .min(1, 'Expiry must be at least 1 day')
+    .max(MAX_API_KEY_EXPIRES_DAYS, `Expiry must be at most ${MAX_API_KEY_EXPIRES_DAYS} days`)
+    .optional(),
+}).strict();
+
+export const apiKeyFiltersSchema = z.object({
+  communityId: z.coerce.number().int().positive('Community ID must be a positive number').optional(),
+}).strict();
@@ -0,0 +1,17 @@
+import { z } from 'zod';
+import { AuditAction, AuditTargetType } from '@prisma/client';
+
+export const auditLogFiltersSchema = z.object({
+  action: z.nativeEnum(AuditAction).optional(),
+  actorId: z.coerce.number().int().positive('Actor ID must be a positive number').optional(),
+  targetType: z.nativeEnum(AuditTargetType).optional(),
+  targetId: z.coerce.number().int().positive('Target ID must be a positive number').optional(),
+  communityId: z.coerce.number().int().positive('Community ID must be a positive number').optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1, 'Limit must be at least 1').max(100, 'Limit must be at most 100').default(50),
+  cursor: z.coerce.number().int().positive('Cursor must be an audit log ID').optional(),
+}).strict();
+
+// Owners read their own community, so communityId comes from the path
+export const communityAuditLogFiltersSchema = auditLogFiltersSchema.omit({ communityId: true });
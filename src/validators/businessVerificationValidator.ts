@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import { BusinessVerificationStatus } from '@prisma/client';
+import { isValidBusinessRegistrationNumber, normalizeBusinessRegistrationNumber } from '../utils/businessRegistration';
+import { parseDateOnly } from '../utils/workSchedule';
+
+// Accepts "123-45-67890" or "1234567890", yields digits only
+export const businessRegistrationNumberSchema = z.string()
+  .transform(normalizeBusinessRegistrationNumber)
+  .refine((value) => /^[0-9]{10}$/.test(value), 'Business registration number must be 10 digits')
+  .refine(isValidBusinessRegistrationNumber, 'Business registration number is not valid');
+
+export const createBusinessVerificationSchema = z.object({
+  businessRegistrationNumber: businessRegistrationNumberSchema,
+  businessName: z.string().trim().min(1, 'Business name is required').max(100, 'Business name must be less than 100 characters'),
+  representativeName: z.string().trim().min(1, 'Representative name is required').max(50, 'Representative name must be less than 50 characters'),
+  openingDate: z.string().refine((value) => parseDateOnly(value) !== null, 'Opening date must be a valid date (YYYY-MM-DD)'),
+}).strict();
+
+export const approveBusinessVerificationSchema = z.object({
+  note: z.string().trim().max(500, 'Note must be less than 500 characters').optional(),
+}).strict();
+
+export const rejectBusinessVerificationSchema = z.object({
+  note: z.string().trim().min(1, 'A note explaining the rejection is required').max(500, 'Note must be less than 500 characters'),
+}).strict();
+
+export const businessVerificationFiltersSchema = z.object({
+  status: z.nativeEnum(BusinessVerificationStatus).optional(),
+  userId: z.coerce.number().int().positive('User ID must be a positive number').optional(),
+}).strict();
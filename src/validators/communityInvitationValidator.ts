@@ -0,0 +1,41 @@
+import { z } from 'zod';
+import { CommunityJoinRequestStatus, CommunityRole } from '@prisma/client';
+import {
+  MAX_COMMUNITY_INVITATION_EXPIRES_DAYS,
+  MAX_INVITE_LINK_EXPIRES_DAYS,
+  MAX_INVITE_LINK_USES,
+} from '../constants/communityInvitations';
+
+export const createCommunityInvitationSchema = z.object({
+  userId: z.number().int().positive('User ID must be a positive number'),
+  role: z.nativeEnum(CommunityRole)
+    .refine((role) => role !== CommunityRole.OWNER, 'Users cannot be invited as owner')
+    .optional(),
+  expiresInDays: z.number().int()
+    .min(1, 'Expiry must be at least 1 day')
+    .max(MAX_COMMUNITY_INVITATION_EXPIRES_DAYS, `Expiry must be at most ${MAX_COMMUNITY_INVITATION_EXPIRES_DAYS} days`)
+    .optional(),
+}).strict();
+
+export const createInviteLinkSchema = z.object({
+  maxUses: z.number().int()
+    .min(1, 'Max uses must be at least 1')
+    .max(MAX_INVITE_LINK_USES, `Max uses must be at most ${MAX_INVITE_LINK_USES}`)
+    .optional(),
+  expiresInDays: z.number().int()
+    .min(1, 'Expiry must be at least 1 day')
+    .max(MAX_INVITE_LINK_EXPIRES_DAYS, `Expiry must be at most ${MAX_INVITE_LINK_EXPIRES_DAYS} days`)
+    .optional(),
+}).strict();
+
+export const createJoinRequestSchema = z.object({
+  message: z.string().trim().max(500, 'Message must be less than 500 characters').optional(),
+}).strict();
+
+export const reviewJoinRequestSchema = z.object({
+  note: z.string().trim().max(500, 'Note must be less than 500 characters').optional(),
+}).strict();
+
+export const joinRequestFiltersSchema = z.object({
+  status: z.nativeEnum(CommunityJoinRequestStatus).optional(),
+}).strict();
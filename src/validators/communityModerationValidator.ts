@@ -0,0 +1,14 @@
+import { z } from 'zod';
+import { MAX_COMMUNITY_SANCTION_DAYS } from '../constants/communityModeration';
+
+export const sanctionMemberSchema = z.object({
+  reason: z.string().trim().max(500, 'Reason must be less than 500 characters').optional(),
+  durationDays: z.number().int()
+    .min(1, 'Duration must be at least 1 day')
+    .max(MAX_COMMUNITY_SANCTION_DAYS, `Duration must be at most ${MAX_COMMUNITY_SANCTION_DAYS} days`)
+    .optional(),
+}).strict();
+
+export const warnMemberSchema = z.object({
+  reason: z.string().trim().min(1, 'Reason is required').max(500, 'Reason must be less than 500 characters'),
+}).strict();
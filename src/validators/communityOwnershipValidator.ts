@@ -0,0 +1,5 @@
+import { z } from 'zod';
+
+export const requestOwnershipTransferSchema = z.object({
+  userId: z.number().int().positive('User ID must be a positive number'),
+}).strict();
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import { CommunityReactionType } from '@prisma/client';
+
+export const createCommunityPostSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(200, 'Title must be less than 200 characters'),
+  content: z.string().trim().min(1, 'Content is required').max(10000, 'Content must be less than 10000 characters'),
+}).strict();
+
+export const updateCommunityPostSchema = createCommunityPostSchema.partial()
+  .refine((data) => data.title !== undefined || data.content !== undefined, 'Nothing to update');
+
+export const moderateCommunityPostSchema = z.object({
+  isPinned: z.boolean().optional(),
+  isLocked: z.boolean().optional(),
+}).strict()
+  .refine((data) => data.isPinned !== undefined || data.isLocked !== undefined, 'Nothing to update');
+
+// Cursor pagination, shared by the feed and comment lists
+export const communityBoardListSchema = z.object({
+  limit: z.coerce.number().int().min(1, 'Limit must be at least 1').max(100, 'Limit must be at most 100').default(20),
+  cursor: z.coerce.number().int().positive('Cursor must be an ID').optional(),
+}).strict();
+
+export const createCommunityCommentSchema = z.object({
+  content: z.string().trim().min(1, 'Content is required').max(2000, 'Content must be less than 2000 characters'),
+  parentId: z.number().int().positive('Parent ID must be a positive number').optional(),
+}).strict();
+
+export const updateCommunityCommentSchema = createCommunityCommentSchema.pick({ content: true }).strict();
+
+export const setReactionSchema = z.object({
+  type: z.nativeEnum(CommunityReactionType),
+}).strict();
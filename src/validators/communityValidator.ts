@@ -1,11 +1,11 @@
 import { z } from 'zod';
 import { CommunityStatus, CommunityRole } from '@prisma/client';
+import { createCommunityInvitationSchema } from './communityInvitationValidator';
 
 export const createCommunitySchema = z.object({
   title: z.string().min(1, 'Title is required').max(100, 'Title must be less than 100 characters'),
   description: z.string().max(500, 'Description must be less than 500 characters').optional(),
   slug: z.string().min(1, 'Slug is required').max(50, 'Slug must be less than 50 characters').regex(/^[a-z0-9-]+$/, 'Slug must contain only lowercase letters, numbers, and hyphens').optional(),
-  status: z.nativeEnum(CommunityStatus).optional(),
   isPrivate: z.boolean().optional(),
   maxMembers: z.number().int().min(1, 'Max members must be at least 1').max(10000, 'Max members must be less than 10000').optional(),
   
@@ -31,10 +31,8 @@ export const joinCommunitySchema = z.object({
   communityId: z.number().int().positive('Community ID must be a positive number'),
 });
 
-export const inviteUserSchema = z.object({
+export const inviteUserSchema = createCommunityInvitationSchema.extend({
   communityId: z.number().int().positive('Community ID must be a positive number'),
-  userId: z.number().int().positive('User ID must be a positive number'),
-  role: z.nativeEnum(CommunityRole).optional(),
 });
 
 export const updateMemberRoleSchema = z.object({
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+
+const equipmentLengthsSchema = z.array(z.number().int().positive('Equipment length must be a positive number'))
+  .min(1, 'At least one equipment length is required')
+  .refine((lengths) => new Set(lengths).size === lengths.length, 'Equipment lengths must be unique');
+
+const catalogNameSchema = z.string().trim().min(1, 'Name is required').max(100, 'Name must be less than 100 characters');
+
+export const createEquipmentTypeSchema = z.object({
+  name: catalogNameSchema,
+  lengths: equipmentLengthsSchema,
+  sortOrder: z.number().int().optional(),
+  isActive: z.boolean().optional(),
+}).strict();
+
+export const updateEquipmentTypeSchema = z.object({
+  name: catalogNameSchema.optional(),
+  lengths: equipmentLengthsSchema.optional(),
+  sortOrder: z.number().int().optional(),
+  isActive: z.boolean().optional(),
+}).strict();
+
+export const createLadderMachineTypeSchema = z.object({
+  name: catalogNameSchema,
+  sortOrder: z.number().int().optional(),
+  isActive: z.boolean().optional(),
+}).strict();
+
+export const updateLadderMachineTypeSchema = z.object({
+  name: catalogNameSchema.optional(),
+  sortOrder: z.number().int().optional(),
+  isActive: z.boolean().optional(),
+}).strict();
@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+export const createJobApplicationSchema = z.object({
+  equipmentId: z.number().int().positive('Equipment ID must be a positive number').optional(),
+  proposedPrice: z.number().min(0, 'Proposed price must be at least 0').optional(),
+  message: z.string().max(500, 'Message must be less than 500 characters').optional(),
+}).strict();
+
+export type CreateJobApplicationValidation = z.infer<typeof createJobApplicationSchema>;
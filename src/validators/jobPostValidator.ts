@@ -1,5 +1,36 @@
 import { z } from 'zod';
-import { JobPostType, JobPostCategory, PaymentMethod, LadderType } from '@prisma/client';
+import { JobPostType, JobPostCategory, JobPostStatus, PaymentMethod, LadderType } from '@prisma/client';
+import {
+  PRICE_ADJUSTMENT_STEP,
+  PRICE_ADJUSTMENT_MIN,
+  PRICE_ADJUSTMENT_MAX,
+  LADDER_MOVING_FEE,
+  LADDER_ON_SITE_FEE,
+} from '../constants/feeRates';
+import { WORK_DATE_TYPES, SHIFT_VALUES } from '../constants/globalSkyFlowValues';
+import { WORK_SCHEDULE_VALUES, LADDER_WORK_DURATIONS } from '../constants/workSchedule';
+import { MAX_SEARCH_RADIUS_KM } from '../constants/location';
+import { parseDateOnly, resolveWorkDate, toWorkShift } from '../utils/workSchedule';
+
+// Fee inputs, shared by create, update and the fee preview
+const priceAdjustmentSchema = z.number()
+  .int()
+  .min(PRICE_ADJUSTMENT_MIN, `Price adjustment must be at least ${PRICE_ADJUSTMENT_MIN}`)
+  .max(PRICE_ADJUSTMENT_MAX, `Price adjustment must be at most ${PRICE_ADJUSTMENT_MAX}`)
+  .multipleOf(PRICE_ADJUSTMENT_STEP, `Price adjustment must be in ${PRICE_ADJUSTMENT_STEP} KRW steps`);
+const movingFeeSchema = z.number()
+  .min(LADDER_MOVING_FEE.min, `Moving fee must be at least ${LADDER_MOVING_FEE.min}`)
+  .max(LADDER_MOVING_FEE.max, `Moving fee must be at most ${LADDER_MOVING_FEE.max}`);
+const onSiteFeeSchema = z.number()
+  .min(LADDER_ON_SITE_FEE.min, `On-site fee must be at least ${LADDER_ON_SITE_FEE.min}`)
+  .max(LADDER_ON_SITE_FEE.max, `On-site fee must be at most ${LADDER_ON_SITE_FEE.max}`);
+
+// Schedule inputs, shared by create and update
+const workDateSchema = z.string().refine((value) => parseDateOnly(value) !== null, 'Work date must be a valid date (YYYY-MM-DD)');
+const arrivalTimeSchema = z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Arrival time must be in HH:MM format (e.g. "06:30", "14:30")');
+const ladderWorkDurationSchema = z.enum(LADDER_WORK_DURATIONS);
+const ladderWorkHoursSchema = z.number().int().min(1, 'Work hours must be at least 1').max(24, 'Work hours must be at most 24');
+const customHoursSchema = z.number().int().min(1, 'Custom hours must be at least 1').max(24, 'Custom hours must be at most 24');
 
 export const createJobPostSchema = z.object({
   type: z.nativeEnum(JobPostType),
@@ -19,8 +50,8 @@ export const createJobPostSchema = z.object({
   overallHeight: z.string().optional(),
   
   // Ladder Work Schedule (for ON_SITE type)
-  ladderWorkDuration: z.string().optional(),
-  ladderWorkHours: z.number().int().min(1, 'Work hours must be at least 1').max(24, 'Work hours must be at most 24').optional(),
+  ladderWorkDuration: ladderWorkDurationSchema.optional(),
+  ladderWorkHours: ladderWorkHoursSchema.optional(),
   
   // Ladder Options (Optional for LADDER category) - Will be saved in JobPostOptions table
   options: z.object({
@@ -30,21 +61,23 @@ export const createJobPostSchema = z.object({
   }).optional(),
   
   // Ladder-specific pricing
-  movingFee: z.number().min(0, 'Moving fee must be at least 0').optional(),
-  onSiteFee: z.number().min(0, 'On-site fee must be at least 0').optional(),
+  movingFee: movingFeeSchema.optional(),
+  onSiteFee: onSiteFeeSchema.optional(),
   
   // Work Details
-  workDateType: z.string(),
-  arrivalTime: z.string(),
-  workSchedule: z.string().optional(),
-  customHours: z.number().optional(),
+  workDateType: z.enum(WORK_DATE_TYPES),
+  workDate: workDateSchema.optional(),
+  arrivalTime: arrivalTimeSchema,
+  workSchedule: z.enum(WORK_SCHEDULE_VALUES).optional(),
+  customHours: customHoursSchema.optional(),
+  shift: z.enum(SHIFT_VALUES).optional(),
   
   // Work Schedule Details
   
   // Pricing
   workCost: z.number().min(0, 'Work cost must be at least 0'),
   isNightWork: z.boolean().optional(),
-  priceAdjustment: z.number().optional(),
+  priceAdjustment: priceAdjustmentSchema.optional(),
   
   // Payment
   paymentMethod: z.nativeEnum(PaymentMethod),
@@ -52,6 +85,7 @@ export const createJobPostSchema = z.object({
   
   // Fee Structure
   withFee: z.boolean(),
+  // Deprecated - computed by the fee engine, still accepted but ignored
   totalWorkFee: z.number().optional(),
   unitPriceFee: z.number().optional(),
   
@@ -123,12 +157,18 @@ export const createJobPostSchema = z.object({
 }).refine((data) => {
   // workDateType is required for Global/Designated/Community -> Ladder flows
   if ((data.type === 'GLOBAL' || data.type === 'DESIGNATED' || data.type === 'COMMUNITY') && data.category === 'LADDER') {
-    return data.workDateType !== undefined && data.workDateType !== '';
+    return data.workDateType !== undefined;
   }
   return true; // workDateType is optional for other flows
 }, {
   message: "Work date type is required for ladder job posts",
   path: ["workDateType"]
+}).refine((data) => {
+  // workDate is required when a custom date is chosen
+  return data.workDateType !== 'CUSTOM_DATE' || data.workDate !== undefined;
+}, {
+  message: "Work date is required for CUSTOM_DATE",
+  path: ["workDate"]
 }).refine((data) => {
   // arrivalTime is required for Global/Designated/Community -> Ladder flows
   if ((data.type === 'GLOBAL' || data.type === 'DESIGNATED' || data.type === 'COMMUNITY') && data.category === 'LADDER') {
@@ -141,7 +181,7 @@ export const createJobPostSchema = z.object({
 }).refine((data) => {
   // workSchedule is required for Global/Designated/Community -> Ladder -> ON_SITE flows only
   if ((data.type === 'GLOBAL' || data.type === 'DESIGNATED' || data.type === 'COMMUNITY') && data.category === 'LADDER' && data.ladderType === 'ON_SITE') {
-    return data.workSchedule !== undefined && data.workSchedule !== '';
+    return data.workSchedule !== undefined;
   }
   return true; // workSchedule is optional for other flows
 }, {
@@ -212,73 +252,211 @@ export const createJobPostSchema = z.object({
   path: ["deliveryInfo"]
 });
 
+// Every field is optional and null clears an optional one; the merged result is
+// re-validated against createJobPostSchema
 export const updateJobPostSchema = z.object({
   category: z.nativeEnum(JobPostCategory).optional(),
   
   // Equipment Selection (Required for SKY, not needed for LADDER)
-  equipmentType: z.string().optional(),
-  equipmentLengths: z.array(z.number()).min(1, 'At least one equipment length is required').optional(),
+  equipmentType: z.string().nullable().optional(),
+  equipmentLengths: z.array(z.number()).min(1, 'At least one equipment length is required').nullable().optional(),
   
   // Ladder-specific fields (for LADDER category)
-  ladderType: z.nativeEnum(LadderType).optional(),
-  machineType: z.string().optional(),
-  luggageVolume: z.string().optional(),
-  workFloor: z.string().optional(),
-  overallHeight: z.string().optional(),
+  ladderType: z.nativeEnum(LadderType).nullable().optional(),
+  machineType: z.string().nullable().optional(),
+  luggageVolume: z.string().nullable().optional(),
+  workFloor: z.string().nullable().optional(),
+  overallHeight: z.string().nullable().optional(),
   
   // Ladder Work Schedule (for ON_SITE type)
-  ladderWorkDuration: z.string().optional(),
-  ladderWorkHours: z.number().int().min(1, 'Work hours must be at least 1').max(24, 'Work hours must be at most 24').optional(),
+  ladderWorkDuration: ladderWorkDurationSchema.nullable().optional(),
+  ladderWorkHours: ladderWorkHoursSchema.nullable().optional(),
   
   // Ladder Options (Optional for LADDER category) - Will be saved in JobPostOptions table
   options: z.object({
-    loadingUnloadingService: z.string().optional(),  // Accepts any string
-    travelDistance: z.string().optional(),             // Accepts any string  
-    dumpService: z.boolean().optional(),              // Boolean option
-  }).optional(),
+    loadingUnloadingService: z.string().nullable().optional(),  // Accepts any string
+    travelDistance: z.string().nullable().optional(),             // Accepts any string  
+    dumpService: z.boolean().optional(),                         // Boolean option
+  }).nullable().optional(),
   
   // Ladder-specific pricing
-  movingFee: z.number().min(0, 'Moving fee must be at least 0').optional(),
-  onSiteFee: z.number().min(0, 'On-site fee must be at least 0').optional(),
+  movingFee: movingFeeSchema.nullable().optional(),
+  onSiteFee: onSiteFeeSchema.nullable().optional(),
   
   // Work Details
-  workDateType: z.string(),
-  arrivalTime: z.string(),
-  workSchedule: z.string().optional(),
-  customHours: z.number().optional(),
+  workDateType: z.enum(WORK_DATE_TYPES).optional(),
+  workDate: workDateSchema.nullable().optional(),
+  arrivalTime: arrivalTimeSchema.optional(),
+  workSchedule: z.enum(WORK_SCHEDULE_VALUES).nullable().optional(),
+  customHours: customHoursSchema.nullable().optional(),
+  shift: z.enum(SHIFT_VALUES).nullable().optional(),
   
   // Work Schedule Details
   
   // Pricing
-  workCost: z.number().min(0, 'Work cost must be at least 0'),
+  workCost: z.number().min(0, 'Work cost must be at least 0').optional(),
   isNightWork: z.boolean().optional(),
-  priceAdjustment: z.number().optional(),
+  priceAdjustment: priceAdjustmentSchema.nullable().optional(),
   
   // Payment
-  paymentMethod: z.nativeEnum(PaymentMethod),
-  expectedPaymentDate: z.string(),
+  paymentMethod: z.nativeEnum(PaymentMethod).optional(),
+  expectedPaymentDate: z.string().optional(),
   
   // Fee Structure
-  withFee: z.boolean(),
+  withFee: z.boolean().optional(),
+  // Deprecated - computed by the fee engine, still accepted but ignored
   totalWorkFee: z.number().optional(),
   unitPriceFee: z.number().optional(),
   
   // Community Fee Structure (for COMMUNITY type)
-  communityWorkFee: z.number().min(0).max(100).optional(),
-  communitySupportFee: z.number().min(0).max(100).optional(),
+  communityWorkFee: z.number().min(0).max(100).nullable().optional(),
+  communitySupportFee: z.number().min(0).max(100).nullable().optional(),
   
   // Location and Contact
-  siteAddress: z.string(),
-  contactNumber: z.string(),
+  siteAddress: z.string().optional(),
+  contactNumber: z.string().optional(),
   
   // Work Information
-  workContents: z.string(),
-  deliveryInfo: z.string(),
+  workContents: z.string().nullable().optional(),
+  deliveryInfo: z.string().optional(),
+}).strict();
+
+// Query string helpers for GET /job-posts (all query values arrive as strings)
+const queryBoolean = z.enum(['true', 'false']).transform((value) => value === 'true');
+
+const queryList = (message: string) => z.string()
+  .transform((value) => value.split(',').map((item) => item.trim()).filter((item) => item !== ''))
+  .pipe(z.array(z.string()).min(1, message));
+
+// arrivalTime is still accepted as an alias of scheduledStartAt
+export const JOB_POST_SORT_FIELDS = ['createdAt', 'workCost', 'scheduledStartAt', 'arrivalTime'] as const;
+
+// Sorting and cursor pagination, shared by every job post list
+const jobPostPageFields = {
+  sortBy: z.enum(JOB_POST_SORT_FIELDS).default('createdAt')
+    .transform((field) => field === 'arrivalTime' ? 'scheduledStartAt' : field),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+  limit: z.coerce.number().int().min(1, 'Limit must be at least 1').max(100, 'Limit must be at most 100').default(20),
+  cursor: z.coerce.number().int().positive('Cursor must be a job post ID').optional(),
+};
+
+export const jobPostPageSchema = z.object(jobPostPageFields).strict();
+
+// Designation candidates and suitable operators, e.g. ?verifiedOnly=true
+export const operatorFiltersSchema = z.object({
+  verifiedOnly: queryBoolean.optional(),
 }).strict();
 
 export const jobPostFiltersSchema = z.object({
   type: z.nativeEnum(JobPostType).optional(),
   category: z.nativeEnum(JobPostCategory).optional(),
+  communityId: z.coerce.number().int().positive('Community ID must be a positive number').optional(),
+  authorId: z.coerce.number().int().positive('Author ID must be a positive number').optional(),
+  
+  // Comma-separated, e.g. ?status=OPEN,ASSIGNED
+  status: queryList('At least one status is required').pipe(z.array(z.nativeEnum(JobPostStatus))).optional(),
+  
+  // Equipment filters
+  equipmentType: z.string().min(1).optional(),
+  // Comma-separated; matches posts whose lengths contain every given value
+  equipmentLengths: queryList('At least one equipment length is required')
+    .pipe(z.array(z.string().regex(/^[1-9][0-9]*$/, 'Equipment length must be a positive number').transform(Number))).optional(),
+  ladderType: z.nativeEnum(LadderType).optional(),
+  
+  // Payment and pricing filters
+  paymentMethod: z.nativeEnum(PaymentMethod).optional(),
+  isNightWork: queryBoolean.optional(),
+  withFee: queryBoolean.optional(),
+  minWorkCost: z.coerce.number().min(0, 'Minimum work cost must be at least 0').optional(),
+  maxWorkCost: z.coerce.number().min(0, 'Maximum work cost must be at least 0').optional(),
+  
+  // Created date range (ISO 8601)
+  createdFrom: z.coerce.date().optional(),
+  createdTo: z.coerce.date().optional(),
+  
+  // Schedule filters, e.g. ?workDate=TOMORROW&shift=morning
+  workDate: z.string().refine((value) => resolveWorkDate(value) !== null, 'Work date must be TODAY, TOMORROW or a date (YYYY-MM-DD)').optional(),
+  shift: z.enum(SHIFT_VALUES).transform(toWorkShift).optional(),
+  scheduledFrom: z.coerce.date().optional(),
+  scheduledTo: z.coerce.date().optional(),
+  
+  // Location filters - ?regionCode=11&districtCode=11680, or ?radiusKm=20 around
+  // latitude/longitude (defaults to the user's home base)
+  regionCode: z.string().regex(/^[0-9]{2}$/, 'Region code must be 2 digits').optional(),
+  districtCode: z.string().regex(/^[0-9]{5}$/, 'District code must be 5 digits').optional(),
+  latitude: z.coerce.number().min(-90).max(90).optional(),
+  longitude: z.coerce.number().min(-180).max(180).optional(),
+  radiusKm: z.coerce.number().positive('Radius must be greater than 0').max(MAX_SEARCH_RADIUS_KM, `Radius must be at most ${MAX_SEARCH_RADIUS_KM} km`).optional(),
+  
+  // Sorting and cursor pagination
+  ...jobPostPageFields,
+}).strict().refine((data) => {
+  return data.minWorkCost === undefined || data.maxWorkCost === undefined || data.minWorkCost <= data.maxWorkCost;
+}, {
+  message: 'Minimum work cost must not be greater than maximum work cost',
+  path: ['minWorkCost']
+}).refine((data) => {
+  return data.createdFrom === undefined || data.createdTo === undefined || data.createdFrom <= data.createdTo;
+}, {
+  message: 'createdFrom must not be after createdTo',
+  path: ['createdFrom']
+}).refine((data) => {
+  return data.scheduledFrom === undefined || data.scheduledTo === undefined || data.scheduledFrom <= data.scheduledTo;
+}, {
+  message: 'scheduledFrom must not be after scheduledTo',
+  path: ['scheduledFrom']
+}).refine((data) => {
+  return (data.latitude === undefined) === (data.longitude === undefined);
+}, {
+  message: 'latitude and longitude must be given together',
+  path: ['latitude']
+}).refine((data) => {
+  return data.latitude === undefined || data.radiusKm !== undefined;
+}, {
+  message: 'radiusKm is required when searching around a point',
+  path: ['radiusKm']
+});
+
+export const assignJobPostSchema = z.object({
+  assignedUserId: z.number().int().positive('Assigned user ID must be a positive number'),
+}).strict();
+
+export const declineDesignationSchema = z.object({
+  reason: z.string().max(500, 'Reason must be less than 500 characters').optional(),
+}).strict();
+
+export const redesignateJobPostSchema = z.object({
+  designatedUserId: z.number().int().positive('Designated user ID must be a positive number'),
+}).strict();
+
+export const cancelJobPostSchema = z.object({
+  reason: z.string().max(500, 'Reason must be less than 500 characters').optional(),
+}).strict();
+
+export const feePreviewSchema = z.object({
+  type: z.nativeEnum(JobPostType),
+  category: z.nativeEnum(JobPostCategory),
   communityId: z.number().optional(),
-  authorId: z.number().optional(),
-}).strict();
\ No newline at end of file
+  ladderType: z.nativeEnum(LadderType).optional(),
+  
+  // Pricing
+  workCost: z.number().min(0, 'Work cost must be at least 0'),
+  priceAdjustment: priceAdjustmentSchema.optional(),
+  isNightWork: z.boolean().optional(),
+  withFee: z.boolean(),
+  
+  // Ladder-specific pricing and schedule
+  movingFee: movingFeeSchema.optional(),
+  onSiteFee: onSiteFeeSchema.optional(),
+  ladderWorkDuration: ladderWorkDurationSchema.optional(),
+  ladderWorkHours: ladderWorkHoursSchema.optional(),
+  
+  // Community rates (%) - defaults to the community settings
+  communityWorkFee: z.number().min(0).max(100).optional(),
+  communitySupportFee: z.number().min(0).max(100).optional(),
+}).strict().refine((data) => {
+  return data.type !== JobPostType.COMMUNITY || data.communityId !== undefined;
+}, {
+  message: 'Community ID is required for community job posts',
+  path: ['communityId']
+});